@@ -0,0 +1,64 @@
+// scripts/reencrypt-tokens.ts
+
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { TokenEncryptionService } from 'src/application/services/auth/token-encryption.service';
+import { WebhookTargetEntity } from 'src/domain/entities/webhook-target.entity';
+import { WebhookDeliveryEntity } from 'src/domain/entities/webhook-delivery.entity';
+import { databaseOptions } from 'src/infra/config/database.options';
+import { WebhookRepository } from 'src/infra/repositories/notifications/webhook.repository';
+import { CredentialsModule } from 'src/modules/credentials/credentials.module';
+
+/**
+ * Contexto mínimo do script: só o banco, a cifra e os repositórios que
+ * guardam dados cifrados. O AppModule não é usado para não iniciar o
+ * agendador dos monitores, a renovação de tokens, o digest por e-mail e a
+ * retomada de webhooks.
+ */
+@Module({
+  imports: [
+    ConfigModule.forRoot({ isGlobal: true }),
+    TypeOrmModule.forRoot(databaseOptions),
+    TypeOrmModule.forFeature([WebhookTargetEntity, WebhookDeliveryEntity]),
+    CredentialsModule,
+  ],
+  providers: [TokenEncryptionService, WebhookRepository],
+})
+class ReencryptTokensModule {}
+
+/**
+ * Script para re-cifrar os tokens (e os segredos de webhook) do banco depois
+ * de uma rotação de chave.
+ *
+ * Uso:
+ *   1) adicione a nova chave em TOKEN_ENCRYPTION_KEYS (ex.: "1:AAAA...,2:BBBB...");
+ *   2) aponte TOKEN_ENCRYPTION_ACTIVE_KEY para a nova versão;
+ *   3) rode `npm run tokens:reencrypt`;
+ *   4) só então remova a chave antiga de TOKEN_ENCRYPTION_KEYS.
+ */
+async function reencryptTokens() {
+  // 1) Cria apenas o contexto mínimo (sem servidor HTTP nem jobs)
+  const app = await NestFactory.createApplicationContext(
+    ReencryptTokensModule,
+    { logger: ['error', 'warn', 'log'] },
+  );
+
+  // 2) Re-cifra as credenciais que ainda usam outra chave
+  const updated = await app.get(TokenEncryptionService).reencryptAll();
+  console.log(`🔐 ${updated} credencial(is) re-cifrada(s) com a chave ativa.`);
+
+  // 3) Re-cifra os segredos HMAC dos webhooks
+  const secrets = await app.get(WebhookRepository).reencryptSecrets(false);
+  console.log(`🔐 ${secrets} segredo(s) de webhook re-cifrado(s).`);
+
+  // 4) Fecha a aplicação para encerrar o processo deste script
+  await app.close();
+}
+
+reencryptTokens().catch((err) => {
+  console.error('❌ Erro ao re-cifrar tokens:', err);
+  process.exit(1);
+});
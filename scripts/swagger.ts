@@ -36,6 +36,9 @@ async function generateSwaggerJson() {
     .setTitle('Jira Monitor API')
     .setDescription('API para monitorar filas do Jira via OAuth 2.0 (3LO)')
     .setVersion('1.0.0')
+    // Chave de API (x-api-key) exigida pelo ApiAuthGuard; a sessão do OAuth também vale
+    .addApiKey({ type: 'apiKey', in: 'header', name: 'x-api-key' }, 'api-key')
+    .addSecurityRequirements('api-key')
     .build();
 
   // 4) Gera o documento OpenAPI (leitura de decorators, DTOs, controllers etc.)
@@ -0,0 +1,93 @@
+// src/adapters/controllers/auth/api-key.controller.ts
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Logger,
+  Param,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiOkResponse,
+  ApiCreatedResponse,
+  ApiResponse,
+} from '@nestjs/swagger';
+
+import { AuthPrincipal } from '@domain/auth/auth-principal';
+import { ApiKeyService } from '@app/services/auth/api-key.service';
+import { CreateApiKeyDto } from '@dtos/auth/create-api-key.dto';
+import { ApiKeyDto, CreatedApiKeyDto } from '@dtos/auth/api-key.dto';
+import { CurrentPrincipal } from '@adapters/decorators/current-principal.decorator';
+import { RequireScope } from '@adapters/decorators/auth.decorators';
+
+@ApiTags('Auth')
+@RequireScope('admin')
+@Controller('jira/auth/api-keys')
+export class ApiKeyController {
+  private readonly logger = new Logger(ApiKeyController.name);
+
+  constructor(private readonly apiKeyService: ApiKeyService) {}
+
+  /**
+   * POST /jira/auth/api-keys
+   */
+  @ApiOperation({
+    summary: 'Emitir chave de API',
+    description:
+      'Gera uma chave para chamar a API via header x-api-key. A chave completa só é exibida nesta resposta.',
+  })
+  @ApiCreatedResponse({ type: CreatedApiKeyDto })
+  @ApiResponse({ status: 400, description: 'Nome ou escopos inválidos.' })
+  @ApiResponse({
+    status: 403,
+    description: 'Tentativa de emitir chave para outro usuário.',
+  })
+  @Post()
+  async create(
+    @Body() dto: CreateApiKeyDto,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ): Promise<CreatedApiKeyDto> {
+    this.logger.log(`Requisição POST /jira/auth/api-keys - name="${dto.name}"`);
+    return this.apiKeyService.createKey(dto, principal);
+  }
+
+  /**
+   * GET /jira/auth/api-keys
+   */
+  @ApiOperation({
+    summary: 'Listar chaves de API',
+    description:
+      'Lista as chaves do usuário autenticado (ou todas, para chamadores de serviço), sem o valor da chave.',
+  })
+  @ApiOkResponse({ type: [ApiKeyDto] })
+  @Get()
+  async list(
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ): Promise<ApiKeyDto[]> {
+    return this.apiKeyService.listKeys(principal);
+  }
+
+  /**
+   * DELETE /jira/auth/api-keys/:id
+   */
+  @ApiOperation({
+    summary: 'Revogar chave de API',
+    description: 'A chave deixa de ser aceita imediatamente.',
+  })
+  @ApiResponse({ status: 204, description: 'Chave revogada.' })
+  @ApiResponse({ status: 404, description: 'Chave não encontrada.' })
+  @Delete(':id')
+  @HttpCode(204)
+  async revoke(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ): Promise<void> {
+    this.logger.log(`Requisição DELETE /jira/auth/api-keys/${id}`);
+    await this.apiKeyService.revokeKey(id, principal);
+  }
+}
@@ -1,17 +1,39 @@
 // src/adapters/controllers/auth/jira-auth.controller.ts
 
-import { Controller, Get, Req, Res, Logger } from '@nestjs/common'; // ▶️ import Logger
+import {
+  Controller,
+  Get,
+  Post,
+  Req,
+  Res,
+  Logger, // ▶️ import Logger
+  NotFoundException,
+} from '@nestjs/common';
 import { Request, Response } from 'express';
 
-import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiOkResponse,
+  ApiQuery,
+} from '@nestjs/swagger';
 import { AuthService } from '@app/services/auth/auth.service';
+import { LogoutService } from '@app/services/auth/logout.service';
+import { CurrentUserId } from '@adapters/decorators/current-user-id.decorator';
+import { Public } from '@adapters/decorators/auth.decorators';
+import { JiraUserDto } from '@dtos/auth/jira-user.dto';
+import { LogoutResponseDto } from '@dtos/auth/logout-response.dto';
 
 @ApiTags('Auth')
 @Controller('jira/auth')
 export class JiraAuthController {
   private readonly logger = new Logger(JiraAuthController.name); // ▶️ instância de Logger
 
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly logoutService: LogoutService,
+  ) {}
 
   /**
    * GET /jira/auth/install
@@ -20,7 +42,7 @@ export class JiraAuthController {
   @ApiOperation({
     summary: 'Inicia o fluxo OAuth 2.0 (3LO) do Jira',
     description:
-      'Gera um state para proteção CSRF, define userId na sessão e redireciona o navegador para a URL de autorização do Jira.',
+      'Gera um state para proteção CSRF e redireciona o navegador para a URL de autorização do Jira. O usuário é identificado no callback.',
   })
   @ApiResponse({
     status: 302,
@@ -32,6 +54,7 @@ export class JiraAuthController {
     description:
       'Erro interno (por exemplo, falha ao montar a URL de autorização).',
   })
+  @Public()
   @Get('install')
   async install(@Req() req: Request, @Res() res: Response) {
     this.logger.log('Iniciando /jira/auth/install'); // ▶️ log de entrada
@@ -47,13 +70,8 @@ export class JiraAuthController {
     session.jiraOAuthState = state;
     this.logger.debug(`State salvo na sessão: ${session.jiraOAuthState}`); // ▶️ log
 
-    // 4) Garante que exista userId (dentro de session)
-    if (!session.userId) {
-      session.userId = 'default';
-      this.logger.log('Nenhum userId na sessão; definindo como "default"'); // ▶️ log
-    } else {
-      this.logger.debug(`userId existente na sessão: ${session.userId}`); // ▶️ log
-    }
+    // 4) O userId não é definido aqui: ele vem da identidade Atlassian (GET /me)
+    //    obtida no /oauth/callback, após a troca do code por tokens.
 
     // 5) Constrói a URL de autorização e redireciona
     const authUrl = this.authService.buildAuthorizationUrl(state);
@@ -62,4 +80,61 @@ export class JiraAuthController {
     ); // ▶️ log
     return res.redirect(authUrl);
   }
+
+  /**
+   * GET /jira/auth/me
+   * Retorna a identidade Atlassian do usuário conectado nesta sessão.
+   */
+  @ApiOperation({
+    summary: 'Usuário conectado',
+    description:
+      'Retorna o accountId, nome e e-mail do usuário que concluiu o OAuth nesta sessão.',
+  })
+  @ApiOkResponse({ type: JiraUserDto })
+  @ApiResponse({ status: 400, description: 'Nenhum usuário na sessão.' })
+  @ApiResponse({ status: 404, description: 'Usuário não encontrado.' })
+  @Get('me')
+  async me(@CurrentUserId() userId: string): Promise<JiraUserDto> {
+    this.logger.log(`Requisição GET /jira/auth/me - userId="${userId}"`);
+    const user = await this.authService.findUser(userId);
+    if (!user) {
+      throw new NotFoundException(`Usuário "${userId}" não encontrado.`);
+    }
+    return {
+      accountId: user.accountId,
+      displayName: user.displayName,
+      email: user.email,
+      avatarUrl: user.avatarUrl,
+      lastLoginAt: user.lastLoginAt,
+    };
+  }
+
+  /**
+   * POST /jira/auth/logout
+   * Desconecta a conta do Jira do usuário da sessão (ou do userId informado).
+   */
+  @ApiOperation({
+    summary: 'Desconectar a conta do Jira',
+    description:
+      'Limpa os dados do Jira da sessão, apaga a credencial (tokens e sites) e pausa os monitores do usuário. Retorna o que foi removido.',
+  })
+  @ApiQuery({
+    name: 'userId',
+    required: false,
+    description:
+      'Identificador das credenciais (accountId). Se omitido, o usuário conectado na sessão.',
+  })
+  @ApiOkResponse({ type: LogoutResponseDto })
+  @ApiResponse({ status: 400, description: 'Usuário não identificado.' })
+  @Post('logout')
+  async logout(
+    @CurrentUserId() userId: string,
+    @Req() req: Request,
+  ): Promise<LogoutResponseDto> {
+    this.logger.log(`Requisição POST /jira/auth/logout - userId="${userId}"`);
+    return this.logoutService.logout(
+      userId,
+      req.session as Record<string, any> | undefined,
+    );
+  }
 }
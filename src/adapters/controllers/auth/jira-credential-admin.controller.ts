@@ -0,0 +1,120 @@
+// src/adapters/controllers/auth/jira-credential-admin.controller.ts
+
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Logger,
+  Param,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiOkResponse,
+  ApiResponse,
+} from '@nestjs/swagger';
+
+import { AuthPrincipal } from '@domain/auth/auth-principal';
+import { CredentialAdminService } from '@app/services/auth/credential-admin.service';
+import { CredentialAdminDto } from '@dtos/auth/credential-admin.dto';
+import { LogoutResponseDto } from '@dtos/auth/logout-response.dto';
+import { CurrentPrincipal } from '@adapters/decorators/current-principal.decorator';
+import { RequireScope } from '@adapters/decorators/auth.decorators';
+
+@ApiTags('Auth')
+@RequireScope('admin')
+@Controller('jira/admin/credentials')
+export class JiraCredentialAdminController {
+  private readonly logger = new Logger(JiraCredentialAdminController.name);
+
+  constructor(
+    private readonly credentialAdminService: CredentialAdminService,
+  ) {}
+
+  /**
+   * GET /jira/admin/credentials
+   */
+  @ApiOperation({
+    summary: 'Listar credenciais conectadas',
+    description:
+      'Credenciais do usuário autenticado (ou todas, para chamadores de serviço), com o resultado da última renovação e os monitores que as usam. Os tokens nunca são retornados.',
+  })
+  @ApiOkResponse({ type: [CredentialAdminDto] })
+  @Get()
+  async list(
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ): Promise<CredentialAdminDto[]> {
+    this.logger.log('Requisição GET /jira/admin/credentials');
+    return this.credentialAdminService.listCredentials(principal);
+  }
+
+  /**
+   * GET /jira/admin/credentials/:userId
+   */
+  @ApiOperation({ summary: 'Consultar credencial' })
+  @ApiOkResponse({ type: CredentialAdminDto })
+  @ApiResponse({ status: 404, description: 'Credencial não encontrada.' })
+  @Get(':userId')
+  async get(
+    @Param('userId') userId: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ): Promise<CredentialAdminDto> {
+    this.logger.log(`Requisição GET /jira/admin/credentials/${userId}`);
+    return this.credentialAdminService.getCredential(userId, principal);
+  }
+
+  /**
+   * POST /jira/admin/credentials/:userId/refresh
+   */
+  @ApiOperation({
+    summary: 'Forçar renovação do token',
+    description:
+      'Renova o token OAuth agora, mesmo que ainda não esteja perto de expirar, e retorna a credencial atualizada.',
+  })
+  @ApiOkResponse({ type: CredentialAdminDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Credencial por API token ou PAT, sem token renovável.',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Refresh token recusado; reconecte a conta pelo OAuth.',
+  })
+  @ApiResponse({ status: 404, description: 'Credencial não encontrada.' })
+  @ApiResponse({
+    status: 503,
+    description: 'Atlassian indisponível ou renovação em andamento.',
+  })
+  @Post(':userId/refresh')
+  @HttpCode(200)
+  async refresh(
+    @Param('userId') userId: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ): Promise<CredentialAdminDto> {
+    this.logger.log(
+      `Requisição POST /jira/admin/credentials/${userId}/refresh`,
+    );
+    return this.credentialAdminService.refreshCredential(userId, principal);
+  }
+
+  /**
+   * DELETE /jira/admin/credentials/:userId
+   */
+  @ApiOperation({
+    summary: 'Remover credencial',
+    description:
+      'Pausa os monitores do usuário e apaga a credencial com os seus sites (como no logout, sem mexer em sessões).',
+  })
+  @ApiOkResponse({ type: LogoutResponseDto })
+  @ApiResponse({ status: 404, description: 'Credencial não encontrada.' })
+  @Delete(':userId')
+  async remove(
+    @Param('userId') userId: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ): Promise<LogoutResponseDto> {
+    this.logger.log(`Requisição DELETE /jira/admin/credentials/${userId}`);
+    return this.credentialAdminService.deleteCredential(userId, principal);
+  }
+}
@@ -0,0 +1,53 @@
+// src/adapters/controllers/auth/jira-credential.controller.ts
+
+import { Body, Controller, Logger, Post } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiCreatedResponse,
+  ApiResponse,
+} from '@nestjs/swagger';
+
+import { AuthPrincipal } from '@domain/auth/auth-principal';
+import { JiraTokenCredentialService } from '@app/services/auth/jira-token-credential.service';
+import { RegisterTokenCredentialDto } from '@dtos/auth/register-token-credential.dto';
+import { TokenCredentialDto } from '@dtos/auth/token-credential.dto';
+import { CurrentPrincipal } from '@adapters/decorators/current-principal.decorator';
+
+@ApiTags('Auth')
+@Controller('jira/auth/credentials')
+export class JiraCredentialController {
+  private readonly logger = new Logger(JiraCredentialController.name);
+
+  constructor(
+    private readonly tokenCredentialService: JiraTokenCredentialService,
+  ) {}
+
+  /**
+   * POST /jira/auth/credentials
+   */
+  @ApiOperation({
+    summary: 'Cadastrar credencial por API token ou PAT',
+    description:
+      'Alternativa ao OAuth para contas de serviço: valida o token em /rest/api/2/myself e grava a credencial, que passa a ser usada pelos monitores com este userId.',
+  })
+  @ApiCreatedResponse({ type: TokenCredentialDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Campos inválidos ou token recusado pelo Jira.',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'userId de outro usuário que não o autenticado.',
+  })
+  @Post()
+  async register(
+    @Body() dto: RegisterTokenCredentialDto,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ): Promise<TokenCredentialDto> {
+    this.logger.log(
+      `Requisição POST /jira/auth/credentials - authType="${dto.authType}"`,
+    );
+    return this.tokenCredentialService.register(dto, principal);
+  }
+}
@@ -0,0 +1,77 @@
+// src/adapters/controllers/auth/jira-site.controller.ts
+
+import { Body, Controller, Get, Logger, Put } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiOkResponse,
+  ApiResponse,
+  ApiQuery,
+} from '@nestjs/swagger';
+
+import { JiraSiteService } from '@app/services/auth/jira-site.service';
+import { JiraSiteDto } from '@dtos/auth/jira-site.dto';
+import { SelectJiraSitesDto } from '@dtos/auth/select-jira-sites.dto';
+import { CurrentUserId } from '@adapters/decorators/current-user-id.decorator';
+
+@ApiTags('Auth')
+@Controller('jira/auth/sites')
+export class JiraSiteController {
+  private readonly logger = new Logger(JiraSiteController.name);
+
+  constructor(private readonly jiraSiteService: JiraSiteService) {}
+
+  /**
+   * GET /jira/auth/sites?userId=XYZ
+   */
+  @ApiOperation({
+    summary: 'Listar sites do Jira acessíveis',
+    description:
+      'Lista os sites (cloudIds) liberados no consentimento OAuth da credencial, indicando os ativos e o padrão.',
+  })
+  @ApiQuery({
+    name: 'userId',
+    required: false,
+    description:
+      'Identificador das credenciais (accountId). Se omitido, o usuário conectado na sessão.',
+  })
+  @ApiOkResponse({ type: [JiraSiteDto] })
+  @ApiResponse({ status: 404, description: 'Credencial não encontrada.' })
+  @Get()
+  async list(@CurrentUserId() userId: string): Promise<JiraSiteDto[]> {
+    this.logger.log(`Requisição GET /jira/auth/sites - userId="${userId}"`);
+    return this.jiraSiteService.listSites(userId);
+  }
+
+  /**
+   * PUT /jira/auth/sites/active
+   */
+  @ApiOperation({
+    summary: 'Selecionar sites ativos',
+    description:
+      'Define quais sites da credencial podem ser usados pelos monitores e consultas.',
+  })
+  @ApiQuery({
+    name: 'userId',
+    required: false,
+    description:
+      'Identificador das credenciais (accountId). Se omitido, o usuário conectado na sessão.',
+  })
+  @ApiOkResponse({ type: [JiraSiteDto] })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Lista vazia, site não acessível pela credencial ou usuário não identificado.',
+  })
+  @ApiResponse({ status: 404, description: 'Credencial não encontrada.' })
+  @Put('active')
+  async selectActive(
+    @CurrentUserId() userId: string,
+    @Body() dto: SelectJiraSitesDto,
+  ): Promise<JiraSiteDto[]> {
+    this.logger.log(
+      `Requisição PUT /jira/auth/sites/active - userId="${userId}"`,
+    );
+    return this.jiraSiteService.selectActiveSites(userId, dto.cloudIds);
+  }
+}
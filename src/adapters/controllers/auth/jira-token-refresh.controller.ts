@@ -0,0 +1,38 @@
+// src/adapters/controllers/auth/jira-token-refresh.controller.ts
+
+import { Controller, Get, Logger } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiOkResponse } from '@nestjs/swagger';
+
+import { AuthPrincipal } from '@domain/auth/auth-principal';
+import { TokenRefreshSweeperService } from '@app/services/auth/token-refresh-sweeper.service';
+import { TokenRefreshStateDto } from '@dtos/auth/token-refresh-state.dto';
+import { CurrentPrincipal } from '@adapters/decorators/current-principal.decorator';
+import { RequireScope } from '@adapters/decorators/auth.decorators';
+
+@ApiTags('Auth')
+@RequireScope('admin')
+@Controller('jira/admin/token-refresh')
+export class JiraTokenRefreshController {
+  private readonly logger = new Logger(JiraTokenRefreshController.name);
+
+  constructor(
+    private readonly tokenRefreshSweeper: TokenRefreshSweeperService,
+  ) {}
+
+  /**
+   * GET /jira/admin/token-refresh
+   */
+  @ApiOperation({
+    summary: 'Situação da renovação de tokens',
+    description:
+      'Para cada credencial do usuário autenticado (ou todas, para chamadores de serviço): expiração, se entra na próxima varredura, última renovação e falhas seguidas. Inclui a configuração e o resumo da última varredura.',
+  })
+  @ApiOkResponse({ type: TokenRefreshStateDto })
+  @Get()
+  async getState(
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ): Promise<TokenRefreshStateDto> {
+    this.logger.log('Requisição GET /jira/admin/token-refresh');
+    return this.tokenRefreshSweeper.getState(principal);
+  }
+}
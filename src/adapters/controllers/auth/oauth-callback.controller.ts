@@ -14,6 +14,7 @@ import { Request, Response } from 'express';
 // 1) Importa decoradores do Swagger
 import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
 import { AuthService } from '@app/services/auth/auth.service';
+import { Public } from '@adapters/decorators/auth.decorators';
 
 @ApiTags('Auth') // 2) Agrupa este controller na seção “Auth”
 @Controller('oauth')
@@ -29,7 +30,7 @@ export class OauthCallbackController {
   @ApiOperation({
     summary: 'Callback do OAuth 2.0 (Jira)',
     description:
-      'Recebe query params `code` e `state` do Jira, valida o state contra a sessão e troca o código por tokens. Persiste os tokens no banco.',
+      'Recebe query params `code` e `state` do Jira, valida o state contra a sessão, troca o código por tokens e identifica o usuário (accountId Atlassian). Persiste os tokens no banco e grava o userId na sessão.',
   })
   // 3) Documenta os query params esperados
   @ApiQuery({
@@ -45,7 +46,7 @@ export class OauthCallbackController {
   @ApiResponse({
     status: 200,
     description:
-      'Autorização concluída com sucesso; retorna cloudId e expiresIn.',
+      'Autorização concluída com sucesso; retorna userId (accountId), displayName, cloudId (site padrão), sites acessíveis e expiresIn.',
   })
   @ApiResponse({
     status: 400,
@@ -56,6 +57,7 @@ export class OauthCallbackController {
     status: 500,
     description: 'Erro interno durante a troca de tokens ou persistência.',
   })
+  @Public()
   @Get('callback')
   async callback(
     @Query('code') code: string,
@@ -80,32 +82,25 @@ export class OauthCallbackController {
     this.logger.log('State validado com sucesso.'); // ▶️ log
     delete session.jiraOAuthState;
 
-    // 2) Obtém userId da sessão (definido no JiraAuthController.install)
-    const userId = session.userId;
-    if (!userId) {
-      this.logger.error('userId não encontrado na sessão.'); // ▶️ log
-      throw new BadRequestException('userId não encontrado na sessão.');
-    }
-    this.logger.debug(`userId obtido da sessão: ${userId}`); // ▶️ log
-
-    // 3) Chama o AuthService para trocar o code por tokens e persistir no banco
+    // 2) Chama o AuthService para trocar o code por tokens, identificar o
+    //    usuário (accountId) e persistir no banco
     try {
       this.logger.log(
         'Chamando AuthService.handleCallback para troca de tokens.',
       ); // ▶️ log
-      const { cloudId, expiresIn } = await this.authService.handleCallback(
-        code,
-        session,
-        userId,
-      );
+      const { userId, displayName, cloudId, sites, expiresIn } =
+        await this.authService.handleCallback(code, session);
       this.logger.log(
-        `Tokens trocados com sucesso. cloudId: ${cloudId}, expiresIn: ${expiresIn}`,
+        `Tokens trocados com sucesso. userId: ${userId}, cloudId: ${cloudId}, expiresIn: ${expiresIn}`,
       ); // ▶️ log
 
-      // 4) Retorna JSON com dados não sensíveis ao front-end
+      // 3) Retorna JSON com dados não sensíveis ao front-end
       return res.json({
         message: 'Autorização concluída com sucesso!',
+        userId,
+        displayName,
         cloudId,
+        sites,
         expiresIn,
       });
     } catch (error) {
@@ -0,0 +1,108 @@
+// src/adapters/controllers/health/health.controller.ts
+
+import { Controller, Get, HttpStatus, Res } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Response } from 'express';
+
+import { HealthService } from '@services/health/health.service';
+import {
+  HealthReportDto,
+  HealthSummaryDto,
+} from '@dtos/health/health-report.dto';
+import {
+  GlobalResource,
+  Public,
+  RequireScope,
+} from '@adapters/decorators/auth.decorators';
+
+/**
+ * Probes de liveness/readiness do container e página de status em JSON.
+ * /health e /ready são públicas e devolvem só o resumo das verificações;
+ * mudam apenas as condições que resultam em 503. O relatório completo
+ * (usuários, monitores, sites e erros) fica em /health/details, restrito a
+ * chamadores de serviço com escopo admin.
+ */
+@ApiTags('Health')
+@Controller()
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  /**
+   * GET /health
+   */
+  @ApiOperation({
+    summary: 'Liveness e status',
+    description:
+      'Situação do banco, dos tokens, dos polls e do alcance da API do Jira. Responde 503 apenas com o banco inacessível; polls falhando ou atrasados aparecem como status "degraded".',
+  })
+  @ApiResponse({ status: 200, type: HealthSummaryDto })
+  @ApiResponse({
+    status: 503,
+    type: HealthSummaryDto,
+    description: 'Banco de dados inacessível.',
+  })
+  @Public()
+  @Get('health')
+  async health(
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<HealthSummaryDto> {
+    const report = await this.healthService.getReport();
+    if (report.status === 'down') {
+      res.status(HttpStatus.SERVICE_UNAVAILABLE);
+    }
+    return this.healthService.summarize(report);
+  }
+
+  /**
+   * GET /ready
+   */
+  @ApiOperation({
+    summary: 'Readiness',
+    description:
+      'Mesmo resumo de /health; responde 503 se o banco estiver inacessível ou nenhum site do Jira responder (verificação reaproveitada por HEALTH_JIRA_CACHE_SECONDS).',
+  })
+  @ApiResponse({ status: 200, type: HealthSummaryDto })
+  @ApiResponse({
+    status: 503,
+    type: HealthSummaryDto,
+    description: 'Banco inacessível ou nenhum site do Jira alcançável.',
+  })
+  @Public()
+  @Get('ready')
+  async ready(
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<HealthSummaryDto> {
+    const report = await this.healthService.getReport();
+    if (!this.healthService.isReady(report)) {
+      res.status(HttpStatus.SERVICE_UNAVAILABLE);
+    }
+    return this.healthService.summarize(report);
+  }
+
+  /**
+   * GET /health/details
+   */
+  @ApiOperation({
+    summary: 'Relatório de saúde completo',
+    description:
+      'Credenciais (userId, expiração, erro da última renovação), última execução de cada monitor e resultado de cada site do Jira. Exige escopo admin de um chamador de serviço (ADMIN_API_KEY ou chave sem userId).',
+  })
+  @ApiResponse({ status: 200, type: HealthReportDto })
+  @ApiResponse({
+    status: 503,
+    type: HealthReportDto,
+    description: 'Banco de dados inacessível.',
+  })
+  @RequireScope('admin')
+  @GlobalResource()
+  @Get('health/details')
+  async details(
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<HealthReportDto> {
+    const report = await this.healthService.getReport();
+    if (report.status === 'down') {
+      res.status(HttpStatus.SERVICE_UNAVAILABLE);
+    }
+    return report;
+  }
+}
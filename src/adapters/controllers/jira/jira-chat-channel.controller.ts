@@ -0,0 +1,162 @@
+// src/adapters/controllers/jira/jira-chat-channel.controller.ts
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Logger,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiOkResponse,
+  ApiCreatedResponse,
+  ApiResponse,
+  ApiQuery,
+} from '@nestjs/swagger';
+
+import { ChatNotificationService } from '@services/notifications/chat-notification.service';
+import { CreateChatChannelDto } from '@dtos/notifications/create-chat-channel.dto';
+import { UpdateChatChannelDto } from '@dtos/notifications/update-chat-channel.dto';
+import { ChatChannelDto } from '@dtos/notifications/chat-channel.dto';
+import { MonitorDefinitionService } from '@services/queue-monitor/monitor-definition.service';
+import { AuthPrincipal } from '@domain/auth/auth-principal';
+import { CurrentUserId } from '@adapters/decorators/current-user-id.decorator';
+import { CurrentPrincipal } from '@adapters/decorators/current-principal.decorator';
+import { GlobalResource } from '@adapters/decorators/auth.decorators';
+
+@ApiTags('Jira Monitor - Chat')
+@GlobalResource()
+@Controller('jira/monitor/channels')
+export class JiraChatChannelController {
+  private readonly logger = new Logger(JiraChatChannelController.name);
+
+  constructor(
+    private readonly chatService: ChatNotificationService,
+    private readonly monitorDefinitionService: MonitorDefinitionService,
+  ) {}
+
+  /**
+   * POST /jira/monitor/channels
+   * Registra um incoming webhook do Slack ou do Teams.
+   */
+  @ApiOperation({
+    summary: 'Registrar canal de chat (Slack/Teams)',
+    description:
+      'Cadastra um incoming webhook que receberá os eventos de issue formatados como Block Kit (Slack) ou Adaptive Card (Teams).',
+  })
+  @ApiCreatedResponse({ type: ChatChannelDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Provedor, URL ou tipo de evento inválido.',
+  })
+  @Post()
+  async create(@Body() dto: CreateChatChannelDto): Promise<ChatChannelDto> {
+    this.logger.log(
+      `Requisição POST /jira/monitor/channels - provider="${dto.provider}"`,
+    );
+    return this.chatService.createChannel(dto);
+  }
+
+  /**
+   * GET /jira/monitor/channels
+   */
+  @ApiOperation({ summary: 'Listar canais de chat' })
+  @ApiOkResponse({ type: [ChatChannelDto] })
+  @Get()
+  async list(): Promise<ChatChannelDto[]> {
+    return this.chatService.listChannels();
+  }
+
+  /**
+   * PATCH /jira/monitor/channels/:id
+   */
+  @ApiOperation({
+    summary: 'Atualizar canal de chat',
+    description: 'Altera apenas os campos informados no corpo.',
+  })
+  @ApiOkResponse({ type: ChatChannelDto })
+  @ApiResponse({ status: 404, description: 'Canal não encontrado.' })
+  @Patch(':id')
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateChatChannelDto,
+  ): Promise<ChatChannelDto> {
+    this.logger.log(`Requisição PATCH /jira/monitor/channels/${id}`);
+    return this.chatService.updateChannel(id, dto);
+  }
+
+  /**
+   * DELETE /jira/monitor/channels/:id
+   */
+  @ApiOperation({ summary: 'Remover canal de chat' })
+  @ApiResponse({ status: 204, description: 'Canal removido.' })
+  @ApiResponse({ status: 404, description: 'Canal não encontrado.' })
+  @Delete(':id')
+  @HttpCode(204)
+  async remove(@Param('id') id: string): Promise<void> {
+    this.logger.log(`Requisição DELETE /jira/monitor/channels/${id}`);
+    await this.chatService.deleteChannel(id);
+  }
+
+  /**
+   * POST /jira/monitor/channels/:id/summary?monitorId=... (ou ?userId=XYZ&jql=...)
+   * Envia ao canal um resumo da fila consultada na hora.
+   */
+  @ApiOperation({
+    summary: 'Enviar resumo da fila para um canal',
+    description:
+      'Consulta o Jira com a definição do monitor (ou com o JQL avulso informado) e envia ao canal o total, a contagem por status e as issues mais antigas.',
+  })
+  @ApiQuery({
+    name: 'monitorId',
+    required: false,
+    description: 'Monitor cuja fila será resumida',
+  })
+  @ApiQuery({
+    name: 'userId',
+    required: false,
+    description:
+      'Identificador das credenciais (accountId). Se omitido, o usuário conectado na sessão.',
+  })
+  @ApiQuery({
+    name: 'jql',
+    required: false,
+    description: 'Consulta JQL (obrigatória se monitorId não for informado)',
+  })
+  @ApiOkResponse({
+    schema: {
+      example: { message: 'Resumo com 5 issues enviado para "#suporte".' },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Sem monitorId, faltou o jql ou o usuário.',
+  })
+  @ApiResponse({ status: 404, description: 'Canal ou monitor não encontrado.' })
+  @GlobalResource(false) // Só publica no canal; o monitor é do chamador
+  @Post(':id/summary')
+  @HttpCode(200)
+  async sendSummary(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @Query('monitorId') monitorId?: string,
+    @CurrentUserId({ optional: true }) userId?: string,
+    @Query('jql') jql?: string,
+  ): Promise<{ message: string }> {
+    this.logger.log(
+      `Requisição POST /jira/monitor/channels/${id}/summary - monitorId="${monitorId}", userId="${userId}"`,
+    );
+    if (monitorId) {
+      // 404 também para monitores de outro usuário
+      await this.monitorDefinitionService.getMonitor(monitorId, principal);
+    }
+    return this.chatService.sendSummary(id, { monitorId, userId, jql });
+  }
+}
@@ -0,0 +1,53 @@
+// src/adapters/controllers/jira/jira-email.controller.ts
+
+import { Controller, HttpCode, Logger, Post } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiOkResponse,
+  ApiResponse,
+} from '@nestjs/swagger';
+
+import { EmailNotificationService } from '@services/notifications/email-notification.service';
+import { GlobalResource } from '@adapters/decorators/auth.decorators';
+
+@ApiTags('Jira Monitor - E-mail')
+@GlobalResource()
+@Controller('jira/monitor/email')
+export class JiraEmailController {
+  private readonly logger = new Logger(JiraEmailController.name);
+
+  constructor(private readonly emailService: EmailNotificationService) {}
+
+  /**
+   * POST /jira/monitor/email/digest
+   * Dispara o digest por e-mail imediatamente, sem esperar o cron.
+   */
+  @ApiOperation({
+    summary: 'Enviar o digest da fila por e-mail agora',
+    description:
+      'Consulta o Jira e envia para EMAIL_DIGEST_TO o digest (contagem por status, issues mais antigas e novas do período).',
+  })
+  @ApiOkResponse({
+    schema: {
+      example: {
+        message: 'Digest daily com 5 issues enviado para 2 destinatário(s).',
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'EMAIL_DIGEST_TO sem destinatários.',
+  })
+  @ApiResponse({
+    status: 500,
+    description: 'Erro ao consultar o Jira ou ao enviar o e-mail.',
+  })
+  @ApiResponse({ status: 503, description: 'SMTP não configurado.' })
+  @Post('digest')
+  @HttpCode(200)
+  async sendDigest(): Promise<{ message: string }> {
+    this.logger.log('Requisição POST /jira/monitor/email/digest');
+    return this.emailService.sendDigest();
+  }
+}
@@ -0,0 +1,221 @@
+// src/adapters/controllers/jira/jira-monitor-definition.controller.ts
+
+import {
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  Logger,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiOkResponse,
+  ApiCreatedResponse,
+  ApiResponse,
+} from '@nestjs/swagger';
+
+import { MonitorDefinitionService } from '@services/queue-monitor/monitor-definition.service';
+import { MonitorSchedulerService } from '@services/queue-monitor/monitor-scheduler.service';
+import { CreateMonitorDefinitionDto } from '@dtos/jira/create-monitor-definition.dto';
+import { UpdateMonitorDefinitionDto } from '@dtos/jira/update-monitor-definition.dto';
+import { MonitorDefinitionDto } from '@dtos/jira/monitor-definition.dto';
+import { AuthPrincipal, canActAs } from '@domain/auth/auth-principal';
+import { CurrentPrincipal } from '@adapters/decorators/current-principal.decorator';
+
+@ApiTags('Jira Monitor - Monitores')
+@Controller('jira/monitor/definitions')
+export class JiraMonitorDefinitionController {
+  private readonly logger = new Logger(JiraMonitorDefinitionController.name);
+
+  constructor(
+    private readonly monitorService: MonitorDefinitionService,
+    private readonly scheduler: MonitorSchedulerService,
+  ) {}
+
+  /**
+   * POST /jira/monitor/definitions
+   */
+  @ApiOperation({
+    summary: 'Criar monitor',
+    description:
+      'Cadastra uma fila observada por um job agendado próprio: JQL, credencial, agenda (cron ou intervalo) e filtro de status.',
+  })
+  @ApiCreatedResponse({ type: MonitorDefinitionDto })
+  @ApiResponse({
+    status: 400,
+    description: 'JQL ausente, credencial inexistente ou cron inválido.',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'userId de outro usuário que não o autenticado.',
+  })
+  @ApiResponse({ status: 409, description: 'Nome de monitor já usado.' })
+  @Post()
+  async create(
+    @Body() dto: CreateMonitorDefinitionDto,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ): Promise<MonitorDefinitionDto> {
+    this.logger.log(
+      `Requisição POST /jira/monitor/definitions - name="${dto.name}"`,
+    );
+    // Sem userId no corpo, o monitor pertence ao usuário autenticado
+    dto.userId = dto.userId || principal.userId || '';
+    this.assertCanActAs(principal, dto.userId);
+    return this.monitorService.createMonitor(dto);
+  }
+
+  /**
+   * GET /jira/monitor/definitions
+   */
+  @ApiOperation({
+    summary: 'Listar monitores',
+    description:
+      'Lista os monitores do usuário autenticado (ou todos, para chamadores de serviço).',
+  })
+  @ApiOkResponse({ type: [MonitorDefinitionDto] })
+  @Get()
+  async list(
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ): Promise<MonitorDefinitionDto[]> {
+    return this.monitorService.listMonitors(principal.userId ?? undefined);
+  }
+
+  /**
+   * GET /jira/monitor/definitions/:id
+   */
+  @ApiOperation({ summary: 'Detalhar monitor' })
+  @ApiOkResponse({ type: MonitorDefinitionDto })
+  @ApiResponse({ status: 404, description: 'Monitor não encontrado.' })
+  @Get(':id')
+  async get(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ): Promise<MonitorDefinitionDto> {
+    return this.monitorService.getMonitor(id, principal);
+  }
+
+  /**
+   * PATCH /jira/monitor/definitions/:id
+   */
+  @ApiOperation({
+    summary: 'Atualizar monitor',
+    description: 'Altera apenas os campos informados no corpo.',
+  })
+  @ApiOkResponse({ type: MonitorDefinitionDto })
+  @ApiResponse({ status: 404, description: 'Monitor não encontrado.' })
+  @Patch(':id')
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateMonitorDefinitionDto,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ): Promise<MonitorDefinitionDto> {
+    this.logger.log(`Requisição PATCH /jira/monitor/definitions/${id}`);
+    await this.monitorService.getMonitor(id, principal);
+    this.assertCanActAs(principal, dto.userId);
+    return this.monitorService.updateMonitor(id, dto);
+  }
+
+  /**
+   * DELETE /jira/monitor/definitions/:id
+   */
+  @ApiOperation({
+    summary: 'Remover monitor',
+    description: 'O histórico de polls do monitor é mantido.',
+  })
+  @ApiResponse({ status: 204, description: 'Monitor removido.' })
+  @ApiResponse({ status: 404, description: 'Monitor não encontrado.' })
+  @Delete(':id')
+  @HttpCode(204)
+  async remove(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ): Promise<void> {
+    this.logger.log(`Requisição DELETE /jira/monitor/definitions/${id}`);
+    await this.monitorService.getMonitor(id, principal);
+    await this.monitorService.deleteMonitor(id);
+  }
+
+  /**
+   * POST /jira/monitor/definitions/:id/pause
+   */
+  @ApiOperation({
+    summary: 'Pausar monitor',
+    description: 'Remove o job agendado do monitor (enabled=false).',
+  })
+  @ApiOkResponse({ type: MonitorDefinitionDto })
+  @ApiResponse({ status: 404, description: 'Monitor não encontrado.' })
+  @Post(':id/pause')
+  @HttpCode(200)
+  async pause(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ): Promise<MonitorDefinitionDto> {
+    this.logger.log(`Requisição POST /jira/monitor/definitions/${id}/pause`);
+    await this.monitorService.getMonitor(id, principal);
+    return this.monitorService.setEnabled(id, false);
+  }
+
+  /**
+   * POST /jira/monitor/definitions/:id/resume
+   */
+  @ApiOperation({
+    summary: 'Retomar monitor',
+    description: 'Registra novamente o job agendado do monitor (enabled=true).',
+  })
+  @ApiOkResponse({ type: MonitorDefinitionDto })
+  @ApiResponse({ status: 404, description: 'Monitor não encontrado.' })
+  @Post(':id/resume')
+  @HttpCode(200)
+  async resume(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ): Promise<MonitorDefinitionDto> {
+    this.logger.log(`Requisição POST /jira/monitor/definitions/${id}/resume`);
+    await this.monitorService.getMonitor(id, principal);
+    return this.monitorService.setEnabled(id, true);
+  }
+
+  /**
+   * POST /jira/monitor/definitions/:id/run
+   */
+  @ApiOperation({
+    summary: 'Executar monitor agora',
+    description:
+      'Roda o poll completo do monitor (snapshot e eventos) fora da agenda, mesmo se pausado.',
+  })
+  @ApiOkResponse({
+    schema: { example: { message: 'Monitor "Fila OMNIJS" executado.' } },
+  })
+  @ApiResponse({ status: 404, description: 'Monitor não encontrado.' })
+  @ApiResponse({ status: 409, description: 'Monitor já em execução.' })
+  @Post(':id/run')
+  @HttpCode(200)
+  async run(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ): Promise<{ message: string }> {
+    this.logger.log(`Requisição POST /jira/monitor/definitions/${id}/run`);
+    await this.monitorService.getMonitor(id, principal);
+    return this.scheduler.runNow(id);
+  }
+
+  /**
+   * Impede que um usuário crie ou mova monitores para credenciais de outro.
+   */
+  private assertCanActAs(
+    principal: AuthPrincipal,
+    userId: string | undefined,
+  ): void {
+    if (userId && !canActAs(principal, userId)) {
+      throw new ForbiddenException(
+        `Sem permissão para usar as credenciais de userId="${userId}".`,
+      );
+    }
+  }
+}
@@ -0,0 +1,72 @@
+// src/adapters/controllers/jira/jira-monitor-run.controller.ts
+
+import { Controller, Get, Query } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiOkResponse,
+  ApiQuery,
+  ApiResponse,
+} from '@nestjs/swagger';
+
+import {
+  MonitorRunQuery,
+  MonitorRunService,
+} from '@services/queue-monitor/monitor-run.service';
+import { MonitorRunPageDto } from '@dtos/jira/monitor-run.dto';
+import { AuthPrincipal } from '@domain/auth/auth-principal';
+import { CurrentPrincipal } from '@adapters/decorators/current-principal.decorator';
+
+@ApiTags('Jira Monitor - Execuções')
+@Controller('jira/monitor/runs')
+export class JiraMonitorRunController {
+  constructor(private readonly monitorRunService: MonitorRunService) {}
+
+  /**
+   * GET /jira/monitor/runs?monitorId=...&outcome=failure&from=...&to=...&page=1&limit=50
+   */
+  @ApiOperation({
+    summary: 'Listar execuções de monitores',
+    description:
+      'Log de auditoria das execuções (agendadas e sob demanda), da mais recente para a mais antiga: duração, chamadas ao Jira, issues, renovação de token e erro. Chamadores ligados a um usuário veem apenas as próprias execuções.',
+  })
+  @ApiQuery({ name: 'monitorId', required: false })
+  @ApiQuery({ name: 'userId', required: false })
+  @ApiQuery({ name: 'outcome', required: false, enum: ['success', 'failure'] })
+  @ApiQuery({ name: 'trigger', required: false, enum: ['schedule', 'manual'] })
+  @ApiQuery({
+    name: 'from',
+    required: false,
+    description: 'Início mínimo da execução (ISO 8601).',
+    example: '2025-06-01T02:00:00Z',
+  })
+  @ApiQuery({
+    name: 'to',
+    required: false,
+    description: 'Início máximo da execução (ISO 8601).',
+    example: '2025-06-01T04:00:00Z',
+  })
+  @ApiQuery({ name: 'page', required: false, example: 1 })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    example: 50,
+    description: 'Itens por página (máximo 200).',
+  })
+  @ApiOkResponse({ type: MonitorRunPageDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Filtro, data ou paginação inválidos.',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'userId de outro usuário que não o autenticado.',
+  })
+  @Get()
+  async list(
+    @Query() query: MonitorRunQuery,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ): Promise<MonitorRunPageDto> {
+    return this.monitorRunService.listRuns(query, principal);
+  }
+}
@@ -1,13 +1,18 @@
 // src/adapters/controllers/jira/jira-monitor.controller.ts
 
 import {
+  BadRequestException,
   Controller,
   Get,
+  HttpException,
   InternalServerErrorException,
+  Param,
   Query,
   Logger, // ▶️ import Logger
 } from '@nestjs/common';
 import { JiraQueueMonitorService } from '@services/queue-monitor/jira-queue-monitor.service';
+import { MonitorDefinitionService } from '@services/queue-monitor/monitor-definition.service';
+import { TokenRefreshSweeperService } from '@services/auth/token-refresh-sweeper.service';
 
 // Decorators do Swagger
 import {
@@ -19,43 +24,87 @@ import {
 } from '@nestjs/swagger';
 
 import { ProcessedIssuesResponseDto } from '@dtos/jira/processed-issues-response.dto';
+import { statusFilterFromCsv } from '@domain/filters/status-filter';
+import { AuthPrincipal } from '@domain/auth/auth-principal';
+import { JiraApiError } from '@domain/errors/jira-api.errors';
+import { errorMessage } from '@infra/errors/error-message';
+import { CurrentUserId } from '@adapters/decorators/current-user-id.decorator';
+import { CurrentPrincipal } from '@adapters/decorators/current-principal.decorator';
+import { RequireScope } from '@adapters/decorators/auth.decorators';
 
 @ApiTags('Jira Monitor')
 @Controller('jira/monitor')
 export class JiraMonitorController {
   private readonly logger = new Logger(JiraMonitorController.name); // ▶️ instância de Logger
 
-  constructor(private readonly jiraMonitorService: JiraQueueMonitorService) {}
+  constructor(
+    private readonly jiraMonitorService: JiraQueueMonitorService,
+    private readonly monitorDefinitionService: MonitorDefinitionService,
+    private readonly tokenRefreshSweeper: TokenRefreshSweeperService,
+  ) {}
 
   /**
-   * GET /jira/monitor/fetch?userId=XYZ&jql=...
-   * Executa a busca de issues no Jira usando o JQL fornecido (ou o padrão),
-   * processa e retorna o JSON tratado.
+   * GET /jira/monitor/fetch?userId=XYZ&jql=...&excludeStatusCategories=done
+   * Executa a busca de issues no Jira usando o JQL fornecido (obrigatório),
+   * processa e retorna o JSON tratado. Os parâmetros exclude* substituem o
+   * filtro de status do monitor apenas nesta chamada.
    */
   @ApiOperation({
     summary: 'Buscar e processar issues do Jira com JQL dinâmico',
     description:
-      'Consulta o Jira usando o JQL informado (ou o padrão do projeto OMNIJS), filtra, agrupa e retorna resumo das issues.',
+      'Consulta o Jira usando o JQL informado, filtra, agrupa e retorna resumo das issues. Para consultar uma fila cadastrada, use GET /jira/monitor/:monitorId/fetch.',
   })
   @ApiQuery({
     name: 'userId',
     required: false,
-    description: 'Identificador das credenciais (ex.: "default")',
+    description:
+      'Identificador das credenciais (accountId). Se omitido, o usuário conectado na sessão.',
   })
   @ApiQuery({
     name: 'jql',
+    required: true,
+    description:
+      'Consulta JQL completa (ex.: project = "OMNIJS" ORDER BY created DESC)',
+  })
+  @ApiQuery({
+    name: 'cloudId',
+    required: false,
+    description:
+      'Site (cloudId) a consultar, entre os ativos da credencial. Se omitido, o site padrão.',
+  })
+  @ApiQuery({
+    name: 'excludeStatuses',
+    required: false,
+    description:
+      'Nomes de status a excluir, separados por vírgula (ex.: "Done,Cancelled"). Vazio = não excluir por nome.',
+  })
+  @ApiQuery({
+    name: 'excludeStatusIds',
+    required: false,
+    description: 'IDs de status a excluir, separados por vírgula.',
+  })
+  @ApiQuery({
+    name: 'excludeStatusCategories',
     required: false,
     description:
-      'Consulta JQL completa. Se omitido, usa: project = "OMNIJS" ORDER BY created DESC',
+      'Categorias de status a excluir (new, indeterminate, done), separadas por vírgula.',
   })
   @ApiOkResponse({
     description:
-      'Retorna objeto contendo total, lista de issues e contagem por status',
+      'Retorna objeto contendo total, lista de issues, contagem por status e contagem das excluídas',
     type: ProcessedIssuesResponseDto,
   })
   @ApiResponse({
     status: 400,
-    description: 'Parâmetro inválido (ex.: JQL malformado)',
+    description: 'Parâmetro inválido (ex.: JQL ausente ou recusado pelo Jira)',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Token do Jira expirado ou inválido (reconecte a conta)',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Limite de requisições do Jira atingido (veja Retry-After)',
   })
   @ApiResponse({
     status: 500,
@@ -63,18 +112,34 @@ export class JiraMonitorController {
   })
   @Get('fetch')
   async fetchIssues(
-    @Query('userId') userId?: string,
+    @CurrentUserId() effectiveUserId: string,
     @Query('jql') jql?: string,
+    @Query('cloudId') cloudId?: string,
+    @Query('excludeStatuses') excludeStatuses?: string,
+    @Query('excludeStatusIds') excludeStatusIds?: string,
+    @Query('excludeStatusCategories') excludeStatusCategories?: string,
   ): Promise<ProcessedIssuesResponseDto> {
-    const effectiveUserId = userId || 'default';
+    // Sem nenhum parâmetro exclude*, o service usa o filtro do monitor
+    const statusFilter =
+      statusFilterFromCsv(
+        excludeStatuses,
+        excludeStatusIds,
+        excludeStatusCategories,
+      ) ?? undefined;
     this.logger.log(
       `Requisição GET /jira/monitor/fetch - userId="${effectiveUserId}", jql="${jql}"`,
     ); // ▶️ log de entrada
+    if (!jql) {
+      throw new BadRequestException(
+        'O parâmetro "jql" é obrigatório; para uma fila cadastrada use /jira/monitor/:monitorId/fetch.',
+      );
+    }
     try {
-      // Se não recebeu JQL, passamos undefined para que o service use o padrão
       const result = await this.jiraMonitorService.fetchAndProcessIssues(
         effectiveUserId,
         jql,
+        statusFilter,
+        cloudId,
       );
       this.logger.log(
         `fetchIssues concluído para userId="${effectiveUserId}", total=${result.total}`,
@@ -82,53 +147,124 @@ export class JiraMonitorController {
       return result;
     } catch (error) {
       this.logger.error(
-        `Erro ao buscar/processar issues para userId="${effectiveUserId}": ${error.message}`,
+        `Erro ao buscar/processar issues para userId="${effectiveUserId}": ${errorMessage(error)}`,
       ); // ▶️ log de erro
+      if (error instanceof HttpException || error instanceof JiraApiError) {
+        throw error;
+      }
+      throw new InternalServerErrorException(
+        `Falha ao buscar/processar issues para userId="${effectiveUserId}": ${errorMessage(error)}`,
+      );
+    }
+  }
+
+  /**
+   * GET /jira/monitor/:monitorId/fetch
+   * Executa na hora a consulta de um monitor cadastrado (JQL, credencial e
+   * filtro de status do monitor), sem gravar snapshot nem publicar eventos.
+   */
+  @ApiOperation({
+    summary: 'Buscar e processar issues de um monitor',
+    description:
+      'Consulta o Jira com a definição do monitor e retorna o mesmo resumo de /jira/monitor/fetch.',
+  })
+  @ApiOkResponse({ type: ProcessedIssuesResponseDto })
+  @ApiResponse({ status: 404, description: 'Monitor não encontrado.' })
+  @ApiResponse({
+    status: 500,
+    description: 'Erro interno ao processar a requisição',
+  })
+  @Get(':monitorId/fetch')
+  async fetchMonitorIssues(
+    @Param('monitorId') monitorId: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+  ): Promise<ProcessedIssuesResponseDto> {
+    this.logger.log(`Requisição GET /jira/monitor/${monitorId}/fetch`);
+    // 404 também para monitores de outro usuário
+    await this.monitorDefinitionService.getMonitor(monitorId, principal);
+    try {
+      const result =
+        await this.jiraMonitorService.fetchMonitorIssues(monitorId);
+      this.logger.log(
+        `fetchMonitorIssues concluído para monitorId="${monitorId}", total=${result.total}`,
+      );
+      return result;
+    } catch (error) {
+      this.logger.error(
+        `Erro ao buscar/processar issues do monitor "${monitorId}": ${errorMessage(error)}`,
+      );
+      if (error instanceof HttpException || error instanceof JiraApiError) {
+        throw error;
+      }
       throw new InternalServerErrorException(
-        `Falha ao buscar/processar issues para userId="${effectiveUserId}": ${error.message}`,
+        `Falha ao buscar/processar issues do monitor "${monitorId}": ${errorMessage(error)}`,
       );
     }
   }
 
   /**
-   * GET /jira/monitor/refresh-token
-   * Força a renovação do token do Jira para userId="default".
-   * Se o token não estiver perto de expirar, não altera nada.
+   * GET /jira/monitor/refresh-token?userId=XYZ
+   * Força a verificação/renovação do token do Jira do usuário informado (ou do
+   * usuário da sessão). Se o token não expirar dentro da janela de renovação
+   * (JIRA_TOKEN_REFRESH_WINDOW_SECONDS), não altera nada.
    */
   @ApiOperation({
     summary: 'Forçar renovação manual do token do Jira',
     description:
-      'Invoca o método que verifica o token e renova se estiver quase expirado. Retorna mensagem de sucesso ou informa que não era necessário renovar.',
+      'Renova o token se ele expirar dentro da janela de renovação (JIRA_TOKEN_REFRESH_WINDOW_SECONDS). Retorna mensagem de sucesso, de falha (detalhada em GET /jira/admin/token-refresh) ou informa que não era necessário renovar. Para renovar independentemente da janela, use POST /jira/admin/credentials/{userId}/refresh.',
+  })
+  @ApiQuery({
+    name: 'userId',
+    required: false,
+    description:
+      'Identificador das credenciais (accountId). Se omitido, o usuário conectado na sessão.',
   })
   @ApiOkResponse({
-    description: 'Token renovado com sucesso ou já estava válido.',
+    description: 'Token renovado, já válido ou falha registrada.',
     schema: {
-      example: { message: 'Token renovado ou já estava válido.' },
+      example: { message: 'Token renovado.' },
     },
   })
+  @ApiResponse({ status: 403, description: 'Exige o escopo "admin".' })
   @ApiResponse({
     status: 500,
     description: 'Erro interno ao tentar renovar o token.',
   })
+  @RequireScope('admin')
   @Get('refresh-token')
-  async refreshTokenManually(): Promise<{ message: string }> {
-    const userId = 'default';
+  async refreshTokenManually(
+    @CurrentUserId() userId: string,
+  ): Promise<{ message: string }> {
     this.logger.log(
       `Requisição GET /jira/monitor/refresh-token - userId="${userId}"`,
     ); // ▶️ log de entrada
     try {
-      // Chama o método que checa e renova o token se necessário
-      await this.jiraMonitorService.checkAndRefreshToken();
+      // Renova o token se estiver dentro da janela de renovação
+      const { refreshed, failed } =
+        await this.tokenRefreshSweeper.sweep(userId);
       this.logger.log(
         `refreshTokenManually concluído para userId="${userId}".`,
       ); // ▶️ log de sucesso
-      return { message: 'Token renovado ou já estava válido.' };
+      if (failed) {
+        return {
+          message:
+            'Falha ao renovar o token; veja GET /jira/admin/token-refresh.',
+        };
+      }
+      return {
+        message: refreshed
+          ? 'Token renovado.'
+          : 'Token já estava válido; nada a renovar.',
+      };
     } catch (error) {
       this.logger.error(
-        `Falha ao renovar token manualmente para userId="${userId}": ${error.message}`,
+        `Falha ao renovar token manualmente para userId="${userId}": ${errorMessage(error)}`,
       ); // ▶️ log de erro
+      if (error instanceof HttpException || error instanceof JiraApiError) {
+        throw error;
+      }
       throw new InternalServerErrorException(
-        `Falha ao renovar token manualmente: ${error.message}`,
+        `Falha ao renovar token manualmente: ${errorMessage(error)}`,
       );
     }
   }
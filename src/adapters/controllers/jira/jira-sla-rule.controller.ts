@@ -0,0 +1,97 @@
+// src/adapters/controllers/jira/jira-sla-rule.controller.ts
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Logger,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiOkResponse,
+  ApiCreatedResponse,
+  ApiResponse,
+} from '@nestjs/swagger';
+
+import { SlaRuleService } from '@services/sla/sla-rule.service';
+import { CreateSlaRuleDto } from '@dtos/jira/create-sla-rule.dto';
+import { UpdateSlaRuleDto } from '@dtos/jira/update-sla-rule.dto';
+import { SlaRuleDto } from '@dtos/jira/sla-rule.dto';
+import { GlobalResource } from '@adapters/decorators/auth.decorators';
+
+@ApiTags('Jira Monitor - SLA')
+@GlobalResource()
+@Controller('jira/monitor/sla-rules')
+export class JiraSlaRuleController {
+  private readonly logger = new Logger(JiraSlaRuleController.name);
+
+  constructor(private readonly slaRuleService: SlaRuleService) {}
+
+  /**
+   * POST /jira/monitor/sla-rules
+   */
+  @ApiOperation({
+    summary: 'Criar regra de SLA',
+    description:
+      'Cadastra uma regra (prioridade/status opcionais + métrica + limite em dias) avaliada a cada consulta. Entre as regras que casam com uma issue, vale a mais severa (breached > warning).',
+  })
+  @ApiCreatedResponse({ type: SlaRuleDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Métrica, limite ou estado inválido.',
+  })
+  @Post()
+  async create(@Body() dto: CreateSlaRuleDto): Promise<SlaRuleDto> {
+    this.logger.log(
+      `Requisição POST /jira/monitor/sla-rules - name="${dto.name}"`,
+    );
+    return this.slaRuleService.createRule(dto);
+  }
+
+  /**
+   * GET /jira/monitor/sla-rules
+   */
+  @ApiOperation({ summary: 'Listar regras de SLA' })
+  @ApiOkResponse({ type: [SlaRuleDto] })
+  @Get()
+  async list(): Promise<SlaRuleDto[]> {
+    return this.slaRuleService.listRules();
+  }
+
+  /**
+   * PATCH /jira/monitor/sla-rules/:id
+   */
+  @ApiOperation({
+    summary: 'Atualizar regra de SLA',
+    description: 'Altera apenas os campos informados no corpo.',
+  })
+  @ApiOkResponse({ type: SlaRuleDto })
+  @ApiResponse({ status: 404, description: 'Regra não encontrada.' })
+  @Patch(':id')
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateSlaRuleDto,
+  ): Promise<SlaRuleDto> {
+    this.logger.log(`Requisição PATCH /jira/monitor/sla-rules/${id}`);
+    return this.slaRuleService.updateRule(id, dto);
+  }
+
+  /**
+   * DELETE /jira/monitor/sla-rules/:id
+   */
+  @ApiOperation({ summary: 'Remover regra de SLA' })
+  @ApiResponse({ status: 204, description: 'Regra removida.' })
+  @ApiResponse({ status: 404, description: 'Regra não encontrada.' })
+  @Delete(':id')
+  @HttpCode(204)
+  async remove(@Param('id') id: string): Promise<void> {
+    this.logger.log(`Requisição DELETE /jira/monitor/sla-rules/${id}`);
+    await this.slaRuleService.deleteRule(id);
+  }
+}
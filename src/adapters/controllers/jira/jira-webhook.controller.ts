@@ -0,0 +1,145 @@
+// src/adapters/controllers/jira/jira-webhook.controller.ts
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Logger,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiOkResponse,
+  ApiCreatedResponse,
+  ApiResponse,
+  ApiQuery,
+} from '@nestjs/swagger';
+
+import { WebhookNotificationService } from '@services/notifications/webhook-notification.service';
+import { CreateWebhookTargetDto } from '@dtos/notifications/create-webhook-target.dto';
+import { UpdateWebhookTargetDto } from '@dtos/notifications/update-webhook-target.dto';
+import { WebhookTargetDto } from '@dtos/notifications/webhook-target.dto';
+import { WebhookDeliveryDto } from '@dtos/notifications/webhook-delivery.dto';
+import { GlobalResource } from '@adapters/decorators/auth.decorators';
+
+@ApiTags('Jira Monitor - Webhooks')
+@GlobalResource()
+@Controller('jira/monitor/webhooks')
+export class JiraWebhookController {
+  private readonly logger = new Logger(JiraWebhookController.name);
+
+  constructor(private readonly webhookService: WebhookNotificationService) {}
+
+  /**
+   * POST /jira/monitor/webhooks
+   * Registra um novo destino de webhook.
+   */
+  @ApiOperation({
+    summary: 'Registrar destino de webhook',
+    description:
+      'Cadastra uma URL que receberá POSTs com os eventos de issue detectados pelo job agendado, com segredo HMAC e filtro de tipos de evento opcionais.',
+  })
+  @ApiCreatedResponse({ type: WebhookTargetDto })
+  @ApiResponse({ status: 400, description: 'URL ou tipo de evento inválido.' })
+  @Post()
+  async create(@Body() dto: CreateWebhookTargetDto): Promise<WebhookTargetDto> {
+    this.logger.log(
+      `Requisição POST /jira/monitor/webhooks - url="${dto.url}"`,
+    );
+    return this.webhookService.createTarget(dto);
+  }
+
+  /**
+   * GET /jira/monitor/webhooks
+   */
+  @ApiOperation({ summary: 'Listar destinos de webhook' })
+  @ApiOkResponse({ type: [WebhookTargetDto] })
+  @Get()
+  async list(): Promise<WebhookTargetDto[]> {
+    return this.webhookService.listTargets();
+  }
+
+  /**
+   * PATCH /jira/monitor/webhooks/:id
+   */
+  @ApiOperation({
+    summary: 'Atualizar destino de webhook',
+    description: 'Altera apenas os campos informados no corpo.',
+  })
+  @ApiOkResponse({ type: WebhookTargetDto })
+  @ApiResponse({ status: 404, description: 'Webhook não encontrado.' })
+  @Patch(':id')
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateWebhookTargetDto,
+  ): Promise<WebhookTargetDto> {
+    this.logger.log(`Requisição PATCH /jira/monitor/webhooks/${id}`);
+    return this.webhookService.updateTarget(id, dto);
+  }
+
+  /**
+   * DELETE /jira/monitor/webhooks/:id
+   */
+  @ApiOperation({
+    summary: 'Remover destino de webhook',
+    description: 'Remove o destino e todo o seu log de entregas.',
+  })
+  @ApiResponse({ status: 204, description: 'Webhook removido.' })
+  @ApiResponse({ status: 404, description: 'Webhook não encontrado.' })
+  @Delete(':id')
+  @HttpCode(204)
+  async remove(@Param('id') id: string): Promise<void> {
+    this.logger.log(`Requisição DELETE /jira/monitor/webhooks/${id}`);
+    await this.webhookService.deleteTarget(id);
+  }
+
+  /**
+   * GET /jira/monitor/webhooks/:id/deliveries?status=failed
+   */
+  @ApiOperation({
+    summary: 'Listar entregas de um webhook',
+    description: 'Retorna as 50 entregas mais recentes do destino.',
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: ['pending', 'succeeded', 'failed'],
+  })
+  @ApiOkResponse({ type: [WebhookDeliveryDto] })
+  @ApiResponse({ status: 400, description: 'Status inválido.' })
+  @ApiResponse({ status: 404, description: 'Webhook não encontrado.' })
+  @Get(':id/deliveries')
+  async listDeliveries(
+    @Param('id') id: string,
+    @Query('status') status?: string,
+  ): Promise<WebhookDeliveryDto[]> {
+    return this.webhookService.listDeliveries(id, status);
+  }
+
+  /**
+   * POST /jira/monitor/webhooks/deliveries/:deliveryId/replay
+   */
+  @ApiOperation({
+    summary: 'Reenviar uma entrega de webhook',
+    description:
+      'Reenvia o mesmo payload ao destino em segundo plano, com o ciclo completo de tentativas.',
+  })
+  @ApiResponse({ status: 202, type: WebhookDeliveryDto })
+  @ApiResponse({ status: 404, description: 'Entrega não encontrada.' })
+  @Post('deliveries/:deliveryId/replay')
+  @HttpCode(202)
+  async replay(
+    @Param('deliveryId') deliveryId: string,
+  ): Promise<WebhookDeliveryDto> {
+    this.logger.log(
+      `Requisição POST /jira/monitor/webhooks/deliveries/${deliveryId}/replay`,
+    );
+    return this.webhookService.replayDelivery(deliveryId);
+  }
+}
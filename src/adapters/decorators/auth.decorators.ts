@@ -0,0 +1,29 @@
+// src/adapters/decorators/auth.decorators.ts
+
+import { SetMetadata } from '@nestjs/common';
+import { ApiKeyScope } from '@domain/auth/auth-principal';
+
+export const IS_PUBLIC_KEY = 'auth:isPublic';
+export const REQUIRED_SCOPE_KEY = 'auth:requiredScope';
+export const GLOBAL_RESOURCE_KEY = 'auth:globalResource';
+
+/**
+ * Libera a rota do ApiAuthGuard (ex.: início e callback do OAuth).
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+
+/**
+ * Define o escopo exigido pela rota. Sem este decorator o guard exige
+ * "read" para GET/HEAD e "admin" para os demais métodos.
+ */
+export const RequireScope = (scope: ApiKeyScope) =>
+  SetMetadata(REQUIRED_SCOPE_KEY, scope);
+
+/**
+ * Marca recursos globais, sem dono (webhooks, canais de chat, regras de SLA...):
+ * nas rotas que exigem "admin", só chamadores de serviço (ADMIN_API_KEY ou
+ * chaves sem userId) passam. Use `GlobalResource(false)` para liberar uma
+ * rota de um controller marcado.
+ */
+export const GlobalResource = (global = true) =>
+  SetMetadata(GLOBAL_RESOURCE_KEY, global);
@@ -0,0 +1,23 @@
+// src/adapters/decorators/current-principal.decorator.ts
+
+import {
+  createParamDecorator,
+  ExecutionContext,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { AuthPrincipal } from '@domain/auth/auth-principal';
+import type { AuthenticatedRequest } from '@adapters/guards/api-auth.guard';
+
+/**
+ * Injeta o chamador autenticado pelo ApiAuthGuard.
+ * Uso: `@CurrentPrincipal() principal: AuthPrincipal`.
+ */
+export const CurrentPrincipal = createParamDecorator(
+  (_: unknown, ctx: ExecutionContext): AuthPrincipal => {
+    const req = ctx.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (!req.principal) {
+      throw new UnauthorizedException('Requisição não autenticada.');
+    }
+    return req.principal;
+  },
+);
@@ -0,0 +1,47 @@
+// src/adapters/decorators/current-user-id.decorator.ts
+
+import {
+  BadRequestException,
+  createParamDecorator,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { canActAs } from '@domain/auth/auth-principal';
+import type { AuthenticatedRequest } from '@adapters/guards/api-auth.guard';
+
+/**
+ * Resolve o usuário (accountId Atlassian) de uma requisição:
+ *  1) query param `userId`, quando informado explicitamente — só aceito se o
+ *     chamador autenticado (req.principal) puder agir por esse usuário;
+ *  2) senão, o usuário do chamador (sessão do OAuth ou dono da chave de API).
+ *
+ * Uso: `@CurrentUserId() userId: string` (400 se não houver usuário) ou
+ * `@CurrentUserId({ optional: true }) userId?: string`.
+ */
+export const CurrentUserId = createParamDecorator(
+  (
+    options: { optional?: boolean } | undefined,
+    ctx: ExecutionContext,
+  ): string | undefined => {
+    const req = ctx.switchToHttp().getRequest<AuthenticatedRequest>();
+    const fromQuery = req.query?.userId;
+    const requested = typeof fromQuery === 'string' ? fromQuery : '';
+    if (requested && req.principal && !canActAs(req.principal, requested)) {
+      throw new ForbiddenException(
+        `Sem permissão para agir como userId="${requested}".`,
+      );
+    }
+
+    // Cast explícito: a tipagem de sessão (express-session.d.ts) não é
+    // carregada quando o código roda via ts-node (scripts/).
+    const session = req.session as { userId?: string } | undefined;
+    const userId =
+      requested || req.principal?.userId || session?.userId || undefined;
+    if (!userId && !options?.optional) {
+      throw new BadRequestException(
+        'Usuário não identificado: informe o parâmetro "userId" ou conecte-se em /jira/auth/install.',
+      );
+    }
+    return userId;
+  },
+);
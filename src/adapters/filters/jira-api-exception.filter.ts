@@ -0,0 +1,68 @@
+// src/adapters/filters/jira-api-exception.filter.ts
+
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { Response } from 'express';
+
+import {
+  JiraApiError,
+  JiraAuthExpiredError,
+  JiraBadRequestError,
+  JiraForbiddenError,
+  JiraRateLimitedError,
+  JiraUnavailableError,
+} from '@domain/errors/jira-api.errors';
+
+/**
+ * Filtro global que converte os erros tipados do JiraHttpClient em respostas
+ * HTTP, no mesmo formato das exceções do Nest ({ statusCode, message, error }):
+ *  - JiraBadRequestError  → 400 (ex.: JQL inválido)
+ *  - JiraAuthExpiredError → 401 (renove o token ou reconecte a conta)
+ *  - JiraForbiddenError   → 403
+ *  - JiraRateLimitedError → 429, com o header Retry-After (segundos)
+ *  - JiraUnavailableError → 503
+ *  - demais JiraApiError  → 502
+ */
+@Catch(JiraApiError)
+export class JiraApiExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(JiraApiExceptionFilter.name);
+
+  catch(exception: JiraApiError, host: ArgumentsHost): void {
+    const response = host.switchToHttp().getResponse<Response>();
+    const statusCode = this.statusOf(exception);
+
+    if (exception instanceof JiraRateLimitedError) {
+      response.setHeader(
+        'Retry-After',
+        String(Math.ceil(exception.retryAfterMs / 1000)),
+      );
+    }
+    this.logger.warn(
+      `${exception.name} (Jira ${exception.status ?? 'sem resposta'}) → ${statusCode}: ${exception.message}`,
+    );
+
+    response.status(statusCode).json({
+      statusCode,
+      message: exception.message,
+      error: exception.name,
+      jiraMessages: exception.jiraMessages,
+    });
+  }
+
+  private statusOf(exception: JiraApiError): number {
+    if (exception instanceof JiraBadRequestError) return HttpStatus.BAD_REQUEST;
+    if (exception instanceof JiraAuthExpiredError)
+      return HttpStatus.UNAUTHORIZED;
+    if (exception instanceof JiraForbiddenError) return HttpStatus.FORBIDDEN;
+    if (exception instanceof JiraRateLimitedError)
+      return HttpStatus.TOO_MANY_REQUESTS;
+    if (exception instanceof JiraUnavailableError)
+      return HttpStatus.SERVICE_UNAVAILABLE;
+    return HttpStatus.BAD_GATEWAY;
+  }
+}
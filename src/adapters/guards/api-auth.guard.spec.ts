@@ -0,0 +1,199 @@
+// src/adapters/guards/api-auth.guard.spec.ts
+
+import {
+  ExecutionContext,
+  ForbiddenException,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+
+import { ApiKeyEntity } from '@domain/entities/api-key.entity';
+import { ApiKeyService } from '@app/services/auth/api-key.service';
+import {
+  GlobalResource,
+  Public,
+  RequireScope,
+} from '@adapters/decorators/auth.decorators';
+import { ApiAuthGuard, AuthenticatedRequest } from './api-auth.guard';
+
+const ADMIN_KEY = 'chave-mestra';
+
+class MonitorsController {
+  list() {}
+  create() {}
+  @Public()
+  health() {}
+  @RequireScope('read')
+  preview() {}
+}
+
+@GlobalResource()
+class WebhooksController {
+  create() {}
+  @GlobalResource(false)
+  test() {}
+}
+
+type Handler = (...args: unknown[]) => unknown;
+
+function contextFor(
+  controller: { prototype: object; name: string },
+  handler: string,
+  req: Partial<AuthenticatedRequest>,
+): ExecutionContext {
+  const request = Object.assign(req, { headers: {}, path: '/teste', ...req });
+  return {
+    getHandler: () =>
+      (controller.prototype as Record<string, Handler>)[handler],
+    getClass: () => controller,
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext;
+}
+
+describe('ApiAuthGuard', () => {
+  let apiKeyService: { validateKey: jest.Mock };
+  let guard: ApiAuthGuard;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    apiKeyService = { validateKey: jest.fn().mockResolvedValue(null) };
+    guard = new ApiAuthGuard(
+      new Reflector(),
+      new ConfigService({ ADMIN_API_KEY: ADMIN_KEY }),
+      apiKeyService as unknown as ApiKeyService,
+    );
+  });
+
+  function userKey(scopes: ApiKeyEntity['scopes'], userId: string | null) {
+    apiKeyService.validateKey.mockResolvedValue(
+      Object.assign(new ApiKeyEntity(), { id: 'key-1', userId, scopes }),
+    );
+    return { headers: { 'x-api-key': 'jqm_chave' } };
+  }
+
+  it('libera rotas públicas sem autenticação', async () => {
+    await expect(
+      guard.canActivate(
+        contextFor(MonitorsController, 'health', { method: 'GET' }),
+      ),
+    ).resolves.toBe(true);
+  });
+
+  it('exige autenticação nas demais rotas', async () => {
+    await expect(
+      guard.canActivate(
+        contextFor(MonitorsController, 'list', { method: 'GET' }),
+      ),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('recusa chave inválida sem cair para a sessão', async () => {
+    const req = {
+      method: 'GET',
+      headers: { authorization: 'Bearer jqm_invalida' },
+      session: { userId: 'user-1' },
+    } as unknown as AuthenticatedRequest;
+
+    await expect(
+      guard.canActivate(contextFor(MonitorsController, 'list', req)),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  describe('resolução do escopo', () => {
+    it('exige "read" em GET e "admin" nos demais métodos', async () => {
+      const readOnly = userKey(['read'], 'user-1');
+
+      await expect(
+        guard.canActivate(
+          contextFor(MonitorsController, 'list', {
+            ...readOnly,
+            method: 'GET',
+          }),
+        ),
+      ).resolves.toBe(true);
+      await expect(
+        guard.canActivate(
+          contextFor(MonitorsController, 'create', {
+            ...readOnly,
+            method: 'POST',
+          }),
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('usa o escopo de @RequireScope no lugar do método', async () => {
+      await expect(
+        guard.canActivate(
+          contextFor(MonitorsController, 'preview', {
+            ...userKey(['read'], 'user-1'),
+            method: 'POST',
+          }),
+        ),
+      ).resolves.toBe(true);
+    });
+
+    it('guarda o chamador resolvido na requisição', async () => {
+      const req = {
+        ...userKey(['read', 'admin'], 'user-1'),
+        method: 'POST',
+      } as unknown as AuthenticatedRequest;
+
+      await guard.canActivate(contextFor(MonitorsController, 'create', req));
+
+      expect(req.principal).toEqual({
+        via: 'apiKey',
+        userId: 'user-1',
+        scopes: ['read', 'admin'],
+        apiKeyId: 'key-1',
+      });
+    });
+  });
+
+  describe('recursos globais', () => {
+    it('recusa "admin" de chamadores com userId', async () => {
+      await expect(
+        guard.canActivate(
+          contextFor(WebhooksController, 'create', {
+            method: 'POST',
+            session: { userId: 'user-1' },
+          } as unknown as AuthenticatedRequest),
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('aceita a ADMIN_API_KEY e chaves sem userId', async () => {
+      await expect(
+        guard.canActivate(
+          contextFor(WebhooksController, 'create', {
+            method: 'POST',
+            headers: { 'x-api-key': ADMIN_KEY },
+          }),
+        ),
+      ).resolves.toBe(true);
+      await expect(
+        guard.canActivate(
+          contextFor(WebhooksController, 'create', {
+            ...userKey(['admin'], null),
+            method: 'POST',
+          }),
+        ),
+      ).resolves.toBe(true);
+    });
+
+    it('respeita @GlobalResource(false) na rota', async () => {
+      await expect(
+        guard.canActivate(
+          contextFor(WebhooksController, 'test', {
+            ...userKey(['admin'], 'user-1'),
+            method: 'POST',
+          }),
+        ),
+      ).resolves.toBe(true);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+// src/adapters/guards/api-auth.guard.ts
+
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { createHash, timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+
+import {
+  API_KEY_SCOPES,
+  ApiKeyScope,
+  AuthPrincipal,
+  hasScope,
+} from '@domain/auth/auth-principal';
+import { ApiKeyService } from '@app/services/auth/api-key.service';
+import {
+  GLOBAL_RESOURCE_KEY,
+  IS_PUBLIC_KEY,
+  REQUIRED_SCOPE_KEY,
+} from '@adapters/decorators/auth.decorators';
+
+/**
+ * Requisição já autenticada pelo guard.
+ */
+export type AuthenticatedRequest = Request & { principal?: AuthPrincipal };
+
+/**
+ * Guard global da API REST. Aceita, nesta ordem:
+ *  1) chave de API no header `x-api-key` ou `Authorization: Bearer <chave>`
+ *     (chaves emitidas em /jira/auth/api-keys ou a ADMIN_API_KEY do ambiente);
+ *  2) sessão criada pelo fluxo OAuth (/jira/auth/install → /oauth/callback).
+ *
+ * Rotas marcadas com @Public() não passam pela verificação. Em recursos
+ * globais (@GlobalResource()), o escopo "admin" só vale para chamadores de
+ * serviço (userId null): sessões e chaves de usuário apenas consultam. O
+ * chamador resolvido fica em `req.principal`.
+ */
+@Injectable()
+export class ApiAuthGuard implements CanActivate {
+  private readonly logger = new Logger(ApiAuthGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly configService: ConfigService,
+    private readonly apiKeyService: ApiKeyService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const req = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const principal = await this.resolvePrincipal(req);
+    if (!principal) {
+      throw new UnauthorizedException(
+        'Autenticação necessária: conecte-se em /jira/auth/install ou envie uma chave de API no header x-api-key.',
+      );
+    }
+
+    const required =
+      this.reflector.getAllAndOverride<ApiKeyScope>(
+        REQUIRED_SCOPE_KEY,
+        targets,
+      ) ?? (['GET', 'HEAD'].includes(req.method) ? 'read' : 'admin');
+    if (!hasScope(principal, required)) {
+      this.logger.warn(
+        `Acesso negado a ${req.method} ${req.path}: escopo "${required}" ausente.`,
+      );
+      throw new ForbiddenException(
+        `Esta operação exige o escopo "${required}".`,
+      );
+    }
+    if (
+      required === 'admin' &&
+      principal.userId !== null &&
+      this.reflector.getAllAndOverride<boolean>(GLOBAL_RESOURCE_KEY, targets)
+    ) {
+      this.logger.warn(
+        `Acesso negado a ${req.method} ${req.path}: recurso global exige chamador de serviço.`,
+      );
+      throw new ForbiddenException(
+        'Este recurso é compartilhado por todos os usuários: use a ADMIN_API_KEY ou uma chave de API sem userId.',
+      );
+    }
+
+    req.principal = principal;
+    return true;
+  }
+
+  private async resolvePrincipal(
+    req: AuthenticatedRequest,
+  ): Promise<AuthPrincipal | null> {
+    // 1) Chave de API (uma chave inválida não cai para a sessão)
+    const key = this.extractKey(req);
+    if (key) {
+      if (this.isAdminKey(key)) {
+        return { via: 'adminKey', userId: null, scopes: [...API_KEY_SCOPES] };
+      }
+      const apiKey = await this.apiKeyService.validateKey(key);
+      if (!apiKey) {
+        throw new UnauthorizedException('Chave de API inválida ou revogada.');
+      }
+      return {
+        via: 'apiKey',
+        userId: apiKey.userId,
+        scopes: apiKey.scopes,
+        apiKeyId: apiKey.id,
+      };
+    }
+
+    // 2) Sessão do OAuth: o usuário tem acesso completo aos próprios dados
+    const session = req.session as { userId?: string } | undefined;
+    if (session?.userId) {
+      return {
+        via: 'session',
+        userId: session.userId,
+        scopes: [...API_KEY_SCOPES],
+      };
+    }
+    return null;
+  }
+
+  private extractKey(req: Request): string | null {
+    const header = req.headers['x-api-key'];
+    if (typeof header === 'string' && header) {
+      return header;
+    }
+    const authorization = req.headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+      return authorization.slice('Bearer '.length).trim() || null;
+    }
+    return null;
+  }
+
+  /**
+   * Compara com a ADMIN_API_KEY em tempo constante (via hash de tamanho fixo).
+   */
+  private isAdminKey(key: string): boolean {
+    const adminKey = this.configService.get<string>('ADMIN_API_KEY');
+    if (!adminKey) return false;
+    const digest = (value: string) =>
+      createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(key), digest(adminKey));
+  }
+}
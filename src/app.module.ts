@@ -3,21 +3,24 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ConfigModule } from '@nestjs/config';
+import { EventEmitterModule } from '@nestjs/event-emitter';
 
+import { databaseOptions } from '@infra/config/database.options';
 import { JiraModule } from '@modules/jira/jira.module'; // <-- importa o JiraModule
 import { AuthModule } from '@modules/auth/auth.module';
+import { NotificationsModule } from '@modules/notifications/notifications.module';
+import { HealthModule } from '@modules/health/health.module';
 
 @Module({
   imports: [
     ConfigModule.forRoot({ isGlobal: true }),
-    TypeOrmModule.forRoot({
-      type: 'sqlite',
-      database: 'database.sqlite',
-      entities: [__dirname + '/domain/entities/*.entity{.ts,.js}'],
-      synchronize: true,
-    }),
+    // Barramento de eventos interno; wildcard permite assinar "jira.issue.*"
+    EventEmitterModule.forRoot({ wildcard: true, delimiter: '.' }),
+    TypeOrmModule.forRoot(databaseOptions),
     AuthModule,
     JiraModule, // <-- garante que o módulo de monitoramento seja carregado
+    NotificationsModule, // <-- webhooks e demais canais de notificação
+    HealthModule, // <-- /health e /ready (probes do container)
   ],
 })
 export class AppModule {}
@@ -0,0 +1,52 @@
+// src/application/dtos/auth/api-key.dto.ts
+
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiKeyScope } from '@domain/auth/auth-principal';
+
+/**
+ * DTO de resposta que descreve uma chave de API (nunca inclui a chave em si).
+ */
+export class ApiKeyDto {
+  @ApiProperty({ example: 'd2b7c1a0-3f4e-4a5b-9c8d-7e6f5a4b3c2d' })
+  id: string;
+
+  @ApiProperty({ example: 'Dashboard do NOC' })
+  name: string;
+
+  @ApiProperty({
+    example: 'jm_Ab12Cd',
+    description: 'Início da chave, para identificá-la.',
+  })
+  prefix: string;
+
+  @ApiProperty({
+    example: '5b10ac8d82e05b22cc7d4ef5',
+    nullable: true,
+    description: 'Dono da chave; null para chaves de serviço.',
+  })
+  userId: string | null;
+
+  @ApiProperty({ example: ['read'], enum: ['read', 'admin'], isArray: true })
+  scopes: ApiKeyScope[];
+
+  @ApiProperty({ example: '2025-06-01T12:00:00.000Z', nullable: true })
+  lastUsedAt: Date | null;
+
+  @ApiProperty({ example: null, nullable: true })
+  revokedAt: Date | null;
+
+  @ApiProperty({ example: '2025-06-01T12:00:00.000Z' })
+  createdAt: Date;
+}
+
+/**
+ * Resposta da criação: inclui a chave em texto puro, exibida só desta vez.
+ */
+export class CreatedApiKeyDto extends ApiKeyDto {
+  @ApiProperty({
+    example: 'jm_Ab12Cd34Ef56Gh78Ij90Kl12Mn34Op56Qr78St90Uv1',
+    description:
+      'Chave completa. Guarde-a agora: ela não pode ser consultada depois.',
+  })
+  key: string;
+}
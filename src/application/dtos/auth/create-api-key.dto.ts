@@ -0,0 +1,30 @@
+// src/application/dtos/auth/create-api-key.dto.ts
+
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiKeyScope } from '@domain/auth/auth-principal';
+
+/**
+ * DTO do corpo de POST /jira/auth/api-keys.
+ */
+export class CreateApiKeyDto {
+  @ApiProperty({ example: 'Dashboard do NOC' })
+  name: string;
+
+  @ApiProperty({
+    example: ['read'],
+    enum: ['read', 'admin'],
+    isArray: true,
+    description:
+      '"read" permite apenas consultas (GET); "admin" também permite alterações e a gestão de chaves.',
+  })
+  scopes: ApiKeyScope[];
+
+  @ApiProperty({
+    example: '5b10ac8d82e05b22cc7d4ef5',
+    description:
+      'Dono da chave (accountId). Para usuários conectados é sempre o próprio usuário; só chamadores de serviço podem escolher outro ou omitir (chave de serviço).',
+    required: false,
+    nullable: true,
+  })
+  userId?: string | null;
+}
@@ -0,0 +1,101 @@
+// src/application/dtos/auth/credential-admin.dto.ts
+
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  JiraAuthType,
+  JiraCredentialStatus,
+  JiraDeployment,
+} from '@domain/entities/jira-credential.entity';
+
+/**
+ * Resultado da última renovação do token da credencial.
+ */
+export class CredentialRefreshResultDto {
+  @ApiProperty({
+    example: 'success',
+    enum: ['success', 'failure', 'never'],
+    description:
+      'success/failure conforme a última tentativa; never se o token ainda não foi renovado (ou não é renovável).',
+  })
+  outcome: 'success' | 'failure' | 'never';
+
+  @ApiProperty({ example: '2025-06-01T12:00:00.000Z', nullable: true })
+  lastRefreshedAt: Date | null;
+
+  @ApiProperty({ example: null, nullable: true })
+  refreshFailedAt: Date | null;
+
+  @ApiProperty({ example: null, nullable: true })
+  refreshError: string | null;
+
+  @ApiProperty({
+    example: 0,
+    description: 'Falhas de renovação consecutivas.',
+  })
+  consecutiveFailures: number;
+}
+
+/**
+ * Monitor que usa a credencial.
+ */
+export class CredentialMonitorDto {
+  @ApiProperty({ example: 'a3c1e2f4-5b6d-4e7f-8a9b-0c1d2e3f4a5b' })
+  id: string;
+
+  @ApiProperty({ example: 'Suporte N1' })
+  name: string;
+
+  @ApiProperty({ example: true })
+  enabled: boolean;
+}
+
+/**
+ * Credencial conectada, como exposta em /jira/admin/credentials.
+ * Nunca inclui o accessToken nem o refreshToken.
+ */
+export class CredentialAdminDto {
+  @ApiProperty({ example: 'e7d0f7a4-1f2b-4c3d-9e8f-0a1b2c3d4e5f' })
+  id: string;
+
+  @ApiProperty({ example: '5b10ac8d82e05b22cc7d4ef5' })
+  userId: string;
+
+  @ApiProperty({ example: 'oauth', enum: ['oauth', 'api_token', 'pat'] })
+  authType: JiraAuthType;
+
+  @ApiProperty({ example: 'cloud', enum: ['cloud', 'datacenter'] })
+  deployment: JiraDeployment;
+
+  @ApiProperty({
+    example: '11223344-a1b2-3b33-c444-def123456789',
+    description: 'Site padrão (OAuth); vazio para api_token e pat.',
+  })
+  cloudId: string;
+
+  @ApiProperty({ example: null, nullable: true })
+  baseUrl: string | null;
+
+  @ApiProperty({ example: null, nullable: true })
+  email: string | null;
+
+  @ApiProperty({ example: 'active', enum: ['active', 'reauth_required'] })
+  status: JiraCredentialStatus;
+
+  @ApiProperty({ example: '2025-06-01T13:00:00.000Z', nullable: true })
+  expiresAt: Date | null;
+
+  @ApiProperty({ example: '2025-05-01T09:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2025-06-01T12:00:00.000Z' })
+  updatedAt: Date;
+
+  @ApiProperty({ type: CredentialRefreshResultDto })
+  lastRefresh: CredentialRefreshResultDto;
+
+  @ApiProperty({
+    type: [CredentialMonitorDto],
+    description: 'Monitores (ativos ou pausados) que usam esta credencial.',
+  })
+  monitors: CredentialMonitorDto[];
+}
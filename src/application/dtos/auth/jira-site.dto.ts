@@ -0,0 +1,42 @@
+// src/application/dtos/auth/jira-site.dto.ts
+
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO que descreve um site do Jira acessível por uma credencial.
+ */
+export class JiraSiteDto {
+  @ApiProperty({ example: '11223344-a1b2-3b33-c444-def123456789' })
+  cloudId: string;
+
+  @ApiProperty({ example: 'empresa' })
+  name: string;
+
+  @ApiProperty({ example: 'https://empresa.atlassian.net' })
+  url: string;
+
+  @ApiProperty({
+    example: ['read:jira-work'],
+    type: [String],
+  })
+  scopes: string[];
+
+  @ApiProperty({
+    example:
+      'https://site-admin-avatar-cdn.prod.public.atl-paas.net/avatars/240/rocket.png',
+    nullable: true,
+  })
+  avatarUrl: string | null;
+
+  @ApiProperty({
+    example: true,
+    description: 'Se o site pode ser usado pelos monitores e consultas.',
+  })
+  active: boolean;
+
+  @ApiProperty({
+    example: true,
+    description: 'Se é o site usado quando a consulta não indica um cloudId.',
+  })
+  isDefault: boolean;
+}
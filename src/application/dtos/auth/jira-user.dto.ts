@@ -0,0 +1,30 @@
+// src/application/dtos/auth/jira-user.dto.ts
+
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO que descreve o usuário conectado (identidade Atlassian).
+ */
+export class JiraUserDto {
+  @ApiProperty({
+    example: '5b10ac8d82e05b22cc7d4ef5',
+    description: 'account_id Atlassian; é o userId das credenciais.',
+  })
+  accountId: string;
+
+  @ApiProperty({ example: 'João Silva' })
+  displayName: string;
+
+  @ApiProperty({ example: 'joao.silva@empresa.com', nullable: true })
+  email: string | null;
+
+  @ApiProperty({
+    example:
+      'https://avatar-management--avatars.us-west-2.prod.public.atl-paas.net/default.png',
+    nullable: true,
+  })
+  avatarUrl: string | null;
+
+  @ApiProperty({ example: '2025-06-01T12:00:00.000Z' })
+  lastLoginAt: Date;
+}
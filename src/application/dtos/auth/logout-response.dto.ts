@@ -0,0 +1,46 @@
+// src/application/dtos/auth/logout-response.dto.ts
+
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Monitor pausado no logout.
+ */
+export class StoppedMonitorDto {
+  @ApiProperty({ example: 'a3c1e2f4-5b6d-4e7f-8a9b-0c1d2e3f4a5b' })
+  id: string;
+
+  @ApiProperty({ example: 'Suporte N1' })
+  name: string;
+}
+
+/**
+ * DTO de resposta de POST /jira/auth/logout: o que foi removido.
+ */
+export class LogoutResponseDto {
+  @ApiProperty({ example: '5b10ac8d82e05b22cc7d4ef5' })
+  userId: string;
+
+  @ApiProperty({
+    example: true,
+    description: 'Se os campos do Jira foram limpos da sessão atual.',
+  })
+  sessionCleared: boolean;
+
+  @ApiProperty({
+    example: true,
+    description: 'Se havia credencial (tokens) gravada e ela foi apagada.',
+  })
+  credentialRemoved: boolean;
+
+  @ApiProperty({
+    example: 2,
+    description: 'Quantidade de sites (cloudIds) removidos com a credencial.',
+  })
+  sitesRemoved: number;
+
+  @ApiProperty({
+    type: [StoppedMonitorDto],
+    description: 'Monitores do usuário que estavam ativos e foram pausados.',
+  })
+  stoppedMonitors: StoppedMonitorDto[];
+}
@@ -0,0 +1,52 @@
+// src/application/dtos/auth/register-token-credential.dto.ts
+
+import { ApiProperty } from '@nestjs/swagger';
+import { JiraDeployment } from '@domain/entities/jira-credential.entity';
+
+/**
+ * DTO do corpo de POST /jira/auth/credentials (credenciais sem OAuth).
+ */
+export class RegisterTokenCredentialDto {
+  @ApiProperty({
+    example: 'api_token',
+    enum: ['api_token', 'pat'],
+    description:
+      'api_token: e-mail + API token (Basic Auth); pat: Personal Access Token (Bearer).',
+  })
+  authType: 'api_token' | 'pat';
+
+  @ApiProperty({
+    example: 'datacenter',
+    enum: ['cloud', 'datacenter'],
+    description:
+      'cloud: Jira Cloud (API v3); datacenter: Jira Data Center / Server (API v2, normalmente com pat). Se omitido, JIRA_DEPLOYMENT ou detectado por /myself.',
+    required: false,
+  })
+  deployment?: JiraDeployment;
+
+  @ApiProperty({
+    example: 'https://empresa.atlassian.net',
+    description:
+      'URL do site Jira (no Data Center, a URL da instância, ex.: https://jira.empresa.com). Se omitida, JIRA_BASE_URL.',
+    required: false,
+  })
+  baseUrl?: string;
+
+  @ApiProperty({
+    example: 'bot-jira@empresa.com',
+    description: 'E-mail da conta dona do token (obrigatório para api_token).',
+    required: false,
+  })
+  email?: string;
+
+  @ApiProperty({ example: 'ATATT3xFfGF0...', description: 'API token ou PAT.' })
+  token: string;
+
+  @ApiProperty({
+    example: 'svc-noc',
+    description:
+      'Identificador da credencial (usado como userId pelos monitores). Se omitido, o accountId (ou key) retornado por /myself.',
+    required: false,
+  })
+  userId?: string;
+}
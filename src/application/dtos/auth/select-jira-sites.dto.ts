@@ -0,0 +1,16 @@
+// src/application/dtos/auth/select-jira-sites.dto.ts
+
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO do corpo de PUT /jira/auth/sites/active.
+ */
+export class SelectJiraSitesDto {
+  @ApiProperty({
+    example: ['11223344-a1b2-3b33-c444-def123456789'],
+    description:
+      'cloudIds dos sites que ficarão ativos (os demais são desativados). O primeiro vira o site padrão se o atual sair da seleção.',
+    type: [String],
+  })
+  cloudIds: string[];
+}
@@ -0,0 +1,27 @@
+// src/application/dtos/auth/token-credential.dto.ts
+
+import { ApiProperty } from '@nestjs/swagger';
+import { JiraDeployment } from '@domain/entities/jira-credential.entity';
+
+/**
+ * DTO de resposta do cadastro de uma credencial por API token ou PAT.
+ */
+export class TokenCredentialDto {
+  @ApiProperty({ example: 'svc-noc' })
+  userId: string;
+
+  @ApiProperty({ example: 'api_token', enum: ['api_token', 'pat'] })
+  authType: 'api_token' | 'pat';
+
+  @ApiProperty({ example: 'cloud', enum: ['cloud', 'datacenter'] })
+  deployment: JiraDeployment;
+
+  @ApiProperty({ example: 'https://empresa.atlassian.net' })
+  baseUrl: string;
+
+  @ApiProperty({
+    example: 'Bot Jira',
+    description: 'Nome da conta retornado por /myself.',
+  })
+  displayName: string;
+}
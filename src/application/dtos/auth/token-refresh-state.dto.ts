@@ -0,0 +1,107 @@
+// src/application/dtos/auth/token-refresh-state.dto.ts
+
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  JiraAuthType,
+  JiraCredentialStatus,
+} from '@domain/entities/jira-credential.entity';
+
+/**
+ * Resumo de uma varredura de renovação de tokens.
+ */
+export class TokenRefreshSweepDto {
+  @ApiProperty({ example: '2025-06-01T12:00:00.000Z' })
+  startedAt: Date;
+
+  @ApiProperty({ example: '2025-06-01T12:00:01.200Z' })
+  finishedAt: Date;
+
+  @ApiProperty({
+    example: 2,
+    description: 'Credenciais OAuth ativas expirando dentro da janela.',
+  })
+  candidates: number;
+
+  @ApiProperty({ example: 2 })
+  refreshed: number;
+
+  @ApiProperty({ example: 0 })
+  failed: number;
+
+  @ApiProperty({
+    example: false,
+    description:
+      'Varredura ignorada porque outra instância já estava varrendo (lease).',
+  })
+  skipped: boolean;
+}
+
+/**
+ * Situação de renovação de uma credencial.
+ */
+export class CredentialRefreshStateDto {
+  @ApiProperty({ example: '5b10ac8d82e05b22cc7d4ef5' })
+  userId: string;
+
+  @ApiProperty({ example: 'oauth', enum: ['oauth', 'api_token', 'pat'] })
+  authType: JiraAuthType;
+
+  @ApiProperty({ example: 'active', enum: ['active', 'reauth_required'] })
+  status: JiraCredentialStatus;
+
+  @ApiProperty({ example: '2025-06-01T13:00:00.000Z', nullable: true })
+  expiresAt: Date | null;
+
+  @ApiProperty({
+    example: true,
+    description:
+      'Se a próxima varredura vai renovar o token (OAuth ativo expirando dentro da janela).',
+  })
+  dueForRefresh: boolean;
+
+  @ApiProperty({ example: '2025-06-01T12:00:00.000Z', nullable: true })
+  lastRefreshedAt: Date | null;
+
+  @ApiProperty({
+    example: 0,
+    description: 'Falhas de renovação consecutivas.',
+  })
+  consecutiveFailures: number;
+
+  @ApiProperty({ example: null, nullable: true })
+  refreshFailedAt: Date | null;
+
+  @ApiProperty({ example: null, nullable: true })
+  refreshError: string | null;
+}
+
+/**
+ * DTO de resposta de GET /jira/admin/token-refresh.
+ */
+export class TokenRefreshStateDto {
+  @ApiProperty({
+    example: 900,
+    description:
+      'Tokens que expiram dentro desta janela (JIRA_TOKEN_REFRESH_WINDOW_SECONDS) são renovados.',
+  })
+  windowSeconds: number;
+
+  @ApiProperty({
+    example: 4,
+    description:
+      'Renovações simultâneas por varredura (JIRA_TOKEN_REFRESH_CONCURRENCY).',
+  })
+  concurrency: number;
+
+  @ApiProperty({
+    example: false,
+    description: 'Se há uma varredura em andamento.',
+  })
+  running: boolean;
+
+  @ApiProperty({ type: TokenRefreshSweepDto, nullable: true })
+  lastSweep: TokenRefreshSweepDto | null;
+
+  @ApiProperty({ type: [CredentialRefreshStateDto] })
+  credentials: CredentialRefreshStateDto[];
+}
@@ -0,0 +1,243 @@
+// src/application/dtos/health/health-report.dto.ts
+
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Conexão com o banco (SELECT 1 na conexão do TypeORM).
+ */
+export class DatabaseHealthDto {
+  @ApiProperty({ example: 'up', enum: ['up', 'down'] })
+  status: 'up' | 'down';
+
+  @ApiProperty({ example: 2 })
+  latencyMs: number;
+
+  @ApiPropertyOptional({ example: 'SQLITE_CANTOPEN: unable to open database' })
+  error?: string;
+}
+
+/**
+ * Situação do token de uma credencial armazenada.
+ */
+export class CredentialHealthDto {
+  @ApiProperty({ example: '5b10ac8d82e05b22cc7d4ef5' })
+  userId: string;
+
+  @ApiProperty({ example: 'oauth', enum: ['oauth', 'api_token', 'pat'] })
+  authType: string;
+
+  @ApiProperty({
+    example: 'valid',
+    enum: ['valid', 'expiring', 'expired', 'refresh_failed', 'reauth_required'],
+    description:
+      'valid: sem expiração ou longe dela; expiring: expira em até HEALTH_TOKEN_EXPIRING_SECONDS; expired: já expirou (é renovado no próximo uso); refresh_failed: a última renovação falhou; reauth_required: o refresh token foi recusado e a conta precisa ser reconectada.',
+  })
+  state:
+    | 'valid'
+    | 'expiring'
+    | 'expired'
+    | 'refresh_failed'
+    | 'reauth_required';
+
+  @ApiProperty({ example: '2025-06-01T13:00:00.000Z', nullable: true })
+  expiresAt: Date | null;
+
+  @ApiProperty({ example: null, nullable: true })
+  refreshFailedAt: Date | null;
+
+  @ApiProperty({ example: null, nullable: true })
+  refreshError: string | null;
+}
+
+export class CredentialsHealthDto {
+  @ApiProperty({
+    example: 'ok',
+    enum: ['ok', 'degraded', 'unknown'],
+    description:
+      'degraded se alguma credencial estiver em refresh_failed ou reauth_required; unknown com o banco fora.',
+  })
+  status: 'ok' | 'degraded' | 'unknown';
+
+  @ApiProperty({ type: [CredentialHealthDto] })
+  items: CredentialHealthDto[];
+}
+
+/**
+ * Última execução de um monitor ativo.
+ */
+export class MonitorPollHealthDto {
+  @ApiProperty({ example: '9b1f4c2e-7d3a-4e8b-a6c5-d4e3f2a1b0c9' })
+  monitorId: string;
+
+  @ApiProperty({ example: 'Fila OMNIJS' })
+  name: string;
+
+  @ApiProperty({
+    example: 'ok',
+    enum: ['ok', 'running', 'pending', 'failing', 'stale'],
+    description:
+      'pending: ainda não rodou desde a inicialização (dentro do prazo); failing: a última execução falhou; stale: nenhuma execução concluída há mais de HEALTH_POLL_STALE_FACTOR intervalos.',
+  })
+  state: 'ok' | 'running' | 'pending' | 'failing' | 'stale';
+
+  @ApiProperty({ example: 600000, nullable: true })
+  expectedIntervalMs: number | null;
+
+  @ApiProperty({
+    example: 'schedule',
+    enum: ['schedule', 'manual'],
+    nullable: true,
+  })
+  trigger: 'schedule' | 'manual' | null;
+
+  @ApiProperty({ example: '2025-06-01T12:00:00.000Z', nullable: true })
+  startedAt: Date | null;
+
+  @ApiProperty({ example: '2025-06-01T12:00:03.000Z', nullable: true })
+  finishedAt: Date | null;
+
+  @ApiProperty({
+    example: 'success',
+    enum: ['running', 'success', 'failure'],
+    nullable: true,
+  })
+  outcome: 'running' | 'success' | 'failure' | null;
+
+  @ApiProperty({ example: null, nullable: true })
+  error: string | null;
+}
+
+export class PollingHealthDto {
+  @ApiProperty({
+    example: 'ok',
+    enum: ['ok', 'degraded', 'unknown'],
+    description:
+      'degraded se algum monitor estiver em failing ou stale; unknown com o banco fora.',
+  })
+  status: 'ok' | 'degraded' | 'unknown';
+
+  @ApiProperty({ type: [MonitorPollHealthDto] })
+  monitors: MonitorPollHealthDto[];
+}
+
+/**
+ * Resultado da chamada a /rest/api/{versão}/serverInfo de um site.
+ */
+export class JiraTargetHealthDto {
+  @ApiProperty({
+    example: 'https://empresa.atlassian.net/rest/api/3/serverInfo',
+  })
+  url: string;
+
+  @ApiProperty({ example: 'up', enum: ['up', 'down'] })
+  status: 'up' | 'down';
+
+  @ApiProperty({
+    example: 200,
+    nullable: true,
+    description:
+      'Status HTTP devolvido (qualquer resposta abaixo de 500 conta como alcançável).',
+  })
+  httpStatus: number | null;
+
+  @ApiProperty({ example: 180 })
+  latencyMs: number;
+
+  @ApiPropertyOptional({
+    example: 'Jira indisponível (...): timeout of 5000ms exceeded',
+  })
+  error?: string;
+}
+
+export class JiraHealthDto {
+  @ApiProperty({
+    example: 'up',
+    enum: ['up', 'degraded', 'down', 'skipped'],
+    description:
+      'degraded se algum site estiver inalcançável; down se nenhum responder; skipped no modo fixtures, sem credenciais ou com o banco fora.',
+  })
+  status: 'up' | 'degraded' | 'down' | 'skipped';
+
+  @ApiProperty({
+    example: '2025-06-01T12:00:00.000Z',
+    nullable: true,
+    description:
+      'Momento da verificação (reaproveitada por HEALTH_JIRA_CACHE_SECONDS).',
+  })
+  checkedAt: Date | null;
+
+  @ApiProperty({ type: [JiraTargetHealthDto] })
+  targets: JiraTargetHealthDto[];
+}
+
+/**
+ * DTO de resposta de GET /health/details (relatório completo, restrito a
+ * chamadores de serviço com escopo admin).
+ */
+export class HealthReportDto {
+  @ApiProperty({
+    example: 'ok',
+    enum: ['ok', 'degraded', 'down'],
+    description:
+      'down: banco inacessível; degraded: algum site do Jira inalcançável, poll falhando ou atrasado, renovação de token falhou ou credenciais ilegíveis.',
+  })
+  status: 'ok' | 'degraded' | 'down';
+
+  @ApiProperty({ example: '2025-06-01T12:00:00.000Z' })
+  checkedAt: Date;
+
+  @ApiProperty({ example: 3600 })
+  uptimeSeconds: number;
+
+  @ApiProperty({ type: DatabaseHealthDto })
+  database: DatabaseHealthDto;
+
+  @ApiProperty({ type: CredentialsHealthDto })
+  credentials: CredentialsHealthDto;
+
+  @ApiProperty({ type: PollingHealthDto })
+  polling: PollingHealthDto;
+
+  @ApiProperty({ type: JiraHealthDto })
+  jira: JiraHealthDto;
+}
+
+/**
+ * Situação de cada verificação, sem identificadores nem mensagens de erro.
+ */
+export class HealthChecksDto {
+  @ApiProperty({ example: 'up', enum: ['up', 'down'] })
+  database: 'up' | 'down';
+
+  @ApiProperty({ example: 'ok', enum: ['ok', 'degraded', 'unknown'] })
+  credentials: 'ok' | 'degraded' | 'unknown';
+
+  @ApiProperty({ example: 'ok', enum: ['ok', 'degraded', 'unknown'] })
+  polling: 'ok' | 'degraded' | 'unknown';
+
+  @ApiProperty({ example: 'up', enum: ['up', 'degraded', 'down', 'skipped'] })
+  jira: 'up' | 'degraded' | 'down' | 'skipped';
+}
+
+/**
+ * DTO de resposta das rotas públicas GET /health e GET /ready: apenas as
+ * situações, sem usuários, monitores, URLs ou erros (ver /health/details).
+ */
+export class HealthSummaryDto {
+  @ApiProperty({
+    example: 'ok',
+    enum: ['ok', 'degraded', 'down'],
+    description:
+      'down: banco inacessível; degraded: algum site do Jira inalcançável, poll falhando ou atrasado, renovação de token falhou ou credenciais ilegíveis.',
+  })
+  status: 'ok' | 'degraded' | 'down';
+
+  @ApiProperty({ example: '2025-06-01T12:00:00.000Z' })
+  checkedAt: Date;
+
+  @ApiProperty({ example: 3600 })
+  uptimeSeconds: number;
+
+  @ApiProperty({ type: HealthChecksDto })
+  checks: HealthChecksDto;
+}
@@ -0,0 +1,65 @@
+// src/application/dtos/jira/create-monitor-definition.dto.ts
+
+import { ApiProperty } from '@nestjs/swagger';
+import { StatusFilterDto } from './status-filter.dto';
+
+/**
+ * DTO do corpo de POST /jira/monitor/definitions.
+ */
+export class CreateMonitorDefinitionDto {
+  @ApiProperty({ example: 'Fila OMNIJS' })
+  name: string;
+
+  @ApiProperty({
+    example: 'project = "OMNIJS" ORDER BY created DESC',
+    description: 'Consulta JQL completa executada a cada poll.',
+  })
+  jql: string;
+
+  @ApiProperty({
+    example: '5b10ac8d82e05b22cc7d4ef5',
+    description:
+      'Identificador das credenciais (accountId) usadas pelo monitor. Se omitido, o usuário autenticado.',
+    required: false,
+  })
+  userId: string;
+
+  @ApiProperty({
+    example: '11223344-a1b2-3b33-c444-def123456789',
+    description:
+      'Site (cloudId) a consultar, entre os ativos da credencial. Se omitido ou null, o site padrão.',
+    required: false,
+    nullable: true,
+  })
+  cloudId?: string | null;
+
+  @ApiProperty({
+    example: '*/10 * * * *',
+    description:
+      'Expressão cron do monitor. Se omitida junto com intervalSeconds, a cada minuto.',
+    required: false,
+    nullable: true,
+  })
+  schedule?: string | null;
+
+  @ApiProperty({
+    example: null,
+    description:
+      'Alternativa ao cron: intervalo em segundos entre execuções (de 10 a 2147483, ~24 dias). Não pode ser combinado com schedule.',
+    required: false,
+    nullable: true,
+  })
+  intervalSeconds?: number | null;
+
+  @ApiProperty({
+    type: StatusFilterDto,
+    description:
+      'Status a excluir. Se omitido ou null, usa o filtro padrão (JIRA_EXCLUDE_*).',
+    required: false,
+    nullable: true,
+  })
+  statusFilter?: StatusFilterDto | null;
+
+  @ApiProperty({ example: true, required: false })
+  enabled?: boolean;
+}
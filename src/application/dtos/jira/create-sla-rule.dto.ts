@@ -0,0 +1,50 @@
+// src/application/dtos/jira/create-sla-rule.dto.ts
+
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO do corpo de POST /jira/monitor/sla-rules.
+ */
+export class CreateSlaRuleDto {
+  @ApiProperty({ example: 'Highest aberta há mais de 1 dia' })
+  name: string;
+
+  @ApiProperty({
+    example: 'Highest',
+    description: 'Prioridade exigida. Se omitida ou null, qualquer prioridade.',
+    required: false,
+    nullable: true,
+  })
+  priority?: string | null;
+
+  @ApiProperty({
+    example: 'Aguardando cliente',
+    description: 'Status exigido. Se omitido ou null, qualquer status.',
+    required: false,
+    nullable: true,
+  })
+  status?: string | null;
+
+  @ApiProperty({
+    example: 'timeOpenDays',
+    enum: ['timeOpenDays', 'timeInStatusDays'],
+    description: 'Métrica comparada: dias em aberto ou dias no status atual.',
+  })
+  metric: 'timeOpenDays' | 'timeInStatusDays';
+
+  @ApiProperty({
+    example: 1,
+    description: 'A regra casa quando a métrica for maior que este valor.',
+  })
+  thresholdDays: number;
+
+  @ApiProperty({
+    example: 'breached',
+    enum: ['warning', 'breached'],
+    description: 'Estado atribuído às issues que casam com a regra.',
+  })
+  state: 'warning' | 'breached';
+
+  @ApiProperty({ example: true, required: false })
+  enabled?: boolean;
+}
@@ -1,6 +1,7 @@
 // src/application/dtos/jira/issue-summary.dto.ts
 
 import { ApiProperty } from '@nestjs/swagger';
+import { SlaState } from '@domain/entities/sla-rule.entity';
 
 /**
  * DTO que descreve a estrutura de cada issue resumida,
@@ -57,4 +58,36 @@ export class IssueSummaryDto {
     description: 'Quantidade de dias que a issue está em aberto',
   })
   timeOpenDays: number;
+
+  @ApiProperty({
+    example: 1,
+    description:
+      'Quantidade de dias desde a última transição de status (changelog da issue); sem transições, igual a timeOpenDays.',
+  })
+  timeInStatusDays: number;
+
+  @ApiProperty({
+    example: 'https://suaempresa.atlassian.net/browse/OMNIJS-123',
+    description:
+      'Link da issue no site do Jira do monitor (null se o site não for conhecido).',
+    nullable: true,
+  })
+  url: string | null;
+
+  @ApiProperty({
+    example: 'warning',
+    enum: ['ok', 'warning', 'breached'],
+    description: 'Situação de SLA da issue segundo as regras cadastradas.',
+  })
+  slaState: SlaState;
+
+  @ApiProperty({
+    example: {
+      id: '3f2a9c1e-8b7d-4e6f-a5b4-c3d2e1f0a9b8',
+      name: 'Highest > 1 dia',
+    },
+    description: 'Regra de SLA que determinou o estado (null quando ok).',
+    nullable: true,
+  })
+  slaRule: { id: string; name: string } | null;
 }
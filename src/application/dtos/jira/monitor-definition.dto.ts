@@ -0,0 +1,45 @@
+// src/application/dtos/jira/monitor-definition.dto.ts
+
+import { ApiProperty } from '@nestjs/swagger';
+import { StatusFilterDto } from './status-filter.dto';
+
+/**
+ * DTO que descreve um monitor como devolvido pela API.
+ */
+export class MonitorDefinitionDto {
+  @ApiProperty({ example: '9b1f4c2e-7d3a-4e8b-a6c5-d4e3f2a1b0c9' })
+  id: string;
+
+  @ApiProperty({ example: 'Fila OMNIJS' })
+  name: string;
+
+  @ApiProperty({ example: 'project = "OMNIJS" ORDER BY created DESC' })
+  jql: string;
+
+  @ApiProperty({ example: '5b10ac8d82e05b22cc7d4ef5' })
+  userId: string;
+
+  @ApiProperty({
+    example: '11223344-a1b2-3b33-c444-def123456789',
+    nullable: true,
+  })
+  cloudId: string | null;
+
+  @ApiProperty({ example: '*/10 * * * *', nullable: true })
+  schedule: string | null;
+
+  @ApiProperty({ example: null, nullable: true })
+  intervalSeconds: number | null;
+
+  @ApiProperty({ type: StatusFilterDto, nullable: true })
+  statusFilter: StatusFilterDto | null;
+
+  @ApiProperty({ example: true, description: 'false = monitor pausado.' })
+  enabled: boolean;
+
+  @ApiProperty({ example: '2025-06-01T12:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2025-06-01T12:00:00.000Z' })
+  updatedAt: Date;
+}
@@ -0,0 +1,83 @@
+// src/application/dtos/jira/monitor-run.dto.ts
+
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  MonitorRunOutcome,
+  MonitorRunTrigger,
+} from '@domain/entities/monitor-run.entity';
+
+/**
+ * DTO que descreve uma execução de monitor do log de auditoria.
+ */
+export class MonitorRunDto {
+  @ApiProperty({ example: '4e2d1c0b-9a8f-4e7d-b6c5-a4b3c2d1e0f9' })
+  id: string;
+
+  @ApiProperty({ example: '9b1f4c2e-7d3a-4e8b-a6c5-d4e3f2a1b0c9' })
+  monitorId: string;
+
+  @ApiProperty({ example: 'Fila OMNIJS' })
+  monitorName: string;
+
+  @ApiProperty({ example: '5b10ac8d82e05b22cc7d4ef5' })
+  userId: string;
+
+  @ApiProperty({ example: 'schedule', enum: ['schedule', 'manual'] })
+  trigger: MonitorRunTrigger;
+
+  @ApiProperty({ example: 'failure', enum: ['success', 'failure'] })
+  outcome: MonitorRunOutcome;
+
+  @ApiProperty({
+    example:
+      'Autenticação no Jira expirada ou inválida (https://api.atlassian.com/ex/jira/.../rest/api/3/search): Unauthorized',
+    nullable: true,
+  })
+  error: string | null;
+
+  @ApiProperty({ example: '2025-06-01T03:00:00.012Z' })
+  startedAt: Date;
+
+  @ApiProperty({ example: '2025-06-01T03:00:01.530Z' })
+  finishedAt: Date;
+
+  @ApiProperty({ example: 1518 })
+  durationMs: number;
+
+  @ApiProperty({
+    example: 3,
+    description:
+      'Requisições ao Jira / Atlassian, incluindo novas tentativas e a renovação de token.',
+  })
+  jiraCalls: number;
+
+  @ApiProperty({
+    example: 42,
+    nullable: true,
+    description: 'Total de issues após o filtro de status; null em falhas.',
+  })
+  issueCount: number | null;
+
+  @ApiProperty({ example: false })
+  tokenRefreshed: boolean;
+}
+
+/**
+ * Página da listagem de execuções.
+ */
+export class MonitorRunPageDto {
+  @ApiProperty({ type: [MonitorRunDto] })
+  items: MonitorRunDto[];
+
+  @ApiProperty({ example: 1, description: 'Página atual (a partir de 1).' })
+  page: number;
+
+  @ApiProperty({ example: 50 })
+  limit: number;
+
+  @ApiProperty({
+    example: 312,
+    description: 'Total de execuções que atendem aos filtros.',
+  })
+  total: number;
+}
@@ -2,11 +2,13 @@
 
 import { ApiProperty } from '@nestjs/swagger';
 import { IssueSummaryDto } from './issue-summary.dto';
+import { SlaState } from '@domain/entities/sla-rule.entity';
 
 /**
  * DTO que descreve a resposta do ProcessIssuesUseCase,
- * contendo o total de issues após filtro, a lista resumida e
- * um objeto com contagem por status.
+ * contendo o total de issues após filtro, a lista resumida,
+ * objetos com contagem por status (mantidas e excluídas pelo filtro) e por
+ * situação de SLA e a indicação de truncamento.
  */
 export class ProcessedIssuesResponseDto {
   @ApiProperty({
@@ -26,4 +28,24 @@ export class ProcessedIssuesResponseDto {
     description: 'Objeto contendo a contagem de issues por status.',
   })
   statusCounts: Record<string, number>;
+
+  @ApiProperty({
+    example: { Resolvido: 12, Cancelado: 2 },
+    description:
+      'Objeto contendo a contagem, por status, das issues removidas pelo filtro de status.',
+  })
+  excludedStatusCounts: Record<string, number>;
+
+  @ApiProperty({
+    example: { ok: 3, warning: 1, breached: 1 },
+    description: 'Objeto contendo a contagem de issues por situação de SLA.',
+  })
+  slaCounts: Record<SlaState, number>;
+
+  @ApiProperty({
+    example: false,
+    description:
+      'Indica se a busca parou no limite JIRA_SEARCH_MAX_ISSUES antes de ler todas as issues do Jira.',
+  })
+  truncated: boolean;
 }
@@ -0,0 +1,41 @@
+// src/application/dtos/jira/sla-rule.dto.ts
+
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO que descreve uma regra de SLA como devolvida pela API.
+ */
+export class SlaRuleDto {
+  @ApiProperty({ example: '3f2a9c1e-8b7d-4e6f-a5b4-c3d2e1f0a9b8' })
+  id: string;
+
+  @ApiProperty({ example: 'Highest aberta há mais de 1 dia' })
+  name: string;
+
+  @ApiProperty({ example: 'Highest', nullable: true })
+  priority: string | null;
+
+  @ApiProperty({ example: null, nullable: true })
+  status: string | null;
+
+  @ApiProperty({
+    example: 'timeOpenDays',
+    enum: ['timeOpenDays', 'timeInStatusDays'],
+  })
+  metric: string;
+
+  @ApiProperty({ example: 1 })
+  thresholdDays: number;
+
+  @ApiProperty({ example: 'breached', enum: ['warning', 'breached'] })
+  state: string;
+
+  @ApiProperty({ example: true })
+  enabled: boolean;
+
+  @ApiProperty({ example: '2025-06-01T12:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2025-06-01T12:00:00.000Z' })
+  updatedAt: Date;
+}
@@ -0,0 +1,32 @@
+// src/application/dtos/jira/status-filter.dto.ts
+
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO do filtro de exclusão por status (ver StatusFilter no domínio).
+ */
+export class StatusFilterDto {
+  @ApiProperty({
+    example: ['Cancelado'],
+    description: 'Nomes de status a excluir (case-insensitive).',
+    required: false,
+    type: [String],
+  })
+  names?: string[];
+
+  @ApiProperty({
+    example: [],
+    description: 'IDs de status a excluir.',
+    required: false,
+    type: [String],
+  })
+  ids?: string[];
+
+  @ApiProperty({
+    example: ['done'],
+    description: 'Categorias de status a excluir (new, indeterminate, done).',
+    required: false,
+    type: [String],
+  })
+  categories?: string[];
+}
@@ -0,0 +1,12 @@
+// src/application/dtos/jira/update-monitor-definition.dto.ts
+
+import { PartialType } from '@nestjs/swagger';
+import { CreateMonitorDefinitionDto } from './create-monitor-definition.dto';
+
+/**
+ * DTO do corpo de PATCH /jira/monitor/definitions/:id.
+ * Todos os campos são opcionais; só os informados são alterados.
+ */
+export class UpdateMonitorDefinitionDto extends PartialType(
+  CreateMonitorDefinitionDto,
+) {}
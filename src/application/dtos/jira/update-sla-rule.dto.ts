@@ -0,0 +1,10 @@
+// src/application/dtos/jira/update-sla-rule.dto.ts
+
+import { PartialType } from '@nestjs/swagger';
+import { CreateSlaRuleDto } from './create-sla-rule.dto';
+
+/**
+ * DTO do corpo de PATCH /jira/monitor/sla-rules/:id.
+ * Todos os campos são opcionais; só os informados são alterados.
+ */
+export class UpdateSlaRuleDto extends PartialType(CreateSlaRuleDto) {}
@@ -0,0 +1,39 @@
+// src/application/dtos/notifications/chat-channel.dto.ts
+
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO que descreve um canal de chat como devolvido pela API.
+ */
+export class ChatChannelDto {
+  @ApiProperty({ example: 'c5a1e0f2-3b4d-4e6f-8a9b-0c1d2e3f4a5b' })
+  id: string;
+
+  @ApiProperty({ example: '#suporte-omnijs' })
+  name: string;
+
+  @ApiProperty({ example: 'slack', enum: ['slack', 'teams'] })
+  provider: string;
+
+  @ApiProperty({
+    example: 'https://hooks.slack.com/****XXXX',
+    description:
+      'URL do incoming webhook mascarada (apenas origem e últimos 4 caracteres).',
+  })
+  webhookUrl: string;
+
+  @ApiProperty({ example: ['default'], type: [String] })
+  monitorIds: string[];
+
+  @ApiProperty({ example: ['jira.issue.appeared'], type: [String] })
+  eventTypes: string[];
+
+  @ApiProperty({ example: true })
+  enabled: boolean;
+
+  @ApiProperty({ example: '2025-06-01T12:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2025-06-01T12:00:00.000Z' })
+  updatedAt: Date;
+}
@@ -0,0 +1,45 @@
+// src/application/dtos/notifications/create-chat-channel.dto.ts
+
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO do corpo de POST /jira/monitor/channels.
+ */
+export class CreateChatChannelDto {
+  @ApiProperty({ example: '#suporte-omnijs' })
+  name: string;
+
+  @ApiProperty({
+    example: 'slack',
+    enum: ['slack', 'teams'],
+    description:
+      'Formato das mensagens: Block Kit (slack) ou Adaptive Card (teams).',
+  })
+  provider: 'slack' | 'teams';
+
+  @ApiProperty({
+    example: 'https://hooks.slack.com/services/T000/B000/XXXX',
+    description: 'URL do incoming webhook do Slack ou do Teams.',
+  })
+  webhookUrl: string;
+
+  @ApiProperty({
+    example: ['default'],
+    description:
+      'Monitores cujos eventos vão para este canal. Se omitido ou vazio, todos.',
+    required: false,
+    type: [String],
+  })
+  monitorIds?: string[];
+
+  @ApiProperty({
+    example: ['jira.issue.appeared'],
+    description: 'Tipos de evento aceitos. Se omitido ou vazio, todos.',
+    required: false,
+    type: [String],
+  })
+  eventTypes?: string[];
+
+  @ApiProperty({ example: true, required: false })
+  enabled?: boolean;
+}
@@ -0,0 +1,39 @@
+// src/application/dtos/notifications/create-webhook-target.dto.ts
+
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO do corpo de POST /jira/monitor/webhooks.
+ */
+export class CreateWebhookTargetDto {
+  @ApiProperty({
+    example: 'https://bot.example.com/hooks/jira',
+    description: 'URL (http/https) que receberá o POST com o evento.',
+  })
+  url: string;
+
+  @ApiProperty({
+    example: 's3cr3t',
+    description:
+      'Segredo opcional para assinar o corpo (HMAC-SHA256 no header X-Jira-Monitor-Signature).',
+    required: false,
+    nullable: true,
+  })
+  secret?: string | null;
+
+  @ApiProperty({
+    example: ['jira.issue.appeared', 'jira.issue.status-changed'],
+    description:
+      'Tipos de evento aceitos. Se omitido ou vazio, recebe todos os eventos.',
+    required: false,
+    type: [String],
+  })
+  eventTypes?: string[];
+
+  @ApiProperty({
+    example: true,
+    description: 'Se o destino está ativo (padrão: true).',
+    required: false,
+  })
+  enabled?: boolean;
+}
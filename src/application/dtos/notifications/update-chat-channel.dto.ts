@@ -0,0 +1,10 @@
+// src/application/dtos/notifications/update-chat-channel.dto.ts
+
+import { PartialType } from '@nestjs/swagger';
+import { CreateChatChannelDto } from './create-chat-channel.dto';
+
+/**
+ * DTO do corpo de PATCH /jira/monitor/channels/:id.
+ * Todos os campos são opcionais; só os informados são alterados.
+ */
+export class UpdateChatChannelDto extends PartialType(CreateChatChannelDto) {}
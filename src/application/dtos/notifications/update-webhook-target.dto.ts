@@ -0,0 +1,12 @@
+// src/application/dtos/notifications/update-webhook-target.dto.ts
+
+import { PartialType } from '@nestjs/swagger';
+import { CreateWebhookTargetDto } from './create-webhook-target.dto';
+
+/**
+ * DTO do corpo de PATCH /jira/monitor/webhooks/:id.
+ * Todos os campos são opcionais; só os informados são alterados.
+ */
+export class UpdateWebhookTargetDto extends PartialType(
+  CreateWebhookTargetDto,
+) {}
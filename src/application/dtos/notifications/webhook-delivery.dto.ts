@@ -0,0 +1,53 @@
+// src/application/dtos/notifications/webhook-delivery.dto.ts
+
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO que descreve uma entrada do log de entregas de webhook.
+ */
+export class WebhookDeliveryDto {
+  @ApiProperty({ example: '7f1d2c3b-0a9e-4c8d-b7a6-5e4f3d2c1b0a' })
+  id: string;
+
+  @ApiProperty({ example: '2b0c1f3e-6a0d-4e55-9d0b-2f0a4c1e7b11' })
+  targetId: string;
+
+  @ApiProperty({ example: 'jira.issue.status-changed' })
+  eventName: string;
+
+  @ApiProperty({
+    example: {
+      event: 'jira.issue.status-changed',
+      occurredAt: '2025-06-01T12:00:00.000Z',
+      context: {
+        userId: '5b10ac8d82e05b22cc7d4ef5',
+        jql: 'project = "OMNIJS"',
+      },
+      issue: { key: 'OMNIJS-123', status: 'Em andamento' },
+      changes: { previousStatus: 'Aberto' },
+    },
+    description: 'Corpo JSON enviado ao destino.',
+  })
+  payload: Record<string, any>;
+
+  @ApiProperty({ example: 'failed', enum: ['pending', 'succeeded', 'failed'] })
+  status: string;
+
+  @ApiProperty({ example: 5 })
+  attempts: number;
+
+  @ApiProperty({ example: 502, nullable: true })
+  lastStatusCode: number | null;
+
+  @ApiProperty({
+    example: 'Request failed with status code 502',
+    nullable: true,
+  })
+  lastError: string | null;
+
+  @ApiProperty({ example: null, nullable: true })
+  deliveredAt: Date | null;
+
+  @ApiProperty({ example: '2025-06-01T12:00:00.000Z' })
+  createdAt: Date;
+}
@@ -0,0 +1,33 @@
+// src/application/dtos/notifications/webhook-target.dto.ts
+
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO que descreve um destino de webhook como devolvido pela API
+ * (o segredo nunca é exposto, apenas se ele existe).
+ */
+export class WebhookTargetDto {
+  @ApiProperty({ example: '2b0c1f3e-6a0d-4e55-9d0b-2f0a4c1e7b11' })
+  id: string;
+
+  @ApiProperty({ example: 'https://bot.example.com/hooks/jira' })
+  url: string;
+
+  @ApiProperty({
+    example: true,
+    description: 'Indica se há segredo HMAC configurado.',
+  })
+  hasSecret: boolean;
+
+  @ApiProperty({ example: ['jira.issue.appeared'], type: [String] })
+  eventTypes: string[];
+
+  @ApiProperty({ example: true })
+  enabled: boolean;
+
+  @ApiProperty({ example: '2025-06-01T12:00:00.000Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2025-06-01T12:00:00.000Z' })
+  updatedAt: Date;
+}
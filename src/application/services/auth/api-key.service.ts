@@ -0,0 +1,128 @@
+// src/application/services/auth/api-key.service.ts
+
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+
+import { ApiKeyEntity } from '@domain/entities/api-key.entity';
+import {
+  API_KEY_SCOPES,
+  AuthPrincipal,
+  canActAs,
+} from '@domain/auth/auth-principal';
+import { ApiKeyRepository } from '@infra/repositories/auth/api-key.repository';
+import { CreateApiKeyDto } from '@dtos/auth/create-api-key.dto';
+import { ApiKeyDto, CreatedApiKeyDto } from '@dtos/auth/api-key.dto';
+
+const KEY_PREFIX = 'jm_';
+
+/**
+ * Emissão, listagem, revogação e validação das chaves de API.
+ * As chaves têm o formato "jm_<32 bytes aleatórios em base64url>" e só o
+ * SHA-256 delas é gravado.
+ */
+@Injectable()
+export class ApiKeyService {
+  private readonly logger = new Logger(ApiKeyService.name);
+
+  constructor(private readonly apiKeyRepo: ApiKeyRepository) {}
+
+  /**
+   * Gera uma nova chave. Usuários conectados só emitem chaves para si mesmos;
+   * chamadores de serviço podem emitir para qualquer usuário ou chaves de
+   * serviço (sem userId).
+   */
+  async createKey(
+    dto: CreateApiKeyDto,
+    principal: AuthPrincipal,
+  ): Promise<CreatedApiKeyDto> {
+    if (!dto.name?.trim()) {
+      throw new BadRequestException('O campo "name" é obrigatório.');
+    }
+    const scopes = [...new Set(dto.scopes ?? [])];
+    if (
+      scopes.length === 0 ||
+      scopes.some((scope) => !API_KEY_SCOPES.includes(scope))
+    ) {
+      throw new BadRequestException(
+        `"scopes" deve conter ao menos um entre: ${API_KEY_SCOPES.join(', ')}.`,
+      );
+    }
+    if (dto.userId && !canActAs(principal, dto.userId)) {
+      throw new ForbiddenException(
+        'Não é possível emitir chaves para outro usuário.',
+      );
+    }
+    const userId = principal.userId ?? dto.userId ?? null;
+
+    const key = KEY_PREFIX + randomBytes(32).toString('base64url');
+    const created = await this.apiKeyRepo.create({
+      name: dto.name.trim(),
+      keyHash: this.hash(key),
+      prefix: key.slice(0, 9),
+      userId,
+      scopes,
+    });
+    this.logger.log(
+      `Chave de API "${created.name}" (${created.prefix}) emitida para ${userId ? `userId="${userId}"` : 'serviço'} com escopos ${scopes.join(', ')}.`,
+    );
+    return { ...this.toDto(created), key };
+  }
+
+  /**
+   * Lista as chaves visíveis ao chamador (as próprias, ou todas para serviço).
+   */
+  async listKeys(principal: AuthPrincipal): Promise<ApiKeyDto[]> {
+    const keys = await this.apiKeyRepo.findAll(principal.userId ?? undefined);
+    return keys.map((key) => this.toDto(key));
+  }
+
+  async revokeKey(id: string, principal: AuthPrincipal): Promise<void> {
+    const key = await this.apiKeyRepo.findById(id);
+    if (!key || (key.userId && !canActAs(principal, key.userId))) {
+      throw new NotFoundException(`Chave de API "${id}" não encontrada.`);
+    }
+    if (!key.userId && principal.userId !== null) {
+      throw new ForbiddenException(
+        'Chaves de serviço só podem ser revogadas por chamadores de serviço.',
+      );
+    }
+    await this.apiKeyRepo.revoke(id);
+    this.logger.log(`Chave de API "${key.name}" (${key.prefix}) revogada.`);
+  }
+
+  /**
+   * Valida uma chave recebida no header e registra o uso.
+   *
+   * @returns A chave ou null se não existir ou estiver revogada.
+   */
+  async validateKey(key: string): Promise<ApiKeyEntity | null> {
+    if (!key.startsWith(KEY_PREFIX)) return null;
+    const found = await this.apiKeyRepo.findByHash(this.hash(key));
+    if (!found || found.revokedAt) return null;
+    await this.apiKeyRepo.touch(found.id);
+    return found;
+  }
+
+  private hash(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  private toDto(key: ApiKeyEntity): ApiKeyDto {
+    return {
+      id: key.id,
+      name: key.name,
+      prefix: key.prefix,
+      userId: key.userId,
+      scopes: key.scopes,
+      lastUsedAt: key.lastUsedAt,
+      revokedAt: key.revokedAt,
+      createdAt: key.createdAt,
+    };
+  }
+}
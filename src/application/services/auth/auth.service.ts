@@ -3,14 +3,23 @@
 import {
   Injectable,
   BadRequestException,
-  InternalServerErrorException,
   Logger, // ▶️ import Logger
+  ServiceUnavailableException,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { HttpService } from '@nestjs/axios';
-import { firstValueFrom } from 'rxjs';
-import { AxiosResponse } from 'axios';
+import { readPositiveInt } from '@infra/config/read-positive-int';
+import { JiraHttpClient } from '@infra/http/jira-http.client';
+import { JiraCallTracker } from '@infra/http/jira-call-tracker';
 import { JiraCredentialRepository } from '@infra/repositories/jira/jira-credential.repository';
+import { JiraSiteRepository } from '@infra/repositories/jira/jira-site.repository';
+import { JiraUserRepository } from '@infra/repositories/jira/jira-user.repository';
+import { LeaseService } from '@app/services/lease/lease.service';
+import { JiraUserEntity } from '@domain/entities/jira-user.entity';
+import { JiraCredentialEntity } from '@domain/entities/jira-credential.entity';
+import {
+  JiraAuthExpiredError,
+  JiraBadRequestError,
+} from '@domain/errors/jira-api.errors';
 
 interface TokenResponse {
   access_token: string;
@@ -20,9 +29,28 @@ interface TokenResponse {
   scope: string;
 }
 
+/**
+ * Resultado de uma renovação de token.
+ */
+interface RefreshedTokens {
+  newAccessToken: string;
+  newRefreshToken: string;
+  newExpiresIn: number; // em segundos
+}
+
+interface AtlassianProfile {
+  account_id: string;
+  name: string;
+  email?: string;
+  picture?: string;
+}
+
 interface AccessibleResource {
   id: string; // cloudId
-  // outros campos retornados por accessible-resources (name, url, scopes) não usados aqui
+  name: string;
+  url: string;
+  scopes: string[];
+  avatarUrl?: string;
 }
 
 @Injectable()
@@ -33,11 +61,25 @@ export class AuthService {
   private readonly jiraAuthBaseUrl = 'https://auth.atlassian.com/oauth/token';
   private readonly jiraAccessibleResourcesUrl =
     'https://api.atlassian.com/oauth/token/accessible-resources';
+  private readonly atlassianMeUrl = 'https://api.atlassian.com/me';
+
+  // Lease de renovação: validade e intervalo de espera de quem não o obteve
+  private readonly DEFAULT_REFRESH_LEASE_MS = 30 * 1000;
+  private readonly REFRESH_LEASE_POLL_MS = 250;
+
+  /**
+   * Renovações em andamento neste processo, por userId.
+   */
+  private readonly refreshes = new Map<string, Promise<RefreshedTokens>>();
 
   constructor(
-    private readonly httpService: HttpService,
+    private readonly jiraHttp: JiraHttpClient, // chamadas à Atlassian com timeout e retry
     private readonly jiraCredentialRepo: JiraCredentialRepository, // repositório para persistir tokens
+    private readonly jiraSiteRepo: JiraSiteRepository, // sites acessíveis de cada credencial
+    private readonly jiraUserRepo: JiraUserRepository, // identidade Atlassian de cada usuário
     private readonly configService: ConfigService,
+    private readonly callTracker: JiraCallTracker, // marca a renovação na execução em andamento
+    private readonly leaseService: LeaseService, // lease "jira-token-refresh:<userId>" entre instâncias
   ) {}
 
   /**
@@ -72,7 +114,7 @@ export class AuthService {
     const params = new URLSearchParams({
       audience: 'api.atlassian.com',
       client_id: clientId,
-      scope: 'read:jira-work offline_access',
+      scope: 'read:jira-work read:me offline_access',
       redirect_uri: redirectUri,
       state,
       response_type: 'code',
@@ -87,27 +129,37 @@ export class AuthService {
 
   /**
    * Recebe o authorization code do Jira e faz trocas de token.
-   * Em seguida obtém o cloudId e persiste tudo no banco (SQLite) através do Repositório.
+   * Em seguida identifica o usuário (GET /me), obtém todos os sites acessíveis
+   * e persiste tudo no banco (SQLite), com as credenciais indexadas pelo
+   * accountId Atlassian,
+   * através dos Repositórios. O site padrão da credencial continua o mesmo se
+   * ainda estiver ativo; senão passa a ser o primeiro site ativo.
    *
    * @param code    Código de autorização retornado pelo Jira.
-   * @param session Sessão do usuário (para gravar tokens temporários, se necessário).
-   * @param userId  Identificador do usuário/instalação (pode ser "default").
+   * @param session Sessão do usuário (recebe o userId e os tokens para uso imediato).
    *
-   * @returns Dados básicos: accessToken, refreshToken, cloudId e expiresIn (em segundos).
+   * @returns Dados básicos: userId (accountId), displayName, accessToken,
+   *          refreshToken, cloudId (site padrão), sites acessíveis e expiresIn (em segundos).
    */
   async handleCallback(
     code: string,
     session: Record<string, any>,
-    userId: string,
   ): Promise<{
+    userId: string;
+    displayName: string;
     accessToken: string;
     refreshToken: string;
     cloudId: string;
+    sites: Array<{
+      cloudId: string;
+      name: string;
+      url: string;
+      active: boolean;
+    }>;
     expiresIn: number;
   }> {
     this.logger.log('Iniciando handleCallback do AuthService'); // ▶️ log
     this.logger.debug(`Parâmetro code recebido: ${code}`); // ▶️ log
-    this.logger.debug(`Parâmetro userId recebido: ${userId}`); // ▶️ log
 
     // 1) Obter as variáveis de ambiente via ConfigService
     const clientId = this.configService.get<string>('JIRA_CLIENT_ID');
@@ -135,31 +187,26 @@ export class AuthService {
     this.logger.debug(`Payload para token: ${JSON.stringify(tokenPayload)}`); // ▶️ log
 
     // 4) Fazer POST no endpoint https://auth.atlassian.com/oauth/token
-    let tokenResponse: AxiosResponse<TokenResponse>;
+    let tokenData: TokenResponse;
     try {
-      tokenResponse = await firstValueFrom(
-        this.httpService.post<TokenResponse>(
-          this.jiraAuthBaseUrl,
-          tokenPayload,
-          {
-            headers: {
-              'Content-Type': 'application/json',
-              Accept: 'application/json',
-            },
+      tokenData = await this.jiraHttp.post<TokenResponse>(
+        this.jiraAuthBaseUrl,
+        tokenPayload,
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json',
           },
-        ),
+        },
       );
       this.logger.log('Resposta de token recebida do Jira'); // ▶️ log
     } catch (error) {
       this.logger.error(
         `Falha na requisição ao endpoint de token do Jira: ${error.message}`,
       ); // ▶️ log
-      throw new InternalServerErrorException(
-        `Falha na requisição ao endpoint de token do Jira: ${error.message}`,
-      );
+      throw error;
     }
 
-    const tokenData = tokenResponse.data;
     // 5) Validar resposta: deve conter access_token e refresh_token
     if (!tokenData.access_token || !tokenData.refresh_token) {
       this.logger.error(
@@ -174,31 +221,37 @@ export class AuthService {
       );
     }
 
-    // 6) Agora, usando o access_token, buscar o cloudId
-    let resourcesResponse: AxiosResponse<AccessibleResource[]>;
+    // 6) Identificar o usuário dono do token: o accountId passa a ser o userId
+    const profile = await this.fetchProfile(tokenData.access_token);
+    const userId = profile.account_id;
+    await this.jiraUserRepo.upsertUser({
+      accountId: userId,
+      displayName: profile.name,
+      email: profile.email || null,
+      avatarUrl: profile.picture || null,
+    });
+    this.logger.log(`Usuário identificado: ${profile.name} (${userId})`); // ▶️ log
+
+    // 6.1) Agora, usando o access_token, buscar os sites acessíveis (cloudIds)
+    let resources: AccessibleResource[];
     try {
-      resourcesResponse = await firstValueFrom(
-        this.httpService.get<AccessibleResource[]>(
-          this.jiraAccessibleResourcesUrl,
-          {
-            headers: {
-              Authorization: `Bearer ${tokenData.access_token}`,
-              Accept: 'application/json',
-            },
+      resources = await this.jiraHttp.get<AccessibleResource[]>(
+        this.jiraAccessibleResourcesUrl,
+        {
+          headers: {
+            Authorization: `Bearer ${tokenData.access_token}`,
+            Accept: 'application/json',
           },
-        ),
+        },
       );
       this.logger.log('Resposta de accessible-resources recebida do Jira'); // ▶️ log
     } catch (error) {
       this.logger.error(
         `Falha ao buscar accessible-resources no Jira: ${error.message}`,
       ); // ▶️ log
-      throw new InternalServerErrorException(
-        `Falha ao buscar accessible-resources no Jira: ${error.message}`,
-      );
+      throw error;
     }
 
-    const resources = resourcesResponse.data;
     if (!resources || resources.length === 0) {
       this.logger.error(
         'Nenhum recurso acessível retornado pelo Jira. Verifique suas permissões.',
@@ -207,8 +260,9 @@ export class AuthService {
         'Nenhum recurso acessível retornado pelo Jira. Verifique suas permissões.',
       );
     }
-    const cloudId = resources[0].id;
-    this.logger.log(`cloudId obtido: ${cloudId}`); // ▶️ log
+    this.logger.log(
+      `Sites acessíveis obtidos: ${resources.map((r) => r.id).join(', ')}`,
+    ); // ▶️ log
 
     // 7) Calcular a data de expiração do accessToken (expires_in está em segundos)
     const expiresIn = tokenData.expires_in; // ex.: 3600 = 1h
@@ -217,19 +271,40 @@ export class AuthService {
       `Token expira em: ${expiresIn} segundos. expiresAt: ${expiresAt}`,
     ); // ▶️ log
 
-    // 8) Persistir no SQLite usando o JiraCredentialRepository
-    await this.jiraCredentialRepo.upsertCredentials({
+    // 8) Persistir no SQLite usando o JiraCredentialRepository e o JiraSiteRepository
+    const previousCloudId = (await this.jiraCredentialRepo.findByUserId(userId))
+      ?.cloudId;
+    const credential = await this.jiraCredentialRepo.upsertCredentials({
       userId,
-      cloudId,
+      cloudId: resources[0].id,
       accessToken: tokenData.access_token,
       refreshToken: tokenData.refresh_token,
       expiresAt,
     });
+    const sites = await this.jiraSiteRepo.replaceSites(
+      credential.id,
+      resources.map((resource) => ({
+        cloudId: resource.id,
+        name: resource.name,
+        url: resource.url,
+        scopes: resource.scopes ?? [],
+        avatarUrl: resource.avatarUrl ?? null,
+      })),
+    );
+    const activeSites = sites.filter((site) => site.active);
+    const cloudId = (
+      activeSites.find((site) => site.cloudId === previousCloudId) ??
+      activeSites[0]
+    ).cloudId;
+    if (cloudId !== credential.cloudId) {
+      await this.jiraCredentialRepo.updateCloudId(userId, cloudId);
+    }
     this.logger.log(
       `Credenciais persistidas para userId="${userId}", cloudId="${cloudId}"`,
     ); // ▶️ log
 
-    // 9) (Opcional) Atualizar a sessão para uso imediato nesta requisição
+    // 9) Atualizar a sessão para uso imediato nesta requisição
+    session.userId = userId;
     session.jiraAccessToken = tokenData.access_token;
     session.jiraRefreshToken = tokenData.refresh_token;
     session.jiraCloudId = cloudId;
@@ -239,16 +314,68 @@ export class AuthService {
     // 10) Retornar apenas o mínimo necessário (não exponha tokens ao front em produção)
     this.logger.log('handleCallback concluído com sucesso'); // ▶️ log
     return {
+      userId,
+      displayName: profile.name,
       accessToken: tokenData.access_token,
       refreshToken: tokenData.refresh_token,
       cloudId,
+      sites: sites.map(({ cloudId, name, url, active }) => ({
+        cloudId,
+        name,
+        url,
+        active,
+      })),
       expiresIn,
     };
   }
 
+  /**
+   * Retorna o usuário conectado (identidade Atlassian) pelo accountId.
+   */
+  async findUser(accountId: string): Promise<JiraUserEntity | null> {
+    return this.jiraUserRepo.findByAccountId(accountId);
+  }
+
+  /**
+   * Busca o perfil Atlassian (account_id, nome, e-mail) do dono do token.
+   * Requer o escopo read:me.
+   */
+  private async fetchProfile(accessToken: string): Promise<AtlassianProfile> {
+    let profile: AtlassianProfile;
+    try {
+      profile = await this.jiraHttp.get<AtlassianProfile>(this.atlassianMeUrl, {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          Accept: 'application/json',
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Falha ao buscar /me na Atlassian: ${error.message}`); // ▶️ log
+      throw error;
+    }
+
+    if (!profile?.account_id) {
+      this.logger.error(
+        `Resposta de /me sem account_id. Body: ${JSON.stringify(profile)}`,
+      ); // ▶️ log
+      throw new BadRequestException(
+        'A Atlassian não retornou o account_id do usuário. Verifique o escopo read:me.',
+      );
+    }
+    return profile;
+  }
+
   /**
    * Renova o accessToken usando o refreshToken já armazenado no banco.
    *
+   * A Atlassian troca o refresh token a cada uso, então duas renovações
+   * simultâneas da mesma credencial invalidariam uma à outra. Por isso:
+   *  - neste processo, chamadas concorrentes aguardam a mesma renovação;
+   *  - entre processos, só quem obtém o lease no banco (JIRA_REFRESH_LEASE_MS)
+   *    chama a Atlassian; os demais aguardam e usam o token gravado por ele.
+   * Um refresh token recusado marca a credencial como "reauth_required" e as
+   * próximas chamadas falham sem tentar de novo, até a conta ser reconectada.
+   *
    * @param userId  Identificador do usuário/instalação.
    * @param session (Opcional) Sessão do usuário, caso queira atualizar também.
    *
@@ -257,14 +384,107 @@ export class AuthService {
   async refreshAccessToken(
     userId: string,
     session?: Record<string, any>,
-  ): Promise<{
-    newAccessToken: string;
-    newRefreshToken: string;
-    newExpiresIn: number;
-  }> {
+  ): Promise<RefreshedTokens> {
     this.logger.log(`Iniciando refreshAccessToken para userId="${userId}"`); // ▶️ log
 
-    // 1) Buscar credencial existente no banco
+    // 1) Reaproveita a renovação já em andamento para o mesmo userId
+    let refresh = this.refreshes.get(userId);
+    if (refresh) {
+      this.logger.log(
+        `Renovação já em andamento para userId="${userId}"; aguardando.`,
+      ); // ▶️ log
+    } else {
+      refresh = this.refreshWithLease(userId).finally(() =>
+        this.refreshes.delete(userId),
+      );
+      this.refreshes.set(userId, refresh);
+    }
+    const tokens = await refresh;
+
+    // 2) (Opcional) Atualizar a sessão se enviada como parâmetro
+    if (session) {
+      session.jiraAccessToken = tokens.newAccessToken;
+      session.jiraRefreshToken = tokens.newRefreshToken;
+      session.jiraExpiresAt = new Date(Date.now() + tokens.newExpiresIn * 1000);
+      this.logger.debug('Sessão atualizada com novos tokens'); // ▶️ log
+    }
+    return tokens;
+  }
+
+  /**
+   * Renova o token sob o lease do banco, renovado enquanto a chamada à
+   * Atlassian roda (inclusive esperas por Retry-After). Sem o lease, aguarda
+   * a instância que o detém liberá-lo (ou ele expirar): se ela tiver gravado
+   * um token novo nesse meio-tempo, usa esse token em vez de renovar de novo.
+   */
+  private async refreshWithLease(userId: string): Promise<RefreshedTokens> {
+    // 1) Validar a credencial antes de disputar o lease
+    const before = await this.findRefreshableCredential(userId);
+    const leaseMs = readPositiveInt(
+      this.configService,
+      'JIRA_REFRESH_LEASE_MS',
+      this.DEFAULT_REFRESH_LEASE_MS,
+    );
+    const deadline = Date.now() + leaseMs * 2;
+
+    // 2) Disputar o lease; enquanto outra instância renova, aguardar
+    for (;;) {
+      const run = await this.leaseService.runExclusive(
+        `jira-token-refresh:${userId}`,
+        () => this.refreshUnderLease(userId, before),
+        leaseMs,
+      );
+      if (run.acquired) {
+        return run.result;
+      }
+      if (Date.now() > deadline) {
+        throw new ServiceUnavailableException(
+          `Renovação do token de userId="${userId}" em andamento em outra instância; tente novamente.`,
+        );
+      }
+      this.logger.debug(
+        `Lease de renovação de userId="${userId}" com outra instância; aguardando.`,
+      ); // ▶️ log
+      await new Promise((resolve) =>
+        setTimeout(resolve, this.REFRESH_LEASE_POLL_MS),
+      );
+    }
+  }
+
+  /**
+   * Parte da renovação executada com o lease (ver refreshWithLease).
+   */
+  private async refreshUnderLease(
+    userId: string,
+    before: JiraCredentialEntity,
+  ): Promise<RefreshedTokens> {
+    // 3) Reler a credencial: quem tinha o lease pode ter acabado de renovar
+    //    (e trocado o refresh token); nesse caso, usar o token gravado
+    const current = await this.findRefreshableCredential(userId);
+    if (current.expiresAt?.getTime() !== before.expiresAt?.getTime()) {
+      this.logger.log(
+        `Token de userId="${userId}" renovado por outra instância.`,
+      ); // ▶️ log
+      return {
+        newAccessToken: current.accessToken,
+        newRefreshToken: current.refreshToken,
+        newExpiresIn: Math.max(
+          0,
+          Math.floor(((current.expiresAt?.getTime() ?? 0) - Date.now()) / 1000),
+        ),
+      };
+    }
+
+    // 4) Renovar com o lease (liberado por runExclusive em seguida)
+    return this.requestNewTokens(current);
+  }
+
+  /**
+   * Credencial OAuth do userId, apta a ser renovada.
+   */
+  private async findRefreshableCredential(
+    userId: string,
+  ): Promise<JiraCredentialEntity> {
     const existingCred = await this.jiraCredentialRepo.findByUserId(userId);
     if (!existingCred) {
       this.logger.error(
@@ -274,6 +494,30 @@ export class AuthService {
         'Nenhuma credencial encontrada para este usuário. Talvez o fluxo de OAuth não tenha sido concluído.',
       );
     }
+    if (existingCred.authType !== 'oauth') {
+      throw new BadRequestException(
+        `A credencial de userId="${userId}" usa ${existingCred.authType}, que não é renovado por refresh token.`,
+      );
+    }
+    if (existingCred.status === 'reauth_required') {
+      throw new JiraAuthExpiredError(
+        `A credencial de userId="${userId}" exige nova autorização; reconecte a conta em /jira/auth/install. Última falha: ${existingCred.refreshError ?? 'desconhecida'}`,
+        null,
+        this.jiraAuthBaseUrl,
+      );
+    }
+    return existingCred;
+  }
+
+  /**
+   * Troca o refresh token da credencial por tokens novos (chamado com o lease).
+   */
+  private async requestNewTokens(
+    existingCred: JiraCredentialEntity,
+  ): Promise<RefreshedTokens> {
+    const { userId } = existingCred;
+
+    // 1) Credencial relida do banco já com o lease
     this.logger.debug(
       `Credencial existente encontrada: cloudId="${existingCred.cloudId}"`,
     ); // ▶️ log
@@ -300,26 +544,39 @@ export class AuthService {
     };
     this.logger.debug(`Payload para refresh token: ${JSON.stringify(payload)}`); // ▶️ log
 
-    // 4) Faz POST para renovar
-    let tokenResp: AxiosResponse<TokenResponse>;
+    // 4) Faz POST para renovar. Um refresh token recusado (invalid_grant,
+    //    400/401) significa que a conta precisa ser reconectada
+    let newData: TokenResponse;
     try {
-      tokenResp = await firstValueFrom(
-        this.httpService.post<TokenResponse>(this.jiraAuthBaseUrl, payload, {
+      newData = await this.jiraHttp.post<TokenResponse>(
+        this.jiraAuthBaseUrl,
+        payload,
+        {
           headers: {
             'Content-Type': 'application/json',
             Accept: 'application/json',
           },
-        }),
+        },
       );
       this.logger.log('Resposta de refresh token recebida do Jira'); // ▶️ log
     } catch (error) {
       this.logger.error(`Falha ao renovar token: ${error.message}`); // ▶️ log
-      throw new InternalServerErrorException(
-        `Falha ao renovar token: ${error.message}`,
-      );
+      if (
+        error instanceof JiraBadRequestError ||
+        error instanceof JiraAuthExpiredError
+      ) {
+        await this.jiraCredentialRepo.markReauthRequired(userId, error.message);
+        throw new JiraAuthExpiredError(
+          `Refresh token recusado para userId="${userId}"; reconecte a conta em /jira/auth/install. ${error.message}`,
+          error.status,
+          error.url,
+          error.jiraMessages,
+        );
+      }
+      await this.jiraCredentialRepo.markRefreshFailed(userId, error.message);
+      throw error;
     }
 
-    const newData = tokenResp.data;
     // 5) Validar presença de access_token e refresh_token
     if (!newData.access_token || !newData.refresh_token) {
       this.logger.error(
@@ -351,14 +608,7 @@ export class AuthService {
     this.logger.log(
       `Credenciais atualizadas no banco para userId="${userId}".`,
     ); // ▶️ log
-
-    // 8) (Opcional) Atualizar a sessão se enviada como parâmetro
-    if (session) {
-      session.jiraAccessToken = newData.access_token;
-      session.jiraRefreshToken = newData.refresh_token;
-      session.jiraExpiresAt = newExpiresAt;
-      this.logger.debug('Sessão atualizada com novos tokens'); // ▶️ log
-    }
+    this.callTracker.recordTokenRefresh();
 
     this.logger.log(
       `refreshAccessToken concluído com sucesso para userId="${userId}".`,
@@ -0,0 +1,146 @@
+// src/application/services/auth/credential-admin.service.ts
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+
+import { AuthPrincipal, canActAs } from '@domain/auth/auth-principal';
+import { JiraCredentialEntity } from '@domain/entities/jira-credential.entity';
+import { MonitorDefinitionEntity } from '@domain/entities/monitor-definition.entity';
+import { JiraCredentialRepository } from '@infra/repositories/jira/jira-credential.repository';
+import { MonitorDefinitionRepository } from '@infra/repositories/jira/monitor-definition.repository';
+import { CredentialAdminDto } from '@dtos/auth/credential-admin.dto';
+import { LogoutResponseDto } from '@dtos/auth/logout-response.dto';
+import { AuthService } from './auth.service';
+import { LogoutService } from './logout.service';
+
+/**
+ * Administração das credenciais conectadas (/jira/admin/credentials):
+ * listagem sem os tokens, renovação forçada e remoção. Usuários só enxergam
+ * a própria credencial; chamadores de serviço enxergam todas.
+ */
+@Injectable()
+export class CredentialAdminService {
+  private readonly logger = new Logger(CredentialAdminService.name);
+
+  constructor(
+    private readonly jiraCredRepo: JiraCredentialRepository,
+    private readonly monitorRepo: MonitorDefinitionRepository,
+    private readonly authService: AuthService,
+    private readonly logoutService: LogoutService,
+  ) {}
+
+  async listCredentials(
+    principal: AuthPrincipal,
+  ): Promise<CredentialAdminDto[]> {
+    const creds = (await this.jiraCredRepo.findAll()).filter((cred) =>
+      canActAs(principal, cred.userId),
+    );
+    const monitors = await this.monitorRepo.findAll();
+    return creds.map((cred) =>
+      this.toDto(
+        cred,
+        monitors.filter((monitor) => monitor.userId === cred.userId),
+      ),
+    );
+  }
+
+  async getCredential(
+    userId: string,
+    principal: AuthPrincipal,
+  ): Promise<CredentialAdminDto> {
+    const cred = await this.findOwned(userId, principal);
+    return this.toDto(cred, await this.monitorRepo.findByUser(userId));
+  }
+
+  /**
+   * Renova o token OAuth agora, mesmo que ainda não esteja perto de expirar.
+   * Falhas da Atlassian seguem como erros tipados (ver JiraApiExceptionFilter)
+   * e ficam registradas na credencial.
+   */
+  async refreshCredential(
+    userId: string,
+    principal: AuthPrincipal,
+  ): Promise<CredentialAdminDto> {
+    const cred = await this.findOwned(userId, principal);
+    if (cred.authType !== 'oauth') {
+      throw new BadRequestException(
+        `A credencial de userId="${userId}" é ${cred.authType} e não tem token renovável.`,
+      );
+    }
+    await this.authService.refreshAccessToken(userId);
+    this.logger.log(`Token renovado manualmente para userId="${userId}".`);
+    return this.getCredential(userId, principal);
+  }
+
+  /**
+   * Remove a credencial como no logout: pausa os monitores do usuário e
+   * apaga a credencial com os seus sites.
+   */
+  async deleteCredential(
+    userId: string,
+    principal: AuthPrincipal,
+  ): Promise<LogoutResponseDto> {
+    await this.findOwned(userId, principal);
+    return this.logoutService.logout(userId, undefined);
+  }
+
+  /**
+   * @throws NotFoundException se não existir ou pertencer a outro usuário.
+   */
+  private async findOwned(
+    userId: string,
+    principal: AuthPrincipal,
+  ): Promise<JiraCredentialEntity> {
+    const cred = canActAs(principal, userId)
+      ? await this.jiraCredRepo.findByUserId(userId)
+      : null;
+    if (!cred) {
+      throw new NotFoundException(
+        `Credencial de userId="${userId}" não encontrada.`,
+      );
+    }
+    return cred;
+  }
+
+  private toDto(
+    cred: JiraCredentialEntity,
+    monitors: MonitorDefinitionEntity[],
+  ): CredentialAdminDto {
+    const failedLast =
+      !!cred.refreshFailedAt &&
+      (!cred.lastRefreshedAt || cred.refreshFailedAt > cred.lastRefreshedAt);
+    return {
+      id: cred.id,
+      userId: cred.userId,
+      authType: cred.authType,
+      deployment: cred.deployment,
+      cloudId: cred.cloudId,
+      baseUrl: cred.baseUrl,
+      email: cred.email,
+      status: cred.status,
+      expiresAt: cred.expiresAt,
+      createdAt: cred.createdAt,
+      updatedAt: cred.updatedAt,
+      lastRefresh: {
+        outcome: failedLast
+          ? 'failure'
+          : cred.lastRefreshedAt
+            ? 'success'
+            : 'never',
+        lastRefreshedAt: cred.lastRefreshedAt,
+        refreshFailedAt: cred.refreshFailedAt,
+        refreshError: cred.refreshError,
+        consecutiveFailures: cred.refreshFailureCount,
+      },
+      monitors: monitors.map(({ id, name, enabled }) => ({
+        id,
+        name,
+        enabled,
+      })),
+    };
+  }
+}
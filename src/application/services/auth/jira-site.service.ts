@@ -0,0 +1,94 @@
+// src/application/services/auth/jira-site.service.ts
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+
+import { JiraCredentialEntity } from '@domain/entities/jira-credential.entity';
+import { JiraSiteEntity } from '@domain/entities/jira-site.entity';
+import { JiraCredentialRepository } from '@infra/repositories/jira/jira-credential.repository';
+import { JiraSiteRepository } from '@infra/repositories/jira/jira-site.repository';
+import { JiraSiteDto } from '@dtos/auth/jira-site.dto';
+
+/**
+ * Serviço responsável pelos sites do Jira acessíveis por uma credencial:
+ * listagem e seleção dos sites ativos (e do site padrão).
+ * Os sites são gravados no callback do OAuth (AuthService.handleCallback).
+ */
+@Injectable()
+export class JiraSiteService {
+  private readonly logger = new Logger(JiraSiteService.name);
+
+  constructor(
+    private readonly jiraCredRepo: JiraCredentialRepository,
+    private readonly jiraSiteRepo: JiraSiteRepository,
+  ) {}
+
+  async listSites(userId: string): Promise<JiraSiteDto[]> {
+    const cred = await this.getCredential(userId);
+    const sites = await this.jiraSiteRepo.findByCredential(cred.id);
+    return sites.map((site) => this.toDto(site, cred));
+  }
+
+  /**
+   * Ativa exatamente os sites informados. Se o site padrão atual não estiver
+   * entre eles, o primeiro cloudId da lista passa a ser o padrão.
+   */
+  async selectActiveSites(
+    userId: string,
+    cloudIds: string[],
+  ): Promise<JiraSiteDto[]> {
+    if (!Array.isArray(cloudIds) || cloudIds.length === 0) {
+      throw new BadRequestException(
+        'Informe ao menos um cloudId em "cloudIds".',
+      );
+    }
+    const cred = await this.getCredential(userId);
+    const known = new Set(
+      (await this.jiraSiteRepo.findByCredential(cred.id)).map(
+        (site) => site.cloudId,
+      ),
+    );
+    const unknown = cloudIds.filter((cloudId) => !known.has(cloudId));
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Sites não acessíveis por userId="${userId}": ${unknown.join(', ')}.`,
+      );
+    }
+
+    const sites = await this.jiraSiteRepo.setActive(cred.id, cloudIds);
+    if (!cloudIds.includes(cred.cloudId)) {
+      await this.jiraCredRepo.updateCloudId(userId, cloudIds[0]);
+      cred.cloudId = cloudIds[0];
+    }
+    this.logger.log(
+      `Sites ativos de userId="${userId}": ${cloudIds.join(', ')} (padrão: ${cred.cloudId}).`,
+    );
+    return sites.map((site) => this.toDto(site, cred));
+  }
+
+  private async getCredential(userId: string): Promise<JiraCredentialEntity> {
+    const cred = await this.jiraCredRepo.findByUserId(userId);
+    if (!cred) {
+      throw new NotFoundException(
+        `Credenciais do Jira não encontradas para userId="${userId}".`,
+      );
+    }
+    return cred;
+  }
+
+  private toDto(site: JiraSiteEntity, cred: JiraCredentialEntity): JiraSiteDto {
+    return {
+      cloudId: site.cloudId,
+      name: site.name,
+      url: site.url,
+      scopes: site.scopes,
+      avatarUrl: site.avatarUrl,
+      active: site.active,
+      isDefault: site.cloudId === cred.cloudId,
+    };
+  }
+}
@@ -0,0 +1,201 @@
+// src/application/services/auth/jira-token-credential.service.ts
+
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import {
+  JiraCredentialEntity,
+  JiraDeployment,
+} from '@domain/entities/jira-credential.entity';
+import { AuthPrincipal, canActAs } from '@domain/auth/auth-principal';
+import { JiraHttpClient } from '@infra/http/jira-http.client';
+import { errorMessage } from '@infra/errors/error-message';
+import { JiraCredentialRepository } from '@infra/repositories/jira/jira-credential.repository';
+import { JiraSiteRepository } from '@infra/repositories/jira/jira-site.repository';
+import { JiraUserRepository } from '@infra/repositories/jira/jira-user.repository';
+import { JiraAuthStrategyResolver } from '@app/services/auth/strategies/jira-auth-strategy.resolver';
+import { RegisterTokenCredentialDto } from '@dtos/auth/register-token-credential.dto';
+import { TokenCredentialDto } from '@dtos/auth/token-credential.dto';
+
+/**
+ * Resposta de GET /rest/api/2/myself (Cloud traz accountId; Server/Data
+ * Center, key e name).
+ */
+interface JiraMyself {
+  accountId?: string;
+  key?: string;
+  name?: string;
+  displayName?: string;
+  emailAddress?: string;
+}
+
+/**
+ * Cadastro de credenciais sem OAuth (API token ou PAT), para contas de
+ * serviço e implantações headless que não conseguem concluir o fluxo no
+ * navegador. O token é validado em /rest/api/2/myself antes de ser gravado.
+ *
+ * Serve tanto ao Jira Cloud quanto ao Data Center / Server (`deployment`):
+ * se não for informado, vale JIRA_DEPLOYMENT e, na falta dela, a resposta de
+ * /myself (sem accountId = Data Center).
+ *
+ * No startup, JIRA_USERNAME + JIRA_API_TOKEN (ou JIRA_PAT) cadastram a
+ * credencial de serviço automaticamente.
+ */
+@Injectable()
+export class JiraTokenCredentialService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(JiraTokenCredentialService.name);
+
+  constructor(
+    private readonly jiraHttp: JiraHttpClient,
+    private readonly configService: ConfigService,
+    private readonly jiraCredRepo: JiraCredentialRepository,
+    private readonly jiraSiteRepo: JiraSiteRepository,
+    private readonly jiraUserRepo: JiraUserRepository,
+    private readonly authStrategies: JiraAuthStrategyResolver,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    const email = this.configService.get<string>('JIRA_USERNAME');
+    const apiToken = this.configService.get<string>('JIRA_API_TOKEN');
+    const pat = this.configService.get<string>('JIRA_PAT');
+    const dto: RegisterTokenCredentialDto | null =
+      email && apiToken
+        ? { authType: 'api_token', email, token: apiToken }
+        : pat
+          ? { authType: 'pat', token: pat }
+          : null;
+    if (!dto) {
+      return;
+    }
+
+    dto.userId = this.configService.get<string>('JIRA_SERVICE_USER_ID');
+    try {
+      const cred = await this.register(dto);
+      this.logger.log(
+        `Credencial de serviço (${cred.authType}) pronta para userId="${cred.userId}".`,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Não foi possível cadastrar a credencial de serviço do ambiente: ${errorMessage(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Valida o token no Jira e grava (ou substitui) a credencial.
+   *
+   * @param principal Se informado, o chamador só pode cadastrar credenciais
+   *                  para si mesmo (ver canActAs).
+   */
+  async register(
+    dto: RegisterTokenCredentialDto,
+    principal?: AuthPrincipal,
+  ): Promise<TokenCredentialDto> {
+    // 1) Validação dos campos
+    if (dto.authType !== 'api_token' && dto.authType !== 'pat') {
+      throw new BadRequestException('"authType" deve ser api_token ou pat.');
+    }
+    const deploymentHint =
+      dto.deployment || this.configService.get<string>('JIRA_DEPLOYMENT');
+    if (
+      deploymentHint &&
+      deploymentHint !== 'cloud' &&
+      deploymentHint !== 'datacenter'
+    ) {
+      throw new BadRequestException(
+        '"deployment" (ou JIRA_DEPLOYMENT) deve ser cloud ou datacenter.',
+      );
+    }
+    if (!dto.token?.trim()) {
+      throw new BadRequestException('O campo "token" é obrigatório.');
+    }
+    const email = dto.email?.trim() || null;
+    if (dto.authType === 'api_token' && !email) {
+      throw new BadRequestException(
+        'O campo "email" é obrigatório para api_token.',
+      );
+    }
+    const draft = Object.assign(new JiraCredentialEntity(), {
+      userId: dto.userId ?? '(novo)',
+      authType: dto.authType,
+      baseUrl: dto.baseUrl?.trim() || null,
+      email,
+      accessToken: dto.token.trim(),
+    });
+
+    // 2) Confirma o token no Jira (a estratégia resolve URL e headers)
+    const request = await this.authStrategies.resolve(draft);
+    const myself = await this.fetchMyself(request.baseUrl, request.headers);
+
+    // 3) Identifica a instalação e a credencial e confere a permissão do chamador
+    const deployment: JiraDeployment =
+      (deploymentHint as JiraDeployment | undefined) ||
+      (myself.accountId ? 'cloud' : 'datacenter');
+    const userId = dto.userId || myself.accountId || myself.key || myself.name;
+    if (!userId) {
+      throw new BadRequestException(
+        'Informe "userId": o Jira não retornou um identificador para a conta.',
+      );
+    }
+    if (principal && !canActAs(principal, userId)) {
+      throw new ForbiddenException(
+        `Sem permissão para gravar credenciais de userId="${userId}".`,
+      );
+    }
+
+    // 4) Persiste a credencial (sites OAuth anteriores deixam de valer)
+    const cred = await this.jiraCredRepo.upsertTokenCredentials({
+      userId,
+      authType: dto.authType,
+      deployment,
+      baseUrl: request.baseUrl,
+      email,
+      token: draft.accessToken,
+    });
+    await this.jiraSiteRepo.replaceSites(cred.id, []);
+    const displayName = myself.displayName || userId;
+    await this.jiraUserRepo.upsertUser({
+      accountId: userId,
+      displayName,
+      email: myself.emailAddress || email,
+      avatarUrl: null,
+    });
+    this.logger.log(
+      `Credencial ${dto.authType} (${deployment}) cadastrada para userId="${userId}" em ${request.baseUrl}.`,
+    );
+
+    return {
+      userId,
+      authType: dto.authType,
+      deployment,
+      baseUrl: request.baseUrl,
+      displayName,
+    };
+  }
+
+  private async fetchMyself(
+    baseUrl: string,
+    headers: Record<string, string>,
+  ): Promise<JiraMyself> {
+    try {
+      const myself = await this.jiraHttp.get<JiraMyself>(
+        `${baseUrl}/rest/api/2/myself`,
+        { headers },
+      );
+      return myself ?? {};
+    } catch (error) {
+      this.logger.error(
+        `Token recusado por ${baseUrl}/rest/api/2/myself: ${errorMessage(error)}`,
+      );
+      throw new BadRequestException(
+        `O Jira recusou a credencial (${baseUrl}): ${errorMessage(error)}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,77 @@
+// src/application/services/auth/logout.service.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { JiraCredentialRepository } from '@infra/repositories/jira/jira-credential.repository';
+import { JiraSiteRepository } from '@infra/repositories/jira/jira-site.repository';
+import { MonitorDefinitionService } from '@app/services/queue-monitor/monitor-definition.service';
+import { LogoutResponseDto } from '@dtos/auth/logout-response.dto';
+
+/**
+ * Campos do Jira guardados na sessão (ver types/express-session.d.ts).
+ */
+const JIRA_SESSION_FIELDS = [
+  'userId',
+  'jiraOAuthState',
+  'jiraAccessToken',
+  'jiraRefreshToken',
+  'jiraCloudId',
+  'jiraExpiresAt',
+] as const;
+
+/**
+ * Desconecta uma conta do Jira: limpa a sessão, apaga a credencial (e, em
+ * cascata, seus sites) e pausa os monitores do usuário.
+ */
+@Injectable()
+export class LogoutService {
+  private readonly logger = new Logger(LogoutService.name);
+
+  constructor(
+    private readonly jiraCredRepo: JiraCredentialRepository,
+    private readonly jiraSiteRepo: JiraSiteRepository,
+    private readonly monitorDefinitionService: MonitorDefinitionService,
+  ) {}
+
+  /**
+   * @param userId  accountId do usuário a desconectar.
+   * @param session Sessão da requisição; só é limpa se pertencer ao mesmo
+   *                usuário (ou ainda não tiver usuário).
+   */
+  async logout(
+    userId: string,
+    session: Record<string, any> | undefined,
+  ): Promise<LogoutResponseDto> {
+    this.logger.log(`Iniciando logout para userId="${userId}"`);
+
+    // 1) Limpa os campos do Jira da sessão atual
+    const sessionCleared =
+      !!session && (!session.userId || session.userId === userId);
+    if (sessionCleared) {
+      for (const field of JIRA_SESSION_FIELDS) {
+        delete session[field];
+      }
+    }
+
+    // 2) Pausa os monitores antes de apagar a credencial que eles usam
+    const stopped = await this.monitorDefinitionService.disableByUser(userId);
+
+    // 3) Apaga a credencial; os sites vão junto (ON DELETE CASCADE)
+    const cred = await this.jiraCredRepo.findByUserId(userId);
+    let sitesRemoved = 0;
+    if (cred) {
+      sitesRemoved = (await this.jiraSiteRepo.findByCredential(cred.id)).length;
+      await this.jiraCredRepo.deleteByUserId(userId);
+    }
+
+    this.logger.log(
+      `Logout concluído para userId="${userId}": credencial ${cred ? 'removida' : 'inexistente'}, ${sitesRemoved} site(s), ${stopped.length} monitor(es) pausado(s).`,
+    );
+    return {
+      userId,
+      sessionCleared,
+      credentialRemoved: !!cred,
+      sitesRemoved,
+      stoppedMonitors: stopped.map(({ id, name }) => ({ id, name })),
+    };
+  }
+}
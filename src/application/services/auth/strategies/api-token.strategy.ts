@@ -0,0 +1,38 @@
+// src/application/services/auth/strategies/api-token.strategy.ts
+
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { JiraCredentialEntity } from '@domain/entities/jira-credential.entity';
+import { JiraAuthStrategy, JiraRequestContext } from './jira-auth.strategy';
+import { resolveApiVersion, resolveSiteUrl } from './site-url';
+
+/**
+ * E-mail + API token (Basic Auth) direto no site, para contas de serviço
+ * que não passam pelo OAuth no navegador.
+ */
+@Injectable()
+export class ApiTokenStrategy implements JiraAuthStrategy {
+  readonly type = 'api_token' as const;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  resolve(
+    cred: JiraCredentialEntity,
+    cloudId?: string,
+  ): Promise<JiraRequestContext> {
+    const basic = Buffer.from(`${cred.email}:${cred.accessToken}`).toString(
+      'base64',
+    );
+    const siteUrl = resolveSiteUrl(cred, cloudId, this.configService);
+    return Promise.resolve({
+      baseUrl: siteUrl,
+      siteUrl,
+      apiVersion: resolveApiVersion(cred),
+      headers: {
+        Authorization: `Basic ${basic}`,
+        Accept: 'application/json',
+      },
+    });
+  }
+}
@@ -0,0 +1,48 @@
+// src/application/services/auth/strategies/jira-auth-strategy.resolver.ts
+
+import { Injectable, InternalServerErrorException } from '@nestjs/common';
+
+import {
+  JiraAuthType,
+  JiraCredentialEntity,
+} from '@domain/entities/jira-credential.entity';
+import { JiraAuthStrategy, JiraRequestContext } from './jira-auth.strategy';
+import { OAuthStrategy } from './oauth.strategy';
+import { ApiTokenStrategy } from './api-token.strategy';
+import { PatStrategy } from './pat.strategy';
+
+/**
+ * Escolhe a JiraAuthStrategy de cada credencial pelo `authType`.
+ */
+@Injectable()
+export class JiraAuthStrategyResolver {
+  private readonly strategies: Map<JiraAuthType, JiraAuthStrategy>;
+
+  constructor(
+    oauth: OAuthStrategy,
+    apiToken: ApiTokenStrategy,
+    pat: PatStrategy,
+  ) {
+    this.strategies = new Map<JiraAuthType, JiraAuthStrategy>(
+      [oauth, apiToken, pat].map((strategy) => [strategy.type, strategy]),
+    );
+  }
+
+  /**
+   * Base URL e headers para chamar a API com a credencial.
+   *
+   * @param cloudId Site a consultar (apenas OAuth); se omitido, o padrão.
+   */
+  resolve(
+    cred: JiraCredentialEntity,
+    cloudId?: string,
+  ): Promise<JiraRequestContext> {
+    const strategy = this.strategies.get(cred.authType);
+    if (!strategy) {
+      throw new InternalServerErrorException(
+        `Tipo de autenticação desconhecido "${cred.authType}" para userId="${cred.userId}".`,
+      );
+    }
+    return strategy.resolve(cred, cloudId);
+  }
+}
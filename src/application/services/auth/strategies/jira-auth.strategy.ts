@@ -0,0 +1,45 @@
+// src/application/services/auth/strategies/jira-auth.strategy.ts
+
+import {
+  JiraAuthType,
+  JiraCredentialEntity,
+} from '@domain/entities/jira-credential.entity';
+
+/**
+ * Versão da API REST: 3 no Jira Cloud, 2 no Data Center / Server.
+ */
+export type JiraApiVersion = '2' | '3';
+
+/**
+ * Onde e como chamar a API REST do Jira com uma credencial.
+ *
+ * @property baseUrl Raiz da API, sem barra final (as rotas /rest/api/... são
+ *                   concatenadas a ela).
+ * @property siteUrl URL do site no navegador (links /browse/<key>), sem barra
+ *                  final; null se não for conhecida.
+ * @property apiVersion Versão da API REST a usar nas rotas /rest/api/{versão}.
+ * @property headers Headers de autenticação e de conteúdo.
+ */
+export interface JiraRequestContext {
+  baseUrl: string;
+  siteUrl: string | null;
+  apiVersion: JiraApiVersion;
+  headers: Record<string, string>;
+}
+
+/**
+ * Estratégia de autenticação no Jira, escolhida pelo `authType` da credencial.
+ * Cada implementação decide a base URL e os headers das chamadas.
+ */
+export interface JiraAuthStrategy {
+  readonly type: JiraAuthType;
+
+  /**
+   * @param cred    Credencial (com tokens já decifrados).
+   * @param cloudId Site a consultar; só faz sentido no OAuth.
+   */
+  resolve(
+    cred: JiraCredentialEntity,
+    cloudId?: string,
+  ): Promise<JiraRequestContext>;
+}
@@ -0,0 +1,76 @@
+// src/application/services/auth/strategies/oauth.strategy.ts
+
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+
+import { JiraCredentialEntity } from '@domain/entities/jira-credential.entity';
+import { JiraSiteRepository } from '@infra/repositories/jira/jira-site.repository';
+import { errorMessage } from '@infra/errors/error-message';
+import { AuthService } from '@app/services/auth/auth.service';
+import { JiraAuthStrategy, JiraRequestContext } from './jira-auth.strategy';
+
+/**
+ * OAuth 2.0 (3LO): chamadas via https://api.atlassian.com/ex/jira/{cloudId}
+ * com Bearer. Renova o token antes do uso se estiver perto de expirar.
+ */
+@Injectable()
+export class OAuthStrategy implements JiraAuthStrategy {
+  readonly type = 'oauth' as const;
+  private readonly logger = new Logger(OAuthStrategy.name);
+
+  // Renovar o token se faltar menos de 1 minuto para expirar
+  private readonly REFRESH_BUFFER_MS = 60 * 1000;
+
+  constructor(
+    private readonly authService: AuthService,
+    private readonly jiraSiteRepo: JiraSiteRepository,
+  ) {}
+
+  async resolve(
+    cred: JiraCredentialEntity,
+    cloudId?: string,
+  ): Promise<JiraRequestContext> {
+    const { userId } = cred;
+
+    // 1) Verificar e renovar token se necessário
+    const now = Date.now();
+    const msLeft = (cred.expiresAt?.getTime() ?? 0) - now;
+    this.logger.debug(`Token expira em ${msLeft} ms para userId="${userId}".`);
+    if (msLeft < this.REFRESH_BUFFER_MS) {
+      this.logger.log(
+        `Token próximo da expiração (faltam ${msLeft} ms). Renovando antes da chamada...`,
+      );
+      try {
+        const { newAccessToken, newRefreshToken, newExpiresIn } =
+          await this.authService.refreshAccessToken(userId);
+
+        cred.accessToken = newAccessToken;
+        cred.refreshToken = newRefreshToken;
+        cred.expiresAt = new Date(now + newExpiresIn * 1000);
+        this.logger.log(`Token renovado para userId="${userId}".`);
+      } catch (error) {
+        this.logger.error(
+          `Falha ao renovar token para userId="${userId}": ${errorMessage(error)}`,
+        );
+      }
+    }
+
+    // 2) O site informado precisa ser um dos sites ativos da credencial
+    const cloudIdToUse = cloudId || cred.cloudId;
+    const site = await this.jiraSiteRepo.findByCloudId(cred.id, cloudIdToUse);
+    if (cloudIdToUse !== cred.cloudId && !site?.active) {
+      throw new BadRequestException(
+        `O site "${cloudIdToUse}" não está ativo para userId="${userId}".`,
+      );
+    }
+
+    return {
+      baseUrl: `https://api.atlassian.com/ex/jira/${cloudIdToUse}`,
+      siteUrl: site?.url.replace(/\/+$/, '') ?? null,
+      apiVersion: '3',
+      headers: {
+        Authorization: `Bearer ${cred.accessToken}`,
+        Accept: 'application/json',
+      },
+    };
+  }
+}
@@ -0,0 +1,35 @@
+// src/application/services/auth/strategies/pat.strategy.ts
+
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { JiraCredentialEntity } from '@domain/entities/jira-credential.entity';
+import { JiraAuthStrategy, JiraRequestContext } from './jira-auth.strategy';
+import { resolveApiVersion, resolveSiteUrl } from './site-url';
+
+/**
+ * Personal Access Token (Bearer) direto no site; é a forma usual de acesso
+ * ao Jira Data Center / Server.
+ */
+@Injectable()
+export class PatStrategy implements JiraAuthStrategy {
+  readonly type = 'pat' as const;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  resolve(
+    cred: JiraCredentialEntity,
+    cloudId?: string,
+  ): Promise<JiraRequestContext> {
+    const siteUrl = resolveSiteUrl(cred, cloudId, this.configService);
+    return Promise.resolve({
+      baseUrl: siteUrl,
+      siteUrl,
+      apiVersion: resolveApiVersion(cred),
+      headers: {
+        Authorization: `Bearer ${cred.accessToken}`,
+        Accept: 'application/json',
+      },
+    });
+  }
+}
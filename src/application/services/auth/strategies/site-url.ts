@@ -0,0 +1,41 @@
+// src/application/services/auth/strategies/site-url.ts
+
+import {
+  BadRequestException,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { JiraCredentialEntity } from '@domain/entities/jira-credential.entity';
+import { JiraApiVersion } from './jira-auth.strategy';
+
+/**
+ * Base URL das credenciais que chamam o site direto (api_token e pat): a
+ * `baseUrl` da credencial ou, na falta dela, JIRA_BASE_URL.
+ */
+export function resolveSiteUrl(
+  cred: JiraCredentialEntity,
+  cloudId: string | undefined,
+  configService: ConfigService,
+): string {
+  if (cloudId) {
+    throw new BadRequestException(
+      `A credencial de userId="${cred.userId}" (${cred.authType}) não usa sites OAuth; não informe cloudId.`,
+    );
+  }
+  const baseUrl =
+    cred.baseUrl || configService.get<string>('JIRA_BASE_URL') || '';
+  if (!baseUrl) {
+    throw new InternalServerErrorException(
+      `Nenhuma URL de site para userId="${cred.userId}": defina baseUrl na credencial ou JIRA_BASE_URL.`,
+    );
+  }
+  return baseUrl.replace(/\/+$/, '');
+}
+
+/**
+ * Versão da API REST conforme o tipo de instalação da credencial.
+ */
+export function resolveApiVersion(cred: JiraCredentialEntity): JiraApiVersion {
+  return cred.deployment === 'datacenter' ? '2' : '3';
+}
@@ -0,0 +1,47 @@
+// src/application/services/auth/token-encryption.service.ts
+
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { TokenCipherService } from '@infra/crypto/token-cipher.service';
+import { JiraCredentialRepository } from '@infra/repositories/jira/jira-credential.repository';
+
+/**
+ * Mantém os tokens do banco cifrados com a chave ativa:
+ *  1) no startup, cifra as credenciais gravadas em texto puro antes da
+ *     criptografia existir;
+ *  2) sob demanda (npm run tokens:reencrypt), re-cifra tudo após uma
+ *     rotação de TOKEN_ENCRYPTION_ACTIVE_KEY.
+ */
+@Injectable()
+export class TokenEncryptionService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(TokenEncryptionService.name);
+
+  constructor(
+    private readonly cipher: TokenCipherService,
+    private readonly jiraCredRepo: JiraCredentialRepository,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    if (!this.cipher.isEnabled()) {
+      this.logger.warn(
+        'TOKEN_ENCRYPTION_KEYS não definida: migração de tokens em texto puro ignorada e novas credenciais não poderão ser gravadas.',
+      );
+      return;
+    }
+    const migrated = await this.jiraCredRepo.reencryptTokens(true);
+    if (migrated > 0) {
+      this.logger.log(
+        `${migrated} credencial(is) em texto puro cifrada(s) no startup.`,
+      );
+    }
+  }
+
+  /**
+   * Re-cifra todas as credenciais que não estão na chave ativa.
+   *
+   * @returns Quantidade de credenciais alteradas.
+   */
+  async reencryptAll(): Promise<number> {
+    this.logger.log('Re-cifrando credenciais com a chave ativa...');
+    return this.jiraCredRepo.reencryptTokens(false);
+  }
+}
@@ -0,0 +1,222 @@
+// src/application/services/auth/token-refresh-sweeper.service.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { AuthPrincipal, canActAs } from '@domain/auth/auth-principal';
+import { JiraCredentialEntity } from '@domain/entities/jira-credential.entity';
+import { readPositiveInt } from '@infra/config/read-positive-int';
+import { errorMessage } from '@infra/errors/error-message';
+import { JiraCredentialRepository } from '@infra/repositories/jira/jira-credential.repository';
+import { LeaseService } from '@app/services/lease/lease.service';
+import {
+  CredentialRefreshStateDto,
+  TokenRefreshStateDto,
+  TokenRefreshSweepDto,
+} from '@dtos/auth/token-refresh-state.dto';
+import { AuthService } from './auth.service';
+
+/**
+ * Varredura de renovação dos tokens OAuth (agendada pelo
+ * MonitorSchedulerService em JIRA_TOKEN_REFRESH_CRON):
+ *  1) Busca as credenciais OAuth ativas cujo token expira dentro da janela
+ *     JIRA_TOKEN_REFRESH_WINDOW_SECONDS (que deve ser maior que o intervalo
+ *     do cron, para que nenhum token expire entre duas varreduras).
+ *  2) Renova até JIRA_TOKEN_REFRESH_CONCURRENCY credenciais ao mesmo tempo,
+ *     via AuthService.refreshAccessToken (que serializa as renovações de cada
+ *     credencial).
+ *  3) Uma falha não interrompe as demais: fica registrada na credencial
+ *     (refreshFailureCount, refreshError) e a renovação é tentada de novo na
+ *     próxima varredura. Credenciais em reauth_required ficam de fora.
+ *  4) Com várias instâncias, só a que obtém o lease "jira-token-refresh-sweep"
+ *     varre; nas demais, a varredura é ignorada.
+ */
+@Injectable()
+export class TokenRefreshSweeperService {
+  private readonly logger = new Logger(TokenRefreshSweeperService.name);
+
+  private readonly DEFAULT_WINDOW_SECONDS = 15 * 60;
+  private readonly DEFAULT_CONCURRENCY = 4;
+  private readonly SWEEP_LEASE = 'jira-token-refresh-sweep';
+
+  /**
+   * Varredura em andamento (disparos sobrepostos aguardam a mesma).
+   */
+  private sweeping: Promise<TokenRefreshSweepDto> | null = null;
+  private lastSweep: TokenRefreshSweepDto | null = null;
+
+  constructor(
+    private readonly jiraCredRepo: JiraCredentialRepository,
+    private readonly authService: AuthService,
+    private readonly leaseService: LeaseService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Renova os tokens que expiram dentro da janela.
+   *
+   * @param userId Se informado, considera apenas a credencial deste usuário
+   *               (sem registrar a varredura como a última geral).
+   */
+  async sweep(userId?: string): Promise<TokenRefreshSweepDto> {
+    if (userId) {
+      return this.run(userId);
+    }
+    if (!this.sweeping) {
+      this.sweeping = this.runLeased().finally(() => (this.sweeping = null));
+    } else {
+      this.logger.warn('Varredura de tokens já em andamento; aguardando.');
+    }
+    return this.sweeping;
+  }
+
+  /**
+   * Situação de renovação das credenciais visíveis ao chamador (a própria,
+   * ou todas para chamadores de serviço) e a última varredura.
+   */
+  async getState(principal: AuthPrincipal): Promise<TokenRefreshStateDto> {
+    const dueBefore = this.dueBefore();
+    const creds = (await this.jiraCredRepo.findAll()).filter((cred) =>
+      canActAs(principal, cred.userId),
+    );
+    return {
+      windowSeconds: this.windowSeconds(),
+      concurrency: this.concurrency(),
+      running: this.sweeping !== null,
+      lastSweep: this.lastSweep,
+      credentials: creds.map((cred) => this.toStateDto(cred, dueBefore)),
+    };
+  }
+
+  /**
+   * Varredura completa sob o lease; sem ele, não renova nada.
+   */
+  private async runLeased(): Promise<TokenRefreshSweepDto> {
+    const startedAt = new Date();
+    const outcome = await this.leaseService.runExclusive(this.SWEEP_LEASE, () =>
+      this.run(),
+    );
+    if (!outcome.acquired) {
+      this.logger.log(
+        'Varredura de tokens em andamento em outra instância; ignorada.',
+      );
+      return {
+        startedAt,
+        finishedAt: new Date(),
+        candidates: 0,
+        refreshed: 0,
+        failed: 0,
+        skipped: true,
+      };
+    }
+    this.lastSweep = outcome.result;
+    return outcome.result;
+  }
+
+  private async run(userId?: string): Promise<TokenRefreshSweepDto> {
+    const startedAt = new Date();
+    const dueBefore = this.dueBefore();
+
+    // 1) Credenciais expirando dentro da janela
+    const candidates = (
+      userId
+        ? [await this.jiraCredRepo.findByUserId(userId)]
+        : await this.jiraCredRepo.findOAuthExpiringBefore(dueBefore)
+    ).filter(
+      (cred): cred is JiraCredentialEntity =>
+        !!cred && this.isDue(cred, dueBefore),
+    );
+    this.logger.log(
+      `Varredura de tokens: ${candidates.length} credencial(is) expirando até ${dueBefore.toISOString()}.`,
+    );
+
+    // 2) Renovação com concorrência limitada
+    let refreshed = 0;
+    let failed = 0;
+    const queue = [...candidates];
+    const worker = async () => {
+      for (let cred = queue.shift(); cred; cred = queue.shift()) {
+        try {
+          await this.authService.refreshAccessToken(cred.userId);
+          refreshed++;
+          this.logger.log(
+            `Token do Jira renovado automaticamente para userId="${cred.userId}".`,
+          );
+        } catch (error) {
+          // 3) A falha já foi registrada na credencial pelo AuthService
+          failed++;
+          this.logger.error(
+            `Falha ao renovar token automaticamente para userId="${cred.userId}" (${cred.refreshFailureCount + 1}ª falha seguida): ${errorMessage(error)}`,
+          );
+        }
+      }
+    };
+    await Promise.all(
+      Array.from(
+        { length: Math.min(this.concurrency(), candidates.length) },
+        worker,
+      ),
+    );
+
+    const summary: TokenRefreshSweepDto = {
+      startedAt,
+      finishedAt: new Date(),
+      candidates: candidates.length,
+      refreshed,
+      failed,
+      skipped: false,
+    };
+    this.logger.log(
+      `Varredura de tokens concluída: ${refreshed} renovado(s), ${failed} falha(s).`,
+    );
+    return summary;
+  }
+
+  /**
+   * OAuth ativo cujo token expira até `dueBefore` (ou sem expiração).
+   */
+  private isDue(cred: JiraCredentialEntity, dueBefore: Date): boolean {
+    return (
+      cred.authType === 'oauth' &&
+      cred.status === 'active' &&
+      (!cred.expiresAt || cred.expiresAt <= dueBefore)
+    );
+  }
+
+  private dueBefore(): Date {
+    return new Date(Date.now() + this.windowSeconds() * 1000);
+  }
+
+  private windowSeconds(): number {
+    return readPositiveInt(
+      this.configService,
+      'JIRA_TOKEN_REFRESH_WINDOW_SECONDS',
+      this.DEFAULT_WINDOW_SECONDS,
+    );
+  }
+
+  private concurrency(): number {
+    return readPositiveInt(
+      this.configService,
+      'JIRA_TOKEN_REFRESH_CONCURRENCY',
+      this.DEFAULT_CONCURRENCY,
+    );
+  }
+
+  private toStateDto(
+    cred: JiraCredentialEntity,
+    dueBefore: Date,
+  ): CredentialRefreshStateDto {
+    return {
+      userId: cred.userId,
+      authType: cred.authType,
+      status: cred.status,
+      expiresAt: cred.expiresAt,
+      dueForRefresh: this.isDue(cred, dueBefore),
+      lastRefreshedAt: cred.lastRefreshedAt,
+      consecutiveFailures: cred.refreshFailureCount,
+      refreshFailedAt: cred.refreshFailedAt,
+      refreshError: cred.refreshError,
+    };
+  }
+}
@@ -0,0 +1,108 @@
+// src/application/services/health/health.service.spec.ts
+
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+
+import { JiraCredentialEntity } from '@domain/entities/jira-credential.entity';
+import { JiraUnavailableError } from '@domain/errors/jira-api.errors';
+import { JiraFixtureStore } from '@infra/fixtures/jira-fixture.store';
+import { JiraHttpClient } from '@infra/http/jira-http.client';
+import { JiraCredentialRepository } from '@infra/repositories/jira/jira-credential.repository';
+import { MonitorDefinitionRepository } from '@infra/repositories/jira/monitor-definition.repository';
+import { MonitorRunRepository } from '@infra/repositories/jira/monitor-run.repository';
+import { MonitorSchedulerService } from '@services/queue-monitor/monitor-scheduler.service';
+import { HealthService } from './health.service';
+
+function credential(userId: string, cloudId: string): JiraCredentialEntity {
+  return Object.assign(new JiraCredentialEntity(), {
+    userId,
+    authType: 'oauth',
+    deployment: 'cloud',
+    cloudId,
+    status: 'active',
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    refreshFailedAt: null,
+    refreshError: null,
+  });
+}
+
+describe('HealthService', () => {
+  let findAllWithoutTokens: jest.Mock<Promise<JiraCredentialEntity[]>, []>;
+  let get: jest.Mock<Promise<unknown>, [string]>;
+  let service: HealthService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    findAllWithoutTokens = jest.fn<Promise<JiraCredentialEntity[]>, []>(() =>
+      Promise.resolve([
+        credential('ana', 'cloud-a'),
+        credential('bia', 'cloud-b'),
+      ]),
+    );
+    get = jest.fn<Promise<unknown>, [string]>(() => Promise.resolve({}));
+    service = new HealthService(
+      { query: () => Promise.resolve([]) } as unknown as DataSource,
+      { findAllWithoutTokens } as unknown as JiraCredentialRepository,
+      {
+        findEnabled: () => Promise.resolve([]),
+      } as unknown as MonitorDefinitionRepository,
+      {} as MonitorRunRepository,
+      {} as MonitorSchedulerService,
+      { get } as unknown as JiraHttpClient,
+      { isOffline: () => false } as unknown as JiraFixtureStore,
+      new ConfigService({}),
+    );
+  });
+
+  function failSite(cloudId: string) {
+    get.mockImplementation((url) =>
+      url.includes(`/ex/jira/${cloudId}/`)
+        ? Promise.reject(new JiraUnavailableError('timeout', null, url))
+        : Promise.resolve({}),
+    );
+  }
+
+  it('fica ok e pronto com todos os sites alcançáveis', async () => {
+    const report = await service.getReport();
+
+    expect(report.status).toBe('ok');
+    expect(report.jira.status).toBe('up');
+    expect(report.jira.targets).toHaveLength(2);
+    expect(service.isReady(report)).toBe(true);
+  });
+
+  it('um site fora degrada o relatório sem tirar a instância do ar', async () => {
+    failSite('cloud-b');
+
+    const report = await service.getReport();
+
+    expect(report.jira.status).toBe('degraded');
+    expect(report.status).toBe('degraded');
+    expect(service.isReady(report)).toBe(true);
+  });
+
+  it('não fica pronto quando nenhum site responde', async () => {
+    get.mockRejectedValue(new JiraUnavailableError('timeout', null, 'x'));
+
+    const report = await service.getReport();
+
+    expect(report.jira.status).toBe('down');
+    expect(service.isReady(report)).toBe(false);
+  });
+
+  it('não falha quando as credenciais não podem ser lidas', async () => {
+    findAllWithoutTokens.mockRejectedValue(new Error('token ilegível'));
+
+    const report = await service.getReport();
+
+    expect(report.status).toBe('degraded');
+    expect(report.credentials.status).toBe('unknown');
+    expect(report.jira.status).toBe('skipped');
+    expect(service.isReady(report)).toBe(true);
+    expect(get).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,416 @@
+// src/application/services/health/health.service.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+
+import {
+  CredentialHealthDto,
+  CredentialsHealthDto,
+  DatabaseHealthDto,
+  HealthReportDto,
+  HealthSummaryDto,
+  JiraHealthDto,
+  JiraTargetHealthDto,
+  MonitorPollHealthDto,
+  PollingHealthDto,
+} from '@dtos/health/health-report.dto';
+import { JiraCredentialEntity } from '@domain/entities/jira-credential.entity';
+import { MonitorDefinitionEntity } from '@domain/entities/monitor-definition.entity';
+import { MonitorRunEntity } from '@domain/entities/monitor-run.entity';
+import {
+  JiraApiError,
+  JiraRateLimitedError,
+} from '@domain/errors/jira-api.errors';
+import { readPositiveInt } from '@infra/config/read-positive-int';
+import { errorMessage } from '@infra/errors/error-message';
+import { JiraHttpClient } from '@infra/http/jira-http.client';
+import { JiraFixtureStore } from '@infra/fixtures/jira-fixture.store';
+import { JiraCredentialRepository } from '@infra/repositories/jira/jira-credential.repository';
+import { MonitorDefinitionRepository } from '@infra/repositories/jira/monitor-definition.repository';
+import { MonitorRunRepository } from '@infra/repositories/jira/monitor-run.repository';
+import {
+  MonitorPollStatus,
+  MonitorSchedulerService,
+} from '@services/queue-monitor/monitor-scheduler.service';
+import {
+  resolveApiVersion,
+  resolveSiteUrl,
+} from '@services/auth/strategies/site-url';
+
+/**
+ * Monta o relatório de saúde usado por GET /health, GET /ready e
+ * GET /health/details (as rotas públicas recebem só o resumo, ver summarize):
+ *  1) Banco: SELECT 1 na conexão do TypeORM.
+ *  2) Credenciais: situação do token de cada uma pelo expiresAt, pela
+ *     última falha de renovação e pelo status (reauth_required).
+ *  3) Polling: última execução de cada monitor ativo (MonitorSchedulerService
+ *     ou, se mais recente, o log de execuções, onde aparecem as execuções de
+ *     outras instâncias), marcando como stale o monitor sem execução concluída
+ *     há mais de HEALTH_POLL_STALE_FACTOR intervalos.
+ *  4) Jira: GET /rest/api/{versão}/serverInfo, sem autenticação, em cada site
+ *     das credenciais; qualquer resposta abaixo de 500 conta como alcançável.
+ *     Um site inalcançável deixa o Jira degraded (é problema daquele usuário);
+ *     down só quando nenhum site responde. O resultado é reaproveitado por
+ *     HEALTH_JIRA_CACHE_SECONDS para que as probes não gastem o orçamento de
+ *     requisições ao Jira.
+ *
+ * As credenciais são lidas sem os tokens (findAllWithoutTokens): nada é
+ * decifrado, então um token ilegível não transforma o /health em 500.
+ */
+@Injectable()
+export class HealthService {
+  private readonly logger = new Logger(HealthService.name);
+
+  private readonly DEFAULT_TOKEN_EXPIRING_SECONDS = 300;
+  private readonly DEFAULT_POLL_STALE_FACTOR = 3;
+  private readonly DEFAULT_JIRA_CACHE_SECONDS = 30;
+  private readonly DEFAULT_JIRA_TIMEOUT_MS = 5000;
+
+  /**
+   * Última verificação do Jira e a verificação em andamento (se houver), para
+   * que probes simultâneas façam uma única rodada de chamadas.
+   */
+  private jiraCache: JiraHealthDto | null = null;
+  private jiraCheck: Promise<JiraHealthDto> | null = null;
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly credentialRepo: JiraCredentialRepository,
+    private readonly monitorRepo: MonitorDefinitionRepository,
+    private readonly monitorRunRepo: MonitorRunRepository,
+    private readonly scheduler: MonitorSchedulerService,
+    private readonly jiraHttp: JiraHttpClient,
+    private readonly fixtureStore: JiraFixtureStore,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Relatório completo. Com o banco fora, as verificações que dependem dele
+   * (credenciais, monitores e sites do Jira) ficam como unknown/skipped; o
+   * mesmo vale para credenciais e Jira se as credenciais não puderem ser lidas.
+   */
+  async getReport(): Promise<HealthReportDto> {
+    const database = await this.checkDatabase();
+
+    let credentials: CredentialsHealthDto = { status: 'unknown', items: [] };
+    let polling: PollingHealthDto = { status: 'unknown', monitors: [] };
+    let jira: JiraHealthDto = {
+      status: 'skipped',
+      checkedAt: null,
+      targets: [],
+    };
+    if (database.status === 'up') {
+      const creds = await this.loadCredentials();
+      if (creds) {
+        credentials = this.checkCredentials(creds);
+        jira = await this.checkJira(creds);
+      }
+      polling = await this.checkPolling();
+    }
+
+    const degraded =
+      credentials.status !== 'ok' ||
+      polling.status === 'degraded' ||
+      jira.status === 'degraded' ||
+      jira.status === 'down';
+    return {
+      status:
+        database.status === 'down' ? 'down' : degraded ? 'degraded' : 'ok',
+      checkedAt: new Date(),
+      uptimeSeconds: Math.round(process.uptime()),
+      database,
+      credentials,
+      polling,
+      jira,
+    };
+  }
+
+  /**
+   * Resumo público do relatório: só as situações, sem userIds, nomes de
+   * monitores, URLs dos sites ou mensagens de erro.
+   */
+  summarize(report: HealthReportDto): HealthSummaryDto {
+    return {
+      status: report.status,
+      checkedAt: report.checkedAt,
+      uptimeSeconds: report.uptimeSeconds,
+      checks: {
+        database: report.database.status,
+        credentials: report.credentials.status,
+        polling: report.polling.status,
+        jira: report.jira.status,
+      },
+    };
+  }
+
+  /**
+   * Pronto para atender: banco acessível e Jira alcançável em ao menos um
+   * site (ou não verificado). Um site fora afeta só os monitores dele e não
+   * deve tirar a instância do balanceador.
+   */
+  isReady(report: HealthReportDto): boolean {
+    return report.database.status === 'up' && report.jira.status !== 'down';
+  }
+
+  /**
+   * @returns null se as credenciais não puderem ser lidas (já registrado).
+   */
+  private async loadCredentials(): Promise<JiraCredentialEntity[] | null> {
+    try {
+      return await this.credentialRepo.findAllWithoutTokens();
+    } catch (error) {
+      this.logger.error(
+        `Falha ao carregar as credenciais: ${errorMessage(error)}`,
+      );
+      return null;
+    }
+  }
+
+  private async checkDatabase(): Promise<DatabaseHealthDto> {
+    const start = Date.now();
+    try {
+      await this.dataSource.query('SELECT 1');
+      return { status: 'up', latencyMs: Date.now() - start };
+    } catch (error) {
+      this.logger.error(`Banco de dados inacessível: ${errorMessage(error)}`);
+      return {
+        status: 'down',
+        latencyMs: Date.now() - start,
+        error: errorMessage(error),
+      };
+    }
+  }
+
+  private checkCredentials(
+    creds: JiraCredentialEntity[],
+  ): CredentialsHealthDto {
+    const expiringMs =
+      readPositiveInt(
+        this.configService,
+        'HEALTH_TOKEN_EXPIRING_SECONDS',
+        this.DEFAULT_TOKEN_EXPIRING_SECONDS,
+      ) * 1000;
+    const now = Date.now();
+
+    const items = creds.map((cred): CredentialHealthDto => {
+      const msLeft = cred.expiresAt ? cred.expiresAt.getTime() - now : null;
+      let state: CredentialHealthDto['state'] = 'valid';
+      if (cred.status === 'reauth_required') {
+        state = 'reauth_required';
+      } else if (cred.refreshFailedAt) {
+        state = 'refresh_failed';
+      } else if (msLeft !== null && msLeft <= 0) {
+        state = 'expired';
+      } else if (msLeft !== null && msLeft <= expiringMs) {
+        state = 'expiring';
+      }
+      return {
+        userId: cred.userId,
+        authType: cred.authType,
+        state,
+        expiresAt: cred.expiresAt,
+        refreshFailedAt: cred.refreshFailedAt,
+        refreshError: cred.refreshError,
+      };
+    });
+
+    return {
+      status: items.some(
+        (item) =>
+          item.state === 'refresh_failed' || item.state === 'reauth_required',
+      )
+        ? 'degraded'
+        : 'ok',
+      items,
+    };
+  }
+
+  private async checkPolling(): Promise<PollingHealthDto> {
+    const factor = readPositiveInt(
+      this.configService,
+      'HEALTH_POLL_STALE_FACTOR',
+      this.DEFAULT_POLL_STALE_FACTOR,
+    );
+    const monitors: MonitorPollHealthDto[] = [];
+    for (const monitor of await this.monitorRepo.findEnabled()) {
+      const latestRun = await this.monitorRunRepo.findLatest(monitor.id);
+      monitors.push(this.checkMonitor(monitor, factor, latestRun));
+    }
+    return {
+      status: monitors.some(
+        (monitor) => monitor.state === 'failing' || monitor.state === 'stale',
+      )
+        ? 'degraded'
+        : 'ok',
+      monitors,
+    };
+  }
+
+  /**
+   * Estado do monitor pela última execução e pelo intervalo da agenda.
+   * Monitor ativo sem job registrado (ex.: cron recusado) também é stale.
+   */
+  private checkMonitor(
+    monitor: MonitorDefinitionEntity,
+    factor: number,
+    latestRun: MonitorRunEntity | null,
+  ): MonitorPollHealthDto {
+    // Com várias instâncias, o disparo pode ter sido atendido por outra
+    const local = this.scheduler.getLastPoll(monitor.id);
+    const poll: MonitorPollStatus | null =
+      latestRun &&
+      (!local ||
+        (local.outcome !== 'running' && latestRun.startedAt > local.startedAt))
+        ? {
+            monitorId: latestRun.monitorId,
+            trigger: latestRun.trigger,
+            startedAt: latestRun.startedAt,
+            finishedAt: latestRun.finishedAt,
+            outcome: latestRun.outcome,
+            error: latestRun.error,
+          }
+        : local;
+    const expectedIntervalMs = this.scheduler.getExpectedIntervalMs(monitor);
+    const now = Date.now();
+    const isLate = (since: Date) =>
+      expectedIntervalMs === null ||
+      now - since.getTime() > expectedIntervalMs * factor;
+
+    let state: MonitorPollHealthDto['state'];
+    if (!poll) {
+      // Sem execução desde a inicialização (ou desde a criação do monitor)
+      const since =
+        monitor.updatedAt > this.scheduler.startedAt
+          ? monitor.updatedAt
+          : this.scheduler.startedAt;
+      state = isLate(since) ? 'stale' : 'pending';
+    } else if (poll.outcome === 'running') {
+      state = isLate(poll.startedAt) ? 'stale' : 'running';
+    } else if (poll.outcome === 'failure') {
+      state = 'failing';
+    } else {
+      state = isLate(poll.finishedAt ?? poll.startedAt) ? 'stale' : 'ok';
+    }
+
+    return {
+      monitorId: monitor.id,
+      name: monitor.name,
+      state,
+      expectedIntervalMs,
+      trigger: poll?.trigger ?? null,
+      startedAt: poll?.startedAt ?? null,
+      finishedAt: poll?.finishedAt ?? null,
+      outcome: poll?.outcome ?? null,
+      error: poll?.error ?? null,
+    };
+  }
+
+  private async checkJira(
+    creds: JiraCredentialEntity[],
+  ): Promise<JiraHealthDto> {
+    if (this.fixtureStore.isOffline() || !creds.length) {
+      return { status: 'skipped', checkedAt: null, targets: [] };
+    }
+
+    const cacheMs =
+      readPositiveInt(
+        this.configService,
+        'HEALTH_JIRA_CACHE_SECONDS',
+        this.DEFAULT_JIRA_CACHE_SECONDS,
+      ) * 1000;
+    if (
+      this.jiraCache?.checkedAt &&
+      Date.now() - this.jiraCache.checkedAt.getTime() < cacheMs
+    ) {
+      return this.jiraCache;
+    }
+
+    if (!this.jiraCheck) {
+      this.jiraCheck = this.probeJira(creds)
+        .then((result) => (this.jiraCache = result))
+        .finally(() => (this.jiraCheck = null));
+    }
+    return this.jiraCheck;
+  }
+
+  private async probeJira(
+    creds: JiraCredentialEntity[],
+  ): Promise<JiraHealthDto> {
+    const urls = new Set<string>();
+    const targets: JiraTargetHealthDto[] = [];
+    for (const cred of creds) {
+      try {
+        urls.add(this.serverInfoUrl(cred));
+      } catch (error) {
+        targets.push({
+          url: `(userId="${cred.userId}")`,
+          status: 'down',
+          httpStatus: null,
+          latencyMs: 0,
+          error: errorMessage(error),
+        });
+      }
+    }
+
+    targets.push(
+      ...(await Promise.all([...urls].map((url) => this.probe(url)))),
+    );
+    const down = targets.filter((target) => target.status === 'down').length;
+    return {
+      status: down === 0 ? 'up' : down < targets.length ? 'degraded' : 'down',
+      checkedAt: new Date(),
+      targets,
+    };
+  }
+
+  /**
+   * Uma única tentativa, sem credenciais: um 401/403 também prova que o site
+   * (ou o gateway da Atlassian) está respondendo.
+   */
+  private async probe(url: string): Promise<JiraTargetHealthDto> {
+    const timeoutMs = readPositiveInt(
+      this.configService,
+      'HEALTH_JIRA_TIMEOUT_MS',
+      this.DEFAULT_JIRA_TIMEOUT_MS,
+    );
+    const start = Date.now();
+    try {
+      await this.jiraHttp.get(url, {
+        headers: { Accept: 'application/json' },
+        retry: false,
+        timeoutMs,
+      });
+      return {
+        url,
+        status: 'up',
+        httpStatus: 200,
+        latencyMs: Date.now() - start,
+      };
+    } catch (error) {
+      const httpStatus = error instanceof JiraApiError ? error.status : null;
+      // Orçamento local esgotado ou 429 não indicam que o Jira caiu
+      const reachable =
+        error instanceof JiraRateLimitedError ||
+        (httpStatus !== null && httpStatus < 500);
+      if (!reachable) {
+        this.logger.warn(`Jira inalcançável em ${url}: ${errorMessage(error)}`);
+      }
+      return {
+        url,
+        status: reachable ? 'up' : 'down',
+        httpStatus,
+        latencyMs: Date.now() - start,
+        ...(reachable ? {} : { error: errorMessage(error) }),
+      };
+    }
+  }
+
+  private serverInfoUrl(cred: JiraCredentialEntity): string {
+    const baseUrl =
+      cred.authType === 'oauth'
+        ? `https://api.atlassian.com/ex/jira/${cred.cloudId}`
+        : resolveSiteUrl(cred, undefined, this.configService);
+    return `${baseUrl}/rest/api/${resolveApiVersion(cred)}/serverInfo`;
+  }
+}
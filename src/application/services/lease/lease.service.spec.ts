@@ -0,0 +1,121 @@
+// src/application/services/lease/lease.service.spec.ts
+
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { LeaseRepository } from '@infra/repositories/lease/lease.repository';
+import { LeaseService } from './lease.service';
+
+describe('LeaseService', () => {
+  let leaseRepo: jest.Mocked<
+    Pick<LeaseRepository, 'tryAcquire' | 'renew' | 'release'>
+  >;
+  let leaseService: LeaseService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    leaseRepo = {
+      tryAcquire: jest.fn().mockResolvedValue(true),
+      renew: jest.fn().mockResolvedValue(true),
+      release: jest.fn().mockResolvedValue(undefined),
+    };
+    leaseService = new LeaseService(
+      leaseRepo as unknown as LeaseRepository,
+      new ConfigService({ JIRA_LEASE_TTL_MS: '30000' }),
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('acquire', () => {
+    it('usa um dono distinto por aquisição, com o id da instância', async () => {
+      const first = await leaseService.acquire('tarefa');
+      const second = await leaseService.acquire('tarefa');
+
+      expect(first?.owner.startsWith(`${leaseService.instanceId}:`)).toBe(true);
+      expect(first?.owner).not.toBe(second?.owner);
+      expect(first?.ttlMs).toBe(30000);
+      expect(leaseRepo.tryAcquire).toHaveBeenCalledWith(
+        'tarefa',
+        first?.owner,
+        30000,
+      );
+    });
+
+    it('retorna null quando outra instância detém o lease', async () => {
+      leaseRepo.tryAcquire.mockResolvedValue(false);
+
+      await expect(leaseService.acquire('tarefa', 1000)).resolves.toBeNull();
+    });
+  });
+
+  describe('release', () => {
+    it('só registra a falha ao liberar', async () => {
+      leaseRepo.release.mockRejectedValue(new Error('banco indisponível'));
+
+      await expect(
+        leaseService.release({ name: 'tarefa', owner: 'a', ttlMs: 1000 }),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('runExclusive', () => {
+    it('não executa a tarefa sem o lease', async () => {
+      leaseRepo.tryAcquire.mockResolvedValue(false);
+      const task = jest.fn();
+
+      await expect(leaseService.runExclusive('tarefa', task)).resolves.toEqual({
+        acquired: false,
+      });
+      expect(task).not.toHaveBeenCalled();
+      expect(leaseRepo.release).not.toHaveBeenCalled();
+    });
+
+    it('executa a tarefa e libera o lease', async () => {
+      const outcome = await leaseService.runExclusive('tarefa', () =>
+        Promise.resolve(42),
+      );
+
+      expect(outcome).toEqual({ acquired: true, result: 42 });
+      const owner = leaseRepo.tryAcquire.mock.calls[0][1];
+      expect(leaseRepo.release).toHaveBeenCalledWith('tarefa', owner);
+    });
+
+    it('libera o lease quando a tarefa falha', async () => {
+      await expect(
+        leaseService.runExclusive('tarefa', () =>
+          Promise.reject(new Error('falhou')),
+        ),
+      ).rejects.toThrow('falhou');
+      expect(leaseRepo.release).toHaveBeenCalledTimes(1);
+    });
+
+    it('renova o lease a cada terço da validade enquanto a tarefa roda', async () => {
+      jest.useFakeTimers();
+      let finish!: () => void;
+      const task = () =>
+        new Promise<void>((resolve) => {
+          finish = resolve;
+        });
+
+      const run = leaseService.runExclusive('tarefa', task, 900);
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(leaseRepo.renew).toHaveBeenCalledTimes(3);
+      expect(leaseRepo.renew).toHaveBeenCalledWith(
+        'tarefa',
+        leaseRepo.tryAcquire.mock.calls[0][1],
+        900,
+      );
+
+      finish();
+      await run;
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(leaseRepo.renew).toHaveBeenCalledTimes(3);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+// src/application/services/lease/lease.service.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+
+import { readPositiveInt } from '@infra/config/read-positive-int';
+import { errorMessage } from '@infra/errors/error-message';
+import { LeaseRepository } from '@infra/repositories/lease/lease.repository';
+
+/**
+ * Lease obtido por esta instância.
+ *
+ * @property owner Identifica a aquisição (instância + id), para que só ela
+ *                 possa renovar ou liberar o lease.
+ */
+export interface Lease {
+  name: string;
+  owner: string;
+  ttlMs: number;
+}
+
+/**
+ * Resultado de LeaseService.runExclusive: `acquired` false quando outra
+ * instância detinha o lease e a tarefa não rodou.
+ */
+export type LeaseRunResult<T> =
+  | { acquired: true; result: T }
+  | { acquired: false };
+
+/**
+ * Travas distribuídas no banco (tabela leases), para várias réplicas da
+ * aplicação sobre o mesmo banco:
+ *  1) Só uma instância por vez obtém o lease de um nome.
+ *  2) O lease vale por um tempo limitado (JIRA_LEASE_TTL_MS); enquanto a
+ *     tarefa roda, runExclusive o renova a cada terço da validade.
+ *  3) Se o dono cair sem liberar, o lease vence e outra instância assume.
+ */
+@Injectable()
+export class LeaseService {
+  private readonly logger = new Logger(LeaseService.name);
+
+  private readonly DEFAULT_TTL_MS = 60 * 1000;
+
+  /**
+   * Identificador desta instância nos leases.
+   */
+  readonly instanceId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  constructor(
+    private readonly leaseRepo: LeaseRepository,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Tenta obter o lease, sem esperar.
+   *
+   * @param ttlMs Validade (padrão: JIRA_LEASE_TTL_MS).
+   * @returns O lease ou null se outra aquisição ainda o detiver.
+   */
+  async acquire(
+    name: string,
+    ttlMs = this.defaultTtlMs(),
+  ): Promise<Lease | null> {
+    const owner = `${this.instanceId}:${randomUUID().slice(0, 8)}`;
+    const acquired = await this.leaseRepo.tryAcquire(name, owner, ttlMs);
+    return acquired ? { name, owner, ttlMs } : null;
+  }
+
+  /**
+   * Estende a validade do lease por mais `lease.ttlMs`.
+   *
+   * @returns false se o lease foi perdido (venceu e foi assumido).
+   */
+  async renew(lease: Lease): Promise<boolean> {
+    return this.leaseRepo.renew(lease.name, lease.owner, lease.ttlMs);
+  }
+
+  /**
+   * Libera o lease; uma falha só é registrada, pois o lease vence sozinho.
+   */
+  async release(lease: Lease): Promise<void> {
+    try {
+      await this.leaseRepo.release(lease.name, lease.owner);
+    } catch (error) {
+      this.logger.error(
+        `Falha ao liberar o lease "${lease.name}": ${errorMessage(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Executa `task` só se obtiver o lease, renovando-o enquanto ela roda e
+   * liberando-o no fim.
+   */
+  async runExclusive<T>(
+    name: string,
+    task: () => Promise<T>,
+    ttlMs = this.defaultTtlMs(),
+  ): Promise<LeaseRunResult<T>> {
+    const lease = await this.acquire(name, ttlMs);
+    if (!lease) {
+      this.logger.debug(
+        `Lease "${name}" com outra instância; tarefa ignorada.`,
+      );
+      return { acquired: false };
+    }
+
+    const heartbeat = setInterval(
+      () => {
+        this.renew(lease)
+          .then((renewed) => {
+            if (!renewed) {
+              this.logger.warn(
+                `Lease "${name}" perdido durante a tarefa (venceu e foi assumido por outra instância).`,
+              );
+            }
+          })
+          .catch((error) =>
+            this.logger.error(
+              `Falha ao renovar o lease "${name}": ${errorMessage(error)}`,
+            ),
+          );
+      },
+      Math.max(1, Math.floor(ttlMs / 3)),
+    );
+    try {
+      return { acquired: true, result: await task() };
+    } finally {
+      clearInterval(heartbeat);
+      await this.release(lease);
+    }
+  }
+
+  private defaultTtlMs(): number {
+    return readPositiveInt(
+      this.configService,
+      'JIRA_LEASE_TTL_MS',
+      this.DEFAULT_TTL_MS,
+    );
+  }
+}
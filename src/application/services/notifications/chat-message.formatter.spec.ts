@@ -0,0 +1,222 @@
+// src/application/services/notifications/chat-message.formatter.spec.ts
+
+import { ConfigService } from '@nestjs/config';
+
+import {
+  IssueAppearedEvent,
+  IssueState,
+  IssueStatusChangedEvent,
+} from '@domain/events/jira-issue.events';
+import { IssueSummaryDto } from '@dtos/jira/issue-summary.dto';
+import { ProcessedIssuesResponseDto } from '@dtos/jira/processed-issues-response.dto';
+import { ChatMessageFormatter } from './chat-message.formatter';
+
+interface SlackBlock {
+  type: string;
+  text?: { type: string; text: string };
+  fields?: { type: string; text: string }[];
+}
+
+interface SlackPayload {
+  text: string;
+  blocks: SlackBlock[];
+}
+
+interface TeamsElement {
+  type: string;
+  text?: string;
+  facts?: { title: string; value: string }[];
+}
+
+interface TeamsPayload {
+  type: string;
+  attachments: {
+    contentType: string;
+    content: {
+      type: string;
+      version: string;
+      body: TeamsElement[];
+      actions: { type: string; url: string }[];
+    };
+  }[];
+}
+
+const context = {
+  monitorId: 'monitor-1',
+  userId: 'user-1',
+  jql: 'project = SUP',
+};
+
+function issue(fields: Partial<IssueState> = {}): IssueState {
+  return {
+    key: 'SUP-1',
+    summary: 'Impressora sem papel',
+    status: 'Em andamento',
+    assignee: 'Ana',
+    priority: 'High',
+    timeOpenDays: 3,
+    url: 'https://acme.atlassian.net/browse/SUP-1',
+    ...fields,
+  };
+}
+
+function summaryIssue(key: string, timeOpenDays: number): IssueSummaryDto {
+  return {
+    ...issue({ key, timeOpenDays, url: null }),
+    created: '2026-10-01T00:00:00.000Z',
+    reporter: null,
+    timeInStatusDays: 1,
+    slaState: 'ok',
+    slaRule: null,
+  };
+}
+
+describe('ChatMessageFormatter', () => {
+  const formatter = new ChatMessageFormatter(
+    new ConfigService({ JIRA_BASE_URL: 'https://fallback.atlassian.net/' }),
+  );
+  const statusChanged = new IssueStatusChangedEvent(context, issue(), 'Aberto');
+
+  describe('Slack', () => {
+    it('monta o evento com título, mudança e link da issue', () => {
+      const payload = formatter.formatEvent(
+        'slack',
+        statusChanged,
+      ) as SlackPayload;
+
+      expect(payload.text).toBe('Status alterado: SUP-1');
+      expect(payload.blocks[0]).toEqual({
+        type: 'header',
+        text: {
+          type: 'plain_text',
+          text: 'Status alterado: SUP-1',
+          emoji: true,
+        },
+      });
+      expect(payload.blocks[1].text?.text).toBe(
+        'Status: Aberto → Em andamento',
+      );
+      const section = payload.blocks[3];
+      expect(section.text?.text).toBe(
+        '*<https://acme.atlassian.net/browse/SUP-1|SUP-1>* — Impressora sem papel',
+      );
+      expect(section.fields?.map((field) => field.text)).toEqual([
+        '*Status:*\nEm andamento',
+        '*Responsável:*\nAna',
+        '*Prioridade:*\nHigh',
+        '*Dias em aberto:*\n3',
+      ]);
+    });
+
+    it('escapa os caracteres de controle do mrkdwn', () => {
+      const payload = formatter.formatEvent(
+        'slack',
+        new IssueAppearedEvent(context, issue({ summary: 'A < B & C > D' })),
+      ) as SlackPayload;
+
+      expect(payload.blocks[2].text?.text).toContain('A &lt; B &amp; C &gt; D');
+    });
+
+    it('usa JIRA_BASE_URL quando a issue não traz o link', () => {
+      const payload = formatter.formatEvent(
+        'slack',
+        new IssueAppearedEvent(context, issue({ url: null })),
+      ) as SlackPayload;
+
+      expect(payload.blocks[2].text?.text).toContain(
+        '<https://fallback.atlassian.net/browse/SUP-1|SUP-1>',
+      );
+    });
+
+    it('lista só as issues mais antigas no resumo', () => {
+      const result: ProcessedIssuesResponseDto = {
+        total: 12,
+        issues: Array.from({ length: 12 }, (_, i) =>
+          summaryIssue(`SUP-${i + 1}`, i),
+        ),
+        statusCounts: { 'Em andamento': 12 },
+        excludedStatusCounts: {},
+        slaCounts: { ok: 12, warning: 0, breached: 0 },
+        truncated: false,
+      };
+
+      const payload = formatter.formatSummary(
+        'slack',
+        'Resumo da fila',
+        result,
+      ) as SlackPayload;
+
+      expect(payload.blocks[1].text?.text).toBe(
+        'Issues mais antigas (10 de 12)',
+      );
+      expect(payload.blocks[2].text?.text).toBe(
+        '*Total:* 12\n*Em andamento:* 12',
+      );
+      const keys = payload.blocks
+        .filter((block) => block.fields)
+        .map((block) => /\|(SUP-\d+)>/.exec(block.text?.text ?? '')?.[1]);
+      expect(keys).toHaveLength(10);
+      expect(keys[0]).toBe('SUP-12');
+      expect(keys[9]).toBe('SUP-3');
+    });
+  });
+
+  describe('Teams', () => {
+    it('monta um Adaptive Card com o link da issue', () => {
+      const payload = formatter.formatEvent(
+        'teams',
+        statusChanged,
+      ) as TeamsPayload;
+
+      expect(payload.type).toBe('message');
+      const [attachment] = payload.attachments;
+      expect(attachment.contentType).toBe(
+        'application/vnd.microsoft.card.adaptive',
+      );
+      expect(attachment.content).toMatchObject({
+        type: 'AdaptiveCard',
+        version: '1.4',
+      });
+      const texts = attachment.content.body.map((element) => element.text);
+      expect(texts).toEqual([
+        'Status alterado: SUP-1',
+        'Status: Aberto → Em andamento',
+        '[SUP-1](https://acme.atlassian.net/browse/SUP-1) — Impressora sem papel',
+        undefined,
+      ]);
+      expect(attachment.content.body[3].facts).toContainEqual({
+        title: 'Responsável',
+        value: 'Ana',
+      });
+      expect(attachment.content.actions).toEqual([
+        {
+          type: 'Action.OpenUrl',
+          title: 'Abrir no Jira',
+          url: 'https://acme.atlassian.net/browse/SUP-1',
+        },
+      ]);
+    });
+
+    it('mostra a issue sem atribuição e sem link quando não há URL', () => {
+      const bare = new ChatMessageFormatter(new ConfigService({}));
+
+      const payload = bare.formatEvent(
+        'teams',
+        new IssueAppearedEvent(
+          context,
+          issue({ url: null, assignee: null, priority: null }),
+        ),
+      ) as TeamsPayload;
+
+      const { body, actions } = payload.attachments[0].content;
+      expect(body[1].text).toBe('SUP-1 — Impressora sem papel');
+      expect(body[2].facts).toEqual(
+        expect.arrayContaining([
+          { title: 'Responsável', value: 'Não atribuída' },
+          { title: 'Prioridade', value: '—' },
+        ]),
+      );
+      expect(actions).toEqual([]);
+    });
+  });
+});
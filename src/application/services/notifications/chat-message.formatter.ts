@@ -0,0 +1,225 @@
+// src/application/services/notifications/chat-message.formatter.ts
+
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { IssueState, JiraIssueEvent } from '@domain/events/jira-issue.events';
+import { ChatProvider } from '@domain/entities/chat-channel.entity';
+import { ProcessedIssuesResponseDto } from '@dtos/jira/processed-issues-response.dto';
+import {
+  buildBrowseUrl,
+  issueEventChange,
+  issueEventTitle,
+} from './notification-format';
+
+/**
+ * Representação intermediária de uma mensagem de chat, independente do provedor.
+ */
+interface ChatMessage {
+  title: string;
+  /** Linha de destaque abaixo do título (ex.: "Status: Aberto → Resolvido"). */
+  subtitle?: string;
+  /** Pares chave/valor exibidos antes das issues (ex.: contagem por status). */
+  facts: { title: string; value: string }[];
+  issues: IssueState[];
+}
+
+/**
+ * Formatador responsável por transformar eventos de issue e resumos da fila em
+ * payloads prontos para incoming webhooks:
+ *  - Slack: mensagem com Block Kit (`blocks` + `text` de fallback).
+ *  - Microsoft Teams: mensagem com um anexo Adaptive Card 1.4.
+ *
+ * Cada issue é exibida com key, summary, status, assignee, priority e
+ * timeOpenDays, e aponta para o link /browse da issue no site do monitor
+ * (ou em JIRA_BASE_URL, quando a issue não trouxer o link).
+ */
+@Injectable()
+export class ChatMessageFormatter {
+  /**
+   * Quantidade máxima de issues listadas em um resumo (as mais antigas primeiro).
+   */
+  private readonly SUMMARY_ISSUE_LIMIT = 10;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  formatEvent(provider: ChatProvider, event: JiraIssueEvent): object {
+    return this.render(provider, {
+      title: `${issueEventTitle(event)}: ${event.issue.key}`,
+      subtitle: issueEventChange(event),
+      facts: [],
+      issues: [event.issue],
+    });
+  }
+
+  formatSummary(
+    provider: ChatProvider,
+    title: string,
+    result: ProcessedIssuesResponseDto,
+  ): object {
+    const oldest = [...result.issues]
+      .sort((a, b) => b.timeOpenDays - a.timeOpenDays)
+      .slice(0, this.SUMMARY_ISSUE_LIMIT);
+    const facts = [
+      { title: 'Total', value: String(result.total) },
+      ...Object.entries(result.statusCounts).map(([status, count]) => ({
+        title: status,
+        value: String(count),
+      })),
+    ];
+
+    return this.render(provider, {
+      title,
+      subtitle:
+        result.issues.length > oldest.length
+          ? `Issues mais antigas (${oldest.length} de ${result.issues.length})`
+          : undefined,
+      facts,
+      issues: oldest,
+    });
+  }
+
+  private render(provider: ChatProvider, message: ChatMessage): object {
+    return provider === 'teams'
+      ? this.renderTeams(message)
+      : this.renderSlack(message);
+  }
+
+  private renderSlack(message: ChatMessage): object {
+    const blocks: object[] = [
+      {
+        type: 'header',
+        text: { type: 'plain_text', text: message.title, emoji: true },
+      },
+    ];
+    if (message.subtitle) {
+      blocks.push({
+        type: 'section',
+        text: { type: 'mrkdwn', text: this.escapeSlack(message.subtitle) },
+      });
+    }
+    if (message.facts.length > 0) {
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: message.facts
+            .map(
+              (fact) =>
+                `*${this.escapeSlack(fact.title)}:* ${this.escapeSlack(fact.value)}`,
+            )
+            .join('\n'),
+        },
+      });
+    }
+    for (const issue of message.issues) {
+      const url = this.browseUrl(issue);
+      const keyText = url ? `<${url}|${issue.key}>` : issue.key;
+      blocks.push(
+        { type: 'divider' },
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `*${keyText}* — ${this.escapeSlack(issue.summary)}`,
+          },
+          fields: this.issueFacts(issue).map((fact) => ({
+            type: 'mrkdwn',
+            text: `*${fact.title}:*\n${this.escapeSlack(fact.value)}`,
+          })),
+        },
+      );
+    }
+
+    return { text: message.title, blocks };
+  }
+
+  private renderTeams(message: ChatMessage): object {
+    const body: object[] = [
+      {
+        type: 'TextBlock',
+        size: 'Medium',
+        weight: 'Bolder',
+        text: message.title,
+        wrap: true,
+      },
+    ];
+    if (message.subtitle) {
+      body.push({ type: 'TextBlock', text: message.subtitle, wrap: true });
+    }
+    if (message.facts.length > 0) {
+      body.push({ type: 'FactSet', facts: message.facts });
+    }
+    for (const issue of message.issues) {
+      const url = this.browseUrl(issue);
+      body.push(
+        {
+          type: 'TextBlock',
+          text: `${url ? `[${issue.key}](${url})` : issue.key} — ${issue.summary}`,
+          weight: 'Bolder',
+          wrap: true,
+          separator: true,
+        },
+        { type: 'FactSet', facts: this.issueFacts(issue) },
+      );
+    }
+
+    const single = message.issues.length === 1 ? message.issues[0] : null;
+    const singleUrl = single ? this.browseUrl(single) : null;
+
+    return {
+      type: 'message',
+      attachments: [
+        {
+          contentType: 'application/vnd.microsoft.card.adaptive',
+          contentUrl: null,
+          content: {
+            $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+            type: 'AdaptiveCard',
+            version: '1.4',
+            body,
+            actions: singleUrl
+              ? [
+                  {
+                    type: 'Action.OpenUrl',
+                    title: 'Abrir no Jira',
+                    url: singleUrl,
+                  },
+                ]
+              : [],
+          },
+        },
+      ],
+    };
+  }
+
+  private issueFacts(issue: IssueState): { title: string; value: string }[] {
+    return [
+      { title: 'Status', value: issue.status },
+      { title: 'Responsável', value: issue.assignee ?? 'Não atribuída' },
+      { title: 'Prioridade', value: issue.priority ?? '—' },
+      { title: 'Dias em aberto', value: String(issue.timeOpenDays) },
+    ];
+  }
+
+  /**
+   * Link da issue no site do monitor; issues sem link (snapshots anteriores)
+   * caem em JIRA_BASE_URL.
+   */
+  private browseUrl(issue: IssueState): string | null {
+    return (
+      issue.url ??
+      buildBrowseUrl(this.configService.get<string>('JIRA_BASE_URL'), issue.key)
+    );
+  }
+
+  /**
+   * Escapa os caracteres de controle do mrkdwn do Slack (&, < e >).
+   */
+  private escapeSlack(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
@@ -0,0 +1,251 @@
+// src/application/services/notifications/chat-notification.service.ts
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { OnEvent } from '@nestjs/event-emitter';
+import { firstValueFrom } from 'rxjs';
+
+import { JiraIssueEvent } from '@domain/events/jira-issue.events';
+import {
+  ChatChannelEntity,
+  ChatProvider,
+} from '@domain/entities/chat-channel.entity';
+import { ChatChannelRepository } from '@infra/repositories/notifications/chat-channel.repository';
+import { errorMessage } from '@infra/errors/error-message';
+import { JiraQueueMonitorService } from '@services/queue-monitor/jira-queue-monitor.service';
+import { CreateChatChannelDto } from '@dtos/notifications/create-chat-channel.dto';
+import { UpdateChatChannelDto } from '@dtos/notifications/update-chat-channel.dto';
+import { ChatChannelDto } from '@dtos/notifications/chat-channel.dto';
+import { ChatMessageFormatter } from './chat-message.formatter';
+import {
+  assertHttpUrl,
+  assertKnownEventTypes,
+} from './notification-validation';
+
+/**
+ * Serviço responsável pelos alertas em chat (Slack e Microsoft Teams):
+ *  1) CRUD dos canais (incoming webhooks), cada um associado aos monitores
+ *     e tipos de evento que deseja receber.
+ *  2) Escutar os eventos "jira.issue.*" e enviar a mensagem formatada
+ *     (Block Kit ou Adaptive Card) para cada canal interessado.
+ *  3) Enviar sob demanda um resumo da fila (total, contagem por status e
+ *     issues mais antigas) para um canal.
+ *
+ * Diferente dos webhooks genéricos, o envio é feito em uma única tentativa:
+ * falhas são apenas registradas em log.
+ */
+@Injectable()
+export class ChatNotificationService {
+  private readonly logger = new Logger(ChatNotificationService.name);
+
+  private readonly DEFAULT_TIMEOUT_MS = 10000;
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly channelRepo: ChatChannelRepository,
+    private readonly formatter: ChatMessageFormatter,
+    private readonly jiraMonitorService: JiraQueueMonitorService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async createChannel(dto: CreateChatChannelDto): Promise<ChatChannelDto> {
+    if (!dto.name) {
+      throw new BadRequestException('O campo "name" é obrigatório.');
+    }
+    this.assertProvider(dto.provider);
+    assertHttpUrl(dto.webhookUrl, 'canal de chat');
+    const channel = await this.channelRepo.create({
+      name: dto.name,
+      provider: dto.provider,
+      webhookUrl: dto.webhookUrl,
+      monitorIds: dto.monitorIds ?? [],
+      eventTypes: assertKnownEventTypes(dto.eventTypes ?? []),
+      enabled: dto.enabled ?? true,
+    });
+    this.logger.log(
+      `Canal ${channel.id} (${channel.provider}) criado: "${channel.name}".`,
+    );
+    return this.toDto(channel);
+  }
+
+  async listChannels(): Promise<ChatChannelDto[]> {
+    const channels = await this.channelRepo.findAll();
+    return channels.map((channel) => this.toDto(channel));
+  }
+
+  async updateChannel(
+    id: string,
+    dto: UpdateChatChannelDto,
+  ): Promise<ChatChannelDto> {
+    const changes: Partial<ChatChannelEntity> = {};
+    if (dto.name !== undefined) {
+      changes.name = dto.name;
+    }
+    if (dto.provider !== undefined) {
+      this.assertProvider(dto.provider);
+      changes.provider = dto.provider;
+    }
+    if (dto.webhookUrl !== undefined) {
+      assertHttpUrl(dto.webhookUrl, 'canal de chat');
+      changes.webhookUrl = dto.webhookUrl;
+    }
+    if (dto.monitorIds !== undefined) {
+      changes.monitorIds = dto.monitorIds;
+    }
+    if (dto.eventTypes !== undefined) {
+      changes.eventTypes = assertKnownEventTypes(dto.eventTypes);
+    }
+    if (dto.enabled !== undefined) {
+      changes.enabled = dto.enabled;
+    }
+
+    const updated = await this.channelRepo.update(id, changes);
+    if (!updated) {
+      throw new NotFoundException(`Canal "${id}" não encontrado.`);
+    }
+    return this.toDto(updated);
+  }
+
+  async deleteChannel(id: string): Promise<void> {
+    const removed = await this.channelRepo.delete(id);
+    if (!removed) {
+      throw new NotFoundException(`Canal "${id}" não encontrado.`);
+    }
+    this.logger.log(`Canal ${id} removido.`);
+  }
+
+  /**
+   * Consulta o Jira na hora (mesmos dados do ProcessIssuesUseCase) e envia o
+   * resumo da fila para o canal informado.
+   *
+   * @param source.monitorId Monitor cuja fila será resumida; se informado,
+   *                         `userId` e `jql` são ignorados.
+   * @param source.userId    Identificador das credenciais usadas na consulta
+   *                         (obrigatório sem monitorId).
+   * @param source.jql       Consulta JQL avulsa (obrigatória sem monitorId).
+   */
+  async sendSummary(
+    channelId: string,
+    source: { monitorId?: string; userId?: string; jql?: string },
+  ): Promise<{ message: string }> {
+    const channel = await this.channelRepo.findById(channelId);
+    if (!channel) {
+      throw new NotFoundException(`Canal "${channelId}" não encontrado.`);
+    }
+
+    const { monitorId, userId, jql } = source;
+    if (!monitorId && !userId) {
+      throw new BadRequestException(
+        'Informe o monitorId ou o usuário (userId) e o jql da consulta.',
+      );
+    }
+    const result = monitorId
+      ? await this.jiraMonitorService.fetchMonitorIssues(monitorId)
+      : await this.jiraMonitorService.fetchAndProcessIssues(
+          userId as string,
+          jql ?? '',
+        );
+    const payload = this.formatter.formatSummary(
+      channel.provider,
+      'Resumo da fila do Jira',
+      result,
+    );
+    await this.post(channel, payload);
+    return {
+      message: `Resumo com ${result.total} issues enviado para "${channel.name}".`,
+    };
+  }
+
+  /**
+   * Assinante de todos os eventos de issue: envia a mensagem formatada para
+   * cada canal ativo que aceite o monitor e o tipo do evento.
+   */
+  @OnEvent('jira.issue.*', { async: true })
+  async handleIssueEvent(event: JiraIssueEvent): Promise<void> {
+    try {
+      const channels = await this.channelRepo.findEnabled();
+      const interested = channels.filter(
+        (channel) =>
+          (channel.monitorIds.length === 0 ||
+            channel.monitorIds.includes(event.context.monitorId)) &&
+          (channel.eventTypes.length === 0 ||
+            channel.eventTypes.includes(event.name)),
+      );
+
+      await Promise.all(
+        interested.map((channel) =>
+          this.post(
+            channel,
+            this.formatter.formatEvent(channel.provider, event),
+          ).catch((error) =>
+            this.logger.error(
+              `Falha ao enviar ${event.name} (${event.issue.key}) para o canal "${channel.name}": ${errorMessage(error)}`,
+            ),
+          ),
+        ),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Falha ao processar canais de chat do evento ${event.name}: ${errorMessage(error)}`,
+      );
+    }
+  }
+
+  private async post(channel: ChatChannelEntity, payload: object) {
+    const timeout =
+      Number(this.configService.get<string>('CHAT_TIMEOUT_MS')) ||
+      this.DEFAULT_TIMEOUT_MS;
+    this.logger.log(
+      `Enviando mensagem ${channel.provider} para o canal "${channel.name}".`,
+    );
+    await firstValueFrom(
+      this.httpService.post(channel.webhookUrl, payload, {
+        headers: { 'Content-Type': 'application/json' },
+        timeout,
+      }),
+    );
+  }
+
+  private assertProvider(provider: string | undefined): void {
+    const providers: ChatProvider[] = ['slack', 'teams'];
+    if (!providers.includes(provider as ChatProvider)) {
+      throw new BadRequestException(
+        `Provedor de chat inválido: "${provider}". Válidos: ${providers.join(', ')}.`,
+      );
+    }
+  }
+
+  private toDto(channel: ChatChannelEntity): ChatChannelDto {
+    return {
+      id: channel.id,
+      name: channel.name,
+      provider: channel.provider,
+      webhookUrl: this.maskWebhookUrl(channel.webhookUrl),
+      monitorIds: channel.monitorIds,
+      eventTypes: channel.eventTypes,
+      enabled: channel.enabled,
+      createdAt: channel.createdAt,
+      updatedAt: channel.updatedAt,
+    };
+  }
+
+  /**
+   * A URL do incoming webhook funciona como credencial (quem a conhece
+   * publica no canal): a API devolve só a origem e os últimos caracteres.
+   */
+  private maskWebhookUrl(webhookUrl: string): string {
+    let origin: string;
+    try {
+      origin = new URL(webhookUrl).origin;
+    } catch {
+      return '****';
+    }
+    return `${origin}/****${webhookUrl.slice(-4)}`;
+  }
+}
@@ -0,0 +1,180 @@
+// src/application/services/notifications/email-notification.service.spec.ts
+
+import {
+  BadRequestException,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+
+import {
+  IssueAppearedEvent,
+  IssueLeftQueueEvent,
+} from '@domain/events/jira-issue.events';
+import {
+  MailMessage,
+  SmtpMailerService,
+} from '@infra/mail/smtp-mailer.service';
+import { LeaseService } from '@app/services/lease/lease.service';
+import { BuildQueueDigestUseCase } from '@app/usecases/jira/build-queue-digest.usecase';
+import { JiraQueueMonitorService } from '@services/queue-monitor/jira-queue-monitor.service';
+import { ProcessedIssuesResponseDto } from '@dtos/jira/processed-issues-response.dto';
+import { EmailNotificationService } from './email-notification.service';
+import { EmailTemplateBuilder } from './email-template.builder';
+
+const result: ProcessedIssuesResponseDto = {
+  total: 0,
+  issues: [],
+  statusCounts: {},
+  excludedStatusCounts: {},
+  slaCounts: { ok: 0, warning: 0, breached: 0 },
+  truncated: false,
+};
+
+const issue = {
+  key: 'SUP-1',
+  summary: 'Impressora sem papel',
+  status: 'Aberto',
+  assignee: null,
+  priority: null,
+  timeOpenDays: 1,
+  url: null,
+};
+const context = { monitorId: 'monitor-1', userId: 'user-1', jql: 'x' };
+
+describe('EmailNotificationService', () => {
+  let send: jest.Mock<Promise<boolean>, [MailMessage]>;
+  let monitorService: {
+    fetchMonitorIssues: jest.Mock<
+      Promise<ProcessedIssuesResponseDto>,
+      [string]
+    >;
+    fetchAndProcessIssues: jest.Mock<
+      Promise<ProcessedIssuesResponseDto>,
+      [string, string]
+    >;
+  };
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    send = jest.fn<Promise<boolean>, [MailMessage]>(() =>
+      Promise.resolve(true),
+    );
+    monitorService = {
+      fetchMonitorIssues: jest.fn<
+        Promise<ProcessedIssuesResponseDto>,
+        [string]
+      >(() => Promise.resolve(result)),
+      fetchAndProcessIssues: jest.fn<
+        Promise<ProcessedIssuesResponseDto>,
+        [string, string]
+      >(() => Promise.resolve(result)),
+    };
+  });
+
+  function serviceWith(env: Record<string, string>): EmailNotificationService {
+    const configService = new ConfigService(env);
+    return new EmailNotificationService(
+      {
+        send,
+        isEnabled: () => !!env.SMTP_HOST,
+      } as unknown as SmtpMailerService,
+      new EmailTemplateBuilder(configService),
+      new BuildQueueDigestUseCase(),
+      monitorService as unknown as JiraQueueMonitorService,
+      {} as SchedulerRegistry,
+      configService,
+      {} as LeaseService,
+    );
+  }
+
+  describe('sendDigest', () => {
+    it('falha sem SMTP configurado', async () => {
+      const service = serviceWith({ EMAIL_DIGEST_TO: 'time@example.com' });
+
+      await expect(service.sendDigest()).rejects.toThrow(
+        ServiceUnavailableException,
+      );
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it('falha sem destinatários', async () => {
+      const service = serviceWith({ SMTP_HOST: 'smtp.example.com' });
+
+      await expect(service.sendDigest()).rejects.toThrow(BadRequestException);
+    });
+
+    it('envia o digest do monitor configurado para todos os destinatários', async () => {
+      const service = serviceWith({
+        SMTP_HOST: 'smtp.example.com',
+        EMAIL_DIGEST_TO: 'a@example.com, b@example.com',
+        EMAIL_DIGEST_PERIOD: 'weekly',
+        EMAIL_DIGEST_MONITOR_ID: 'monitor-1',
+        EMAIL_DIGEST_USER_ID: 'user-1',
+        EMAIL_DIGEST_JQL: 'project = SUP',
+      });
+
+      await expect(service.sendDigest()).resolves.toEqual({
+        message: 'Digest weekly com 0 issues enviado para 2 destinatário(s).',
+      });
+      expect(monitorService.fetchMonitorIssues).toHaveBeenCalledWith(
+        'monitor-1',
+      );
+      expect(monitorService.fetchAndProcessIssues).not.toHaveBeenCalled();
+      const [message] = send.mock.calls[0];
+      expect(message.to).toEqual(['a@example.com', 'b@example.com']);
+      expect(message.subject).toContain('Resumo semanal da fila');
+    });
+
+    it('usa EMAIL_DIGEST_USER_ID e EMAIL_DIGEST_JQL sem monitor', async () => {
+      const service = serviceWith({
+        SMTP_HOST: 'smtp.example.com',
+        EMAIL_DIGEST_TO: 'a@example.com',
+        EMAIL_DIGEST_USER_ID: 'user-1',
+        EMAIL_DIGEST_JQL: 'project = SUP',
+      });
+
+      await service.sendDigest();
+
+      expect(monitorService.fetchAndProcessIssues).toHaveBeenCalledWith(
+        'user-1',
+        'project = SUP',
+      );
+    });
+  });
+
+  describe('alertas', () => {
+    it('envia só os tipos de evento aceitos', async () => {
+      const service = serviceWith({
+        EMAIL_ALERT_TO: 'a@example.com',
+        EMAIL_ALERT_EVENT_TYPES: 'jira.issue.appeared',
+      });
+
+      await service.handleIssueEvent(new IssueLeftQueueEvent(context, issue));
+      await service.handleIssueEvent(new IssueAppearedEvent(context, issue));
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(send.mock.calls[0][0].subject).toBe(
+        '[Jira Monitor] Nova issue na fila: SUP-1',
+      );
+    });
+
+    it('não envia sem destinatários e não propaga falhas do SMTP', async () => {
+      await serviceWith({}).handleIssueEvent(
+        new IssueAppearedEvent(context, issue),
+      );
+      expect(send).not.toHaveBeenCalled();
+
+      send.mockRejectedValue(new Error('SMTP fora do ar'));
+      await expect(
+        serviceWith({ EMAIL_ALERT_TO: 'a@example.com' }).handleIssueEvent(
+          new IssueAppearedEvent(context, issue),
+        ),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
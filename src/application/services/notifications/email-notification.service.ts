@@ -0,0 +1,200 @@
+// src/application/services/notifications/email-notification.service.ts
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OnEvent } from '@nestjs/event-emitter';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+
+import { JiraIssueEvent } from '@domain/events/jira-issue.events';
+import { SmtpMailerService } from '@infra/mail/smtp-mailer.service';
+import { errorMessage } from '@infra/errors/error-message';
+import { LeaseService } from '@app/services/lease/lease.service';
+import { JiraQueueMonitorService } from '@services/queue-monitor/jira-queue-monitor.service';
+import {
+  BuildQueueDigestUseCase,
+  DigestPeriod,
+} from '@app/usecases/jira/build-queue-digest.usecase';
+import { EmailTemplateBuilder } from './email-template.builder';
+
+/**
+ * Serviço responsável pelo canal de e-mail:
+ *  1) Alertas individuais: escuta "jira.issue.*" e envia um e-mail por evento
+ *     para EMAIL_ALERT_TO (filtrando por EMAIL_ALERT_EVENT_TYPES, se definido).
+ *  2) Digest da fila: consulta o Jira (mesmos dados do ProcessIssuesUseCase),
+ *     monta contagem por status, issues mais antigas e novas do período e envia
+ *     para EMAIL_DIGEST_TO.
+ *
+ * O digest roda em um cron próprio (EMAIL_DIGEST_CRON), registrado na
+ * inicialização via SchedulerRegistry, independente do poll de cada minuto.
+ * Por padrão: todo dia às 08:00 (daily) ou toda segunda às 08:00 (weekly).
+ * Com várias instâncias, o lease "email-digest-tick" reserva cada disparo
+ * por meio intervalo do cron e "email-digest" é mantido durante o envio,
+ * para que o digest saia uma única vez.
+ */
+@Injectable()
+export class EmailNotificationService implements OnModuleInit {
+  private readonly logger = new Logger(EmailNotificationService.name);
+
+  private readonly DIGEST_JOB_NAME = 'email-digest';
+  private readonly DEFAULT_DAILY_CRON = '0 8 * * *';
+  private readonly DEFAULT_WEEKLY_CRON = '0 8 * * 1';
+  private readonly DIGEST_TICK_LEASE = 'email-digest-tick';
+  private readonly DIGEST_LEASE = 'email-digest';
+
+  constructor(
+    private readonly mailer: SmtpMailerService,
+    private readonly templates: EmailTemplateBuilder,
+    private readonly buildQueueDigestUseCase: BuildQueueDigestUseCase,
+    private readonly jiraMonitorService: JiraQueueMonitorService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly configService: ConfigService,
+    private readonly leaseService: LeaseService,
+  ) {}
+
+  /**
+   * Registra o cron do digest, se houver destinatários configurados.
+   */
+  onModuleInit() {
+    if (this.readList('EMAIL_DIGEST_TO').length === 0) {
+      this.logger.log('EMAIL_DIGEST_TO não definido; digest desativado.');
+      return;
+    }
+
+    const cronTime =
+      this.configService.get<string>('EMAIL_DIGEST_CRON') ||
+      (this.digestPeriod() === 'weekly'
+        ? this.DEFAULT_WEEKLY_CRON
+        : this.DEFAULT_DAILY_CRON);
+    try {
+      const job = CronJob.from({
+        cronTime,
+        onTick: () => {
+          this.sendScheduledDigest(job).catch((error) =>
+            this.logger.error(
+              `Falha no digest agendado: ${errorMessage(error)}`,
+            ),
+          );
+        },
+      });
+      this.schedulerRegistry.addCronJob(this.DIGEST_JOB_NAME, job);
+      job.start();
+      this.logger.log(`Digest por e-mail agendado com cron "${cronTime}".`);
+    } catch (error) {
+      this.logger.error(
+        `EMAIL_DIGEST_CRON inválido ("${cronTime}"): ${errorMessage(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Disparo do cron: reserva o disparo por meio intervalo e envia sob o
+   * lease; se outra instância já reservou (ou está enviando), não faz nada.
+   */
+  private async sendScheduledDigest(job: CronJob): Promise<void> {
+    const [next, following] = job.nextDates(2);
+    const tick = await this.leaseService.acquire(
+      this.DIGEST_TICK_LEASE,
+      Math.max(1000, Math.floor((following.toMillis() - next.toMillis()) / 2)),
+    );
+    const outcome = tick
+      ? await this.leaseService.runExclusive(this.DIGEST_LEASE, () =>
+          this.sendDigest(),
+        )
+      : { acquired: false };
+    if (!outcome.acquired) {
+      this.logger.debug('Digest agendado atendido por outra instância.');
+    }
+  }
+
+  /**
+   * Monta e envia o digest da fila agora.
+   *
+   * @returns Resumo do que foi enviado.
+   * @throws ServiceUnavailableException se o SMTP não estiver configurado.
+   * @throws BadRequestException se EMAIL_DIGEST_TO estiver vazio.
+   */
+  async sendDigest(): Promise<{ message: string }> {
+    if (!this.mailer.isEnabled()) {
+      throw new ServiceUnavailableException(
+        'SMTP_HOST não definido; o digest por e-mail está desativado.',
+      );
+    }
+    const recipients = this.readList('EMAIL_DIGEST_TO');
+    if (recipients.length === 0) {
+      throw new BadRequestException(
+        'EMAIL_DIGEST_TO não definido; nenhum destinatário para o digest.',
+      );
+    }
+    const period = this.digestPeriod();
+    const monitorId = this.configService.get<string>('EMAIL_DIGEST_MONITOR_ID');
+    const userId = this.configService.get<string>('EMAIL_DIGEST_USER_ID') || '';
+    const jql = this.configService.get<string>('EMAIL_DIGEST_JQL') || '';
+    this.logger.log(
+      `Montando digest ${period} para ${monitorId ? `monitorId="${monitorId}"` : `userId="${userId}"`}.`,
+    );
+
+    // O monitor tem precedência sobre o par EMAIL_DIGEST_USER_ID/EMAIL_DIGEST_JQL
+    const result = monitorId
+      ? await this.jiraMonitorService.fetchMonitorIssues(monitorId)
+      : await this.jiraMonitorService.fetchAndProcessIssues(userId, jql);
+    const digest = this.buildQueueDigestUseCase.execute(result, period);
+    await this.mailer.send({
+      to: recipients,
+      ...this.templates.buildDigest(digest),
+    });
+
+    return {
+      message: `Digest ${period} com ${digest.total} issues enviado para ${recipients.length} destinatário(s).`,
+    };
+  }
+
+  /**
+   * Assinante de todos os eventos de issue: envia um alerta por e-mail
+   * quando há destinatários e o tipo do evento é aceito.
+   */
+  @OnEvent('jira.issue.*', { async: true })
+  async handleIssueEvent(event: JiraIssueEvent): Promise<void> {
+    const recipients = this.readList('EMAIL_ALERT_TO');
+    const eventTypes = this.readList('EMAIL_ALERT_EVENT_TYPES');
+    if (
+      recipients.length === 0 ||
+      (eventTypes.length > 0 && !eventTypes.includes(event.name))
+    ) {
+      return;
+    }
+
+    try {
+      await this.mailer.send({
+        to: recipients,
+        ...this.templates.buildAlert(event),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Falha ao enviar alerta por e-mail de ${event.name} (${event.issue.key}): ${errorMessage(error)}`,
+      );
+    }
+  }
+
+  private digestPeriod(): DigestPeriod {
+    return this.configService.get<string>('EMAIL_DIGEST_PERIOD') === 'weekly'
+      ? 'weekly'
+      : 'daily';
+  }
+
+  /**
+   * Lê uma variável de ambiente com valores separados por vírgula.
+   */
+  private readList(name: string): string[] {
+    return (this.configService.get<string>(name) || '')
+      .split(',')
+      .map((value) => value.trim())
+      .filter((value) => value.length > 0);
+  }
+}
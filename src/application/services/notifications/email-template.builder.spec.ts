@@ -0,0 +1,132 @@
+// src/application/services/notifications/email-template.builder.spec.ts
+
+import { ConfigService } from '@nestjs/config';
+
+import {
+  IssueLeftQueueEvent,
+  IssueReassignedEvent,
+} from '@domain/events/jira-issue.events';
+import { IssueSummaryDto } from '@dtos/jira/issue-summary.dto';
+import { QueueDigest } from '@app/usecases/jira/build-queue-digest.usecase';
+import { EmailTemplateBuilder } from './email-template.builder';
+
+const context = {
+  monitorId: 'monitor-1',
+  userId: 'user-1',
+  jql: 'project = SUP',
+};
+
+function issue(fields: Partial<IssueSummaryDto> = {}): IssueSummaryDto {
+  return {
+    key: 'SUP-1',
+    summary: 'Impressora sem papel',
+    status: 'Aberto',
+    created: '2026-10-01T00:00:00.000Z',
+    assignee: 'Ana',
+    reporter: null,
+    priority: 'High',
+    timeOpenDays: 3,
+    timeInStatusDays: 1,
+    url: 'https://acme.atlassian.net/browse/SUP-1',
+    slaState: 'ok',
+    slaRule: null,
+    ...fields,
+  };
+}
+
+function digest(fields: Partial<QueueDigest> = {}): QueueDigest {
+  return {
+    period: 'daily',
+    generatedAt: new Date('2026-10-19T08:00:00Z'),
+    total: 2,
+    statusCounts: { Aberto: 1, 'Em andamento': 1 },
+    oldest: [issue(), issue({ key: 'SUP-2', url: null, assignee: null })],
+    newlyArrived: [],
+    ...fields,
+  };
+}
+
+describe('EmailTemplateBuilder', () => {
+  const builder = new EmailTemplateBuilder(
+    new ConfigService({ JIRA_BASE_URL: 'https://fallback.atlassian.net' }),
+  );
+
+  describe('alerta', () => {
+    it('monta assunto, mudança e dados da issue', () => {
+      const email = builder.buildAlert(
+        new IssueReassignedEvent(context, issue(), null),
+      );
+
+      expect(email.subject).toBe('[Jira Monitor] Responsável alterado: SUP-1');
+      expect(email.html).toContain('<p>Responsável: Não atribuída → Ana</p>');
+      expect(email.html).toContain(
+        '<a href="https://acme.atlassian.net/browse/SUP-1">SUP-1</a>',
+      );
+      expect(email.text.split('\n')).toEqual([
+        'Responsável alterado: SUP-1',
+        'Responsável: Não atribuída → Ana',
+        '',
+        'SUP-1 - Impressora sem papel | Aberto | Ana | High | 3 dia(s) | https://acme.atlassian.net/browse/SUP-1',
+        '',
+        'Monitor: monitor-1 | JQL: project = SUP',
+      ]);
+    });
+
+    it('omite a linha de mudança em eventos sem mudança', () => {
+      const email = builder.buildAlert(
+        new IssueLeftQueueEvent(context, issue()),
+      );
+
+      expect(email.text.split('\n')[1]).toBe('');
+      expect(email.html).not.toContain('<p>');
+    });
+
+    it('escapa o conteúdo vindo do Jira no HTML', () => {
+      const email = builder.buildAlert(
+        new IssueLeftQueueEvent(
+          context,
+          issue({ summary: '<script>alert("x")</script> & \'y\'' }),
+        ),
+      );
+
+      expect(email.html).not.toContain('<script>');
+      expect(email.html).toContain(
+        '&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; &#39;y&#39;',
+      );
+    });
+  });
+
+  describe('digest', () => {
+    it('monta o resumo diário com status e issues mais antigas', () => {
+      const email = builder.buildDigest(digest());
+
+      expect(email.subject).toBe(
+        '[Jira Monitor] Resumo diário da fila: 2 issues em aberto',
+      );
+      expect(email.html).toContain(
+        '<tr><td>Em andamento</td><td style="text-align:right">1</td></tr>',
+      );
+      expect(email.html).toContain('<h3>Novas nas últimas 24h</h3>');
+      expect(email.html).toContain('<p>Nenhuma issue nova.</p>');
+      expect(email.text).toContain('  Aberto: 1');
+      expect(email.text).toContain(
+        '  SUP-2 - Impressora sem papel | Aberto | Não atribuída | High | 3 dia(s) | https://fallback.atlassian.net/browse/SUP-2',
+      );
+      expect(email.text).toContain('  Nenhuma issue nova.');
+    });
+
+    it('lista as novas do período no resumo semanal', () => {
+      const email = builder.buildDigest(
+        digest({
+          period: 'weekly',
+          newlyArrived: [issue({ key: 'SUP-9', summary: 'Nova' })],
+        }),
+      );
+
+      expect(email.subject).toContain('Resumo semanal da fila');
+      expect(email.html).toContain('<h3>Novas nos últimos 7 dias</h3>');
+      expect(email.html).not.toContain('Nenhuma issue nova.');
+      expect(email.text).toContain('Novas nos últimos 7 dias:\n  SUP-9 - Nova');
+    });
+  });
+});
@@ -0,0 +1,142 @@
+// src/application/services/notifications/email-template.builder.ts
+
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { IssueState, JiraIssueEvent } from '@domain/events/jira-issue.events';
+import { QueueDigest } from '@app/usecases/jira/build-queue-digest.usecase';
+import {
+  buildBrowseUrl,
+  issueEventChange,
+  issueEventTitle,
+} from './notification-format';
+
+/**
+ * Conteúdo pronto de um e-mail (sem destinatários).
+ */
+export interface EmailContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Monta os e-mails (HTML + texto puro) de alertas individuais e do digest da fila.
+ * Todo conteúdo vindo do Jira é escapado antes de entrar no HTML.
+ */
+@Injectable()
+export class EmailTemplateBuilder {
+  constructor(private readonly configService: ConfigService) {}
+
+  buildAlert(event: JiraIssueEvent): EmailContent {
+    const title = `${issueEventTitle(event)}: ${event.issue.key}`;
+    const change = issueEventChange(event);
+
+    const html = this.layout(
+      title,
+      `${change ? `<p>${this.escape(change)}</p>` : ''}${this.issuesTable([event.issue])}`,
+    );
+    const text = [
+      title,
+      change,
+      '',
+      this.issueText(event.issue),
+      '',
+      `Monitor: ${event.context.monitorId} | JQL: ${event.context.jql}`,
+    ]
+      .filter((line) => line !== undefined)
+      .join('\n');
+
+    return { subject: `[Jira Monitor] ${title}`, html, text };
+  }
+
+  buildDigest(digest: QueueDigest): EmailContent {
+    const label = digest.period === 'weekly' ? 'semanal' : 'diário';
+    const title = `Resumo ${label} da fila: ${digest.total} issues em aberto`;
+    const newLabel =
+      digest.period === 'weekly' ? 'nos últimos 7 dias' : 'nas últimas 24h';
+
+    const statusRows = Object.entries(digest.statusCounts)
+      .map(
+        ([status, count]) =>
+          `<tr><td>${this.escape(status)}</td><td style="text-align:right">${count}</td></tr>`,
+      )
+      .join('');
+    const html = this.layout(
+      title,
+      [
+        '<h3>Issues por status</h3>',
+        `<table cellpadding="4" style="border-collapse:collapse">${statusRows}</table>`,
+        `<h3>Mais antigas</h3>`,
+        this.issuesTable(digest.oldest),
+        `<h3>Novas ${newLabel}</h3>`,
+        digest.newlyArrived.length > 0
+          ? this.issuesTable(digest.newlyArrived)
+          : '<p>Nenhuma issue nova.</p>',
+      ].join(''),
+    );
+
+    const text = [
+      title,
+      '',
+      'Issues por status:',
+      ...Object.entries(digest.statusCounts).map(
+        ([status, count]) => `  ${status}: ${count}`,
+      ),
+      '',
+      'Mais antigas:',
+      ...digest.oldest.map((issue) => `  ${this.issueText(issue)}`),
+      '',
+      `Novas ${newLabel}:`,
+      ...(digest.newlyArrived.length > 0
+        ? digest.newlyArrived.map((issue) => `  ${this.issueText(issue)}`)
+        : ['  Nenhuma issue nova.']),
+    ].join('\n');
+
+    return { subject: `[Jira Monitor] ${title}`, html, text };
+  }
+
+  private layout(title: string, content: string): string {
+    return `<!DOCTYPE html><html><body style="font-family:Arial,sans-serif;font-size:14px"><h2>${this.escape(title)}</h2>${content}</body></html>`;
+  }
+
+  private issuesTable(issues: IssueState[]): string {
+    const header =
+      '<tr><th align="left">Issue</th><th align="left">Resumo</th><th align="left">Status</th><th align="left">Responsável</th><th align="left">Prioridade</th><th align="right">Dias em aberto</th></tr>';
+    const rows = issues
+      .map((issue) => {
+        const url = this.browseUrl(issue);
+        const key = url
+          ? `<a href="${this.escape(url)}">${this.escape(issue.key)}</a>`
+          : this.escape(issue.key);
+        return `<tr><td>${key}</td><td>${this.escape(issue.summary)}</td><td>${this.escape(issue.status)}</td><td>${this.escape(issue.assignee ?? 'Não atribuída')}</td><td>${this.escape(issue.priority ?? '—')}</td><td align="right">${issue.timeOpenDays}</td></tr>`;
+      })
+      .join('');
+    return `<table cellpadding="4" border="1" style="border-collapse:collapse">${header}${rows}</table>`;
+  }
+
+  private issueText(issue: IssueState): string {
+    const url = this.browseUrl(issue);
+    return `${issue.key} - ${issue.summary} | ${issue.status} | ${issue.assignee ?? 'Não atribuída'} | ${issue.priority ?? '—'} | ${issue.timeOpenDays} dia(s)${url ? ` | ${url}` : ''}`;
+  }
+
+  /**
+   * Link da issue no site do monitor; issues sem link (snapshots anteriores)
+   * caem em JIRA_BASE_URL.
+   */
+  private browseUrl(issue: IssueState): string | null {
+    return (
+      issue.url ??
+      buildBrowseUrl(this.configService.get<string>('JIRA_BASE_URL'), issue.key)
+    );
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,60 @@
+// src/application/services/notifications/notification-format.ts
+
+import {
+  IssuePriorityChangedEvent,
+  IssueReassignedEvent,
+  IssueStatusChangedEvent,
+  JiraIssueEvent,
+  JiraIssueEventName,
+} from '@domain/events/jira-issue.events';
+import { jiraBrowseUrl } from '@domain/jira/jira-issue-fields';
+
+/**
+ * Textos e links compartilhados pelos canais de notificação (chat, e-mail...).
+ */
+
+/**
+ * Título curto do evento (ex.: "Status alterado").
+ */
+export function issueEventTitle(event: JiraIssueEvent): string {
+  switch (event.name) {
+    case JiraIssueEventName.APPEARED:
+      return 'Nova issue na fila';
+    case JiraIssueEventName.STATUS_CHANGED:
+      return 'Status alterado';
+    case JiraIssueEventName.REASSIGNED:
+      return 'Responsável alterado';
+    case JiraIssueEventName.PRIORITY_CHANGED:
+      return 'Prioridade alterada';
+    case JiraIssueEventName.LEFT_QUEUE:
+      return 'Issue saiu da fila';
+  }
+}
+
+/**
+ * Descrição da mudança (ex.: "Status: Aberto → Resolvido"), quando houver.
+ */
+export function issueEventChange(event: JiraIssueEvent): string | undefined {
+  if (event instanceof IssueStatusChangedEvent) {
+    return `Status: ${event.previousStatus} → ${event.issue.status}`;
+  }
+  if (event instanceof IssueReassignedEvent) {
+    return `Responsável: ${event.previousAssignee ?? 'Não atribuída'} → ${event.issue.assignee ?? 'Não atribuída'}`;
+  }
+  if (event instanceof IssuePriorityChangedEvent) {
+    return `Prioridade: ${event.previousPriority ?? '—'} → ${event.issue.priority ?? '—'}`;
+  }
+  return undefined;
+}
+
+/**
+ * Monta o link de navegação da issue (<JIRA_BASE_URL>/browse/<key>).
+ *
+ * @returns null se a URL base não estiver configurada.
+ */
+export function buildBrowseUrl(
+  baseUrl: string | undefined,
+  key: string,
+): string | null {
+  return jiraBrowseUrl(baseUrl ?? null, key);
+}
@@ -0,0 +1,41 @@
+// src/application/services/notifications/notification-validation.ts
+
+import { BadRequestException } from '@nestjs/common';
+import { JiraIssueEventName } from '@domain/events/jira-issue.events';
+
+/**
+ * Validações compartilhadas pelos canais de notificação (webhooks, chat...).
+ */
+
+/**
+ * Garante que a URL seja absoluta e use http ou https.
+ */
+export function assertHttpUrl(url: string | undefined, label: string): void {
+  let parsed: URL;
+  try {
+    parsed = new URL(url ?? '');
+  } catch {
+    throw new BadRequestException(`URL de ${label} inválida: "${url}".`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new BadRequestException(
+      `URL de ${label} deve usar http ou https: "${url}".`,
+    );
+  }
+}
+
+/**
+ * Garante que todos os tipos informados sejam eventos conhecidos ("jira.issue.*").
+ *
+ * @returns A própria lista, para uso direto em atribuições.
+ */
+export function assertKnownEventTypes(eventTypes: string[]): string[] {
+  const known = Object.values(JiraIssueEventName) as string[];
+  const unknown = eventTypes.filter((type) => !known.includes(type));
+  if (unknown.length > 0) {
+    throw new BadRequestException(
+      `Tipos de evento desconhecidos: ${unknown.join(', ')}. Válidos: ${known.join(', ')}.`,
+    );
+  }
+  return eventTypes;
+}
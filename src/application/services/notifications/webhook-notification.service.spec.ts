@@ -0,0 +1,249 @@
+// src/application/services/notifications/webhook-notification.service.spec.ts
+
+import { BadRequestException, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { AxiosError, AxiosResponse } from 'axios';
+import { createHmac } from 'crypto';
+import { Observable, of, throwError } from 'rxjs';
+
+import { IssueStatusChangedEvent } from '@domain/events/jira-issue.events';
+import { WebhookTargetEntity } from '@domain/entities/webhook-target.entity';
+import { WebhookDeliveryEntity } from '@domain/entities/webhook-delivery.entity';
+import { TokenCipherService } from '@infra/crypto/token-cipher.service';
+import { WebhookRepository } from '@infra/repositories/notifications/webhook.repository';
+import { WebhookNotificationService } from './webhook-notification.service';
+
+type PostArgs = [string, string, { headers: Record<string, string> }];
+
+const event = new IssueStatusChangedEvent(
+  { monitorId: 'monitor-1', userId: 'user-1', jql: 'project = SUP' },
+  {
+    key: 'SUP-1',
+    summary: 'Impressora sem papel',
+    status: 'Em andamento',
+    assignee: null,
+    priority: 'High',
+    timeOpenDays: 2,
+    url: 'https://acme.atlassian.net/browse/SUP-1',
+  },
+  'Aberto',
+);
+
+function target(fields: Partial<WebhookTargetEntity> = {}) {
+  return Object.assign(new WebhookTargetEntity(), {
+    id: 'target-1',
+    url: 'https://hooks.example.com/jira',
+    secret: null,
+    eventTypes: [],
+    enabled: true,
+    ...fields,
+  });
+}
+
+function httpError(status: number | null): Observable<never> {
+  const response = status === null ? undefined : ({ status } as AxiosResponse);
+  return throwError(
+    () =>
+      new AxiosError(
+        `HTTP ${status ?? 'timeout'}`,
+        'ERR',
+        undefined,
+        undefined,
+        response,
+      ),
+  );
+}
+
+describe('WebhookNotificationService', () => {
+  let post: jest.Mock<Observable<unknown>, PostArgs>;
+  let saved: WebhookDeliveryEntity[];
+  let webhookRepo: {
+    findEnabledTargets: jest.Mock<Promise<WebhookTargetEntity[]>, []>;
+    findTargetById: jest.Mock<Promise<WebhookTargetEntity | null>, [string]>;
+    createDelivery: jest.Mock;
+    saveDelivery: jest.Mock;
+    claimStaleDeliveries: jest.Mock<Promise<WebhookDeliveryEntity[]>, [Date]>;
+  };
+  let sleep: jest.SpyInstance<Promise<void>, [number]>;
+  let service: WebhookNotificationService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    post = jest.fn<Observable<unknown>, PostArgs>(() => of({ status: 200 }));
+    saved = [];
+    webhookRepo = {
+      findEnabledTargets: jest.fn(() => Promise.resolve([target()])),
+      findTargetById: jest.fn<Promise<WebhookTargetEntity | null>, [string]>(
+        () => Promise.resolve(target()),
+      ),
+      createDelivery: jest.fn(
+        (
+          params: Partial<WebhookDeliveryEntity>,
+        ): Promise<WebhookDeliveryEntity> =>
+          Promise.resolve(
+            Object.assign(new WebhookDeliveryEntity(), {
+              id: 'delivery-1',
+              status: 'pending',
+              attempts: 0,
+              ...params,
+            }),
+          ),
+      ),
+      saveDelivery: jest.fn((delivery: WebhookDeliveryEntity) => {
+        saved.push({ ...delivery });
+        return Promise.resolve(delivery);
+      }),
+      claimStaleDeliveries: jest.fn<Promise<WebhookDeliveryEntity[]>, [Date]>(
+        () => Promise.resolve([]),
+      ),
+    };
+    service = new WebhookNotificationService(
+      { post } as unknown as HttpService,
+      webhookRepo as unknown as WebhookRepository,
+      new ConfigService({
+        WEBHOOK_MAX_ATTEMPTS: '3',
+        WEBHOOK_RETRY_BASE_MS: '100',
+      }),
+      { isEnabled: () => false } as unknown as TokenCipherService,
+    );
+    sleep = jest
+      .spyOn(
+        service as unknown as { sleep: (ms: number) => Promise<void> },
+        'sleep',
+      )
+      .mockResolvedValue();
+  });
+
+  function lastSaved(): WebhookDeliveryEntity {
+    return saved[saved.length - 1];
+  }
+
+  describe('assinatura', () => {
+    it('assina o corpo exato enviado com o segredo do destino', async () => {
+      webhookRepo.findEnabledTargets.mockResolvedValue([
+        target({ secret: 'segredo' }),
+      ]);
+
+      await service.handleIssueEvent(event);
+
+      const [url, body, { headers }] = post.mock.calls[0];
+      expect(url).toBe('https://hooks.example.com/jira');
+      expect(headers['X-Jira-Monitor-Signature']).toBe(
+        `sha256=${createHmac('sha256', 'segredo').update(body).digest('hex')}`,
+      );
+      expect(headers['X-Jira-Monitor-Event']).toBe('jira.issue.status-changed');
+      expect(headers['X-Jira-Monitor-Delivery']).toBe('delivery-1');
+      expect(JSON.parse(body)).toMatchObject({
+        event: 'jira.issue.status-changed',
+        issue: { key: 'SUP-1' },
+        changes: { previousStatus: 'Aberto' },
+      });
+    });
+
+    it('não assina sem segredo', async () => {
+      await service.handleIssueEvent(event);
+
+      const [, , { headers }] = post.mock.calls[0];
+      expect(headers).not.toHaveProperty('X-Jira-Monitor-Signature');
+    });
+
+    it('ignora destinos que não aceitam o evento', async () => {
+      webhookRepo.findEnabledTargets.mockResolvedValue([
+        target({ eventTypes: ['jira.issue.appeared'] }),
+      ]);
+
+      await service.handleIssueEvent(event);
+
+      expect(post).not.toHaveBeenCalled();
+      expect(webhookRepo.createDelivery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('tentativas', () => {
+    it('repete falhas 5xx com backoff exponencial', async () => {
+      post
+        .mockReturnValueOnce(httpError(503))
+        .mockReturnValueOnce(httpError(null))
+        .mockReturnValueOnce(of({ status: 202 }));
+
+      await service.handleIssueEvent(event);
+
+      expect(post).toHaveBeenCalledTimes(3);
+      expect(sleep.mock.calls).toEqual([[100], [200]]);
+      expect(lastSaved()).toMatchObject({
+        status: 'succeeded',
+        attempts: 3,
+        lastStatusCode: 202,
+        lastError: null,
+      });
+    });
+
+    it('marca como falha após WEBHOOK_MAX_ATTEMPTS tentativas', async () => {
+      post.mockReturnValue(httpError(500));
+
+      await service.handleIssueEvent(event);
+
+      expect(post).toHaveBeenCalledTimes(3);
+      expect(lastSaved()).toMatchObject({
+        status: 'failed',
+        attempts: 3,
+        lastStatusCode: 500,
+        lastError: 'HTTP 500',
+      });
+    });
+
+    it('não repete respostas 4xx, exceto 408 e 429', async () => {
+      post.mockReturnValueOnce(httpError(429)).mockReturnValue(httpError(400));
+
+      await service.handleIssueEvent(event);
+
+      expect(post).toHaveBeenCalledTimes(2);
+      expect(lastSaved()).toMatchObject({ status: 'failed', attempts: 2 });
+    });
+  });
+
+  describe('entregas interrompidas', () => {
+    function staleDelivery(id: string, enabled: boolean) {
+      return Object.assign(new WebhookDeliveryEntity(), {
+        id,
+        eventName: 'jira.issue.appeared',
+        payload: { event: 'jira.issue.appeared' },
+        status: 'pending',
+        attempts: 1,
+        target: target({ id: `target-${id}`, enabled }),
+      });
+    }
+
+    it('reenvia as de destinos ativos e falha as demais no startup', async () => {
+      webhookRepo.claimStaleDeliveries.mockResolvedValue([
+        staleDelivery('d1', true),
+        staleDelivery('d2', false),
+      ]);
+
+      await service.onApplicationBootstrap();
+      await new Promise((resolve) => setImmediate(resolve));
+
+      const [staleBefore] = webhookRepo.claimStaleDeliveries.mock.calls[0];
+      expect(staleBefore.getTime()).toBeLessThan(Date.now());
+      expect(post).toHaveBeenCalledTimes(1);
+      expect(saved.find((delivery) => delivery.id === 'd1')).toMatchObject({
+        status: 'succeeded',
+        attempts: 2,
+      });
+      expect(saved.find((delivery) => delivery.id === 'd2')).toMatchObject({
+        status: 'failed',
+      });
+    });
+  });
+
+  it('rejeita status desconhecido na listagem de entregas', async () => {
+    await expect(
+      service.listDeliveries('target-1', 'delivered'),
+    ).rejects.toThrow(BadRequestException);
+    expect(webhookRepo.findTargetById).not.toHaveBeenCalled();
+  });
+});
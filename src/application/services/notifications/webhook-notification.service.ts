@@ -0,0 +1,405 @@
+// src/application/services/notifications/webhook-notification.service.ts
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { OnEvent } from '@nestjs/event-emitter';
+import { firstValueFrom } from 'rxjs';
+import { isAxiosError } from 'axios';
+import { createHmac } from 'crypto';
+
+import { JiraIssueEvent } from '@domain/events/jira-issue.events';
+import { WebhookTargetEntity } from '@domain/entities/webhook-target.entity';
+import {
+  WebhookDeliveryEntity,
+  WebhookDeliveryStatus,
+} from '@domain/entities/webhook-delivery.entity';
+import { readPositiveInt } from '@infra/config/read-positive-int';
+import { errorMessage } from '@infra/errors/error-message';
+import { TokenCipherService } from '@infra/crypto/token-cipher.service';
+import { WebhookRepository } from '@infra/repositories/notifications/webhook.repository';
+import { CreateWebhookTargetDto } from '@dtos/notifications/create-webhook-target.dto';
+import { UpdateWebhookTargetDto } from '@dtos/notifications/update-webhook-target.dto';
+import { WebhookTargetDto } from '@dtos/notifications/webhook-target.dto';
+import { WebhookDeliveryDto } from '@dtos/notifications/webhook-delivery.dto';
+import {
+  assertHttpUrl,
+  assertKnownEventTypes,
+} from './notification-validation';
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = [
+  'pending',
+  'succeeded',
+  'failed',
+];
+
+/**
+ * Serviço responsável pelos webhooks genéricos de saída:
+ *  1) CRUD dos destinos (URL, segredo HMAC opcional e filtro de tipos de evento).
+ *  2) Escutar os eventos "jira.issue.*" publicados pelo job agendado e fazer
+ *     POST do payload JSON assinado em cada destino ativo que aceite o evento.
+ *  3) Repetir entregas que falharem com backoff exponencial
+ *     (WEBHOOK_MAX_ATTEMPTS tentativas, começando em WEBHOOK_RETRY_BASE_MS).
+ *  4) Registrar cada entrega no banco, permitindo inspeção e reenvio manual.
+ *     As tentativas são agendadas em memória: no startup, as entregas que
+ *     ficaram "pending" sem atualização por mais de um ciclo completo de
+ *     tentativas (processo reiniciado no meio) são reenviadas, ou marcadas
+ *     como "failed" se o destino foi desativado.
+ *  5) Manter os segredos HMAC cifrados no banco: no startup cifra os gravados
+ *     em texto puro; após uma rotação de chave, npm run tokens:reencrypt
+ *     re-cifra todos (ver TokenEncryptionService).
+ *
+ * Cabeçalhos enviados em cada POST:
+ *  - X-Jira-Monitor-Event: nome do evento
+ *  - X-Jira-Monitor-Delivery: id da entrega (o mesmo em todas as tentativas)
+ *  - X-Jira-Monitor-Signature: "sha256=<hex>" do HMAC do corpo (se houver segredo)
+ */
+@Injectable()
+export class WebhookNotificationService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(WebhookNotificationService.name);
+
+  private readonly DEFAULT_MAX_ATTEMPTS = 5;
+  private readonly DEFAULT_RETRY_BASE_MS = 1000;
+  private readonly DEFAULT_TIMEOUT_MS = 10000;
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly webhookRepo: WebhookRepository,
+    private readonly configService: ConfigService,
+    private readonly cipher: TokenCipherService,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    if (this.cipher.isEnabled()) {
+      const migrated = await this.webhookRepo.reencryptSecrets(true);
+      if (migrated > 0) {
+        this.logger.log(
+          `${migrated} segredo(s) de webhook em texto puro cifrado(s) no startup.`,
+        );
+      }
+    }
+    await this.resumeStaleDeliveries().catch((error) =>
+      this.logger.error(
+        `Falha ao retomar entregas interrompidas: ${errorMessage(error)}`,
+      ),
+    );
+  }
+
+  /**
+   * Retoma as entregas interrompidas por um reinício: reenvia em segundo
+   * plano as de destinos ativos e marca as demais como "failed".
+   */
+  private async resumeStaleDeliveries(): Promise<void> {
+    const { maxAttempts, baseDelayMs, timeout } = this.retrySettings();
+    // Nenhuma entrega em andamento fica tanto tempo sem ser gravada
+    const cycleMs = maxAttempts * timeout + baseDelayMs * 2 ** maxAttempts;
+    const stale = await this.webhookRepo.claimStaleDeliveries(
+      new Date(Date.now() - cycleMs),
+    );
+    for (const delivery of stale) {
+      if (!delivery.target.enabled) {
+        delivery.status = 'failed';
+        delivery.lastError =
+          'Entrega interrompida por reinício; destino desativado.';
+        await this.webhookRepo.saveDelivery(delivery);
+        continue;
+      }
+      this.deliver(delivery, delivery.target).catch((error) =>
+        this.logger.error(
+          `Falha inesperada ao retomar entrega ${delivery.id}: ${errorMessage(error)}`,
+        ),
+      );
+    }
+    if (stale.length > 0) {
+      this.logger.warn(
+        `${stale.length} entrega(s) de webhook interrompida(s) por reinício retomada(s).`,
+      );
+    }
+  }
+
+  async createTarget(dto: CreateWebhookTargetDto): Promise<WebhookTargetDto> {
+    assertHttpUrl(dto.url, 'webhook');
+    const eventTypes = assertKnownEventTypes(dto.eventTypes ?? []);
+    const target = await this.webhookRepo.createTarget({
+      url: dto.url,
+      secret: dto.secret || null,
+      eventTypes,
+      enabled: dto.enabled ?? true,
+    });
+    this.logger.log(`Webhook ${target.id} criado para url="${target.url}".`);
+    return this.toTargetDto(target);
+  }
+
+  async listTargets(): Promise<WebhookTargetDto[]> {
+    const targets = await this.webhookRepo.findAllTargets();
+    return targets.map((target) => this.toTargetDto(target));
+  }
+
+  async updateTarget(
+    id: string,
+    dto: UpdateWebhookTargetDto,
+  ): Promise<WebhookTargetDto> {
+    const changes: Partial<WebhookTargetEntity> = {};
+    if (dto.url !== undefined) {
+      assertHttpUrl(dto.url, 'webhook');
+      changes.url = dto.url;
+    }
+    if (dto.secret !== undefined) {
+      changes.secret = dto.secret || null;
+    }
+    if (dto.eventTypes !== undefined) {
+      changes.eventTypes = assertKnownEventTypes(dto.eventTypes);
+    }
+    if (dto.enabled !== undefined) {
+      changes.enabled = dto.enabled;
+    }
+
+    const updated = await this.webhookRepo.updateTarget(id, changes);
+    if (!updated) {
+      throw new NotFoundException(`Webhook "${id}" não encontrado.`);
+    }
+    return this.toTargetDto(updated);
+  }
+
+  async deleteTarget(id: string): Promise<void> {
+    const removed = await this.webhookRepo.deleteTarget(id);
+    if (!removed) {
+      throw new NotFoundException(`Webhook "${id}" não encontrado.`);
+    }
+    this.logger.log(`Webhook ${id} removido.`);
+  }
+
+  /**
+   * @throws BadRequestException se `status` não for um status de entrega.
+   */
+  async listDeliveries(
+    targetId: string,
+    status?: string,
+  ): Promise<WebhookDeliveryDto[]> {
+    if (
+      status &&
+      !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)
+    ) {
+      throw new BadRequestException(
+        `Status inválido: "${status}". Válidos: ${DELIVERY_STATUSES.join(', ')}.`,
+      );
+    }
+    const target = await this.webhookRepo.findTargetById(targetId);
+    if (!target) {
+      throw new NotFoundException(`Webhook "${targetId}" não encontrado.`);
+    }
+    const deliveries = await this.webhookRepo.findDeliveriesByTarget(
+      targetId,
+      (status || undefined) as WebhookDeliveryStatus | undefined,
+    );
+    return deliveries.map((delivery) => this.toDeliveryDto(delivery));
+  }
+
+  /**
+   * Reenvia o payload de uma entrega já registrada (com o mesmo ciclo de
+   * tentativas). O envio ocorre em segundo plano; a resposta traz a entrega
+   * no estado "pending".
+   */
+  async replayDelivery(deliveryId: string): Promise<WebhookDeliveryDto> {
+    const delivery = await this.webhookRepo.findDeliveryById(deliveryId);
+    if (!delivery) {
+      throw new NotFoundException(`Entrega "${deliveryId}" não encontrada.`);
+    }
+
+    delivery.status = 'pending';
+    delivery.lastError = null;
+    delivery.deliveredAt = null;
+    const saved = await this.webhookRepo.saveDelivery(delivery);
+    this.logger.log(`Reenviando entrega ${deliveryId} manualmente.`);
+
+    this.deliver(saved, delivery.target).catch((error) =>
+      this.logger.error(
+        `Falha inesperada ao reenviar entrega ${deliveryId}: ${errorMessage(error)}`,
+      ),
+    );
+    return this.toDeliveryDto(saved);
+  }
+
+  /**
+   * Assinante de todos os eventos de issue: cria uma entrega para cada
+   * destino ativo que aceite o evento e dispara os envios em paralelo.
+   */
+  @OnEvent('jira.issue.*', { async: true })
+  async handleIssueEvent(event: JiraIssueEvent): Promise<void> {
+    try {
+      const targets = await this.webhookRepo.findEnabledTargets();
+      const interested = targets.filter(
+        (target) =>
+          target.eventTypes.length === 0 ||
+          target.eventTypes.includes(event.name),
+      );
+      if (interested.length === 0) {
+        return;
+      }
+
+      const payload = this.buildPayload(event);
+      await Promise.all(
+        interested.map(async (target) => {
+          const delivery = await this.webhookRepo.createDelivery({
+            targetId: target.id,
+            eventName: event.name,
+            payload,
+          });
+          await this.deliver(delivery, target);
+        }),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Falha ao processar webhooks do evento ${event.name} (${event.issue.key}): ${errorMessage(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Executa o ciclo de tentativas de uma entrega, atualizando o log a cada tentativa.
+   * Respostas 4xx (exceto 408 e 429) não são repetidas, pois indicam erro
+   * permanente do lado do destino.
+   */
+  private async deliver(
+    delivery: WebhookDeliveryEntity,
+    target: WebhookTargetEntity,
+  ): Promise<WebhookDeliveryEntity> {
+    const { maxAttempts, baseDelayMs, timeout } = this.retrySettings();
+
+    // O corpo é serializado uma única vez para que a assinatura corresponda
+    // exatamente aos bytes enviados
+    const body = JSON.stringify(delivery.payload);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Jira-Monitor-Event': delivery.eventName,
+      'X-Jira-Monitor-Delivery': delivery.id,
+    };
+    if (target.secret) {
+      headers['X-Jira-Monitor-Signature'] =
+        `sha256=${createHmac('sha256', target.secret).update(body).digest('hex')}`;
+    }
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      delivery.attempts += 1;
+      try {
+        const response = await firstValueFrom(
+          this.httpService.post(target.url, body, { headers, timeout }),
+        );
+        delivery.status = 'succeeded';
+        delivery.lastStatusCode = response.status;
+        delivery.lastError = null;
+        delivery.deliveredAt = new Date();
+        this.logger.log(
+          `Entrega ${delivery.id} (${delivery.eventName}) concluída em ${target.url} na tentativa ${attempt}.`,
+        );
+        return this.webhookRepo.saveDelivery(delivery);
+      } catch (error) {
+        const statusCode = isAxiosError(error)
+          ? (error.response?.status ?? null)
+          : null;
+        delivery.lastStatusCode = statusCode;
+        delivery.lastError = errorMessage(error);
+        this.logger.warn(
+          `Tentativa ${attempt}/${maxAttempts} da entrega ${delivery.id} para ${target.url} falhou: ${delivery.lastError}`,
+        );
+
+        const retryable =
+          statusCode === null ||
+          statusCode >= 500 ||
+          statusCode === 408 ||
+          statusCode === 429;
+        if (!retryable || attempt === maxAttempts) {
+          break;
+        }
+        await this.webhookRepo.saveDelivery(delivery);
+        await this.sleep(baseDelayMs * 2 ** (attempt - 1));
+      }
+    }
+
+    delivery.status = 'failed';
+    this.logger.error(
+      `Entrega ${delivery.id} para ${target.url} falhou definitivamente após ${delivery.attempts} tentativa(s).`,
+    );
+    return this.webhookRepo.saveDelivery(delivery);
+  }
+
+  /**
+   * Tentativas, atraso inicial do backoff e timeout de cada POST.
+   */
+  private retrySettings(): {
+    maxAttempts: number;
+    baseDelayMs: number;
+    timeout: number;
+  } {
+    return {
+      maxAttempts: readPositiveInt(
+        this.configService,
+        'WEBHOOK_MAX_ATTEMPTS',
+        this.DEFAULT_MAX_ATTEMPTS,
+      ),
+      baseDelayMs: readPositiveInt(
+        this.configService,
+        'WEBHOOK_RETRY_BASE_MS',
+        this.DEFAULT_RETRY_BASE_MS,
+      ),
+      timeout: readPositiveInt(
+        this.configService,
+        'WEBHOOK_TIMEOUT_MS',
+        this.DEFAULT_TIMEOUT_MS,
+      ),
+    };
+  }
+
+  /**
+   * Monta o corpo JSON do webhook a partir do evento de domínio.
+   * Campos específicos de cada evento (previousStatus, previousAssignee...)
+   * vão em `changes`.
+   */
+  private buildPayload(event: JiraIssueEvent): Record<string, any> {
+    const { name, occurredAt, context, issue, ...changes } = event;
+    return {
+      event: name,
+      occurredAt: occurredAt.toISOString(),
+      context,
+      issue,
+      changes,
+    };
+  }
+
+  private toTargetDto(target: WebhookTargetEntity): WebhookTargetDto {
+    return {
+      id: target.id,
+      url: target.url,
+      hasSecret: !!target.secret,
+      eventTypes: target.eventTypes,
+      enabled: target.enabled,
+      createdAt: target.createdAt,
+      updatedAt: target.updatedAt,
+    };
+  }
+
+  private toDeliveryDto(delivery: WebhookDeliveryEntity): WebhookDeliveryDto {
+    return {
+      id: delivery.id,
+      targetId: delivery.targetId,
+      eventName: delivery.eventName,
+      payload: delivery.payload,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      lastStatusCode: delivery.lastStatusCode,
+      lastError: delivery.lastError,
+      deliveredAt: delivery.deliveredAt,
+      createdAt: delivery.createdAt,
+    };
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
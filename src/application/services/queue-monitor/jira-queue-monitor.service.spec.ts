@@ -0,0 +1,181 @@
+// src/application/services/queue-monitor/jira-queue-monitor.service.spec.ts
+
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+
+import { JiraCredentialEntity } from '@domain/entities/jira-credential.entity';
+import { JiraHttpClient } from '@infra/http/jira-http.client';
+import { JiraFixtureStore } from '@infra/fixtures/jira-fixture.store';
+import { JiraCredentialRepository } from '@infra/repositories/jira/jira-credential.repository';
+import { IssueSnapshotRepository } from '@infra/repositories/jira/issue-snapshot.repository';
+import { MonitorDefinitionRepository } from '@infra/repositories/jira/monitor-definition.repository';
+import { SlaRuleRepository } from '@infra/repositories/jira/sla-rule.repository';
+import { ProcessIssuesUseCase } from '@app/usecases/jira/process-issues.usecase';
+import { DetectIssueChangesUseCase } from '@app/usecases/jira/detect-issue-changes.usecase';
+import { EvaluateSlaUseCase } from '@app/usecases/jira/evaluate-sla.usecase';
+import { JiraAuthStrategyResolver } from '@services/auth/strategies/jira-auth-strategy.resolver';
+import { JiraRequestContext } from '@services/auth/strategies/jira-auth.strategy';
+import { JiraQueueMonitorService } from './jira-queue-monitor.service';
+
+const BASE_URL = 'https://api.atlassian.com/ex/jira/cloud-1';
+
+/**
+ * Jira simulado: responde à busca fatiando `total` issues por startAt/maxResults.
+ */
+function jiraWith(total: number) {
+  return jest.fn((url: string) => {
+    const params = new URL(url).searchParams;
+    const startAt = Number(params.get('startAt'));
+    const maxResults = Number(params.get('maxResults'));
+    const count = Math.max(0, Math.min(maxResults, total - startAt));
+    const issues = Array.from({ length: count }, (_, i) => ({
+      key: `SUP-${startAt + i + 1}`,
+      fields: {
+        summary: 'Issue',
+        status: { name: 'Aberto' },
+        created: '2026-10-01T00:00:00.000+0000',
+      },
+    }));
+    return Promise.resolve({ startAt, maxResults, total, issues });
+  });
+}
+
+function pagesRequested(get: jest.Mock): Array<[number, number]> {
+  return get.mock.calls.map(([url]: [string]) => {
+    const params = new URL(url).searchParams;
+    return [Number(params.get('startAt')), Number(params.get('maxResults'))];
+  });
+}
+
+describe('JiraQueueMonitorService (paginação da busca)', () => {
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  function serviceWith(
+    get: jest.Mock,
+    env: Record<string, string>,
+  ): JiraQueueMonitorService {
+    const request: JiraRequestContext = {
+      baseUrl: BASE_URL,
+      siteUrl: 'https://acme.atlassian.net',
+      apiVersion: '3',
+      headers: { Authorization: 'Bearer token' },
+    };
+    return new JiraQueueMonitorService(
+      { get } as unknown as JiraHttpClient,
+      {
+        isOffline: () => false,
+        getMode: () => 'live',
+      } as unknown as JiraFixtureStore,
+      {
+        findByUserId: () =>
+          Promise.resolve(
+            Object.assign(new JiraCredentialEntity(), {
+              userId: 'user-1',
+              cloudId: 'cloud-1',
+            }),
+          ),
+      } as unknown as JiraCredentialRepository,
+      {} as IssueSnapshotRepository,
+      {} as MonitorDefinitionRepository,
+      {
+        resolve: () => Promise.resolve(request),
+      } as unknown as JiraAuthStrategyResolver,
+      new ProcessIssuesUseCase(),
+      new DetectIssueChangesUseCase(),
+      new EvaluateSlaUseCase(),
+      {
+        findEnabled: () => Promise.resolve([]),
+      } as unknown as SlaRuleRepository,
+      new EventEmitter2(),
+      new ConfigService(env),
+    );
+  }
+
+  it('percorre todas as páginas até o total', async () => {
+    const get = jiraWith(5);
+    const service = serviceWith(get, { JIRA_SEARCH_PAGE_SIZE: '2' });
+
+    const result = await service.fetchAndProcessIssues(
+      'user-1',
+      'project = SUP',
+    );
+
+    expect(pagesRequested(get)).toEqual([
+      [0, 2],
+      [2, 2],
+      [4, 2],
+    ]);
+    expect(result.total).toBe(5);
+    expect(result.issues.map((issue) => issue.key)).toEqual([
+      'SUP-1',
+      'SUP-2',
+      'SUP-3',
+      'SUP-4',
+      'SUP-5',
+    ]);
+    expect(result.truncated).toBe(false);
+    expect(result.issues[0].url).toBe(
+      'https://acme.atlassian.net/browse/SUP-1',
+    );
+  });
+
+  it('para em JIRA_SEARCH_MAX_ISSUES e marca o resultado como truncado', async () => {
+    const get = jiraWith(10);
+    const service = serviceWith(get, {
+      JIRA_SEARCH_PAGE_SIZE: '2',
+      JIRA_SEARCH_MAX_ISSUES: '3',
+    });
+
+    const result = await service.fetchAndProcessIssues(
+      'user-1',
+      'project = SUP',
+    );
+
+    expect(pagesRequested(get)).toEqual([
+      [0, 2],
+      [2, 1],
+    ]);
+    expect(result.issues).toHaveLength(3);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('para na primeira página vazia', async () => {
+    const get = jest.fn((url: string) =>
+      Promise.resolve(
+        url.includes('startAt=0')
+          ? { total: 50, issues: [{ key: 'SUP-1', fields: {} }] }
+          : { total: 50, issues: [] },
+      ),
+    );
+    const service = serviceWith(get, { JIRA_SEARCH_PAGE_SIZE: '1' });
+
+    await service.fetchAndProcessIssues('user-1', 'project = SUP');
+
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+
+  it('usa o JQL codificado e a versão da API na URL', async () => {
+    const get = jiraWith(0);
+    const service = serviceWith(get, {});
+
+    await service.fetchAndProcessIssues('user-1', ' status = "Em andamento" ');
+
+    const [url] = get.mock.calls[0];
+    expect(url).toContain(`${BASE_URL}/rest/api/3/search?jql=`);
+    expect(new URL(url).searchParams.get('jql')).toBe(
+      'status = "Em andamento"',
+    );
+  });
+
+  it('propaga a falha do Jira', async () => {
+    const get = jest.fn(() => Promise.reject(new Error('JQL inválido')));
+    const service = serviceWith(get, {});
+
+    await expect(
+      service.fetchAndProcessIssues('user-1', 'project = SUP'),
+    ).rejects.toThrow('JQL inválido');
+  });
+});
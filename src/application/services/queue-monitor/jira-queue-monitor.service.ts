@@ -1,125 +1,284 @@
 // src/application/services/jira/jira-queue-monitor.service.ts
 
 import {
+  BadRequestException,
   Injectable,
   InternalServerErrorException,
   Logger,
+  NotFoundException,
 } from '@nestjs/common';
-import { HttpService } from '@nestjs/axios';
-import { firstValueFrom } from 'rxjs';
-import { Cron, CronExpression } from '@nestjs/schedule';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 
+import { readPositiveInt } from '@infra/config/read-positive-int';
+import { errorMessage } from '@infra/errors/error-message';
+import { JiraHttpClient } from '@infra/http/jira-http.client';
+import { JiraFixtureStore } from '@infra/fixtures/jira-fixture.store';
 import { JiraCredentialRepository } from '@infra/repositories/jira/jira-credential.repository';
+import { IssueSnapshotRepository } from '@infra/repositories/jira/issue-snapshot.repository';
+import { MonitorDefinitionRepository } from '@infra/repositories/jira/monitor-definition.repository';
+import { MonitorDefinitionEntity } from '@domain/entities/monitor-definition.entity';
 import { ProcessIssuesUseCase } from '@app/usecases/jira/process-issues.usecase';
-import { AuthService } from '@services/auth/auth.service';
+import { DetectIssueChangesUseCase } from '@app/usecases/jira/detect-issue-changes.usecase';
+import { EvaluateSlaUseCase } from '@app/usecases/jira/evaluate-sla.usecase';
+import { SlaRuleRepository } from '@infra/repositories/jira/sla-rule.repository';
+import { JiraAuthStrategyResolver } from '@services/auth/strategies/jira-auth-strategy.resolver';
+import { JiraRequestContext } from '@services/auth/strategies/jira-auth.strategy';
+import { ProcessedIssuesResponseDto } from '@dtos/jira/processed-issues-response.dto';
+import {
+  DEFAULT_STATUS_FILTER,
+  StatusFilter,
+  statusFilterFromCsv,
+} from '@domain/filters/status-filter';
+
+/**
+ * Formato (parcial) de uma página retornada por /rest/api/{2|3}/search.
+ */
+interface JiraSearchPage {
+  startAt?: number;
+  maxResults?: number;
+  total?: number;
+  issues?: any[];
+}
 
 /**
  * Serviço responsável por:
- *  1) Recuperar do banco (SQLite) as credenciais OAuth do Jira para um dado userId.
- *  2) Verificar o token (accessToken) e renovar automaticamente se estiver perto de expirar.
- *  3) Fazer chamada GET na API Jira para buscar issues do projeto OMNIJS.
- *  4) Encaminhar o JSON bruto para o UseCase que tratará esses dados.
+ *  1) Recuperar do banco (SQLite) as credenciais OAuth do Jira de cada usuário
+ *     conectado (userId = accountId Atlassian).
+ *  2) Resolver base URL, versão da API e headers pela estratégia da credencial
+ *     (OAuth 3LO, API token ou PAT; Jira Cloud ou Data Center); no OAuth o
+ *     token é renovado se estiver perto de expirar.
+ *  3) Fazer chamadas GET na API Jira para buscar as issues de cada monitor
+ *     cadastrado (JQL + credencial), percorrendo todas as páginas do resultado (startAt/maxResults) até o
+ *     limite configurado em JIRA_SEARCH_MAX_ISSUES.
+ *  4) Encaminhar o JSON bruto para o UseCase que tratará esses dados e
+ *     classificar cada issue segundo as regras de SLA cadastradas.
+ *  5) No job agendado, gravar um snapshot do resultado (poll + issues) no banco
+ *     e publicar no EventEmitter os eventos de mudança em relação ao poll anterior.
+ *
+ * Com JIRA_DATA_SOURCE=fixtures os passos 1-3 são trocados pela leitura das
+ * respostas gravadas (JiraFixtureStore), sem credenciais; com record, cada
+ * busca real também é gravada como fixture.
  *
- * A verificação automática do token ocorrerá a cada 50 minutos, via @Cron.
- * A busca de issues ocorre a cada 10 minutos, via @Cron (cron expression).
+ * Os jobs de cada monitor são registrados em tempo de execução pelo
+ * MonitorSchedulerService; a renovação dos tokens fica com o
+ * TokenRefreshSweeperService.
  */
 @Injectable()
 export class JiraQueueMonitorService {
   private readonly logger = new Logger(JiraQueueMonitorService.name);
   /**
-   * Buffer de 1 minuto antes da expiração real do token:
-   * se faltar menos de 1 minuto para expirar, já renovamos antecipadamente.
+   * Tamanho de cada página pedida ao Jira (o Jira Cloud limita a 100 por chamada).
+   */
+  private readonly DEFAULT_PAGE_SIZE = 100;
+  /**
+   * Limite superior de issues buscadas por consulta; acima disso a resposta
+   * é marcada como `truncated`.
+   */
+  private readonly DEFAULT_MAX_ISSUES = 1000;
+  /**
+   * Quantidade de polls mantidos no histórico de cada monitor.
    */
-  private readonly REFRESH_BUFFER_MS = 60 * 1000; // 1 minuto
-  private readonly DEFAULT_JQL = 'project = "OMNIJS" ORDER BY created DESC';
+  private readonly DEFAULT_SNAPSHOT_RETENTION = 100;
 
   constructor(
-    private readonly httpService: HttpService,
+    private readonly jiraHttp: JiraHttpClient,
+    private readonly fixtureStore: JiraFixtureStore,
     private readonly jiraCredRepo: JiraCredentialRepository,
-    private readonly authService: AuthService,
+    private readonly issueSnapshotRepo: IssueSnapshotRepository,
+    private readonly monitorRepo: MonitorDefinitionRepository,
+    private readonly authStrategies: JiraAuthStrategyResolver,
     private readonly processIssuesUseCase: ProcessIssuesUseCase,
+    private readonly detectIssueChangesUseCase: DetectIssueChangesUseCase,
+    private readonly evaluateSlaUseCase: EvaluateSlaUseCase,
+    private readonly slaRuleRepo: SlaRuleRepository,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly configService: ConfigService,
   ) {}
 
   /**
-   * Verifica a validade do token a cada 50 minutos:
-   * se estiver a menos de 1 minuto de expirar, renova via AuthService.refreshAccessToken().
+   * Passo 8.1.1: Executa um poll completo de um monitor (disparado pelo job do
+   * monitor no MonitorSchedulerService ou sob demanda):
+   *    - Chama a API Jira com o JQL e as credenciais do monitor.
+   *    - Encaminha o JSON para o ProcessIssuesUseCase.
+   *    - Compara com o último snapshot e publica os eventos de mudança.
+   *    - Grava o resultado como snapshot (histórico de polls), mantendo só
+   *      os JIRA_SNAPSHOT_RETENTION polls mais recentes do monitor.
+   *
+   * @returns O resultado processado do poll.
    */
-  @Cron('*/50 * * * *') // rodará nos minutos 0 e 50 de cada hora (aprox. a cada 50 minutos)
-  async checkAndRefreshToken() {
-    const userId = 'default';
-    this.logger.log(`Iniciando verificação de token para userId="${userId}".`);
-    const cred = await this.jiraCredRepo.findByUserId(userId);
-    if (!cred) {
+  async runMonitor(
+    monitor: MonitorDefinitionEntity,
+  ): Promise<ProcessedIssuesResponseDto> {
+    const { userId, jql } = monitor;
+    this.logger.log(
+      `Executando monitor "${monitor.name}" (${monitor.id}) para userId="${userId}".`,
+    );
+    const result = await this.fetchAndProcessIssues(
+      userId,
+      jql,
+      monitor.statusFilter ?? undefined,
+      monitor.cloudId ?? undefined,
+    );
+
+    // Compara com o último estado conhecido antes de gravar o novo snapshot
+    const previousRun = await this.issueSnapshotRepo.findLatestRun(monitor.id);
+    const previousIssues = previousRun
+      ? previousRun.issues.map((snapshot) => ({
+          key: snapshot.issueKey,
+          summary: snapshot.summary,
+          status: snapshot.status,
+          assignee: snapshot.assignee,
+          priority: snapshot.priority,
+          timeOpenDays: snapshot.timeOpenDays,
+          url: snapshot.url,
+        }))
+      : null;
+    // Resultado truncado ou JQL alterado: entradas e saídas seriam falsas
+    const compareMembership =
+      !!previousRun &&
+      !previousRun.truncated &&
+      !result.truncated &&
+      previousRun.jql === jql;
+    if (previousRun && !compareMembership) {
       this.logger.warn(
-        `Nenhuma credencial encontrada para userId="${userId}". Abortando check.`,
+        `Monitor "${monitor.name}": ${previousRun.jql !== jql ? 'JQL alterado desde o poll anterior' : 'resultado truncado em JIRA_SEARCH_MAX_ISSUES'}; entradas e saídas da fila não serão notificadas neste poll.`,
       );
-      return;
     }
+    const events = this.detectIssueChangesUseCase.execute(
+      previousIssues,
+      result.issues,
+      { monitorId: monitor.id, userId, jql },
+      compareMembership,
+    );
 
-    const now = Date.now();
-    const expiresAtTime = cred.expiresAt.getTime();
-    const msLeft = expiresAtTime - now;
-    this.logger.debug(`Token expira em ${msLeft} ms para userId="${userId}".`);
+    await this.issueSnapshotRepo.saveSnapshot({
+      monitorId: monitor.id,
+      userId,
+      jql,
+      total: result.total,
+      statusCounts: result.statusCounts,
+      truncated: result.truncated,
+      issues: result.issues,
+    });
+    await this.pruneSnapshots(monitor);
 
-    if (msLeft < this.REFRESH_BUFFER_MS) {
-      this.logger.log(
-        `Token próximo da expiração (faltam ${msLeft} ms). Renovando...`,
-      );
-      try {
-        await this.authService.refreshAccessToken(userId);
-        this.logger.log(
-          `Token do Jira renovado automaticamente para userId="${userId}".`,
-        );
-      } catch (error) {
-        this.logger.error(
-          `Falha ao renovar token automaticamente para userId="${userId}": ${error.message}`,
-        );
-      }
-    } else {
-      this.logger.log(
-        `Token ainda válido (faltam ${msLeft} ms). Não é necessário renovar.`,
-      );
+    // Publica os eventos só depois do snapshot gravado, para que assinantes
+    // que consultem o histórico já enxerguem o poll atual
+    for (const event of events) {
+      this.eventEmitter.emit(event.name, event);
     }
+    this.logger.log(
+      `Monitor "${monitor.name}" concluído: ${result.total} issues, ${events.length} evento(s).`,
+    );
+    return result;
   }
 
   /**
-   * Passo 8.1.1: Método agendado para rodar automaticamente a cada 10 minutos.
-   *    - Busca/renova token se necessário (chamando checkAndRefreshToken).
-   *    - Chama a API Jira.
-   *    - Encaminha o JSON para o ProcessIssuesUseCase.
+   * Apaga os polls além de JIRA_SNAPSHOT_RETENTION; uma falha só é
+   * registrada, pois o poll atual já foi gravado.
    */
-  @Cron(CronExpression.EVERY_MINUTE)
-  async handleInterval() {
-    const userId = 'default';
-    this.logger.log(
-      `Início do job agendado de busca de issues para userId="${userId}".`,
+  private async pruneSnapshots(
+    monitor: MonitorDefinitionEntity,
+  ): Promise<void> {
+    const keep = readPositiveInt(
+      this.configService,
+      'JIRA_SNAPSHOT_RETENTION',
+      this.DEFAULT_SNAPSHOT_RETENTION,
     );
     try {
-      // Antes de buscar issues, garante que o token está válido
-      await this.checkAndRefreshToken();
-      await this.fetchAndProcessIssues(userId);
-      this.logger.log(
-        `Job agendado de busca de issues concluído para userId="${userId}".`,
-      );
-    } catch (err) {
-      this.logger.error(
-        `Erro no agendamento de JiraQueueMonitor para userId="${userId}": ${err.message}`,
-      );
-      throw new InternalServerErrorException(
-        `Erro no agendamento de JiraQueueMonitor: ${err.message}`,
+      await this.issueSnapshotRepo.pruneRuns(monitor.id, keep);
+    } catch (error) {
+      this.logger.warn(
+        `Falha ao remover polls antigos do monitor "${monitor.name}": ${errorMessage(error)}`,
       );
     }
   }
 
+  /**
+   * Consulta o Jira com a definição de um monitor (JQL, credencial e filtro),
+   * sem gravar snapshot nem publicar eventos.
+   */
+  async fetchMonitorIssues(
+    monitorId: string,
+  ): Promise<ProcessedIssuesResponseDto> {
+    const monitor = await this.monitorRepo.findById(monitorId);
+    if (!monitor) {
+      throw new NotFoundException(`Monitor "${monitorId}" não encontrado.`);
+    }
+    return this.fetchAndProcessIssues(
+      monitor.userId,
+      monitor.jql,
+      monitor.statusFilter ?? undefined,
+      monitor.cloudId ?? undefined,
+    );
+  }
+
   /**
    * Função pública que pode ser chamada diretamente (por exemplo, via controller)
    * para forçar a consulta ao Jira e processamento imediato.
    *
-   * @param userId Identificador das credenciais (ex.: "default")
-   * @param jql   Consulta JQL completa; se omitido, usa DEFAULT_JQL
+   * @param userId       Identificador das credenciais (accountId Atlassian)
+   * @param jql          Consulta JQL completa (obrigatória)
+   * @param statusFilter Status a excluir; se omitido, usa o filtro padrão (JIRA_EXCLUDE_*)
+   * @param cloudId      Site ativo da credencial a consultar; se omitido, o site padrão
    */
-  async fetchAndProcessIssues(userId: string, jql?: string): Promise<any> {
+  async fetchAndProcessIssues(
+    userId: string,
+    jql: string,
+    statusFilter?: StatusFilter,
+    cloudId?: string,
+  ): Promise<ProcessedIssuesResponseDto> {
     this.logger.log(`Iniciando fetchAndProcessIssues para userId="${userId}".`);
+    if (!jql?.trim()) {
+      throw new BadRequestException(
+        'Informe o JQL da consulta ou use um monitor cadastrado.',
+      );
+    }
+    const jqlToUse = jql.trim();
+
+    // 1-4) Busca as issues no Jira (ou nas fixtures, em JIRA_DATA_SOURCE=fixtures)
+    const { rawJson, truncated, siteUrl } = this.fixtureStore.isOffline()
+      ? { ...(await this.loadFixturePage(jqlToUse)), siteUrl: null }
+      : await this.searchJira(userId, jqlToUse, cloudId);
+
+    // 5) Enviar o JSON agregado para o UseCase que irá tratá-lo
+    this.logger.log(
+      `Enviando dados para ProcessIssuesUseCase para userId="${userId}".`,
+    );
+    const result = await this.processIssuesUseCase.execute(
+      rawJson,
+      statusFilter ?? this.getDefaultStatusFilter(),
+      siteUrl,
+    );
+    this.logger.log(
+      `ProcessIssuesUseCase concluído para userId="${userId}". Total issues: ${result.total}`,
+    );
+
+    // 6) Classificar as issues segundo as regras de SLA ativas
+    const slaRules = await this.slaRuleRepo.findEnabled();
+    const { issues, slaCounts } = this.evaluateSlaUseCase.execute(
+      result.issues,
+      slaRules,
+    );
+    return { ...result, issues, slaCounts, truncated };
+  }
+
+  /**
+   * Busca no Jira com a credencial do userId, percorrendo todas as páginas.
+   * Em JIRA_DATA_SOURCE=record, grava a resposta como fixture.
+   *
+   * @returns A página agregada e a URL do site (para os links das issues).
+   */
+  private async searchJira(
+    userId: string,
+    jql: string,
+    cloudId?: string,
+  ): Promise<{
+    rawJson: JiraSearchPage;
+    truncated: boolean;
+    siteUrl: string | null;
+  }> {
     // 1) Recuperar credencial do banco para este userId
     const cred = await this.jiraCredRepo.findByUserId(userId);
     if (!cred) {
@@ -134,72 +293,144 @@ export class JiraQueueMonitorService {
       `Credencial encontrada para userId="${userId}", cloudId="${cred.cloudId}".`,
     );
 
-    // 2) Verificar e renovar token se necessário
-    const now = Date.now();
-    const expiresAtTime = cred.expiresAt.getTime();
-    const msLeft = expiresAtTime - now;
-    this.logger.debug(`Token expira em ${msLeft} ms para userId="${userId}".`);
-    if (msLeft < this.REFRESH_BUFFER_MS) {
-      this.logger.log(
-        `Token próximo da expiração (faltam ${msLeft} ms). Renovando antes da busca...`,
-      );
+    // 2) Resolve base URL e headers conforme o tipo de credencial (OAuth
+    //    renova o token se preciso e valida o site)
+    const request = await this.authStrategies.resolve(cred, cloudId);
+
+    // 3) Registra o JQL e o destino que serão usados
+    this.logger.log(
+      `Usando JQL="${jql}" em ${request.baseUrl} para userId="${userId}".`,
+    );
+
+    // 4) Busca todas as páginas do resultado (até o limite configurado)
+    const page = await this.fetchAllPages(request, jql, userId);
+    if (this.fixtureStore.getMode() === 'record') {
       try {
-        const { newAccessToken, newRefreshToken, newExpiresIn } =
-          await this.authService.refreshAccessToken(userId);
-
-        cred.accessToken = newAccessToken;
-        cred.refreshToken = newRefreshToken;
-        cred.expiresAt = new Date(now + newExpiresIn * 1000);
-        this.logger.log(
-          `Token renovado no fetchAndProcessIssues para userId="${userId}".`,
-        );
+        await this.fixtureStore.saveSearch(jql, page.rawJson);
       } catch (error) {
-        this.logger.error(
-          `Falha ao renovar token no fetchAndProcessIssues para userId="${userId}": ${error.message}`,
+        this.logger.warn(
+          `Falha ao gravar fixture do JQL="${jql}": ${error.message}`,
         );
       }
     }
+    return { ...page, siteUrl: request.siteUrl };
+  }
 
-    // 3) Decide qual JQL usar: recebido ou padrão
-    const jqlToUse = jql || this.DEFAULT_JQL;
-    this.logger.log(`Usando JQL="${jqlToUse}" para userId="${userId}".`);
-    const encodedJql = encodeURIComponent(jqlToUse);
+  /**
+   * Lê a resposta gravada para o JQL (JIRA_DATA_SOURCE=fixtures), respeitando
+   * o limite de JIRA_SEARCH_MAX_ISSUES como na busca real.
+   */
+  private async loadFixturePage(
+    jql: string,
+  ): Promise<{ rawJson: JiraSearchPage; truncated: boolean }> {
+    const page: JiraSearchPage = await this.fixtureStore.loadSearch(jql);
+    const maxIssues = readPositiveInt(
+      this.configService,
+      'JIRA_SEARCH_MAX_ISSUES',
+      this.DEFAULT_MAX_ISSUES,
+    );
+    const issues = (Array.isArray(page.issues) ? page.issues : []).slice(
+      0,
+      maxIssues,
+    );
+    const total = typeof page.total === 'number' ? page.total : issues.length;
+    return {
+      rawJson: { startAt: 0, maxResults: issues.length, total, issues },
+      truncated: total > issues.length,
+    };
+  }
 
-    // 4) Monta a URL final de consulta ao Jira
-    const apiUrl = `https://api.atlassian.com/ex/jira/${cred.cloudId}/rest/api/3/search?jql=${encodedJql}`;
-    this.logger.log(`Realizando GET em ${apiUrl}.`);
+  /**
+   * Percorre as páginas de /rest/api/{versão}/search (v3 no Cloud, v2 no Data
+   * Center) usando startAt/maxResults,
+   * acumulando as issues até esgotar o resultado ou atingir JIRA_SEARCH_MAX_ISSUES.
+   *
+   * @returns JSON no mesmo formato de uma página do Jira (com todas as issues
+   *          acumuladas) e a flag `truncated`, indicando se o limite foi atingido
+   *          antes de todas as issues serem lidas.
+   */
+  private async fetchAllPages(
+    request: JiraRequestContext,
+    jql: string,
+    userId: string,
+  ): Promise<{ rawJson: JiraSearchPage; truncated: boolean }> {
+    const pageSize = readPositiveInt(
+      this.configService,
+      'JIRA_SEARCH_PAGE_SIZE',
+      this.DEFAULT_PAGE_SIZE,
+    );
+    const maxIssues = readPositiveInt(
+      this.configService,
+      'JIRA_SEARCH_MAX_ISSUES',
+      this.DEFAULT_MAX_ISSUES,
+    );
+    const encodedJql = encodeURIComponent(jql);
 
-    // 5) Executar a requisição GET para a API Jira
-    let response;
-    try {
-      response = await firstValueFrom(
-        this.httpService.get(apiUrl, {
-          headers: {
-            Authorization: `Bearer ${cred.accessToken}`,
-            Accept: 'application/json',
-          },
-        }),
-      );
-      this.logger.log(
-        `Resposta recebida do Jira para userId="${userId}". Status: ${response.status}`,
-      );
-    } catch (error) {
-      this.logger.error(
-        `Falha ao consultar Jira em ${apiUrl} para userId="${userId}": ${error.message}`,
+    const issues: any[] = [];
+    let startAt = 0;
+    let total = 0;
+
+    while (issues.length < maxIssues) {
+      const maxResults = Math.min(pageSize, maxIssues - issues.length);
+      // expand=changelog: a última transição de status (timeInStatusDays)
+      const apiUrl = `${request.baseUrl}/rest/api/${request.apiVersion}/search?jql=${encodedJql}&startAt=${startAt}&maxResults=${maxResults}&expand=changelog`;
+      this.logger.log(`Realizando GET em ${apiUrl}.`);
+
+      // Timeout, novas tentativas e 429 ficam a cargo do JiraHttpClient; as
+      // falhas chegam como erros tipados (JQL inválido, token expirado...)
+      let page: JiraSearchPage;
+      try {
+        page =
+          (await this.jiraHttp.get<JiraSearchPage>(apiUrl, {
+            headers: request.headers,
+          })) || {};
+        this.logger.log(`Resposta recebida do Jira para userId="${userId}".`);
+      } catch (error) {
+        this.logger.error(
+          `Falha ao consultar Jira em ${apiUrl} para userId="${userId}": ${error.message}`,
+        );
+        throw error;
+      }
+
+      const pageIssues = Array.isArray(page.issues) ? page.issues : [];
+      total = typeof page.total === 'number' ? page.total : pageIssues.length;
+      issues.push(...pageIssues);
+      startAt += pageIssues.length;
+      this.logger.debug(
+        `Página recebida: ${pageIssues.length} issues (acumulado ${issues.length} de ${total}).`,
       );
-      throw new InternalServerErrorException(
-        `Falha ao consultar Jira (${apiUrl}): ${error.message}`,
+
+      // Página vazia ou fim do resultado: não há mais o que buscar
+      if (pageIssues.length === 0 || startAt >= total) {
+        break;
+      }
+    }
+
+    const truncated = total > issues.length;
+    if (truncated) {
+      this.logger.warn(
+        `Resultado truncado em ${issues.length} de ${total} issues para userId="${userId}" (JIRA_SEARCH_MAX_ISSUES=${maxIssues}).`,
       );
     }
 
-    // 6) Enviar o JSON bruto retornado para o UseCase que irá tratá-lo
-    this.logger.log(
-      `Enviando dados para ProcessIssuesUseCase para userId="${userId}".`,
-    );
-    const result = await this.processIssuesUseCase.execute(response.data);
-    this.logger.log(
-      `ProcessIssuesUseCase concluído para userId="${userId}". Total issues: ${result.total}`,
+    return {
+      rawJson: { startAt: 0, maxResults: issues.length, total, issues },
+      truncated,
+    };
+  }
+
+  /**
+   * Filtro de status do monitor padrão, lido de JIRA_EXCLUDE_STATUSES,
+   * JIRA_EXCLUDE_STATUS_IDS e JIRA_EXCLUDE_STATUS_CATEGORIES (listas separadas
+   * por vírgula). Se nenhuma estiver definida, usa DEFAULT_STATUS_FILTER.
+   */
+  getDefaultStatusFilter(): StatusFilter {
+    return (
+      statusFilterFromCsv(
+        this.configService.get<string>('JIRA_EXCLUDE_STATUSES'),
+        this.configService.get<string>('JIRA_EXCLUDE_STATUS_IDS'),
+        this.configService.get<string>('JIRA_EXCLUDE_STATUS_CATEGORIES'),
+      ) ?? DEFAULT_STATUS_FILTER
     );
-    return result;
   }
 }
@@ -0,0 +1,107 @@
+// src/application/services/queue-monitor/monitor-definition.service.spec.ts
+
+import { BadRequestException, Logger } from '@nestjs/common';
+
+import { JiraCredentialEntity } from '@domain/entities/jira-credential.entity';
+import { MonitorDefinitionEntity } from '@domain/entities/monitor-definition.entity';
+import { JiraFixtureStore } from '@infra/fixtures/jira-fixture.store';
+import { JiraCredentialRepository } from '@infra/repositories/jira/jira-credential.repository';
+import { JiraSiteRepository } from '@infra/repositories/jira/jira-site.repository';
+import { MonitorDefinitionRepository } from '@infra/repositories/jira/monitor-definition.repository';
+import { MonitorDefinitionService } from './monitor-definition.service';
+import { MonitorSchedulerService } from './monitor-scheduler.service';
+
+const paused = Object.assign(new MonitorDefinitionEntity(), {
+  id: 'monitor-1',
+  name: 'Fila',
+  jql: 'project = SUP',
+  userId: 'user-1',
+  cloudId: null,
+  schedule: null,
+  intervalSeconds: 60,
+  statusFilter: null,
+  enabled: false,
+});
+
+describe('MonitorDefinitionService', () => {
+  let credential: JiraCredentialEntity | null;
+  let update: jest.Mock<
+    Promise<MonitorDefinitionEntity | null>,
+    [string, Partial<MonitorDefinitionEntity>]
+  >;
+  let sync: jest.Mock<void, [MonitorDefinitionEntity]>;
+  let service: MonitorDefinitionService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    credential = new JiraCredentialEntity();
+    update = jest.fn<
+      Promise<MonitorDefinitionEntity | null>,
+      [string, Partial<MonitorDefinitionEntity>]
+    >((id, changes) => Promise.resolve({ ...paused, ...changes }));
+    sync = jest.fn<void, [MonitorDefinitionEntity]>();
+    service = new MonitorDefinitionService(
+      {
+        findById: () => Promise.resolve(paused),
+        findByName: () => Promise.resolve(null),
+        update,
+      } as unknown as MonitorDefinitionRepository,
+      {
+        findByUserId: () => Promise.resolve(credential),
+      } as unknown as JiraCredentialRepository,
+      {} as JiraSiteRepository,
+      { sync } as unknown as MonitorSchedulerService,
+      { isOffline: () => false } as unknown as JiraFixtureStore,
+    );
+  });
+
+  describe('intervalSeconds', () => {
+    it.each([9, 2_147_484, 1.5])('rejeita %p', async (intervalSeconds) => {
+      await expect(
+        service.updateMonitor('monitor-1', { intervalSeconds }),
+      ).rejects.toThrow(BadRequestException);
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    it('aceita até o limite do setInterval', async () => {
+      await expect(
+        service.updateMonitor('monitor-1', { intervalSeconds: 2_147_483 }),
+      ).resolves.toMatchObject({ intervalSeconds: 2_147_483 });
+    });
+  });
+
+  describe('retomada', () => {
+    it('exige credencial do dono para retomar', async () => {
+      credential = null;
+
+      await expect(service.setEnabled('monitor-1', true)).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(
+        service.updateMonitor('monitor-1', { enabled: true }),
+      ).rejects.toThrow(BadRequestException);
+      expect(update).not.toHaveBeenCalled();
+      expect(sync).not.toHaveBeenCalled();
+    });
+
+    it('pausa sem conferir a credencial', async () => {
+      credential = null;
+
+      await expect(
+        service.setEnabled('monitor-1', false),
+      ).resolves.toMatchObject({ enabled: false });
+    });
+
+    it('retoma e reagenda com credencial', async () => {
+      await expect(
+        service.setEnabled('monitor-1', true),
+      ).resolves.toMatchObject({ enabled: true });
+      expect(sync).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'monitor-1', enabled: true }),
+      );
+    });
+  });
+});
@@ -0,0 +1,346 @@
+// src/application/services/queue-monitor/monitor-definition.service.ts
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { validateCronExpression } from 'cron';
+
+import { MonitorDefinitionEntity } from '@domain/entities/monitor-definition.entity';
+import { StatusFilter } from '@domain/filters/status-filter';
+import { AuthPrincipal, canActAs } from '@domain/auth/auth-principal';
+import { MonitorDefinitionRepository } from '@infra/repositories/jira/monitor-definition.repository';
+import { JiraCredentialRepository } from '@infra/repositories/jira/jira-credential.repository';
+import { JiraSiteRepository } from '@infra/repositories/jira/jira-site.repository';
+import { JiraFixtureStore } from '@infra/fixtures/jira-fixture.store';
+import { CreateMonitorDefinitionDto } from '@dtos/jira/create-monitor-definition.dto';
+import { UpdateMonitorDefinitionDto } from '@dtos/jira/update-monitor-definition.dto';
+import { MonitorDefinitionDto } from '@dtos/jira/monitor-definition.dto';
+import { StatusFilterDto } from '@dtos/jira/status-filter.dto';
+import { MonitorSchedulerService } from './monitor-scheduler.service';
+
+/**
+ * Serviço responsável pelo CRUD dos monitores (filas observadas).
+ * A cada alteração o job do monitor é recriado ou removido no
+ * MonitorSchedulerService; a execução em si fica no JiraQueueMonitorService.
+ */
+@Injectable()
+export class MonitorDefinitionService {
+  private readonly logger = new Logger(MonitorDefinitionService.name);
+
+  private readonly MIN_INTERVAL_SECONDS = 10;
+  // setInterval aceita no máximo 2^31-1 ms; acima disso o Node usa 1 ms
+  private readonly MAX_INTERVAL_SECONDS = Math.floor((2 ** 31 - 1) / 1000);
+
+  constructor(
+    private readonly monitorRepo: MonitorDefinitionRepository,
+    private readonly jiraCredRepo: JiraCredentialRepository,
+    private readonly jiraSiteRepo: JiraSiteRepository,
+    private readonly scheduler: MonitorSchedulerService,
+    private readonly fixtureStore: JiraFixtureStore,
+  ) {}
+
+  async createMonitor(
+    dto: CreateMonitorDefinitionDto,
+  ): Promise<MonitorDefinitionDto> {
+    if (!dto.name) {
+      throw new BadRequestException('O campo "name" é obrigatório.');
+    }
+    if (!dto.jql?.trim()) {
+      throw new BadRequestException('O campo "jql" é obrigatório.');
+    }
+    await this.assertUniqueName(dto.name);
+    await this.assertCredential(dto.userId);
+    const cloudId = await this.normalizeCloudId(dto.userId, dto.cloudId);
+    const schedule = this.normalizeSchedule(dto.schedule);
+    const intervalSeconds = this.normalizeInterval(dto.intervalSeconds);
+    this.assertSingleSchedule(schedule, intervalSeconds);
+
+    const monitor = await this.monitorRepo.create({
+      name: dto.name,
+      jql: dto.jql.trim(),
+      userId: dto.userId,
+      cloudId,
+      schedule,
+      intervalSeconds,
+      statusFilter: this.normalizeStatusFilter(dto.statusFilter),
+      enabled: dto.enabled ?? true,
+    });
+    this.scheduler.sync(monitor);
+    this.logger.log(`Monitor ${monitor.id} criado: "${monitor.name}".`);
+    return this.toDto(monitor);
+  }
+
+  /**
+   * @param userId Se informado, lista apenas os monitores deste usuário.
+   */
+  async listMonitors(userId?: string): Promise<MonitorDefinitionDto[]> {
+    const monitors = await this.monitorRepo.findAll();
+    return monitors
+      .filter((monitor) => !userId || monitor.userId === userId)
+      .map((monitor) => this.toDto(monitor));
+  }
+
+  /**
+   * @param principal Se informado, monitores de outros usuários que o
+   *                  chamador não pode acessar também resultam em 404.
+   */
+  async getMonitor(
+    id: string,
+    principal?: AuthPrincipal,
+  ): Promise<MonitorDefinitionDto> {
+    const monitor = await this.monitorRepo.findById(id);
+    if (!monitor || (principal && !canActAs(principal, monitor.userId))) {
+      throw new NotFoundException(`Monitor "${id}" não encontrado.`);
+    }
+    return this.toDto(monitor);
+  }
+
+  async updateMonitor(
+    id: string,
+    dto: UpdateMonitorDefinitionDto,
+  ): Promise<MonitorDefinitionDto> {
+    const changes: Partial<MonitorDefinitionEntity> = {};
+    if (dto.name !== undefined) {
+      await this.assertUniqueName(dto.name, id);
+      changes.name = dto.name;
+    }
+    if (dto.jql !== undefined) {
+      if (!dto.jql.trim()) {
+        throw new BadRequestException('O campo "jql" não pode ser vazio.');
+      }
+      changes.jql = dto.jql.trim();
+    }
+    if (dto.userId !== undefined) {
+      await this.assertCredential(dto.userId);
+      changes.userId = dto.userId;
+    }
+    if (dto.schedule !== undefined) {
+      changes.schedule = this.normalizeSchedule(dto.schedule);
+    }
+    if (dto.intervalSeconds !== undefined) {
+      changes.intervalSeconds = this.normalizeInterval(dto.intervalSeconds);
+    }
+    if (dto.statusFilter !== undefined) {
+      changes.statusFilter = this.normalizeStatusFilter(dto.statusFilter);
+    }
+    if (dto.enabled !== undefined) {
+      changes.enabled = dto.enabled;
+    }
+
+    const existing = await this.monitorRepo.findById(id);
+    if (!existing) {
+      throw new NotFoundException(`Monitor "${id}" não encontrado.`);
+    }
+    if (dto.enabled && !existing.enabled && dto.userId === undefined) {
+      await this.assertCredential(existing.userId);
+    }
+    // O site é revalidado quando ele ou a credencial mudam
+    if (dto.cloudId !== undefined || dto.userId !== undefined) {
+      changes.cloudId = await this.normalizeCloudId(
+        changes.userId ?? existing.userId,
+        dto.cloudId !== undefined ? dto.cloudId : existing.cloudId,
+      );
+    }
+    this.assertSingleSchedule(
+      changes.schedule !== undefined ? changes.schedule : existing.schedule,
+      changes.intervalSeconds !== undefined
+        ? changes.intervalSeconds
+        : existing.intervalSeconds,
+    );
+
+    const updated = await this.monitorRepo.update(id, changes);
+    if (!updated) {
+      throw new NotFoundException(`Monitor "${id}" não encontrado.`);
+    }
+    this.scheduler.sync(updated);
+    return this.toDto(updated);
+  }
+
+  /**
+   * Pausa (enabled=false) ou retoma (enabled=true) o monitor. Ao retomar, a
+   * credencial do dono é revalidada como na criação (pode ter sido removida
+   * no logout, por exemplo).
+   */
+  async setEnabled(
+    id: string,
+    enabled: boolean,
+  ): Promise<MonitorDefinitionDto> {
+    if (enabled) {
+      const existing = await this.monitorRepo.findById(id);
+      if (!existing) {
+        throw new NotFoundException(`Monitor "${id}" não encontrado.`);
+      }
+      await this.assertCredential(existing.userId);
+    }
+    const updated = await this.monitorRepo.update(id, { enabled });
+    if (!updated) {
+      throw new NotFoundException(`Monitor "${id}" não encontrado.`);
+    }
+    this.scheduler.sync(updated);
+    this.logger.log(
+      `Monitor ${id} ${enabled ? 'retomado' : 'pausado'}: "${updated.name}".`,
+    );
+    return this.toDto(updated);
+  }
+
+  /**
+   * Pausa todos os monitores ativos de um usuário (ex.: no logout), removendo
+   * seus jobs do agendador. As definições são mantidas para um novo login.
+   *
+   * @returns Os monitores pausados.
+   */
+  async disableByUser(userId: string): Promise<MonitorDefinitionDto[]> {
+    const monitors = await this.monitorRepo.findEnabledByUser(userId);
+    const disabled: MonitorDefinitionDto[] = [];
+    for (const monitor of monitors) {
+      const updated = await this.monitorRepo.update(monitor.id, {
+        enabled: false,
+      });
+      if (!updated) continue;
+      this.scheduler.unregister(updated.id);
+      disabled.push(this.toDto(updated));
+    }
+    this.logger.log(
+      `${disabled.length} monitor(es) pausado(s) para userId="${userId}".`,
+    );
+    return disabled;
+  }
+
+  async deleteMonitor(id: string): Promise<void> {
+    const removed = await this.monitorRepo.delete(id);
+    if (!removed) {
+      throw new NotFoundException(`Monitor "${id}" não encontrado.`);
+    }
+    this.scheduler.unregister(id);
+    this.logger.log(`Monitor ${id} removido.`);
+  }
+
+  private async assertUniqueName(name: string, ownId?: string): Promise<void> {
+    const existing = await this.monitorRepo.findByName(name);
+    if (existing && existing.id !== ownId) {
+      throw new ConflictException(`Já existe um monitor chamado "${name}".`);
+    }
+  }
+
+  private async assertCredential(userId: string | undefined): Promise<void> {
+    if (!userId) {
+      throw new BadRequestException('O campo "userId" é obrigatório.');
+    }
+    // Com fixtures o monitor não chama o Jira, então não precisa de credencial
+    if (this.fixtureStore.isOffline()) {
+      return;
+    }
+    const cred = await this.jiraCredRepo.findByUserId(userId);
+    if (!cred) {
+      throw new BadRequestException(
+        `Credenciais do Jira não encontradas para userId="${userId}".`,
+      );
+    }
+  }
+
+  /**
+   * Site vazio vira null (= site padrão); o cloudId informado precisa ser um
+   * site ativo da credencial, que por sua vez precisa ser OAuth.
+   */
+  private async normalizeCloudId(
+    userId: string,
+    cloudId?: string | null,
+  ): Promise<string | null> {
+    const trimmed = cloudId?.trim();
+    if (!trimmed) {
+      return null;
+    }
+    const cred = await this.jiraCredRepo.findByUserId(userId);
+    if (cred && cred.authType !== 'oauth') {
+      throw new BadRequestException(
+        `A credencial de userId="${userId}" (${cred.authType}) não usa sites OAuth; não informe cloudId.`,
+      );
+    }
+    const site = cred
+      ? await this.jiraSiteRepo.findByCloudId(cred.id, trimmed)
+      : null;
+    if (!site?.active) {
+      throw new BadRequestException(
+        `O site "${trimmed}" não está ativo para userId="${userId}".`,
+      );
+    }
+    return trimmed;
+  }
+
+  private assertSingleSchedule(
+    schedule: string | null,
+    intervalSeconds: number | null,
+  ): void {
+    if (schedule && intervalSeconds) {
+      throw new BadRequestException(
+        'Informe "schedule" ou "intervalSeconds", não os dois.',
+      );
+    }
+  }
+
+  private normalizeInterval(intervalSeconds?: number | null): number | null {
+    if (intervalSeconds === undefined || intervalSeconds === null) {
+      return null;
+    }
+    if (
+      !Number.isInteger(intervalSeconds) ||
+      intervalSeconds < this.MIN_INTERVAL_SECONDS ||
+      intervalSeconds > this.MAX_INTERVAL_SECONDS
+    ) {
+      throw new BadRequestException(
+        `O campo "intervalSeconds" deve ser um inteiro entre ${this.MIN_INTERVAL_SECONDS} e ${this.MAX_INTERVAL_SECONDS}.`,
+      );
+    }
+    return intervalSeconds;
+  }
+
+  /**
+   * Agenda vazia vira null (= a cada minuto); expressões inválidas geram 400.
+   */
+  private normalizeSchedule(schedule?: string | null): string | null {
+    const trimmed = schedule?.trim();
+    if (!trimmed) {
+      return null;
+    }
+    const { valid, error } = validateCronExpression(trimmed);
+    if (!valid) {
+      throw new BadRequestException(
+        `Expressão cron inválida "${trimmed}": ${error?.message}`,
+      );
+    }
+    return trimmed;
+  }
+
+  private normalizeStatusFilter(
+    filter?: StatusFilterDto | null,
+  ): StatusFilter | null {
+    if (!filter) {
+      return null;
+    }
+    return {
+      names: filter.names ?? [],
+      ids: filter.ids ?? [],
+      categories: filter.categories ?? [],
+    };
+  }
+
+  private toDto(monitor: MonitorDefinitionEntity): MonitorDefinitionDto {
+    return {
+      id: monitor.id,
+      name: monitor.name,
+      jql: monitor.jql,
+      userId: monitor.userId,
+      cloudId: monitor.cloudId,
+      schedule: monitor.schedule,
+      intervalSeconds: monitor.intervalSeconds,
+      statusFilter: monitor.statusFilter,
+      enabled: monitor.enabled,
+      createdAt: monitor.createdAt,
+      updatedAt: monitor.updatedAt,
+    };
+  }
+}
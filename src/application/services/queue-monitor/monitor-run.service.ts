@@ -0,0 +1,161 @@
+// src/application/services/queue-monitor/monitor-run.service.ts
+
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+
+import {
+  MonitorRunEntity,
+  MonitorRunOutcome,
+  MonitorRunTrigger,
+} from '@domain/entities/monitor-run.entity';
+import { AuthPrincipal, canActAs } from '@domain/auth/auth-principal';
+import {
+  MonitorRunFilters,
+  MonitorRunRepository,
+} from '@infra/repositories/jira/monitor-run.repository';
+import { errorMessage } from '@infra/errors/error-message';
+import { MonitorRunDto, MonitorRunPageDto } from '@dtos/jira/monitor-run.dto';
+
+const OUTCOMES: MonitorRunOutcome[] = ['success', 'failure'];
+const TRIGGERS: MonitorRunTrigger[] = ['schedule', 'manual'];
+
+/**
+ * Query string de GET /jira/monitor/runs, ainda não validada.
+ */
+export interface MonitorRunQuery {
+  monitorId?: string;
+  userId?: string;
+  outcome?: string;
+  trigger?: string;
+  from?: string;
+  to?: string;
+  page?: string;
+  limit?: string;
+}
+
+/**
+ * Serviço do log de auditoria das execuções de monitores:
+ *  1) Grava cada execução (chamado pelo MonitorSchedulerService); uma falha
+ *     ao gravar é apenas registrada em log, sem afetar o poll.
+ *  2) Lista as execuções com filtros e paginação.
+ */
+@Injectable()
+export class MonitorRunService {
+  private readonly logger = new Logger(MonitorRunService.name);
+
+  private readonly DEFAULT_PAGE_SIZE = 50;
+  private readonly MAX_PAGE_SIZE = 200;
+
+  constructor(private readonly monitorRunRepo: MonitorRunRepository) {}
+
+  async record(run: Omit<MonitorRunEntity, 'id'>): Promise<void> {
+    try {
+      await this.monitorRunRepo.create(run);
+    } catch (error) {
+      this.logger.error(
+        `Falha ao gravar a execução do monitor "${run.monitorName}" (${run.monitorId}): ${errorMessage(error)}`,
+      );
+    }
+  }
+
+  /**
+   * @param principal Chamadores ligados a um usuário só veem as próprias
+   *                  execuções.
+   */
+  async listRuns(
+    query: MonitorRunQuery,
+    principal: AuthPrincipal,
+  ): Promise<MonitorRunPageDto> {
+    if (query.userId && !canActAs(principal, query.userId)) {
+      throw new ForbiddenException(
+        `Sem permissão para ver as execuções de userId="${query.userId}".`,
+      );
+    }
+    const filters: MonitorRunFilters = {
+      monitorId: query.monitorId || undefined,
+      userId: principal.userId ?? (query.userId || undefined),
+      outcome: this.parseEnum('outcome', query.outcome, OUTCOMES),
+      trigger: this.parseEnum('trigger', query.trigger, TRIGGERS),
+      from: this.parseDate('from', query.from),
+      to: this.parseDate('to', query.to),
+    };
+    const page = this.parsePositiveInt('page', query.page) ?? 1;
+    const limit = Math.min(
+      this.parsePositiveInt('limit', query.limit) ?? this.DEFAULT_PAGE_SIZE,
+      this.MAX_PAGE_SIZE,
+    );
+
+    const [runs, total] = await this.monitorRunRepo.findPage(
+      filters,
+      (page - 1) * limit,
+      limit,
+    );
+    return {
+      items: runs.map((run) => this.toDto(run)),
+      page,
+      limit,
+      total,
+    };
+  }
+
+  private parseEnum<T extends string>(
+    name: string,
+    value: string | undefined,
+    allowed: T[],
+  ): T | undefined {
+    if (!value) return undefined;
+    if (!allowed.includes(value as T)) {
+      throw new BadRequestException(
+        `"${name}" inválido: use ${allowed.join(' ou ')}.`,
+      );
+    }
+    return value as T;
+  }
+
+  private parseDate(name: string, value: string | undefined): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new BadRequestException(
+        `"${name}" deve ser uma data ISO 8601 (ex.: 2025-06-01T03:00:00Z).`,
+      );
+    }
+    return date;
+  }
+
+  private parsePositiveInt(
+    name: string,
+    value: string | undefined,
+  ): number | undefined {
+    if (!value) return undefined;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      throw new BadRequestException(
+        `"${name}" deve ser um inteiro maior que zero.`,
+      );
+    }
+    return parsed;
+  }
+
+  private toDto(run: MonitorRunEntity): MonitorRunDto {
+    return {
+      id: run.id,
+      monitorId: run.monitorId,
+      monitorName: run.monitorName,
+      userId: run.userId,
+      trigger: run.trigger,
+      outcome: run.outcome,
+      error: run.error,
+      startedAt: run.startedAt,
+      finishedAt: run.finishedAt,
+      durationMs: run.durationMs,
+      jiraCalls: run.jiraCalls,
+      issueCount: run.issueCount,
+      tokenRefreshed: run.tokenRefreshed,
+    };
+  }
+}
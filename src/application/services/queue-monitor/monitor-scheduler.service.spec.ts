@@ -0,0 +1,140 @@
+// src/application/services/queue-monitor/monitor-scheduler.service.spec.ts
+
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+
+import { MonitorDefinitionEntity } from '@domain/entities/monitor-definition.entity';
+import { JiraCallTracker } from '@infra/http/jira-call-tracker';
+import { MonitorDefinitionRepository } from '@infra/repositories/jira/monitor-definition.repository';
+import { TokenRefreshSweeperService } from '@services/auth/token-refresh-sweeper.service';
+import { LeaseService } from '@services/lease/lease.service';
+import { JiraQueueMonitorService } from './jira-queue-monitor.service';
+import { MonitorRunService } from './monitor-run.service';
+import { MonitorSchedulerService } from './monitor-scheduler.service';
+
+function monitor(
+  id: string,
+  fields: Partial<MonitorDefinitionEntity> = {},
+): MonitorDefinitionEntity {
+  return Object.assign(new MonitorDefinitionEntity(), {
+    id,
+    name: `Fila ${id}`,
+    jql: 'project = SUP',
+    userId: 'user-1',
+    cloudId: null,
+    schedule: null,
+    intervalSeconds: null,
+    statusFilter: null,
+    enabled: true,
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    updatedAt: new Date('2026-10-01T00:00:00Z'),
+    ...fields,
+  });
+}
+
+describe('MonitorSchedulerService', () => {
+  let registry: SchedulerRegistry;
+  let findEnabled: jest.Mock<Promise<MonitorDefinitionEntity[]>, []>;
+  let service: MonitorSchedulerService;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    registry = new SchedulerRegistry();
+    findEnabled = jest.fn<Promise<MonitorDefinitionEntity[]>, []>(() =>
+      Promise.resolve([]),
+    );
+    service = new MonitorSchedulerService(
+      { findEnabled } as unknown as MonitorDefinitionRepository,
+      {} as JiraQueueMonitorService,
+      registry,
+      new ConfigService({}),
+      {} as MonitorRunService,
+      {} as JiraCallTracker,
+      {} as TokenRefreshSweeperService,
+      {} as LeaseService,
+    );
+  });
+
+  afterEach(() => {
+    for (const name of registry.getIntervals()) {
+      registry.deleteInterval(name);
+    }
+    for (const name of registry.getCronJobs().keys()) {
+      registry.deleteCronJob(name);
+    }
+    jest.useRealTimers();
+  });
+
+  it('agenda os monitores ativos e os jobs internos na inicialização', async () => {
+    findEnabled.mockResolvedValue([
+      monitor('a', { intervalSeconds: 30 }),
+      monitor('b', { schedule: '0 9 * * 1-5' }),
+      monitor('c'),
+    ]);
+
+    await service.onApplicationBootstrap();
+
+    expect(registry.getIntervals().sort()).toEqual([
+      'monitor-reconcile',
+      'monitor:a',
+    ]);
+    expect([...registry.getCronJobs().keys()].sort()).toEqual([
+      'jira-token-refresh',
+      'monitor:b',
+      'monitor:c',
+    ]);
+    expect(service.getExpectedIntervalMs(monitor('a'))).toBeNull();
+    expect(
+      service.getExpectedIntervalMs(monitor('a', { intervalSeconds: 30 })),
+    ).toBe(30_000);
+  });
+
+  it('troca o tipo de job ao editar e remove ao pausar', () => {
+    service.sync(monitor('a', { intervalSeconds: 30 }));
+    service.sync(monitor('a', { schedule: '*/5 * * * *' }));
+
+    expect(registry.doesExist('interval', 'monitor:a')).toBe(false);
+    expect(registry.doesExist('cron', 'monitor:a')).toBe(true);
+
+    service.sync(monitor('a', { enabled: false }));
+
+    expect(registry.doesExist('cron', 'monitor:a')).toBe(false);
+  });
+
+  it('não agenda intervalos acima do limite do setInterval', () => {
+    service.sync(monitor('a', { intervalSeconds: 2_147_484 }));
+
+    expect(registry.doesExist('interval', 'monitor:a')).toBe(false);
+  });
+
+  describe('reconcile', () => {
+    it('agenda novos, recria editados e remove pausados ou excluídos', async () => {
+      service.sync(monitor('kept', { intervalSeconds: 60 }));
+      service.sync(monitor('edited', { intervalSeconds: 60 }));
+      service.sync(monitor('removed', { intervalSeconds: 60 }));
+      const keptInterval = registry.getInterval('monitor:kept') as unknown;
+      findEnabled.mockResolvedValue([
+        monitor('kept', { intervalSeconds: 60 }),
+        monitor('edited', {
+          schedule: '0 * * * *',
+          updatedAt: new Date('2026-10-02T00:00:00Z'),
+        }),
+        monitor('new', { intervalSeconds: 120 }),
+      ]);
+
+      await service.reconcile();
+
+      expect(registry.getIntervals().sort()).toEqual([
+        'monitor:kept',
+        'monitor:new',
+      ]);
+      expect(registry.getInterval('monitor:kept')).toBe(keptInterval);
+      expect([...registry.getCronJobs().keys()]).toEqual(['monitor:edited']);
+    });
+  });
+});
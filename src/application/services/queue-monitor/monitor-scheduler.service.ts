@@ -0,0 +1,429 @@
+// src/application/services/queue-monitor/monitor-scheduler.service.ts
+
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CronExpression, SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+
+import { MonitorDefinitionEntity } from '@domain/entities/monitor-definition.entity';
+import { MonitorRunTrigger } from '@domain/entities/monitor-run.entity';
+import { readPositiveInt } from '@infra/config/read-positive-int';
+import { errorMessage } from '@infra/errors/error-message';
+import { JiraCallStats, JiraCallTracker } from '@infra/http/jira-call-tracker';
+import { MonitorDefinitionRepository } from '@infra/repositories/jira/monitor-definition.repository';
+import { TokenRefreshSweeperService } from '@services/auth/token-refresh-sweeper.service';
+import { LeaseService } from '@services/lease/lease.service';
+import { JiraQueueMonitorService } from './jira-queue-monitor.service';
+import { MonitorRunService } from './monitor-run.service';
+
+/**
+ * Resultado da última execução de um monitor, mantido em memória desde a
+ * inicialização (consultado pelo /health).
+ *
+ * @property trigger  schedule = disparo do job; manual = runNow.
+ * @property outcome  running enquanto o poll não termina.
+ * @property error    Mensagem de erro quando outcome = failure.
+ */
+export interface MonitorPollStatus {
+  monitorId: string;
+  trigger: MonitorRunTrigger;
+  startedAt: Date;
+  finishedAt: Date | null;
+  outcome: 'running' | 'success' | 'failure';
+  error: string | null;
+}
+
+/**
+ * Serviço responsável pelos jobs agendados em tempo de execução:
+ *  1) Na inicialização, registra no SchedulerRegistry um job por monitor ativo
+ *     (cron próprio ou intervalo em segundos; sem agenda, a cada minuto) e o
+ *     job de renovação de tokens (JIRA_TOKEN_REFRESH_CRON), que dispara a
+ *     varredura do TokenRefreshSweeperService.
+ *  2) Recria ou remove o job de um monitor quando ele é criado, editado,
+ *     pausado, retomado ou excluído (chamado pelo MonitorDefinitionService).
+ *     Como a alteração pode ter sido feita em outra instância, a cada
+ *     JIRA_MONITOR_RECONCILE_SECONDS os jobs locais são conferidos com o
+ *     banco: monitores novos são agendados, os pausados ou excluídos perdem o
+ *     job e os editados (updatedAt diferente) têm o job recriado.
+ *  3) Executa um monitor sob demanda.
+ *  4) Guarda o resultado da última execução de cada monitor e grava cada
+ *     execução no log de auditoria (MonitorRunService), com as chamadas ao
+ *     Jira contadas pelo JiraCallTracker.
+ *
+ * Um monitor nunca roda duas vezes em paralelo: se o disparo anterior ainda
+ * não terminou, o novo é ignorado. Com várias instâncias sobre o mesmo banco,
+ * os leases do LeaseService garantem o mesmo entre elas:
+ *  - "monitor-tick:<id>": reserva cada disparo agendado por meio intervalo,
+ *    para que só uma instância atenda o disparo (mesmo com relógios ou
+ *    intervalos defasados entre elas);
+ *  - "monitor-run:<id>": mantido durante a execução, agendada ou sob demanda.
+ */
+@Injectable()
+export class MonitorSchedulerService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(MonitorSchedulerService.name);
+
+  private readonly TOKEN_REFRESH_JOB_NAME = 'jira-token-refresh';
+  private readonly DEFAULT_TOKEN_REFRESH_CRON = '*/5 * * * *';
+  private readonly RECONCILE_JOB_NAME = 'monitor-reconcile';
+  private readonly DEFAULT_RECONCILE_SECONDS = 60;
+  // Maior atraso aceito pelo setInterval; acima disso o Node dispara a cada 1 ms
+  private readonly MAX_TIMER_MS = 2 ** 31 - 1;
+
+  /**
+   * Monitores com job registrado nesta instância, com o updatedAt da
+   * definição usada no registro (para detectar edições feitas em outra).
+   */
+  private readonly registered = new Map<string, number>();
+
+  /**
+   * Monitores com execução em andamento (agendada ou sob demanda).
+   */
+  private readonly running = new Set<string>();
+
+  /**
+   * Última execução de cada monitor, por id.
+   */
+  private readonly lastPolls = new Map<string, MonitorPollStatus>();
+
+  /**
+   * Momento da inicialização: referência para monitores que ainda não rodaram.
+   */
+  readonly startedAt = new Date();
+
+  constructor(
+    private readonly monitorRepo: MonitorDefinitionRepository,
+    private readonly jiraMonitorService: JiraQueueMonitorService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly configService: ConfigService,
+    private readonly monitorRunService: MonitorRunService,
+    private readonly callTracker: JiraCallTracker,
+    private readonly tokenRefreshSweeper: TokenRefreshSweeperService,
+    private readonly leaseService: LeaseService,
+  ) {}
+
+  async onApplicationBootstrap() {
+    this.registerTokenRefreshJob();
+
+    const monitors = await this.monitorRepo.findEnabled();
+    for (const monitor of monitors) {
+      this.register(monitor);
+    }
+    this.logger.log(`${monitors.length} monitor(es) agendado(s).`);
+    this.registerReconcileJob();
+  }
+
+  /**
+   * Confere os jobs desta instância com os monitores do banco: agenda os
+   * ativos sem job, remove os jobs de monitores pausados ou excluídos e
+   * recria os de monitores editados desde o registro.
+   */
+  async reconcile(): Promise<void> {
+    const enabled = new Map(
+      (await this.monitorRepo.findEnabled()).map((monitor) => [
+        monitor.id,
+        monitor,
+      ]),
+    );
+    for (const monitorId of [...this.registered.keys()]) {
+      if (!enabled.has(monitorId)) {
+        this.logger.log(
+          `Monitor ${monitorId} pausado ou excluído; removendo o job.`,
+        );
+        this.unregister(monitorId);
+      }
+    }
+    for (const monitor of enabled.values()) {
+      const registeredAt = this.registered.get(monitor.id);
+      if (registeredAt === monitor.updatedAt.getTime()) {
+        continue;
+      }
+      this.logger.log(
+        `Monitor "${monitor.name}" ${registeredAt === undefined ? 'novo' : 'alterado'}; atualizando o job.`,
+      );
+      this.sync(monitor);
+    }
+  }
+
+  /**
+   * Recria o job do monitor conforme sua definição atual: remove o job
+   * existente e, se o monitor estiver ativo, registra o novo.
+   */
+  sync(monitor: MonitorDefinitionEntity): void {
+    this.unregister(monitor.id);
+    if (monitor.enabled) {
+      this.register(monitor);
+    }
+  }
+
+  /**
+   * Remove o job do monitor, se existir.
+   */
+  unregister(monitorId: string): void {
+    this.registered.delete(monitorId);
+    const name = this.jobName(monitorId);
+    if (this.schedulerRegistry.doesExist('cron', name)) {
+      this.schedulerRegistry.deleteCronJob(name);
+      this.logger.log(`Job cron "${name}" removido.`);
+    }
+    if (this.schedulerRegistry.doesExist('interval', name)) {
+      this.schedulerRegistry.deleteInterval(name);
+      this.logger.log(`Job de intervalo "${name}" removido.`);
+    }
+  }
+
+  /**
+   * Executa o monitor agora, independente da agenda e de estar pausado.
+   */
+  async runNow(monitorId: string): Promise<{ message: string }> {
+    const monitor = await this.monitorRepo.findById(monitorId);
+    if (!monitor) {
+      throw new NotFoundException(`Monitor "${monitorId}" não encontrado.`);
+    }
+    if (this.running.has(monitor.id)) {
+      throw new ConflictException(
+        `Monitor "${monitor.name}" já está em execução.`,
+      );
+    }
+    if (!(await this.execute(monitor, 'manual'))) {
+      throw new ConflictException(
+        `Monitor "${monitor.name}" já está em execução em outra instância.`,
+      );
+    }
+    return { message: `Monitor "${monitor.name}" executado.` };
+  }
+
+  private register(monitor: MonitorDefinitionEntity): void {
+    const name = this.jobName(monitor.id);
+    this.registered.set(monitor.id, monitor.updatedAt.getTime());
+    const onTick = () => {
+      if (this.running.has(monitor.id)) {
+        this.logger.warn(
+          `Monitor "${monitor.name}" ainda em execução; disparo ignorado.`,
+        );
+        return;
+      }
+      this.executeScheduled(monitor).catch((error) =>
+        this.logger.error(
+          `Erro no agendamento do monitor "${monitor.name}" (${monitor.id}): ${errorMessage(error)}`,
+        ),
+      );
+    };
+
+    try {
+      if (monitor.intervalSeconds) {
+        if (monitor.intervalSeconds * 1000 > this.MAX_TIMER_MS) {
+          throw new Error(
+            `intervalo de ${monitor.intervalSeconds}s acima do máximo de ${Math.floor(this.MAX_TIMER_MS / 1000)}s`,
+          );
+        }
+        const interval = setInterval(onTick, monitor.intervalSeconds * 1000);
+        this.schedulerRegistry.addInterval(name, interval);
+        this.logger.log(
+          `Monitor "${monitor.name}" agendado a cada ${monitor.intervalSeconds}s.`,
+        );
+        return;
+      }
+
+      const cronTime = monitor.schedule || CronExpression.EVERY_MINUTE;
+      const job = CronJob.from({ cronTime, onTick });
+      this.schedulerRegistry.addCronJob(name, job);
+      job.start();
+      this.logger.log(
+        `Monitor "${monitor.name}" agendado com cron "${cronTime}".`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Falha ao agendar o monitor "${monitor.name}" (${monitor.id}): ${errorMessage(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Última execução do monitor desde a inicialização (null se ainda não rodou).
+   */
+  getLastPoll(monitorId: string): MonitorPollStatus | null {
+    return this.lastPolls.get(monitorId) ?? null;
+  }
+
+  /**
+   * Intervalo esperado entre dois disparos do job do monitor, em ms
+   * (null se o monitor não tiver job registrado).
+   */
+  getExpectedIntervalMs(monitor: MonitorDefinitionEntity): number | null {
+    const name = this.jobName(monitor.id);
+    if (this.schedulerRegistry.doesExist('interval', name)) {
+      return (monitor.intervalSeconds ?? 0) * 1000 || null;
+    }
+    if (this.schedulerRegistry.doesExist('cron', name)) {
+      const [next, following] = this.schedulerRegistry
+        .getCronJob(name)
+        .nextDates(2);
+      return following.toMillis() - next.toMillis();
+    }
+    return null;
+  }
+
+  /**
+   * Disparo agendado: reserva o disparo por meio intervalo e executa. Se
+   * outra instância já reservou (ou está executando), não faz nada.
+   */
+  private async executeScheduled(
+    monitor: MonitorDefinitionEntity,
+  ): Promise<void> {
+    const intervalMs = this.getExpectedIntervalMs(monitor);
+    if (
+      intervalMs &&
+      !(await this.leaseService.acquire(
+        `monitor-tick:${monitor.id}`,
+        Math.max(1000, Math.floor(intervalMs / 2)),
+      ))
+    ) {
+      this.logger.debug(
+        `Disparo do monitor "${monitor.name}" atendido por outra instância.`,
+      );
+      return;
+    }
+    if (!(await this.execute(monitor, 'schedule'))) {
+      this.logger.debug(
+        `Monitor "${monitor.name}" em execução em outra instância; disparo ignorado.`,
+      );
+    }
+  }
+
+  /**
+   * Executa o monitor sob o lease "monitor-run:<id>".
+   *
+   * @returns false se outra instância estava executando o monitor.
+   */
+  private async execute(
+    monitor: MonitorDefinitionEntity,
+    trigger: MonitorRunTrigger,
+  ): Promise<boolean> {
+    const outcome = await this.leaseService.runExclusive(
+      `monitor-run:${monitor.id}`,
+      () => this.runAndRecord(monitor, trigger),
+    );
+    return outcome.acquired;
+  }
+
+  /**
+   * Executa o poll do monitor, marcando-o como em andamento e registrando o
+   * resultado (em memória e no log de auditoria). A definição é relida do
+   * banco para refletir edições recentes; um disparo agendado de monitor
+   * excluído ou pausado (talvez em outra instância) não roda e remove o job.
+   */
+  private async runAndRecord(
+    monitor: MonitorDefinitionEntity,
+    trigger: MonitorRunTrigger,
+  ): Promise<void> {
+    const current = await this.monitorRepo.findById(monitor.id);
+    if (!current || (trigger === 'schedule' && !current.enabled)) {
+      this.logger.log(
+        `Monitor "${monitor.name}" (${monitor.id}) ${current ? 'pausado' : 'excluído'}; disparo ignorado e job removido.`,
+      );
+      this.unregister(monitor.id);
+      return;
+    }
+
+    this.running.add(monitor.id);
+    const poll: MonitorPollStatus = {
+      monitorId: monitor.id,
+      trigger,
+      startedAt: new Date(),
+      finishedAt: null,
+      outcome: 'running',
+      error: null,
+    };
+    this.lastPolls.set(monitor.id, poll);
+    const stats: JiraCallStats = { jiraCalls: 0, tokenRefreshed: false };
+    let issueCount: number | null = null;
+    try {
+      const result = await this.callTracker.track(stats, () =>
+        this.jiraMonitorService.runMonitor(current),
+      );
+      issueCount = result.total;
+      poll.outcome = 'success';
+    } catch (error) {
+      poll.outcome = 'failure';
+      poll.error = errorMessage(error);
+      throw error;
+    } finally {
+      poll.finishedAt = new Date();
+      this.running.delete(monitor.id);
+      await this.monitorRunService.record({
+        monitorId: monitor.id,
+        monitorName: current.name,
+        userId: current.userId,
+        trigger,
+        outcome: poll.outcome === 'success' ? 'success' : 'failure',
+        error: poll.error,
+        startedAt: poll.startedAt,
+        finishedAt: poll.finishedAt,
+        durationMs: poll.finishedAt.getTime() - poll.startedAt.getTime(),
+        jiraCalls: stats.jiraCalls,
+        issueCount,
+        tokenRefreshed: stats.tokenRefreshed,
+      });
+    }
+  }
+
+  /**
+   * Registra o job que renova os tokens do Jira prestes a expirar.
+   */
+  private registerTokenRefreshJob(): void {
+    const cronTime =
+      this.configService.get<string>('JIRA_TOKEN_REFRESH_CRON') ||
+      this.DEFAULT_TOKEN_REFRESH_CRON;
+    try {
+      const job = CronJob.from({
+        cronTime,
+        onTick: () => {
+          this.tokenRefreshSweeper
+            .sweep()
+            .catch((error) =>
+              this.logger.error(
+                `Falha na varredura agendada de tokens: ${errorMessage(error)}`,
+              ),
+            );
+        },
+      });
+      this.schedulerRegistry.addCronJob(this.TOKEN_REFRESH_JOB_NAME, job);
+      job.start();
+      this.logger.log(`Renovação de token agendada com cron "${cronTime}".`);
+    } catch (error) {
+      this.logger.error(
+        `JIRA_TOKEN_REFRESH_CRON inválido ("${cronTime}"): ${errorMessage(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Registra o job que confere os jobs locais com os monitores do banco.
+   */
+  private registerReconcileJob(): void {
+    const seconds = readPositiveInt(
+      this.configService,
+      'JIRA_MONITOR_RECONCILE_SECONDS',
+      this.DEFAULT_RECONCILE_SECONDS,
+    );
+    const interval = setInterval(() => {
+      this.reconcile().catch((error) =>
+        this.logger.error(
+          `Falha ao conferir os jobs dos monitores: ${errorMessage(error)}`,
+        ),
+      );
+    }, seconds * 1000);
+    this.schedulerRegistry.addInterval(this.RECONCILE_JOB_NAME, interval);
+    this.logger.log(`Jobs dos monitores conferidos a cada ${seconds}s.`);
+  }
+
+  private jobName(monitorId: string): string {
+    return `monitor:${monitorId}`;
+  }
+}
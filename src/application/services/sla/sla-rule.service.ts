@@ -0,0 +1,142 @@
+// src/application/services/sla/sla-rule.service.ts
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+
+import { SlaRuleEntity } from '@domain/entities/sla-rule.entity';
+import { SlaRuleRepository } from '@infra/repositories/jira/sla-rule.repository';
+import { CreateSlaRuleDto } from '@dtos/jira/create-sla-rule.dto';
+import { UpdateSlaRuleDto } from '@dtos/jira/update-sla-rule.dto';
+import { SlaRuleDto } from '@dtos/jira/sla-rule.dto';
+
+/**
+ * Serviço responsável pelo CRUD das regras de SLA.
+ * A avaliação das regras sobre as issues fica no EvaluateSlaUseCase.
+ */
+@Injectable()
+export class SlaRuleService {
+  private readonly logger = new Logger(SlaRuleService.name);
+
+  private readonly METRICS = ['timeOpenDays', 'timeInStatusDays'];
+  private readonly STATES = ['warning', 'breached'];
+
+  constructor(private readonly slaRuleRepo: SlaRuleRepository) {}
+
+  async createRule(dto: CreateSlaRuleDto): Promise<SlaRuleDto> {
+    if (!dto.name) {
+      throw new BadRequestException('O campo "name" é obrigatório.');
+    }
+    this.assertMetric(dto.metric);
+    this.assertThreshold(dto.thresholdDays);
+    this.assertState(dto.state);
+    const rule = await this.slaRuleRepo.create({
+      name: dto.name,
+      priority: this.normalizeFilter(dto.priority),
+      status: this.normalizeFilter(dto.status),
+      metric: dto.metric,
+      thresholdDays: dto.thresholdDays,
+      state: dto.state,
+      enabled: dto.enabled ?? true,
+    });
+    this.logger.log(`Regra de SLA ${rule.id} criada: "${rule.name}".`);
+    return this.toDto(rule);
+  }
+
+  async listRules(): Promise<SlaRuleDto[]> {
+    const rules = await this.slaRuleRepo.findAll();
+    return rules.map((rule) => this.toDto(rule));
+  }
+
+  async updateRule(id: string, dto: UpdateSlaRuleDto): Promise<SlaRuleDto> {
+    const changes: Partial<SlaRuleEntity> = {};
+    if (dto.name !== undefined) {
+      changes.name = dto.name;
+    }
+    if (dto.priority !== undefined) {
+      changes.priority = this.normalizeFilter(dto.priority);
+    }
+    if (dto.status !== undefined) {
+      changes.status = this.normalizeFilter(dto.status);
+    }
+    if (dto.metric !== undefined) {
+      this.assertMetric(dto.metric);
+      changes.metric = dto.metric;
+    }
+    if (dto.thresholdDays !== undefined) {
+      this.assertThreshold(dto.thresholdDays);
+      changes.thresholdDays = dto.thresholdDays;
+    }
+    if (dto.state !== undefined) {
+      this.assertState(dto.state);
+      changes.state = dto.state;
+    }
+    if (dto.enabled !== undefined) {
+      changes.enabled = dto.enabled;
+    }
+
+    const updated = await this.slaRuleRepo.update(id, changes);
+    if (!updated) {
+      throw new NotFoundException(`Regra de SLA "${id}" não encontrada.`);
+    }
+    return this.toDto(updated);
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    const removed = await this.slaRuleRepo.delete(id);
+    if (!removed) {
+      throw new NotFoundException(`Regra de SLA "${id}" não encontrada.`);
+    }
+    this.logger.log(`Regra de SLA ${id} removida.`);
+  }
+
+  private assertMetric(metric: string): void {
+    if (!this.METRICS.includes(metric)) {
+      throw new BadRequestException(
+        `Métrica inválida: "${metric}". Válidas: ${this.METRICS.join(', ')}.`,
+      );
+    }
+  }
+
+  private assertThreshold(thresholdDays: number): void {
+    if (typeof thresholdDays !== 'number' || !(thresholdDays >= 0)) {
+      throw new BadRequestException(
+        'O campo "thresholdDays" deve ser um número maior ou igual a zero.',
+      );
+    }
+  }
+
+  private assertState(state: string): void {
+    if (!this.STATES.includes(state)) {
+      throw new BadRequestException(
+        `Estado inválido: "${state}". Válidos: ${this.STATES.join(', ')}.`,
+      );
+    }
+  }
+
+  /**
+   * Filtros vazios são gravados como null (= qualquer valor).
+   */
+  private normalizeFilter(value: string | null | undefined): string | null {
+    const trimmed = value?.trim();
+    return trimmed ? trimmed : null;
+  }
+
+  private toDto(rule: SlaRuleEntity): SlaRuleDto {
+    return {
+      id: rule.id,
+      name: rule.name,
+      priority: rule.priority,
+      status: rule.status,
+      metric: rule.metric,
+      thresholdDays: rule.thresholdDays,
+      state: rule.state,
+      enabled: rule.enabled,
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt,
+    };
+  }
+}
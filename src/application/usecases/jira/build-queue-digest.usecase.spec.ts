@@ -0,0 +1,85 @@
+// src/application/usecases/jira/build-queue-digest.usecase.spec.ts
+
+import { Logger } from '@nestjs/common';
+
+import { IssueSummaryDto } from '@dtos/jira/issue-summary.dto';
+import { ProcessedIssuesResponseDto } from '@dtos/jira/processed-issues-response.dto';
+import { BuildQueueDigestUseCase } from './build-queue-digest.usecase';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function issue(
+  key: string,
+  timeOpenDays: number,
+  createdDaysAgo: number,
+): IssueSummaryDto {
+  return {
+    key,
+    summary: `Issue ${key}`,
+    status: 'Aberto',
+    created: new Date(Date.now() - createdDaysAgo * DAY_MS).toISOString(),
+    assignee: null,
+    reporter: null,
+    priority: null,
+    timeOpenDays,
+    timeInStatusDays: 0,
+    url: null,
+    slaState: 'ok',
+    slaRule: null,
+  };
+}
+
+function result(issues: IssueSummaryDto[]): ProcessedIssuesResponseDto {
+  return {
+    total: issues.length,
+    issues,
+    statusCounts: { Aberto: issues.length },
+    excludedStatusCounts: {},
+    slaCounts: { ok: issues.length, warning: 0, breached: 0 },
+    truncated: false,
+  };
+}
+
+describe('BuildQueueDigestUseCase', () => {
+  const useCase = new BuildQueueDigestUseCase();
+  const issues = [
+    issue('SUP-1', 0.5, 0.5),
+    issue('SUP-2', 3, 3),
+    issue('SUP-3', 10, 10),
+    issue('SUP-4', 0.1, 0.1),
+  ];
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  it('mantém total e contagem por status', () => {
+    const digest = useCase.execute(result(issues), 'daily');
+
+    expect(digest.period).toBe('daily');
+    expect(digest.total).toBe(4);
+    expect(digest.statusCounts).toEqual({ Aberto: 4 });
+  });
+
+  it('ordena as mais antigas e respeita o limite', () => {
+    const digest = useCase.execute(result(issues), 'daily', 2);
+
+    expect(digest.oldest.map((i) => i.key)).toEqual(['SUP-3', 'SUP-2']);
+  });
+
+  it('seleciona as novas das últimas 24h no digest diário', () => {
+    const digest = useCase.execute(result(issues), 'daily');
+
+    expect(digest.newlyArrived.map((i) => i.key)).toEqual(['SUP-4', 'SUP-1']);
+  });
+
+  it('seleciona as novas dos últimos 7 dias no digest semanal', () => {
+    const digest = useCase.execute(result(issues), 'weekly');
+
+    expect(digest.newlyArrived.map((i) => i.key)).toEqual([
+      'SUP-4',
+      'SUP-1',
+      'SUP-2',
+    ]);
+  });
+});
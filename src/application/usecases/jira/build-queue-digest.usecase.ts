@@ -0,0 +1,63 @@
+// src/application/usecases/jira/build-queue-digest.usecase.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ProcessedIssuesResponseDto } from '@dtos/jira/processed-issues-response.dto';
+import { IssueSummaryDto } from '@dtos/jira/issue-summary.dto';
+
+export type DigestPeriod = 'daily' | 'weekly';
+
+/**
+ * Dados consolidados de um digest da fila.
+ */
+export interface QueueDigest {
+  period: DigestPeriod;
+  generatedAt: Date;
+  total: number;
+  statusCounts: Record<string, number>;
+  /** Issues há mais tempo em aberto (maior timeOpenDays primeiro). */
+  oldest: IssueSummaryDto[];
+  /** Issues criadas dentro do período do digest (mais recentes primeiro). */
+  newlyArrived: IssueSummaryDto[];
+}
+
+/**
+ * UseCase que recebe o resultado do ProcessIssuesUseCase e monta o digest:
+ *  1) Mantém o total e a contagem por status.
+ *  2) Seleciona as issues mais antigas (até `limit`).
+ *  3) Seleciona as issues criadas nas últimas 24h (daily) ou 7 dias (weekly).
+ */
+@Injectable()
+export class BuildQueueDigestUseCase {
+  private readonly logger = new Logger(BuildQueueDigestUseCase.name);
+
+  execute(
+    result: ProcessedIssuesResponseDto,
+    period: DigestPeriod,
+    limit = 10,
+  ): QueueDigest {
+    const now = Date.now();
+    const periodMs = (period === 'weekly' ? 7 : 1) * 24 * 60 * 60 * 1000;
+    const createdTime = (issue: IssueSummaryDto) =>
+      new Date(issue.created).getTime();
+
+    const oldest = [...result.issues]
+      .sort((a, b) => b.timeOpenDays - a.timeOpenDays)
+      .slice(0, limit);
+    const newlyArrived = result.issues
+      .filter((issue) => now - createdTime(issue) <= periodMs)
+      .sort((a, b) => createdTime(b) - createdTime(a))
+      .slice(0, limit);
+
+    this.logger.log(
+      `Digest ${period} montado: total=${result.total}, novas=${newlyArrived.length}`,
+    );
+    return {
+      period,
+      generatedAt: new Date(now),
+      total: result.total,
+      statusCounts: result.statusCounts,
+      oldest,
+      newlyArrived,
+    };
+  }
+}
@@ -0,0 +1,109 @@
+// src/application/usecases/jira/detect-issue-changes.usecase.spec.ts
+
+import { Logger } from '@nestjs/common';
+
+import {
+  IssueEventContext,
+  IssueLeftQueueEvent,
+  IssuePriorityChangedEvent,
+  IssueReassignedEvent,
+  IssueState,
+  IssueStatusChangedEvent,
+  JiraIssueEventName,
+} from '@domain/events/jira-issue.events';
+import { DetectIssueChangesUseCase } from './detect-issue-changes.usecase';
+
+const context: IssueEventContext = {
+  monitorId: 'monitor-1',
+  userId: 'user-1',
+  jql: 'project = SUP',
+};
+
+function issue(key: string, fields: Partial<IssueState> = {}): IssueState {
+  return {
+    key,
+    summary: `Issue ${key}`,
+    status: 'Aberto',
+    assignee: null,
+    priority: 'Medium',
+    timeOpenDays: 1,
+    url: null,
+    ...fields,
+  };
+}
+
+describe('DetectIssueChangesUseCase', () => {
+  const useCase = new DetectIssueChangesUseCase();
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  it('não gera eventos no primeiro poll', () => {
+    expect(useCase.execute(null, [issue('SUP-1')], context)).toEqual([]);
+  });
+
+  it('não gera eventos sem mudanças', () => {
+    const issues = [issue('SUP-1'), issue('SUP-2')];
+
+    expect(
+      useCase.execute(
+        issues,
+        issues.map((i) => ({ ...i })),
+        context,
+      ),
+    ).toEqual([]);
+  });
+
+  it('detecta issues que entraram e saíram da fila', () => {
+    const events = useCase.execute(
+      [issue('SUP-1'), issue('SUP-2')],
+      [issue('SUP-2'), issue('SUP-3')],
+      context,
+    );
+
+    expect(events.map((event) => [event.name, event.issue.key])).toEqual([
+      [JiraIssueEventName.APPEARED, 'SUP-3'],
+      [JiraIssueEventName.LEFT_QUEUE, 'SUP-1'],
+    ]);
+    expect(events[1]).toBeInstanceOf(IssueLeftQueueEvent);
+    expect(events[0].context).toBe(context);
+  });
+
+  it('gera um evento por campo alterado, com o valor anterior', () => {
+    const events = useCase.execute(
+      [issue('SUP-1')],
+      [
+        issue('SUP-1', {
+          status: 'Em andamento',
+          assignee: 'Ana',
+          priority: 'High',
+        }),
+      ],
+      context,
+    );
+
+    expect(events).toHaveLength(3);
+    expect((events[0] as IssueStatusChangedEvent).previousStatus).toBe(
+      'Aberto',
+    );
+    expect((events[1] as IssueReassignedEvent).previousAssignee).toBeNull();
+    expect((events[2] as IssuePriorityChangedEvent).previousPriority).toBe(
+      'Medium',
+    );
+    expect(events[0].issue.status).toBe('Em andamento');
+  });
+
+  it('ignora entradas e saídas sem comparar a participação', () => {
+    const events = useCase.execute(
+      [issue('SUP-1'), issue('SUP-2')],
+      [issue('SUP-2', { status: 'Resolvido' }), issue('SUP-3')],
+      context,
+      false,
+    );
+
+    expect(events.map((event) => [event.name, event.issue.key])).toEqual([
+      [JiraIssueEventName.STATUS_CHANGED, 'SUP-2'],
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+// src/application/usecases/jira/detect-issue-changes.usecase.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  IssueAppearedEvent,
+  IssueEventContext,
+  IssueLeftQueueEvent,
+  IssuePriorityChangedEvent,
+  IssueReassignedEvent,
+  IssueState,
+  IssueStatusChangedEvent,
+  JiraIssueEvent,
+} from '@domain/events/jira-issue.events';
+
+/**
+ * UseCase que compara o resultado atual do ProcessIssuesUseCase com o último
+ * estado conhecido (snapshot do poll anterior para o mesmo userId/JQL) e gera:
+ *  - IssueAppearedEvent: issue presente agora e ausente antes;
+ *  - IssueStatusChangedEvent / IssueReassignedEvent / IssuePriorityChangedEvent:
+ *    issue presente nos dois polls com o respectivo campo alterado
+ *    (uma issue pode gerar mais de um evento no mesmo poll);
+ *  - IssueLeftQueueEvent: issue presente antes e ausente agora.
+ *
+ * Se não houver estado anterior (primeiro poll), nenhum evento é gerado:
+ * o poll atual passa a ser a linha de base.
+ *
+ * Com `compareMembership` false (um dos polls truncado em
+ * JIRA_SEARCH_MAX_ISSUES ou JQL alterado desde o poll anterior), entrar ou
+ * sair do resultado não indica mudança na fila: só as alterações de campos
+ * das issues presentes nos dois polls geram eventos.
+ */
+@Injectable()
+export class DetectIssueChangesUseCase {
+  private readonly logger = new Logger(DetectIssueChangesUseCase.name);
+
+  execute(
+    previous: IssueState[] | null,
+    current: IssueState[],
+    context: IssueEventContext,
+    compareMembership = true,
+  ): JiraIssueEvent[] {
+    if (!previous) {
+      this.logger.log(
+        `Sem poll anterior para userId="${context.userId}"; usando o atual como linha de base.`,
+      );
+      return [];
+    }
+
+    const previousByKey = new Map(previous.map((issue) => [issue.key, issue]));
+    const currentKeys = new Set(current.map((issue) => issue.key));
+    const events: JiraIssueEvent[] = [];
+
+    // 1) Issues novas ou alteradas
+    for (const issue of current) {
+      const before = previousByKey.get(issue.key);
+      if (!before) {
+        if (compareMembership) {
+          events.push(new IssueAppearedEvent(context, issue));
+        }
+        continue;
+      }
+      if (before.status !== issue.status) {
+        events.push(new IssueStatusChangedEvent(context, issue, before.status));
+      }
+      if (before.assignee !== issue.assignee) {
+        events.push(new IssueReassignedEvent(context, issue, before.assignee));
+      }
+      if (before.priority !== issue.priority) {
+        events.push(
+          new IssuePriorityChangedEvent(context, issue, before.priority),
+        );
+      }
+    }
+
+    // 2) Issues que saíram da fila
+    for (const issue of compareMembership ? previous : []) {
+      if (!currentKeys.has(issue.key)) {
+        events.push(new IssueLeftQueueEvent(context, issue));
+      }
+    }
+
+    this.logger.log(
+      `Mudanças detectadas para userId="${context.userId}": ${events.length}`,
+    );
+    return events;
+  }
+}
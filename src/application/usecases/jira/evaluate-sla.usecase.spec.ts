@@ -0,0 +1,102 @@
+// src/application/usecases/jira/evaluate-sla.usecase.spec.ts
+
+import { Logger } from '@nestjs/common';
+
+import { SlaRuleEntity } from '@domain/entities/sla-rule.entity';
+import { IssueSummaryDto } from '@dtos/jira/issue-summary.dto';
+import { EvaluateSlaUseCase } from './evaluate-sla.usecase';
+
+function issue(fields: Partial<IssueSummaryDto> = {}): IssueSummaryDto {
+  return {
+    key: 'SUP-1',
+    summary: 'Issue SUP-1',
+    status: 'Aberto',
+    created: '2026-10-01T00:00:00.000Z',
+    assignee: null,
+    reporter: null,
+    priority: 'High',
+    timeOpenDays: 5,
+    timeInStatusDays: 2,
+    url: null,
+    slaState: 'ok',
+    slaRule: null,
+    ...fields,
+  };
+}
+
+function rule(id: string, fields: Partial<SlaRuleEntity> = {}): SlaRuleEntity {
+  return Object.assign(new SlaRuleEntity(), {
+    id,
+    name: `Regra ${id}`,
+    priority: null,
+    status: null,
+    metric: 'timeOpenDays',
+    thresholdDays: 3,
+    state: 'warning',
+    enabled: true,
+    ...fields,
+  });
+}
+
+describe('EvaluateSlaUseCase', () => {
+  const useCase = new EvaluateSlaUseCase();
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  it('marca ok quando nenhuma regra casa', () => {
+    const { issues, slaCounts } = useCase.execute(
+      [issue()],
+      [rule('r1', { thresholdDays: 10 })],
+    );
+
+    expect(issues[0].slaState).toBe('ok');
+    expect(issues[0].slaRule).toBeNull();
+    expect(slaCounts).toEqual({ ok: 1, warning: 0, breached: 0 });
+  });
+
+  it('só casa acima do limite, na métrica da regra', () => {
+    const rules = [
+      rule('r1', { metric: 'timeInStatusDays', thresholdDays: 2 }),
+    ];
+
+    expect(useCase.execute([issue()], rules).issues[0].slaState).toBe('ok');
+    expect(
+      useCase.execute([issue({ timeInStatusDays: 2.5 })], rules).issues[0]
+        .slaState,
+    ).toBe('warning');
+  });
+
+  it('compara prioridade e status sem diferenciar maiúsculas', () => {
+    const rules = [rule('r1', { priority: ' high ', status: 'ABERTO' })];
+
+    expect(useCase.execute([issue()], rules).issues[0].slaRule).toEqual({
+      id: 'r1',
+      name: 'Regra r1',
+    });
+    expect(
+      useCase.execute([issue({ priority: null })], rules).issues[0].slaState,
+    ).toBe('ok');
+    expect(
+      useCase.execute([issue({ status: 'Resolvido' })], rules).issues[0]
+        .slaState,
+    ).toBe('ok');
+  });
+
+  it('escolhe a regra mais severa e, no empate, a primeira', () => {
+    const { issues, slaCounts } = useCase.execute(
+      [issue(), issue({ key: 'SUP-2', timeOpenDays: 8 })],
+      [
+        rule('r1'),
+        rule('r2'),
+        rule('r3', { thresholdDays: 7, state: 'breached' }),
+      ],
+    );
+
+    expect(issues[0].slaRule?.id).toBe('r1');
+    expect(issues[1].slaRule?.id).toBe('r3');
+    expect(issues[1].slaState).toBe('breached');
+    expect(slaCounts).toEqual({ ok: 0, warning: 1, breached: 1 });
+  });
+});
@@ -0,0 +1,78 @@
+// src/application/usecases/jira/evaluate-sla.usecase.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { SlaRuleEntity, SlaState } from '@domain/entities/sla-rule.entity';
+import { IssueSummaryDto } from '@dtos/jira/issue-summary.dto';
+
+/**
+ * UseCase que aplica as regras de SLA às issues já processadas:
+ *  1) Para cada issue, seleciona as regras cujo filtro (prioridade/status,
+ *     case-insensitive) casa e cuja métrica ultrapassa o limite em dias.
+ *  2) Entre as regras que casaram, vence a mais severa (breached > warning);
+ *     em empate, a primeira da lista (ordem de criação).
+ *  3) Anota a issue com `slaState` e `slaRule` (ok/null quando nenhuma casar).
+ *  4) Conta quantas issues existem em cada estado de SLA.
+ */
+@Injectable()
+export class EvaluateSlaUseCase {
+  private readonly logger = new Logger(EvaluateSlaUseCase.name);
+
+  private readonly severity: Record<SlaState, number> = {
+    ok: 0,
+    warning: 1,
+    breached: 2,
+  };
+
+  execute(
+    issues: IssueSummaryDto[],
+    rules: SlaRuleEntity[],
+  ): { issues: IssueSummaryDto[]; slaCounts: Record<SlaState, number> } {
+    const slaCounts: Record<SlaState, number> = {
+      ok: 0,
+      warning: 0,
+      breached: 0,
+    };
+
+    const annotated = issues.map((issue) => {
+      let matched: SlaRuleEntity | null = null;
+      for (const rule of rules) {
+        if (
+          this.matches(rule, issue) &&
+          (!matched || this.severity[rule.state] > this.severity[matched.state])
+        ) {
+          matched = rule;
+        }
+      }
+
+      const slaState: SlaState = matched ? matched.state : 'ok';
+      slaCounts[slaState] += 1;
+      return {
+        ...issue,
+        slaState,
+        slaRule: matched ? { id: matched.id, name: matched.name } : null,
+      };
+    });
+
+    this.logger.log(
+      `SLA avaliado com ${rules.length} regra(s): ${JSON.stringify(slaCounts)}`,
+    );
+    return { issues: annotated, slaCounts };
+  }
+
+  private matches(rule: SlaRuleEntity, issue: IssueSummaryDto): boolean {
+    if (rule.priority && !this.sameText(rule.priority, issue.priority)) {
+      return false;
+    }
+    if (rule.status && !this.sameText(rule.status, issue.status)) {
+      return false;
+    }
+    const value = issue[rule.metric] ?? 0;
+    return value > rule.thresholdDays;
+  }
+
+  private sameText(expected: string, actual: string | null): boolean {
+    return (
+      !!actual && expected.trim().toLowerCase() === actual.trim().toLowerCase()
+    );
+  }
+}
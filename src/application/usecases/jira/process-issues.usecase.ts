@@ -1,28 +1,52 @@
 // src/application/usecases/jira/process-issues.usecase.ts
 
 import { Injectable, Logger } from '@nestjs/common';
+import {
+  DEFAULT_STATUS_FILTER,
+  StatusFilter,
+} from '@domain/filters/status-filter';
+import {
+  JiraIssueJson,
+  jiraBrowseUrl,
+  jiraLastStatusChange,
+  jiraSiteUrlFromSelf,
+  jiraUserName,
+  parseJiraDate,
+} from '@domain/jira/jira-issue-fields';
 
 /**
  * UseCase que recebe o JSON bruto de issues retornado pela API do Jira e:
- *  1) Filtra para remover todas as issues cujo campo `status` seja:
- *     - "Resolvido"
- *     - "concluído"
- *     - "Cancelado"
- *     (comparação feita de forma case-insensitive)
+ *  1) Filtra para remover todas as issues que casem com o StatusFilter recebido
+ *     (por nome do status, ID do status ou categoria do status). Sem filtro
+ *     informado, remove os status "Resolvido", "Concluído" e "Cancelado"
+ *     (comparação de nomes e categorias feita de forma case-insensitive).
+ *     As issues removidas são contadas por status em `excludedStatusCounts`.
  *  2) Mapeia cada issue restante para um formato resumido contendo:
- *     { key, summary, status, created, assignee, reporter, priority, timeOpenDays }
+ *     { key, summary, status, created, assignee, reporter, priority, timeOpenDays, timeInStatusDays, url }
  *     onde `timeOpenDays` é quantos dias se passaram desde a data de criação até agora.
  *     Se a data de criação for inválida ou ausente, `timeOpenDays` será 0.
+ *     `timeInStatusDays` conta desde a última transição de status (changelog da
+ *     busca, ver jiraLastStatusChange); sem transições, equivale a `timeOpenDays`.
+ *     `url` é o link /browse da issue no site informado em `siteUrl` (site
+ *     resolvido para o monitor) ou, na falta dele, no host do `self` da issue.
+ *     O JSON pode vir do Jira Cloud (API v3) ou do Data Center (API v2): nomes de
+ *     usuário e datas são lidos por jiraUserName/parseJiraDate, que tratam as
+ *     diferenças entre os dois (displayName x name, formatos de data).
  *  3) Conta dinamicamente quantas issues existem para cada status (após filtro),
  *     sem precisar antecipar quais são os nomes de status.
  *
- * Caso o JSON não tenha o formato esperado, retorna { total: 0, issues: [], statusCounts: {} }.
+ * Caso o JSON não tenha o formato esperado, retorna
+ * { total: 0, issues: [], statusCounts: {}, excludedStatusCounts: {} }.
  */
 @Injectable()
 export class ProcessIssuesUseCase {
   private readonly logger = new Logger(ProcessIssuesUseCase.name);
 
-  async execute(rawJson: any): Promise<any> {
+  async execute(
+    rawJson: any,
+    statusFilter: StatusFilter = DEFAULT_STATUS_FILTER,
+    siteUrl: string | null = null,
+  ): Promise<any> {
     this.logger.log('Início do ProcessIssuesUseCase.execute');
     if (!rawJson || !Array.isArray(rawJson.issues)) {
       this.logger.warn('JSON inválido ou sem campo issues; retornando vazio');
@@ -30,38 +54,58 @@ export class ProcessIssuesUseCase {
         total: 0,
         issues: [],
         statusCounts: {},
+        excludedStatusCounts: {},
       };
     }
-    this.logger.debug(
-      `Número bruto de issues recebido: ${rawJson.issues.length}`,
-    );
+    const rawIssues: JiraIssueJson[] = rawJson.issues;
+    this.logger.debug(`Número bruto de issues recebido: ${rawIssues.length}`);
 
-    // 2) Filtra as issues que NÃO estejam em um dos status a excluir.
-    const statusesToExclude = new Set(['resolvido', 'concluído', 'cancelado']);
-    const filteredIssues = rawJson.issues.filter((issue: any) => {
-      const statusName: string = issue.fields?.status?.name || '';
-      const normalized = statusName.trim().toLowerCase();
-      const exclude = statusesToExclude.has(normalized);
+    // 2) Filtra as issues que NÃO casem com o filtro de status,
+    //    contando as excluídas por nome de status
+    const namesToExclude = new Set(
+      statusFilter.names.map((name) => name.trim().toLowerCase()),
+    );
+    const idsToExclude = new Set(statusFilter.ids.map((id) => id.trim()));
+    const categoriesToExclude = new Set(
+      statusFilter.categories.map((category) => category.trim().toLowerCase()),
+    );
+    const excludedStatusCounts: Record<string, number> = {};
+    const filteredIssues = rawIssues.filter((issue) => {
+      const status = issue.fields?.status || {};
+      const statusName = status.name || '';
+      const statusId = String(status.id ?? '');
+      const categoryKey = status.statusCategory?.key || '';
+      const categoryName = status.statusCategory?.name || '';
+      const exclude =
+        namesToExclude.has(statusName.trim().toLowerCase()) ||
+        (statusId !== '' && idsToExclude.has(statusId)) ||
+        (categoryKey !== '' &&
+          categoriesToExclude.has(categoryKey.toLowerCase())) ||
+        (categoryName !== '' &&
+          categoriesToExclude.has(categoryName.toLowerCase()));
       if (exclude) {
         this.logger.debug(
-          `Excluindo issue ${issue.key} com status '${statusName}'`,
+          `Excluindo issue ${issue.key ?? ''} com status '${statusName}'`,
         );
+        const label = statusName || 'UNKNOWN';
+        excludedStatusCounts[label] = (excludedStatusCounts[label] || 0) + 1;
       }
       return !exclude;
     });
-    this.logger.log(`Issues após filtro: ${filteredIssues.length}`);
+    this.logger.log(
+      `Issues após filtro: ${filteredIssues.length} (excluídas: ${JSON.stringify(excludedStatusCounts)})`,
+    );
 
     // 3) Mapeia cada issue filtrada para um objeto resumido
-    const mappedIssues = filteredIssues.map((issue: any) => {
-      const key = issue.key;
+    const mappedIssues = filteredIssues.map((issue) => {
+      const key = issue.key ?? '';
       const fields = issue.fields || {};
 
       const summary = fields.summary || '';
       const status = fields.status?.name || 'UNKNOWN';
-      const createdStr: string = fields.created || '';
-      const created = createdStr ? new Date(createdStr) : null;
-      const assignee = fields.assignee?.displayName || null;
-      const reporter = fields.reporter?.displayName || null;
+      const created = parseJiraDate(fields.created);
+      const assignee = jiraUserName(fields.assignee);
+      const reporter = jiraUserName(fields.reporter);
       const priority = fields.priority?.name || null;
 
       // Cálculo de tempo em aberto em dias (valor padrão 0 se created não existir)
@@ -73,6 +117,19 @@ export class ProcessIssuesUseCase {
         timeOpenDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
       }
 
+      // Tempo no status atual, a partir da última transição de status
+      let timeInStatusDays = timeOpenDays;
+      const statusChanged = jiraLastStatusChange(issue);
+      if (statusChanged) {
+        const diffMs = Date.now() - statusChanged.getTime();
+        timeInStatusDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
+      }
+
+      const url = jiraBrowseUrl(
+        siteUrl ?? jiraSiteUrlFromSelf(issue.self),
+        key,
+      );
+
       const issueSummary = {
         key,
         summary,
@@ -82,6 +139,8 @@ export class ProcessIssuesUseCase {
         reporter,
         priority,
         timeOpenDays,
+        timeInStatusDays,
+        url,
       };
       this.logger.debug(`Issue processada: ${JSON.stringify(issueSummary)}`);
       return issueSummary;
@@ -99,6 +158,7 @@ export class ProcessIssuesUseCase {
     const result = {
       total: mappedIssues.length,
       statusCounts,
+      excludedStatusCounts,
       issues: mappedIssues,
     };
     this.logger.log(
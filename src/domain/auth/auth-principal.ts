@@ -0,0 +1,42 @@
+// src/domain/auth/auth-principal.ts
+
+/**
+ * Escopos de acesso à API REST:
+ *  - read:  consultas (GET), inclusive /jira/monitor/fetch
+ *  - admin: alterações (POST/PUT/PATCH/DELETE), renovação de token e gestão
+ *           de chaves de API; inclui "read"
+ */
+export type ApiKeyScope = 'read' | 'admin';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'admin'];
+
+/**
+ * Quem está chamando a API, resolvido pelo ApiAuthGuard:
+ *  - session:  usuário que concluiu o OAuth neste navegador (todos os escopos)
+ *  - apiKey:   chave de API emitida em /jira/auth/api-keys
+ *  - adminKey: chave mestra ADMIN_API_KEY do ambiente
+ *
+ * `userId` null indica um chamador de serviço, que pode agir por qualquer
+ * usuário e alterar os recursos globais; caso contrário ele só acessa os
+ * próprios dados.
+ */
+export interface AuthPrincipal {
+  via: 'session' | 'apiKey' | 'adminKey';
+  userId: string | null;
+  scopes: ApiKeyScope[];
+  apiKeyId?: string;
+}
+
+export function hasScope(
+  principal: AuthPrincipal,
+  scope: ApiKeyScope,
+): boolean {
+  return principal.scopes.includes('admin') || principal.scopes.includes(scope);
+}
+
+/**
+ * Indica se o chamador pode usar as credenciais/monitores de `userId`.
+ */
+export function canActAs(principal: AuthPrincipal, userId: string): boolean {
+  return principal.userId === null || principal.userId === userId;
+}
@@ -0,0 +1,63 @@
+// src/domain/entities/api-key.entity.ts
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { ApiKeyScope } from '@domain/auth/auth-principal';
+
+/**
+ * Entidade que mapeia a tabela api_keys no SQLite.
+ * Chaves de API usadas por scripts e integrações para chamar a API REST sem
+ * passar pelo fluxo OAuth. Só o hash SHA-256 da chave é gravado; o valor em
+ * texto puro é exibido uma única vez, na criação.
+ */
+@Entity({ name: 'api_keys' })
+export class ApiKeyEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  /**
+   * SHA-256 (hex) da chave completa.
+   */
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 64 })
+  keyHash: string;
+
+  /**
+   * Início da chave (ex.: "jm_Ab12Cd"), para identificá-la nas listagens.
+   */
+  @Column({ type: 'varchar', length: 16 })
+  prefix: string;
+
+  /**
+   * Dono da chave (accountId). Null = chave de serviço, que pode agir por
+   * qualquer usuário informando ?userId=.
+   */
+  @Column({ type: 'varchar', length: 128, nullable: true })
+  userId: string | null;
+
+  /**
+   * Escopos concedidos: "read" (consultas) e/ou "admin" (alterações).
+   */
+  @Column({ type: 'simple-json' })
+  scopes: ApiKeyScope[];
+
+  @Column({ type: 'datetime', nullable: true })
+  lastUsedAt: Date | null;
+
+  /**
+   * Data da revogação; chaves revogadas são recusadas pelo guard.
+   */
+  @Column({ type: 'datetime', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn({ type: 'datetime' })
+  createdAt: Date;
+}
@@ -0,0 +1,65 @@
+// src/domain/entities/chat-channel.entity.ts
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+export type ChatProvider = 'slack' | 'teams';
+
+/**
+ * Entidade que mapeia a tabela chat_channels no SQLite.
+ * Cada registro é um "incoming webhook" do Slack ou do Microsoft Teams que
+ * recebe os eventos de issue e resumos da fila já formatados para o chat.
+ */
+@Entity({ name: 'chat_channels' })
+export class ChatChannelEntity {
+  /**
+   * Chave primária autogerada em formato UUID.
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Nome amigável do canal (ex.: "#suporte-omnijs").
+   */
+  @Column({ type: 'varchar', length: 128 })
+  name: string;
+
+  /**
+   * Formato do payload: Block Kit (slack) ou Adaptive Card (teams).
+   */
+  @Column({ type: 'varchar', length: 16 })
+  provider: ChatProvider;
+
+  /**
+   * URL do incoming webhook fornecida pelo Slack/Teams.
+   */
+  @Column({ type: 'text' })
+  webhookUrl: string;
+
+  /**
+   * Monitores cujos eventos são enviados a este canal.
+   * Lista vazia significa "todos os monitores".
+   */
+  @Column({ type: 'simple-json' })
+  monitorIds: string[];
+
+  /**
+   * Tipos de evento aceitos. Lista vazia significa "todos os eventos".
+   */
+  @Column({ type: 'simple-json' })
+  eventTypes: string[];
+
+  @Column({ type: 'boolean', default: true })
+  enabled: boolean;
+
+  @CreateDateColumn({ type: 'datetime' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'datetime' })
+  updatedAt: Date;
+}
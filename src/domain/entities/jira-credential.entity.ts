@@ -9,9 +9,34 @@ import {
   Index,
 } from 'typeorm';
 
+/**
+ * Forma de autenticação da credencial:
+ *  - oauth:     OAuth 2.0 (3LO) via api.atlassian.com, com refresh automático
+ *  - api_token: e-mail + API token (Basic Auth) direto no site (baseUrl)
+ *  - pat:       Personal Access Token (Bearer) direto no site (baseUrl)
+ */
+export type JiraAuthType = 'oauth' | 'api_token' | 'pat';
+
+/**
+ * Tipo de instalação do Jira atendida pela credencial:
+ *  - cloud:      Jira Cloud, API REST v3 (descrições em ADF, usuários por accountId)
+ *  - datacenter: Jira Data Center / Server auto-hospedado, API REST v2
+ *                (usuários por name/key)
+ */
+export type JiraDeployment = 'cloud' | 'datacenter';
+
+/**
+ * Situação da credencial:
+ *  - active:          em uso normal
+ *  - reauth_required: a Atlassian recusou o refresh token; novas renovações
+ *                     não são tentadas até a conta ser reconectada pelo OAuth
+ */
+export type JiraCredentialStatus = 'active' | 'reauth_required';
+
 /**
  * Entidade que mapeia a tabela jira_credentials no SQLite.
- * Armazena tokens do OAuth 2.0 (3LO) do Jira para um determinado usuário (ou contexto).
+ * Armazena os tokens do Jira de cada usuário conectado (OAuth 3LO) ou de
+ * contas de serviço (API token / PAT), conforme `authType`.
  */
 @Entity({ name: 'jira_credentials' })
 export class JiraCredentialEntity {
@@ -23,24 +48,53 @@ export class JiraCredentialEntity {
   id: string;
 
   /**
-   * Identificador do “usuário” (ou instalação) a quem pertencem estas credenciais.
-   * Caso seu sistema use login, aqui você armazenaria o userId (ex.: ID interno do seu sistema).
-   * Se não houver múltiplos usuários, basta usar um valor fixo como "default".
+   * Identificador do usuário a quem pertencem estas credenciais: o accountId
+   * Atlassian obtido em GET https://api.atlassian.com/me (ver JiraUserEntity).
+   * Credenciais gravadas antes da identificação por /me usam "default".
    */
   @Column({ type: 'varchar', length: 128 })
   @Index() // Índice para busca rápida por userId
   userId: string;
 
   /**
-   * O cloudId retornado por GET https://api.atlassian.com/oauth/token/accessible-resources.
-   * É necessário incluir este valor em todas as chamadas posteriores à API do Jira Cloud.
+   * Estratégia de autenticação usada nas chamadas à API (ver JiraAuthStrategy).
+   */
+  @Column({ type: 'varchar', length: 16, default: 'oauth' })
+  authType: JiraAuthType;
+
+  /**
+   * Tipo de instalação (Cloud ou Data Center); define a versão da API usada.
+   * OAuth é sempre cloud.
+   */
+  @Column({ type: 'varchar', length: 16, default: 'cloud' })
+  deployment: JiraDeployment;
+
+  /**
+   * URL do site (ex.: https://empresa.atlassian.net ou, no Data Center,
+   * https://jira.empresa.com) para api_token e pat;
+   * null no OAuth, que usa https://api.atlassian.com/ex/jira/{cloudId}.
+   */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  baseUrl: string | null;
+
+  /**
+   * E-mail da conta dona do API token (Basic Auth); null nos demais tipos.
+   */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  email: string | null;
+
+  /**
+   * O cloudId do site padrão, escolhido entre os retornados por
+   * GET https://api.atlassian.com/oauth/token/accessible-resources (todos ficam em jira_sites).
+   * É usado nas chamadas à API do Jira Cloud que não indicam outro site ativo.
+   * Vazio para api_token e pat.
    */
   @Column({ type: 'varchar', length: 64 })
   cloudId: string;
 
   /**
-   * Token de acesso (“Bearer”) atual para chamar a API do Jira.
-   * Possui validade limitada (veja expiresAt).
+   * Token de acesso atual para chamar a API do Jira: o Bearer do OAuth (com
+   * validade limitada, veja expiresAt), o API token ou o PAT.
    */
   @Column({ type: 'text' })
   accessToken: string;
@@ -48,6 +102,7 @@ export class JiraCredentialEntity {
   /**
    * Token de refresh usado para renovar o accessToken quando este expirar.
    * Também armazenado como texto, pois normalmente vem em formato codificado.
+   * Vazio para api_token e pat, que não são renovados.
    */
   @Column({ type: 'text' })
   refreshToken: string;
@@ -56,9 +111,41 @@ export class JiraCredentialEntity {
    * Data e hora em que o accessToken expira.
    * Calculamos assim: agora + expires_in (retornado pelo Jira em segundos).
    * Usamos “timestamp with time zone” (ou apenas “timestamp” no SQLite) para manter consistência.
+   * Null para api_token e pat, que não expiram por conta própria.
+   */
+  @Column({ type: 'datetime', nullable: true })
+  expiresAt: Date | null;
+
+  /**
+   * Data/hora da última falha ao renovar o accessToken (refresh token
+   * recusado, Atlassian indisponível...). Limpa a cada renovação bem-sucedida.
+   */
+  @Column({ type: 'datetime', nullable: true })
+  refreshFailedAt: Date | null;
+
+  /**
+   * Mensagem de erro da última falha de renovação (ver refreshFailedAt).
+   */
+  @Column({ type: 'text', nullable: true })
+  refreshError: string | null;
+
+  /**
+   * Falhas de renovação consecutivas (zerada a cada renovação bem-sucedida).
+   */
+  @Column({ type: 'integer', default: 0 })
+  refreshFailureCount: number;
+
+  /**
+   * Data/hora da última renovação bem-sucedida do accessToken.
+   */
+  @Column({ type: 'datetime', nullable: true })
+  lastRefreshedAt: Date | null;
+
+  /**
+   * Situação da credencial (ver JiraCredentialStatus).
    */
-  @Column({ type: 'datetime' })
-  expiresAt: Date;
+  @Column({ type: 'varchar', length: 16, default: 'active' })
+  status: JiraCredentialStatus;
 
   /**
    * Data de criação do registro no banco (gerada automaticamente pelo TypeORM).
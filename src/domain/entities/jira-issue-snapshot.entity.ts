@@ -0,0 +1,70 @@
+// src/domain/entities/jira-issue-snapshot.entity.ts
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { JiraPollRunEntity } from './jira-poll-run.entity';
+
+/**
+ * Entidade que mapeia a tabela jira_issue_snapshots no SQLite.
+ * Guarda o estado de uma issue (status, responsável, prioridade, idade)
+ * exatamente como estava em um determinado poll.
+ */
+@Entity({ name: 'jira_issue_snapshots' })
+export class JiraIssueSnapshotEntity {
+  /**
+   * Chave primária autogerada em formato UUID.
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Poll ao qual esta linha pertence. Removido junto com o poll.
+   */
+  @ManyToOne(() => JiraPollRunEntity, (run) => run.issues, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'pollRunId' })
+  pollRun: JiraPollRunEntity;
+
+  @Column({ type: 'varchar' })
+  @Index() // Índice para buscar o histórico de um poll rapidamente
+  pollRunId: string;
+
+  /**
+   * Chave da issue no Jira (ex.: OMNIJS-123).
+   */
+  @Column({ type: 'varchar', length: 64 })
+  @Index() // Índice para buscar o histórico de uma issue
+  issueKey: string;
+
+  @Column({ type: 'text', default: '' })
+  summary: string;
+
+  @Column({ type: 'varchar', length: 128 })
+  status: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  assignee: string | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  priority: string | null;
+
+  /**
+   * Dias em aberto calculados pelo ProcessIssuesUseCase no momento do poll.
+   */
+  @Column({ type: 'integer' })
+  timeOpenDays: number;
+
+  /**
+   * Link /browse da issue no site do monitor, usado nas notificações de
+   * issues que saíram da fila.
+   */
+  @Column({ type: 'varchar', length: 512, nullable: true })
+  url: string | null;
+}
@@ -0,0 +1,77 @@
+// src/domain/entities/jira-poll-run.entity.ts
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+  OneToMany,
+} from 'typeorm';
+import { JiraIssueSnapshotEntity } from './jira-issue-snapshot.entity';
+
+/**
+ * Entidade que mapeia a tabela jira_poll_runs no SQLite.
+ * Cada registro representa uma execução (poll) de um monitor pelo job agendado,
+ * com os totais calculados pelo ProcessIssuesUseCase naquele momento.
+ */
+@Entity({ name: 'jira_poll_runs' })
+@Index(['monitorId', 'createdAt'])
+export class JiraPollRunEntity {
+  /**
+   * Chave primária autogerada em formato UUID.
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Monitor (MonitorDefinitionEntity.id) que originou o poll.
+   * Null nos polls gravados antes da existência dos monitores.
+   */
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  monitorId: string | null;
+
+  /**
+   * Identificador do usuário/instalação cujas credenciais foram usadas no poll.
+   */
+  @Column({ type: 'varchar', length: 128 })
+  userId: string;
+
+  /**
+   * Consulta JQL executada neste poll.
+   */
+  @Column({ type: 'text' })
+  jql: string;
+
+  /**
+   * Total de issues após o filtro de status (mesmo valor de `total` na resposta processada).
+   */
+  @Column({ type: 'integer' })
+  total: number;
+
+  /**
+   * Contagem de issues por status no momento do poll.
+   */
+  @Column({ type: 'simple-json' })
+  statusCounts: Record<string, number>;
+
+  /**
+   * Indica se a busca atingiu o limite JIRA_SEARCH_MAX_ISSUES.
+   */
+  @Column({ type: 'boolean', default: false })
+  truncated: boolean;
+
+  /**
+   * Issues capturadas neste poll (uma linha por issue).
+   */
+  @OneToMany(() => JiraIssueSnapshotEntity, (snapshot) => snapshot.pollRun, {
+    cascade: true,
+  })
+  issues: JiraIssueSnapshotEntity[];
+
+  /**
+   * Data/hora em que o poll foi registrado (gerada automaticamente pelo TypeORM).
+   */
+  @CreateDateColumn({ type: 'datetime' })
+  createdAt: Date;
+}
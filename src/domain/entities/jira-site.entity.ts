@@ -0,0 +1,76 @@
+// src/domain/entities/jira-site.entity.ts
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { JiraCredentialEntity } from './jira-credential.entity';
+
+/**
+ * Entidade que mapeia a tabela jira_sites no SQLite.
+ * Cada registro é um site do Jira Cloud retornado por
+ * GET https://api.atlassian.com/oauth/token/accessible-resources para uma
+ * credencial (um mesmo grant OAuth pode dar acesso a vários sites, ex.:
+ * produção e sandbox).
+ */
+@Entity({ name: 'jira_sites' })
+@Index(['credentialId', 'cloudId'], { unique: true })
+export class JiraSiteEntity {
+  /**
+   * Chave primária autogerada em formato UUID.
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Credencial (grant OAuth) que dá acesso ao site. Removido junto com ela.
+   */
+  @ManyToOne(() => JiraCredentialEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'credentialId' })
+  credential: JiraCredentialEntity;
+
+  @Column({ type: 'varchar' })
+  credentialId: string;
+
+  /**
+   * Identificador do site usado nas chamadas à API (ex.: /ex/jira/{cloudId}/...).
+   */
+  @Column({ type: 'varchar', length: 64 })
+  cloudId: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  /**
+   * URL do site (ex.: https://empresa.atlassian.net).
+   */
+  @Column({ type: 'varchar', length: 512 })
+  url: string;
+
+  /**
+   * Escopos concedidos para este site.
+   */
+  @Column({ type: 'simple-json' })
+  scopes: string[];
+
+  @Column({ type: 'varchar', length: 512, nullable: true })
+  avatarUrl: string | null;
+
+  /**
+   * Sites ativos podem ser usados pelos monitores e consultas.
+   */
+  @Column({ type: 'boolean', default: false })
+  active: boolean;
+
+  @CreateDateColumn({ type: 'datetime' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'datetime' })
+  updatedAt: Date;
+}
@@ -0,0 +1,47 @@
+// src/domain/entities/jira-user.entity.ts
+
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * Entidade que mapeia a tabela jira_users no SQLite.
+ * Guarda a identidade Atlassian de quem conectou o app (GET https://api.atlassian.com/me).
+ * O accountId é o mesmo valor usado como `userId` nas credenciais e nos monitores.
+ */
+@Entity({ name: 'jira_users' })
+export class JiraUserEntity {
+  /**
+   * account_id da conta Atlassian (ex.: 5b10ac8d82e05b22cc7d4ef5).
+   */
+  @PrimaryColumn({ type: 'varchar', length: 128 })
+  accountId: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  displayName: string;
+
+  /**
+   * E-mail da conta; pode vir vazio conforme a privacidade configurada no perfil.
+   */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  email: string | null;
+
+  @Column({ type: 'varchar', length: 512, nullable: true })
+  avatarUrl: string | null;
+
+  /**
+   * Data/hora da última conclusão do fluxo OAuth por este usuário.
+   */
+  @Column({ type: 'datetime' })
+  lastLoginAt: Date;
+
+  @CreateDateColumn({ type: 'datetime' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'datetime' })
+  updatedAt: Date;
+}
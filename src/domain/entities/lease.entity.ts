@@ -0,0 +1,40 @@
+// src/domain/entities/lease.entity.ts
+
+import { Entity, PrimaryColumn, Column } from 'typeorm';
+
+/**
+ * Lease (trava com validade) disputado pelas instâncias da aplicação, para
+ * que só uma delas execute cada tarefa ao mesmo tempo (ver LeaseService).
+ * A linha existe enquanto o lease está em uso; um lease vencido pode ser
+ * assumido por outra instância.
+ *
+ * As datas não fixam o tipo da coluna: o TypeORM usa o de cada banco
+ * (datetime no SQLite e no MySQL, timestamp no Postgres), já que a tabela
+ * é compartilhada por réplicas que podem não usar SQLite.
+ */
+@Entity({ name: 'leases' })
+export class LeaseEntity {
+  /**
+   * Nome da tarefa protegida (ex.: "monitor-run:<monitorId>").
+   */
+  @PrimaryColumn({ type: 'varchar', length: 191 })
+  name: string;
+
+  /**
+   * Quem detém o lease: instância (host:pid:id) e a aquisição.
+   */
+  @Column({ type: 'varchar', length: 128 })
+  owner: string;
+
+  /**
+   * Data/hora em que o lease foi obtido pelo dono atual.
+   */
+  @Column()
+  acquiredAt: Date;
+
+  /**
+   * Validade do lease; o dono a estende enquanto a tarefa roda.
+   */
+  @Column()
+  expiresAt: Date;
+}
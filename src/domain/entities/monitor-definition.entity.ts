@@ -0,0 +1,80 @@
+// src/domain/entities/monitor-definition.entity.ts
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { StatusFilter } from '@domain/filters/status-filter';
+
+/**
+ * Entidade que mapeia a tabela monitor_definitions no SQLite.
+ * Cada monitor é uma fila observada pelo job agendado: um JQL executado com
+ * as credenciais de um usuário, com agenda e filtro de status próprios.
+ */
+@Entity({ name: 'monitor_definitions' })
+export class MonitorDefinitionEntity {
+  /**
+   * Chave primária autogerada em formato UUID.
+   * É o `monitorId` usado nas rotas, nos polls e no contexto dos eventos.
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 128 })
+  @Index({ unique: true })
+  name: string;
+
+  /**
+   * Consulta JQL completa executada a cada poll.
+   */
+  @Column({ type: 'text' })
+  jql: string;
+
+  /**
+   * Credencial dona do monitor (mesmo valor de JiraCredentialEntity.userId).
+   */
+  @Column({ type: 'varchar', length: 128 })
+  userId: string;
+
+  /**
+   * Site (cloudId) consultado, entre os sites ativos da credencial.
+   * Null = site padrão da credencial.
+   */
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  cloudId: string | null;
+
+  /**
+   * Expressão cron que define quando o monitor roda.
+   * Se `schedule` e `intervalSeconds` forem null, o monitor roda a cada minuto.
+   */
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  schedule: string | null;
+
+  /**
+   * Alternativa ao cron: intervalo fixo, em segundos, entre execuções.
+   */
+  @Column({ type: 'integer', nullable: true })
+  intervalSeconds: number | null;
+
+  /**
+   * Status a excluir do resultado. Null = filtro padrão (variáveis JIRA_EXCLUDE_*).
+   */
+  @Column({ type: 'simple-json', nullable: true })
+  statusFilter: StatusFilter | null;
+
+  /**
+   * Monitores desativados (pausados) não têm job agendado.
+   */
+  @Column({ type: 'boolean', default: true })
+  enabled: boolean;
+
+  @CreateDateColumn({ type: 'datetime' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'datetime' })
+  updatedAt: Date;
+}
@@ -0,0 +1,86 @@
+// src/domain/entities/monitor-run.entity.ts
+
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+
+/**
+ * Como a execução foi disparada: pelo job do monitor ou sob demanda (runNow).
+ */
+export type MonitorRunTrigger = 'schedule' | 'manual';
+
+export type MonitorRunOutcome = 'success' | 'failure';
+
+/**
+ * Entidade que mapeia a tabela monitor_runs no SQLite.
+ * Log de auditoria das execuções de monitores: uma linha por execução,
+ * inclusive as que falharam (que não geram poll em jira_poll_runs).
+ */
+@Entity({ name: 'monitor_runs' })
+@Index(['monitorId', 'startedAt'])
+export class MonitorRunEntity {
+  /**
+   * Chave primária autogerada em formato UUID.
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Monitor (MonitorDefinitionEntity.id) executado.
+   */
+  @Column({ type: 'varchar', length: 64 })
+  monitorId: string;
+
+  /**
+   * Nome do monitor no momento da execução (mantido se ele for renomeado
+   * ou excluído).
+   */
+  @Column({ type: 'varchar', length: 128 })
+  monitorName: string;
+
+  /**
+   * Identificador do usuário/instalação cujas credenciais foram usadas.
+   */
+  @Column({ type: 'varchar', length: 128 })
+  @Index()
+  userId: string;
+
+  @Column({ type: 'varchar', length: 16 })
+  trigger: MonitorRunTrigger;
+
+  @Column({ type: 'varchar', length: 16 })
+  outcome: MonitorRunOutcome;
+
+  /**
+   * Mensagem de erro quando outcome = failure.
+   */
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @Column({ type: 'datetime' })
+  @Index()
+  startedAt: Date;
+
+  @Column({ type: 'datetime' })
+  finishedAt: Date;
+
+  @Column({ type: 'integer' })
+  durationMs: number;
+
+  /**
+   * Requisições HTTP enviadas ao Jira / Atlassian durante a execução,
+   * contando as novas tentativas e a renovação de token.
+   */
+  @Column({ type: 'integer', default: 0 })
+  jiraCalls: number;
+
+  /**
+   * Total de issues após o filtro de status; null se a execução falhou.
+   */
+  @Column({ type: 'integer', nullable: true })
+  issueCount: number | null;
+
+  /**
+   * Indica se o accessToken foi renovado durante a execução.
+   */
+  @Column({ type: 'boolean', default: false })
+  tokenRefreshed: boolean;
+}
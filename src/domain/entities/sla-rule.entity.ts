@@ -0,0 +1,73 @@
+// src/domain/entities/sla-rule.entity.ts
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+export type SlaState = 'ok' | 'warning' | 'breached';
+export type SlaMetric = 'timeOpenDays' | 'timeInStatusDays';
+
+/**
+ * Entidade que mapeia a tabela sla_rules no SQLite.
+ * Cada regra define um filtro opcional (prioridade e/ou status), uma métrica de
+ * idade da issue e um limite em dias; quando a métrica passa do limite, a issue
+ * recebe o estado da regra (warning ou breached).
+ *
+ * Exemplos:
+ *  - priority=Highest, metric=timeOpenDays, thresholdDays=1, state=breached
+ *  - status=Aguardando cliente, metric=timeInStatusDays, thresholdDays=5, state=warning
+ */
+@Entity({ name: 'sla_rules' })
+export class SlaRuleEntity {
+  /**
+   * Chave primária autogerada em formato UUID.
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 128 })
+  name: string;
+
+  /**
+   * Prioridade exigida (comparação case-insensitive). Null = qualquer prioridade.
+   */
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  priority: string | null;
+
+  /**
+   * Status exigido (comparação case-insensitive). Null = qualquer status.
+   */
+  @Column({ type: 'varchar', length: 128, nullable: true })
+  status: string | null;
+
+  /**
+   * Métrica comparada com o limite: dias em aberto ou dias no status atual.
+   */
+  @Column({ type: 'varchar', length: 32 })
+  metric: SlaMetric;
+
+  /**
+   * A regra casa quando a métrica for estritamente maior que este valor.
+   */
+  @Column({ type: 'real' })
+  thresholdDays: number;
+
+  /**
+   * Estado atribuído às issues que casam com a regra.
+   */
+  @Column({ type: 'varchar', length: 16 })
+  state: Exclude<SlaState, 'ok'>;
+
+  @Column({ type: 'boolean', default: true })
+  enabled: boolean;
+
+  @CreateDateColumn({ type: 'datetime' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'datetime' })
+  updatedAt: Date;
+}
@@ -0,0 +1,86 @@
+// src/domain/entities/webhook-delivery.entity.ts
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { WebhookTargetEntity } from './webhook-target.entity';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+/**
+ * Entidade que mapeia a tabela webhook_deliveries no SQLite.
+ * Registra cada entrega de evento a um webhook: payload enviado, número de
+ * tentativas e o resultado da última tentativa, para inspeção e reenvio.
+ */
+@Entity({ name: 'webhook_deliveries' })
+export class WebhookDeliveryEntity {
+  /**
+   * Chave primária autogerada em formato UUID (também enviada no header
+   * X-Jira-Monitor-Delivery).
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * Destino da entrega. O log é removido junto com o destino.
+   */
+  @ManyToOne(() => WebhookTargetEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'targetId' })
+  target: WebhookTargetEntity;
+
+  @Column({ type: 'varchar' })
+  @Index() // Índice para listar as entregas de um destino
+  targetId: string;
+
+  /**
+   * Nome do evento entregue (ex.: "jira.issue.status-changed").
+   */
+  @Column({ type: 'varchar', length: 64 })
+  eventName: string;
+
+  /**
+   * Corpo JSON enviado (e reenviado em caso de replay).
+   */
+  @Column({ type: 'simple-json' })
+  payload: Record<string, any>;
+
+  @Column({ type: 'varchar', length: 16, default: 'pending' })
+  status: WebhookDeliveryStatus;
+
+  /**
+   * Quantidade total de tentativas de envio (inclui reenvios manuais).
+   */
+  @Column({ type: 'integer', default: 0 })
+  attempts: number;
+
+  /**
+   * HTTP status da última resposta recebida (null se não houve resposta).
+   */
+  @Column({ type: 'integer', nullable: true })
+  lastStatusCode: number | null;
+
+  /**
+   * Mensagem de erro da última tentativa que falhou.
+   */
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  /**
+   * Data/hora da entrega bem-sucedida.
+   */
+  @Column({ type: 'datetime', nullable: true })
+  deliveredAt: Date | null;
+
+  @CreateDateColumn({ type: 'datetime' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'datetime' })
+  updatedAt: Date;
+}
@@ -0,0 +1,55 @@
+// src/domain/entities/webhook-target.entity.ts
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * Entidade que mapeia a tabela webhook_targets no SQLite.
+ * Cada registro é um destino HTTP que recebe (via POST) os eventos de issue
+ * detectados pelo job agendado.
+ */
+@Entity({ name: 'webhook_targets' })
+export class WebhookTargetEntity {
+  /**
+   * Chave primária autogerada em formato UUID.
+   */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /**
+   * URL (http/https) que receberá o POST com o payload JSON.
+   */
+  @Column({ type: 'text' })
+  url: string;
+
+  /**
+   * Segredo opcional usado para assinar o corpo com HMAC-SHA256
+   * (header X-Jira-Monitor-Signature). Nunca é devolvido pela API.
+   */
+  @Column({ type: 'text', nullable: true })
+  secret: string | null;
+
+  /**
+   * Tipos de evento aceitos (ex.: ["jira.issue.appeared"]).
+   * Lista vazia significa "todos os eventos".
+   */
+  @Column({ type: 'simple-json' })
+  eventTypes: string[];
+
+  /**
+   * Permite desativar um destino sem apagá-lo.
+   */
+  @Column({ type: 'boolean', default: true })
+  enabled: boolean;
+
+  @CreateDateColumn({ type: 'datetime' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'datetime' })
+  updatedAt: Date;
+}
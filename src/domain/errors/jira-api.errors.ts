@@ -0,0 +1,61 @@
+// src/domain/errors/jira-api.errors.ts
+
+/**
+ * Erros das chamadas à API do Jira (e aos endpoints OAuth da Atlassian),
+ * lançados pelo JiraHttpClient depois de esgotadas as tentativas.
+ * O JiraApiExceptionFilter converte cada tipo na resposta HTTP adequada.
+ *
+ * @property status       Status HTTP devolvido pelo Jira (null em falhas de
+ *                        rede ou timeout).
+ * @property url          URL chamada (sem a query string).
+ * @property jiraMessages Mensagens de erro extraídas do corpo da resposta
+ *                        (errorMessages, errors, error_description...).
+ */
+export class JiraApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null,
+    readonly url: string,
+    readonly jiraMessages: string[] = [],
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * 401: token expirado, revogado ou inválido; é preciso renovar ou reconectar.
+ */
+export class JiraAuthExpiredError extends JiraApiError {}
+
+/**
+ * 403: a credencial não tem permissão para o recurso (projeto, site, escopo).
+ */
+export class JiraForbiddenError extends JiraApiError {}
+
+/**
+ * 400: o Jira recusou a requisição; na busca, quase sempre um JQL inválido
+ * (as mensagens do Jira ficam em `jiraMessages`).
+ */
+export class JiraBadRequestError extends JiraApiError {}
+
+/**
+ * 429 (ou orçamento local de requisições esgotado): tente de novo depois de
+ * `retryAfterMs`.
+ */
+export class JiraRateLimitedError extends JiraApiError {
+  constructor(
+    message: string,
+    status: number | null,
+    url: string,
+    readonly retryAfterMs: number,
+    jiraMessages: string[] = [],
+  ) {
+    super(message, status, url, jiraMessages);
+  }
+}
+
+/**
+ * 5xx, timeout ou falha de rede que persistiu após as novas tentativas.
+ */
+export class JiraUnavailableError extends JiraApiError {}
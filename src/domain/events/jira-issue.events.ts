@@ -0,0 +1,117 @@
+// src/domain/events/jira-issue.events.ts
+
+/**
+ * Nomes dos eventos de domínio publicados no barramento interno (EventEmitter)
+ * quando o monitor detecta mudanças entre dois polls.
+ *
+ * Os nomes seguem o padrão "jira.issue.<tipo>", então é possível assinar
+ * todos de uma vez com o curinga "jira.issue.*".
+ */
+export const JiraIssueEventName = {
+  APPEARED: 'jira.issue.appeared',
+  STATUS_CHANGED: 'jira.issue.status-changed',
+  REASSIGNED: 'jira.issue.reassigned',
+  PRIORITY_CHANGED: 'jira.issue.priority-changed',
+  LEFT_QUEUE: 'jira.issue.left-queue',
+} as const;
+
+export type JiraIssueEventName =
+  (typeof JiraIssueEventName)[keyof typeof JiraIssueEventName];
+
+/**
+ * Estado de uma issue comparado entre polls.
+ */
+export interface IssueState {
+  key: string;
+  summary: string;
+  status: string;
+  assignee: string | null;
+  priority: string | null;
+  timeOpenDays: number;
+  /** Link /browse da issue no site do monitor (null se desconhecido). */
+  url: string | null;
+}
+
+/**
+ * Contexto do monitor que gerou o evento (monitor, credenciais + consulta JQL).
+ */
+export interface IssueEventContext {
+  monitorId: string;
+  userId: string;
+  jql: string;
+}
+
+/**
+ * Base de todos os eventos de issue: carrega o contexto do monitor,
+ * o estado atual da issue (ou o último conhecido, no caso de IssueLeftQueue)
+ * e o instante da detecção.
+ */
+export abstract class JiraIssueEvent {
+  abstract readonly name: JiraIssueEventName;
+  readonly occurredAt: Date = new Date();
+
+  constructor(
+    readonly context: IssueEventContext,
+    readonly issue: IssueState,
+  ) {}
+}
+
+/**
+ * A issue passou a fazer parte do resultado do monitor.
+ */
+export class IssueAppearedEvent extends JiraIssueEvent {
+  readonly name = JiraIssueEventName.APPEARED;
+}
+
+/**
+ * A issue continua no resultado, mas mudou de status.
+ */
+export class IssueStatusChangedEvent extends JiraIssueEvent {
+  readonly name = JiraIssueEventName.STATUS_CHANGED;
+
+  constructor(
+    context: IssueEventContext,
+    issue: IssueState,
+    readonly previousStatus: string,
+  ) {
+    super(context, issue);
+  }
+}
+
+/**
+ * A issue continua no resultado, mas mudou de responsável (assignee).
+ */
+export class IssueReassignedEvent extends JiraIssueEvent {
+  readonly name = JiraIssueEventName.REASSIGNED;
+
+  constructor(
+    context: IssueEventContext,
+    issue: IssueState,
+    readonly previousAssignee: string | null,
+  ) {
+    super(context, issue);
+  }
+}
+
+/**
+ * A issue continua no resultado, mas mudou de prioridade.
+ */
+export class IssuePriorityChangedEvent extends JiraIssueEvent {
+  readonly name = JiraIssueEventName.PRIORITY_CHANGED;
+
+  constructor(
+    context: IssueEventContext,
+    issue: IssueState,
+    readonly previousPriority: string | null,
+  ) {
+    super(context, issue);
+  }
+}
+
+/**
+ * A issue saiu do resultado do monitor (foi fechada, excluída pelo filtro de
+ * status ou deixou de casar com o JQL). `issue` traz o último estado conhecido.
+ */
+export class IssueLeftQueueEvent extends JiraIssueEvent {
+  readonly name = JiraIssueEventName.LEFT_QUEUE;
+}
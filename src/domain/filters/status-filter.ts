@@ -0,0 +1,54 @@
+// src/domain/filters/status-filter.ts
+
+/**
+ * Critérios de exclusão de issues por status, aplicados pelo ProcessIssuesUseCase.
+ * Uma issue é excluída se casar com QUALQUER um dos critérios:
+ *  - names:      nome do status (comparação case-insensitive), ex.: "Done"
+ *  - ids:        ID do status no Jira, ex.: "10001"
+ *  - categories: categoria do status (key ou nome, case-insensitive),
+ *                ex.: "done" exclui tudo o que o workflow considera concluído
+ */
+export interface StatusFilter {
+  names: string[];
+  ids: string[];
+  categories: string[];
+}
+
+/**
+ * Filtro histórico do monitor, usado quando nada foi configurado.
+ */
+export const DEFAULT_STATUS_FILTER: StatusFilter = {
+  names: ['resolvido', 'concluído', 'cancelado'],
+  ids: [],
+  categories: [],
+};
+
+/**
+ * Monta um StatusFilter a partir de listas separadas por vírgula
+ * (query string ou variáveis de ambiente).
+ *
+ * @returns null se nenhuma das listas foi informada (undefined), para que o
+ *          chamador aplique o filtro padrão; uma lista vazia ("") é válida e
+ *          significa "não excluir por este critério".
+ */
+export function statusFilterFromCsv(
+  names?: string,
+  ids?: string,
+  categories?: string,
+): StatusFilter | null {
+  if (names === undefined && ids === undefined && categories === undefined) {
+    return null;
+  }
+  return {
+    names: splitCsv(names),
+    ids: splitCsv(ids),
+    categories: splitCsv(categories),
+  };
+}
+
+function splitCsv(value?: string): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
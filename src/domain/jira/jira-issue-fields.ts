@@ -0,0 +1,130 @@
+// src/domain/jira/jira-issue-fields.ts
+
+/**
+ * Leitura de campos de issue que mudam entre o Jira Cloud (API v3) e o
+ * Data Center / Server (API v2), usada pelo ProcessIssuesUseCase.
+ */
+
+/**
+ * Campos de usuário que variam entre Cloud e Data Center.
+ */
+export interface JiraUserField {
+  accountId?: string;
+  displayName?: string;
+  name?: string;
+  key?: string;
+}
+
+/**
+ * Formato das issues retornadas pela busca (/search e /search/jql), com os
+ * campos lidos pelo ProcessIssuesUseCase. Todos opcionais: o JSON vem do Jira.
+ */
+export interface JiraIssueJson {
+  key?: string;
+  self?: unknown;
+  fields?: {
+    summary?: string;
+    status?: {
+      id?: string | number;
+      name?: string;
+      statusCategory?: { key?: string; name?: string };
+    };
+    created?: unknown;
+    statuscategorychangedate?: unknown;
+    assignee?: JiraUserField | null;
+    reporter?: JiraUserField | null;
+    priority?: { name?: string } | null;
+  };
+  changelog?: {
+    histories?: { created?: unknown; items?: { field?: string }[] }[];
+  };
+}
+
+/**
+ * Nome de exibição de um usuário (assignee, reporter...). O Cloud sempre traz
+ * `displayName` (e identifica por accountId); o Data Center pode trazer apenas
+ * `name` (login) ou `key`.
+ *
+ * @returns null se o campo estiver vazio (issue sem responsável, por exemplo).
+ */
+export function jiraUserName(
+  user: JiraUserField | null | undefined,
+): string | null {
+  if (!user) return null;
+  return user.displayName || user.name || user.key || null;
+}
+
+/**
+ * Converte uma data do Jira em Date. Aceita:
+ *  - "2024-05-01T10:00:00.000-0300" (Cloud e Data Center; o offset sem ":"
+ *    é normalizado para "-03:00" antes do parse)
+ *  - "2024-05-01" (campos só de data, como duedate)
+ *  - epoch em milissegundos (alguns campos do Data Center)
+ *
+ * @returns null se o valor estiver ausente ou não for uma data válida.
+ */
+export function parseJiraDate(value: unknown): Date | null {
+  let date: Date;
+  if (typeof value === 'number') {
+    date = new Date(value);
+  } else if (typeof value === 'string' && value.trim()) {
+    date = new Date(value.trim().replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+  } else {
+    return null;
+  }
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Data da última transição de status da issue: o item "status" mais recente
+ * do changelog (busca com expand=changelog) ou, mais recente que ele,
+ * `statuscategorychangedate` (só no Cloud; muda junto com a categoria). O
+ * changelog da busca pode vir limitado às alterações mais recentes, por isso
+ * os dois são combinados.
+ *
+ * @returns null se a issue nunca mudou de status (ou os dados não vieram).
+ */
+export function jiraLastStatusChange(issue: JiraIssueJson): Date | null {
+  let last = parseJiraDate(issue.fields?.statuscategorychangedate);
+  for (const history of issue.changelog?.histories ?? []) {
+    if (!history.items?.some((item) => item.field === 'status')) continue;
+    const created = parseJiraDate(history.created);
+    if (created && (!last || created > last)) {
+      last = created;
+    }
+  }
+  return last;
+}
+
+/**
+ * URL do site no navegador a partir do `self` da issue (tudo antes de
+ * "/rest/", preservando o context path do Data Center). No OAuth o `self`
+ * aponta para o gateway api.atlassian.com, que não serve as páginas /browse.
+ *
+ * @returns null se o `self` estiver ausente, for inválido ou for do gateway.
+ */
+export function jiraSiteUrlFromSelf(self: unknown): string | null {
+  if (typeof self !== 'string') return null;
+  let url: URL;
+  try {
+    url = new URL(self);
+  } catch {
+    return null;
+  }
+  const restIndex = url.pathname.indexOf('/rest/');
+  if (url.hostname === 'api.atlassian.com' || restIndex < 0) return null;
+  return `${url.origin}${url.pathname.slice(0, restIndex)}`;
+}
+
+/**
+ * Monta o link de navegação da issue (<siteUrl>/browse/<key>).
+ *
+ * @returns null se a URL do site não for conhecida.
+ */
+export function jiraBrowseUrl(
+  siteUrl: string | null,
+  key: string,
+): string | null {
+  if (!siteUrl) return null;
+  return `${siteUrl.replace(/\/+$/, '')}/browse/${encodeURIComponent(key)}`;
+}
@@ -0,0 +1,14 @@
+// src/infra/config/database.options.ts
+
+import { TypeOrmModuleOptions } from '@nestjs/typeorm';
+
+/**
+ * Conexão TypeORM compartilhada pelo AppModule e pelos scripts que montam
+ * um contexto próprio (ex.: scripts/reencrypt-tokens.ts).
+ */
+export const databaseOptions: TypeOrmModuleOptions = {
+  type: 'sqlite',
+  database: 'database.sqlite',
+  entities: [__dirname + '/../../domain/entities/*.entity{.ts,.js}'],
+  synchronize: true,
+};
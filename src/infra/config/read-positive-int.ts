@@ -0,0 +1,16 @@
+// src/infra/config/read-positive-int.ts
+
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Lê uma variável de ambiente numérica; se ausente ou inválida (não inteira
+ * ou menor que 1), usa o padrão.
+ */
+export function readPositiveInt(
+  configService: ConfigService,
+  name: string,
+  defaultValue: number,
+): number {
+  const value = Number(configService.get<string>(name));
+  return Number.isInteger(value) && value > 0 ? value : defaultValue;
+}
@@ -0,0 +1,130 @@
+// src/infra/crypto/token-cipher.service.spec.ts
+
+import { InternalServerErrorException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { TokenCipherService } from './token-cipher.service';
+
+const KEY_1 = `1:${Buffer.alloc(32, 1).toString('base64')}`;
+const KEY_2 = `2:${Buffer.alloc(32, 2).toString('base64')}`;
+
+function cipherWith(env: Record<string, string>): TokenCipherService {
+  return new TokenCipherService(new ConfigService(env));
+}
+
+describe('TokenCipherService', () => {
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  it('cifra e decifra com a chave ativa', () => {
+    const cipher = cipherWith({ TOKEN_ENCRYPTION_KEYS: KEY_1 });
+
+    const encrypted = cipher.encrypt('segredo');
+
+    expect(encrypted).toMatch(/^enc:v1:/);
+    expect(encrypted).not.toContain('segredo');
+    expect(cipher.decrypt(encrypted)).toBe('segredo');
+  });
+
+  it('devolve texto puro sem alterar', () => {
+    const cipher = cipherWith({ TOKEN_ENCRYPTION_KEYS: KEY_1 });
+
+    expect(cipher.isEncrypted('token-antigo')).toBe(false);
+    expect(cipher.decrypt('token-antigo')).toBe('token-antigo');
+    expect(cipher.needsReencrypt('token-antigo')).toBe(true);
+  });
+
+  describe('rotação de chave', () => {
+    it('usa a maior versão como ativa por padrão', () => {
+      const cipher = cipherWith({ TOKEN_ENCRYPTION_KEYS: `${KEY_1},${KEY_2}` });
+
+      expect(cipher.encrypt('segredo')).toMatch(/^enc:v2:/);
+    });
+
+    it('decifra valores da chave anterior e pede a re-cifragem', () => {
+      const old = cipherWith({ TOKEN_ENCRYPTION_KEYS: KEY_1 });
+      const encrypted = old.encrypt('segredo');
+
+      const rotated = cipherWith({
+        TOKEN_ENCRYPTION_KEYS: `${KEY_1},${KEY_2}`,
+      });
+
+      expect(rotated.decrypt(encrypted)).toBe('segredo');
+      expect(rotated.needsReencrypt(encrypted)).toBe(true);
+
+      const reencrypted = rotated.encrypt(rotated.decrypt(encrypted));
+      expect(reencrypted).toMatch(/^enc:v2:/);
+      expect(rotated.needsReencrypt(reencrypted)).toBe(false);
+    });
+
+    it('respeita TOKEN_ENCRYPTION_ACTIVE_KEY', () => {
+      const cipher = cipherWith({
+        TOKEN_ENCRYPTION_KEYS: `${KEY_1},${KEY_2}`,
+        TOKEN_ENCRYPTION_ACTIVE_KEY: '1',
+      });
+
+      const encrypted = cipher.encrypt('segredo');
+
+      expect(encrypted).toMatch(/^enc:v1:/);
+      expect(cipher.needsReencrypt(encrypted)).toBe(false);
+    });
+
+    it('falha ao decifrar com a chave removida', () => {
+      const encrypted = cipherWith({ TOKEN_ENCRYPTION_KEYS: KEY_1 }).encrypt(
+        'segredo',
+      );
+
+      const cipher = cipherWith({ TOKEN_ENCRYPTION_KEYS: KEY_2 });
+
+      expect(() => cipher.decrypt(encrypted)).toThrow(
+        InternalServerErrorException,
+      );
+    });
+  });
+
+  it('rejeita valores adulterados', () => {
+    const cipher = cipherWith({ TOKEN_ENCRYPTION_KEYS: KEY_1 });
+    const [prefix, version, iv, tag, ciphertext] = cipher
+      .encrypt('segredo')
+      .split(':');
+    const tampered = Buffer.from(ciphertext, 'base64');
+    tampered[0] ^= 0xff;
+
+    expect(() =>
+      cipher.decrypt(
+        [prefix, version, iv, tag, tampered.toString('base64')].join(':'),
+      ),
+    ).toThrow();
+  });
+
+  describe('configuração inválida', () => {
+    it('falha sem TOKEN_ENCRYPTION_KEYS', () => {
+      const cipher = cipherWith({});
+
+      expect(cipher.isEnabled()).toBe(false);
+      expect(() => cipher.encrypt('segredo')).toThrow(
+        InternalServerErrorException,
+      );
+    });
+
+    it('falha com chave de tamanho errado', () => {
+      const cipher = cipherWith({
+        TOKEN_ENCRYPTION_KEYS: `1:${Buffer.alloc(16).toString('base64')}`,
+      });
+
+      expect(() => cipher.encrypt('segredo')).toThrow(/Entrada inválida/);
+    });
+
+    it('falha com versão ativa inexistente', () => {
+      const cipher = cipherWith({
+        TOKEN_ENCRYPTION_KEYS: KEY_1,
+        TOKEN_ENCRYPTION_ACTIVE_KEY: '3',
+      });
+
+      expect(() => cipher.encrypt('segredo')).toThrow(
+        /TOKEN_ENCRYPTION_ACTIVE_KEY="3"/,
+      );
+    });
+  });
+});
@@ -0,0 +1,157 @@
+// src/infra/crypto/token-cipher.service.ts
+
+import {
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const PREFIX = 'enc';
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+
+/**
+ * Criptografia simétrica (AES-256-GCM) dos tokens gravados no banco.
+ *
+ * As chaves vêm de TOKEN_ENCRYPTION_KEYS, no formato "versão:chaveBase64"
+ * separado por vírgulas (ex.: "1:AAAA...,2:BBBB..."), cada chave com 32 bytes.
+ * TOKEN_ENCRYPTION_ACTIVE_KEY indica a versão usada para cifrar (padrão: a
+ * maior versão listada); as demais continuam válidas para decifrar, o que
+ * permite rotacionar a chave e re-cifrar os registros depois.
+ *
+ * Valor cifrado: "enc:v<versão>:<iv>:<authTag>:<ciphertext>" (partes em base64).
+ */
+@Injectable()
+export class TokenCipherService {
+  private readonly logger = new Logger(TokenCipherService.name);
+  private keys: Map<string, Buffer> | null = null;
+  private activeVersion = '';
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Indica se há chaves configuradas.
+   */
+  isEnabled(): boolean {
+    return !!this.configService.get<string>('TOKEN_ENCRYPTION_KEYS');
+  }
+
+  /**
+   * Indica se o valor já está no formato cifrado (qualquer versão de chave).
+   */
+  isEncrypted(value: string): boolean {
+    return value.startsWith(`${PREFIX}:v`);
+  }
+
+  /**
+   * Indica se o valor precisa ser (re)cifrado: texto puro ou cifrado com uma
+   * versão de chave diferente da ativa.
+   */
+  needsReencrypt(value: string): boolean {
+    if (!this.isEncrypted(value)) return true;
+    return this.versionOf(value) !== this.loadKeys().activeVersion;
+  }
+
+  /**
+   * Cifra o valor com a chave ativa.
+   */
+  encrypt(plain: string): string {
+    const { keys, activeVersion } = this.loadKeys();
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, keys.get(activeVersion)!, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(plain, 'utf8'),
+      cipher.final(),
+    ]);
+    return [
+      PREFIX,
+      `v${activeVersion}`,
+      iv.toString('base64'),
+      cipher.getAuthTag().toString('base64'),
+      ciphertext.toString('base64'),
+    ].join(':');
+  }
+
+  /**
+   * Decifra o valor. Valores em texto puro (gravados antes da criptografia)
+   * são devolvidos como estão.
+   */
+  decrypt(value: string): string {
+    if (!this.isEncrypted(value)) return value;
+
+    const [, , iv, tag, ciphertext] = value.split(':');
+    const version = this.versionOf(value);
+    const key = this.loadKeys().keys.get(version);
+    if (!key || !iv || !tag || ciphertext === undefined) {
+      this.logger.error(
+        `Não foi possível decifrar token com a chave v${version}.`,
+      );
+      throw new InternalServerErrorException(
+        `Chave de criptografia v${version} não configurada em TOKEN_ENCRYPTION_KEYS.`,
+      );
+    }
+
+    const decipher = createDecipheriv(
+      ALGORITHM,
+      key,
+      Buffer.from(iv, 'base64'),
+    );
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  private versionOf(value: string): string {
+    return value.split(':')[1].slice(1);
+  }
+
+  /**
+   * Lê e valida as chaves na primeira utilização.
+   */
+  private loadKeys(): { keys: Map<string, Buffer>; activeVersion: string } {
+    if (this.keys) {
+      return { keys: this.keys, activeVersion: this.activeVersion };
+    }
+
+    const raw = this.configService.get<string>('TOKEN_ENCRYPTION_KEYS');
+    if (!raw) {
+      this.logger.error('TOKEN_ENCRYPTION_KEYS não está definida.');
+      throw new InternalServerErrorException(
+        'A variável de ambiente TOKEN_ENCRYPTION_KEYS não está definida.',
+      );
+    }
+
+    const keys = new Map<string, Buffer>();
+    for (const entry of raw.split(',')) {
+      const [version, secret] = entry.trim().split(':');
+      const key = Buffer.from(secret ?? '', 'base64');
+      if (!/^\d+$/.test(version) || key.length !== KEY_BYTES) {
+        throw new InternalServerErrorException(
+          `Entrada inválida em TOKEN_ENCRYPTION_KEYS: "${version}" (use "versão:chaveBase64" com ${KEY_BYTES} bytes).`,
+        );
+      }
+      keys.set(version, key);
+    }
+
+    const activeVersion =
+      this.configService.get<string>('TOKEN_ENCRYPTION_ACTIVE_KEY') ||
+      [...keys.keys()].sort((a, b) => Number(b) - Number(a))[0];
+    if (!keys.has(activeVersion)) {
+      throw new InternalServerErrorException(
+        `TOKEN_ENCRYPTION_ACTIVE_KEY="${activeVersion}" não existe em TOKEN_ENCRYPTION_KEYS.`,
+      );
+    }
+
+    this.keys = keys;
+    this.activeVersion = activeVersion;
+    this.logger.log(
+      `${keys.size} chave(s) de criptografia carregada(s); ativa: v${activeVersion}.`,
+    );
+    return { keys, activeVersion };
+  }
+}
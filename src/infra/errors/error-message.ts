@@ -0,0 +1,9 @@
+// src/infra/errors/error-message.ts
+
+/**
+ * Mensagem de um erro capturado em `catch`, cujo tipo é desconhecido
+ * (qualquer valor pode ser lançado).
+ */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
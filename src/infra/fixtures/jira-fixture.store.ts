@@ -0,0 +1,222 @@
+// src/infra/fixtures/jira-fixture.store.ts
+
+import {
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+
+/**
+ * Origem dos resultados de busca do Jira (JIRA_DATA_SOURCE):
+ *  - live:     chama a API do Jira (padrão)
+ *  - fixtures: lê respostas gravadas em JIRA_FIXTURES_DIR, sem credenciais
+ *              nem chamadas à Atlassian (sandbox local)
+ *  - record:   chama a API normalmente e grava cada resposta (anonimizada)
+ *              em JIRA_FIXTURES_DIR
+ */
+export type JiraDataSource = 'live' | 'fixtures' | 'record';
+
+const DATA_SOURCES: JiraDataSource[] = ['live', 'fixtures', 'record'];
+const DEFAULT_FIXTURES_DIR = 'fixtures/jira';
+const DEFAULT_FIXTURE = 'default.json';
+const REDACTED_HOST = 'https://jira.example.invalid';
+const REDACTED_EMAIL = 'redacted@example.invalid';
+const URL_ORIGIN = /https?:\/\/[^/\s"'?#]+/g;
+const EMAIL = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+
+/**
+ * Arquivo de fixture gravado no modo record.
+ */
+interface RecordedSearch {
+  jql: string;
+  recordedAt: string;
+  response: Record<string, any>;
+}
+
+/**
+ * Respostas gravadas da busca do Jira, uma por JQL:
+ * `search-<sha256 do JQL, 16 hex>.json`, no formato { jql, recordedAt, response }.
+ * Sem arquivo para o JQL, vale `default.json`, que também pode ser uma página
+ * crua de /rest/api/3/search (ex.: uma resposta copiada do navegador).
+ *
+ * Na gravação, os dados pessoais são anonimizados: usuários (accountId, key,
+ * name, displayName) e menções em ADF viram pseudônimos estáveis, avatares
+ * são removidos, e-mails em qualquer texto (inclusive no JQL gravado) viram
+ * redacted@example.invalid e toda URL passa a apontar para jira.example.invalid.
+ */
+@Injectable()
+export class JiraFixtureStore implements OnModuleInit {
+  private readonly logger = new Logger(JiraFixtureStore.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  onModuleInit(): void {
+    const mode = this.getMode();
+    if (mode !== 'live') {
+      this.logger.warn(
+        `JIRA_DATA_SOURCE=${mode}: buscas ${mode === 'fixtures' ? 'lidas de' : 'gravadas em'} ${this.getDir()}.`,
+      );
+    }
+  }
+
+  getMode(): JiraDataSource {
+    const raw = (this.configService.get<string>('JIRA_DATA_SOURCE') || 'live')
+      .trim()
+      .toLowerCase() as JiraDataSource;
+    if (!DATA_SOURCES.includes(raw)) {
+      this.logger.warn(
+        `JIRA_DATA_SOURCE="${raw}" inválido (use ${DATA_SOURCES.join(', ')}); usando live.`,
+      );
+      return 'live';
+    }
+    return raw;
+  }
+
+  /**
+   * Indica se as buscas vêm das fixtures (sem chamar o Jira).
+   */
+  isOffline(): boolean {
+    return this.getMode() === 'fixtures';
+  }
+
+  /**
+   * Resposta gravada para o JQL ou, na falta dela, a fixture padrão.
+   *
+   * @throws InternalServerErrorException se nenhuma das duas existir.
+   */
+  async loadSearch(jql: string): Promise<Record<string, any>> {
+    const candidates = [
+      this.fileFor(jql),
+      join(this.getDir(), DEFAULT_FIXTURE),
+    ];
+    for (const file of candidates) {
+      const content = await this.readJson(file);
+      if (content) {
+        this.logger.log(`Fixture ${file} usada para JQL="${jql}".`);
+        return 'response' in content
+          ? (content as RecordedSearch).response
+          : content;
+      }
+    }
+    this.logger.error(`Nenhuma fixture para JQL="${jql}".`);
+    throw new InternalServerErrorException(
+      `Nenhuma fixture para JQL="${jql}" em ${this.getDir()} (esperado ${candidates.join(' ou ')}).`,
+    );
+  }
+
+  /**
+   * Grava a resposta (anonimizada) da busca para o JQL.
+   */
+  async saveSearch(jql: string, response: Record<string, any>): Promise<void> {
+    const file = this.fileFor(jql);
+    const recorded: RecordedSearch = {
+      jql: this.redact(jql) as string,
+      recordedAt: new Date().toISOString(),
+      response: this.redact(response) as Record<string, any>,
+    };
+    await mkdir(this.getDir(), { recursive: true });
+    await writeFile(file, `${JSON.stringify(recorded, null, 2)}\n`, 'utf8');
+    this.logger.log(`Resposta do JQL="${jql}" gravada em ${file}.`);
+  }
+
+  private getDir(): string {
+    return resolve(
+      this.configService.get<string>('JIRA_FIXTURES_DIR') ||
+        DEFAULT_FIXTURES_DIR,
+    );
+  }
+
+  private fileFor(jql: string): string {
+    const hash = createHash('sha256')
+      .update(jql.trim())
+      .digest('hex')
+      .slice(0, 16);
+    return join(this.getDir(), `search-${hash}.json`);
+  }
+
+  private async readJson(file: string): Promise<Record<string, any> | null> {
+    let text: string;
+    try {
+      text = await readFile(file, 'utf8');
+    } catch {
+      return null;
+    }
+    return JSON.parse(text) as Record<string, any>;
+  }
+
+  /**
+   * Copia o JSON anonimizando usuários, menções, e-mails, avatares e URLs.
+   */
+  private redact(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redact(item));
+    }
+    if (typeof value === 'string') {
+      return value
+        .replace(EMAIL, REDACTED_EMAIL)
+        .replace(URL_ORIGIN, REDACTED_HOST);
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    const source = value as Record<string, unknown>;
+    if (source.type === 'mention') {
+      return this.redactMention(source);
+    }
+    const isUser =
+      typeof source.accountId === 'string' ||
+      typeof source.emailAddress === 'string' ||
+      (typeof source.self === 'string' && source.self.includes('/user?'));
+    const alias = isUser
+      ? `user-${this.pseudonym(String(source.accountId ?? source.key ?? source.name ?? source.displayName))}`
+      : '';
+
+    const result: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(source)) {
+      if (key === 'emailAddress' || key === 'avatarUrls') {
+        continue;
+      }
+      if (isUser && ['accountId', 'key', 'name'].includes(key)) {
+        result[key] = alias;
+      } else if (isUser && key === 'displayName') {
+        result[key] = `Usuário ${alias.slice(5)}`;
+      } else if (isUser && key === 'self' && typeof field === 'string') {
+        // Links de usuário carregam o accountId na query string
+        result[key] = `${REDACTED_HOST}/rest/api/3/user?accountId=${alias}`;
+      } else {
+        result[key] = this.redact(field);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Nó de menção do ADF ({ type: "mention", attrs: { id, text } }): o id é o
+   * accountId e o text o nome exibido, trocados pelo mesmo pseudônimo dos
+   * campos de usuário.
+   */
+  private redactMention(
+    node: Record<string, unknown>,
+  ): Record<string, unknown> {
+    const attrs = (node.attrs ?? {}) as Record<string, unknown>;
+    const alias = `user-${this.pseudonym(String(attrs.id ?? attrs.text))}`;
+    return {
+      ...node,
+      attrs: {
+        ...(this.redact(attrs) as Record<string, unknown>),
+        id: alias,
+        text: `@Usuário ${alias.slice(5)}`,
+      },
+    };
+  }
+
+  private pseudonym(value: string): string {
+    return createHash('sha256').update(value).digest('hex').slice(0, 8);
+  }
+}
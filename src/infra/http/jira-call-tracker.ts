@@ -0,0 +1,43 @@
+// src/infra/http/jira-call-tracker.ts
+
+import { Injectable } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Contadores de uma execução acompanhada pelo JiraCallTracker.
+ *
+ * @property jiraCalls      Requisições HTTP enviadas (cada tentativa conta).
+ * @property tokenRefreshed Se o accessToken foi renovado.
+ */
+export interface JiraCallStats {
+  jiraCalls: number;
+  tokenRefreshed: boolean;
+}
+
+/**
+ * Conta as chamadas ao Jira feitas dentro de uma execução (ex.: o poll de um
+ * monitor) sem passar os contadores por parâmetro: o contexto acompanha o
+ * fluxo assíncrono via AsyncLocalStorage. Fora de `track`, os registros são
+ * ignorados.
+ */
+@Injectable()
+export class JiraCallTracker {
+  private readonly storage = new AsyncLocalStorage<JiraCallStats>();
+
+  /**
+   * Executa `fn` acumulando em `stats` as chamadas feitas por ela.
+   */
+  track<T>(stats: JiraCallStats, fn: () => Promise<T>): Promise<T> {
+    return this.storage.run(stats, fn);
+  }
+
+  recordCall(): void {
+    const stats = this.storage.getStore();
+    if (stats) stats.jiraCalls++;
+  }
+
+  recordTokenRefresh(): void {
+    const stats = this.storage.getStore();
+    if (stats) stats.tokenRefreshed = true;
+  }
+}
@@ -0,0 +1,198 @@
+// src/infra/http/jira-http.client.spec.ts
+
+import { Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { AxiosError, AxiosResponse } from 'axios';
+import { Observable, of, throwError } from 'rxjs';
+
+import {
+  JiraBadRequestError,
+  JiraRateLimitedError,
+  JiraUnavailableError,
+} from '@domain/errors/jira-api.errors';
+import { JiraCallTracker } from './jira-call-tracker';
+import { JiraHttpClient } from './jira-http.client';
+
+const SEARCH_URL =
+  'https://api.atlassian.com/ex/jira/cloud-1/rest/api/3/search/jql?jql=x';
+const TOKEN_URL = 'https://auth.atlassian.com/oauth/token';
+
+function ok(data: unknown): Observable<AxiosResponse> {
+  return of({ data, status: 200 } as AxiosResponse);
+}
+
+function httpError(
+  status: number | null,
+  headers: Record<string, string> = {},
+  data: unknown = undefined,
+): Observable<never> {
+  const response =
+    status === null
+      ? undefined
+      : ({ status, headers, data } as unknown as AxiosResponse);
+  return throwError(
+    () =>
+      new AxiosError(
+        `HTTP ${status ?? 'timeout'}`,
+        'ERR',
+        undefined,
+        undefined,
+        response,
+      ),
+  );
+}
+
+describe('JiraHttpClient', () => {
+  let get: jest.Mock<Observable<AxiosResponse>, [string]>;
+  let post: jest.Mock<Observable<AxiosResponse>, [string, unknown]>;
+  let sleep: jest.SpyInstance<Promise<void>, [number]>;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(() => {
+    get = jest.fn<Observable<AxiosResponse>, [string]>(() => ok({}));
+    post = jest.fn<Observable<AxiosResponse>, [string, unknown]>(() => ok({}));
+    // Jitter no máximo: o backoff fica exatamente base * 2^(tentativa-1)
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function clientWith(env: Record<string, string> = {}): JiraHttpClient {
+    const client = new JiraHttpClient(
+      { get, post } as unknown as HttpService,
+      new ConfigService({
+        JIRA_HTTP_MAX_RETRIES: '2',
+        JIRA_HTTP_RETRY_BASE_MS: '100',
+        ...env,
+      }),
+      new JiraCallTracker(),
+    );
+    sleep = jest
+      .spyOn(
+        client as unknown as { sleep: (ms: number) => Promise<void> },
+        'sleep',
+      )
+      .mockResolvedValue();
+    return client;
+  }
+
+  describe('falhas transitórias', () => {
+    it('repete 5xx e timeout no GET com backoff exponencial', async () => {
+      get
+        .mockReturnValueOnce(httpError(503))
+        .mockReturnValueOnce(httpError(null))
+        .mockReturnValueOnce(ok({ total: 1 }));
+
+      await expect(
+        clientWith().get(SEARCH_URL, { headers: {} }),
+      ).resolves.toEqual({ total: 1 });
+      expect(get).toHaveBeenCalledTimes(3);
+      expect(sleep.mock.calls).toEqual([[100], [200]]);
+    });
+
+    it('desiste após JIRA_HTTP_MAX_RETRIES novas tentativas', async () => {
+      get.mockReturnValue(httpError(500));
+
+      await expect(
+        clientWith().get(SEARCH_URL, { headers: {} }),
+      ).rejects.toThrow(JiraUnavailableError);
+      expect(get).toHaveBeenCalledTimes(3);
+    });
+
+    it('não repete 5xx no POST', async () => {
+      post.mockReturnValue(httpError(502));
+
+      await expect(
+        clientWith().post(TOKEN_URL, {}, { headers: {} }),
+      ).rejects.toThrow(JiraUnavailableError);
+      expect(post).toHaveBeenCalledTimes(1);
+    });
+
+    it('não repete 400 e expõe as mensagens do Jira', async () => {
+      get.mockReturnValue(
+        httpError(400, {}, { errorMessages: ['JQL inválido'] }),
+      );
+
+      const error = await clientWith()
+        .get(SEARCH_URL, { headers: {} })
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(JiraBadRequestError);
+      expect(error).toMatchObject({
+        status: 400,
+        jiraMessages: ['JQL inválido'],
+      });
+      expect(get).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('429', () => {
+    it('aguarda o Retry-After em segundos e repete, inclusive no POST', async () => {
+      post
+        .mockReturnValueOnce(httpError(429, { 'retry-after': '2' }))
+        .mockReturnValueOnce(ok({ access_token: 'novo' }));
+
+      await expect(
+        clientWith().post(TOKEN_URL, {}, { headers: {} }),
+      ).resolves.toEqual({ access_token: 'novo' });
+      expect(post).toHaveBeenCalledTimes(2);
+      expect(sleep.mock.calls[0]).toEqual([2000]);
+    });
+
+    it('aceita Retry-After como data HTTP', async () => {
+      const retryAt = new Date(Date.now() + 5000).toUTCString();
+      get
+        .mockReturnValueOnce(httpError(429, { 'retry-after': retryAt }))
+        .mockReturnValueOnce(ok({}));
+
+      await clientWith().get(SEARCH_URL, { headers: {} });
+
+      const [waitedMs] = sleep.mock.calls[0];
+      expect(waitedMs).toBeGreaterThan(3000);
+      expect(waitedMs).toBeLessThanOrEqual(5000);
+    });
+
+    it('falha sem repetir quando o Retry-After passa do limite e bloqueia o site', async () => {
+      const client = clientWith({ JIRA_HTTP_MAX_RETRY_AFTER_MS: '10000' });
+      get.mockReturnValueOnce(httpError(429, { 'retry-after': '120' }));
+
+      const error = await client
+        .get(SEARCH_URL, { headers: {} })
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(JiraRateLimitedError);
+      expect(error).toMatchObject({ status: 429, retryAfterMs: 120000 });
+      expect(sleep).not.toHaveBeenCalled();
+
+      // Mesmo site: falha sem chamar o Jira; outro site segue liberado
+      await expect(client.get(SEARCH_URL, { headers: {} })).rejects.toThrow(
+        JiraRateLimitedError,
+      );
+      await client.get(
+        'https://api.atlassian.com/ex/jira/cloud-2/rest/api/3/myself',
+        { headers: {} },
+      );
+      expect(get).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it('recusa chamadas além do orçamento por minuto do site', async () => {
+    const client = clientWith({ JIRA_REQUESTS_PER_MINUTE: '2' });
+
+    await client.get(SEARCH_URL, { headers: {} });
+    await client.get(SEARCH_URL, { headers: {} });
+    const error = await client
+      .get(SEARCH_URL, { headers: {} })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(JiraRateLimitedError);
+    expect(error).toMatchObject({ status: null });
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+});
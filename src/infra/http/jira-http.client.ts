@@ -0,0 +1,364 @@
+// src/infra/http/jira-http.client.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { AxiosError } from 'axios';
+
+import {
+  JiraApiError,
+  JiraAuthExpiredError,
+  JiraBadRequestError,
+  JiraForbiddenError,
+  JiraRateLimitedError,
+  JiraUnavailableError,
+} from '@domain/errors/jira-api.errors';
+import { JiraCallTracker } from './jira-call-tracker';
+
+/**
+ * Opções de uma chamada ao Jira.
+ *
+ * @property headers Headers de autenticação e de conteúdo.
+ * @property retry   Repetir também respostas 5xx, timeouts e falhas de rede
+ *                   (padrão: true no GET, false no POST, que pode não ser
+ *                   idempotente, como a troca de tokens OAuth). O 429 é
+ *                   sempre repetido, pois o Jira não processou a requisição.
+ * @property timeoutMs Timeout desta chamada (padrão: JIRA_HTTP_TIMEOUT_MS).
+ */
+export interface JiraHttpRequestOptions {
+  headers: Record<string, string>;
+  retry?: boolean;
+  timeoutMs?: number;
+}
+
+/**
+ * Requisições enviadas e bloqueio (após um 429) de um site.
+ */
+interface RequestBudget {
+  sentAt: number[];
+  blockedUntil: number;
+}
+
+/**
+ * Cliente HTTP compartilhado para a API do Jira e os endpoints OAuth da
+ * Atlassian. Sobre o HttpService, aplica:
+ *  1) Timeout em cada chamada (JIRA_HTTP_TIMEOUT_MS).
+ *  2) Novas tentativas para 5xx, timeout e falhas de rede, com backoff
+ *     exponencial com jitter (JIRA_HTTP_MAX_RETRIES, JIRA_HTTP_RETRY_BASE_MS).
+ *  3) No 429, espera o tempo de Retry-After antes de repetir, desde que não
+ *     passe de JIRA_HTTP_MAX_RETRY_AFTER_MS; as demais chamadas ao mesmo site
+ *     também aguardam esse prazo.
+ *  4) Orçamento de requisições por site (cloudId no gateway
+ *     api.atlassian.com/ex/jira/{cloudId}, host nos demais) em uma janela de
+ *     1 minuto (JIRA_REQUESTS_PER_MINUTE); esgotado, a chamada falha com
+ *     JiraRateLimitedError sem chegar ao Jira.
+ *  5) Falhas definitivas viram erros tipados (ver jira-api.errors).
+ *  6) Cada requisição enviada é contada no JiraCallTracker.
+ */
+@Injectable()
+export class JiraHttpClient {
+  private readonly logger = new Logger(JiraHttpClient.name);
+
+  private readonly DEFAULT_TIMEOUT_MS = 15000;
+  private readonly DEFAULT_MAX_RETRIES = 3;
+  private readonly DEFAULT_RETRY_BASE_MS = 500;
+  private readonly DEFAULT_MAX_RETRY_AFTER_MS = 60000;
+  private readonly DEFAULT_REQUESTS_PER_MINUTE = 300;
+  private readonly BUDGET_WINDOW_MS = 60 * 1000;
+
+  private readonly budgets = new Map<string, RequestBudget>();
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+    private readonly callTracker: JiraCallTracker,
+  ) {}
+
+  async get<T>(url: string, options: JiraHttpRequestOptions): Promise<T> {
+    return this.request<T>('GET', url, undefined, {
+      retry: true,
+      ...options,
+    });
+  }
+
+  async post<T>(
+    url: string,
+    body: unknown,
+    options: JiraHttpRequestOptions,
+  ): Promise<T> {
+    return this.request<T>('POST', url, body, { retry: false, ...options });
+  }
+
+  private async request<T>(
+    method: 'GET' | 'POST',
+    url: string,
+    body: unknown,
+    options: JiraHttpRequestOptions,
+  ): Promise<T> {
+    const timeout =
+      options.timeoutMs ??
+      this.readInt('JIRA_HTTP_TIMEOUT_MS', this.DEFAULT_TIMEOUT_MS);
+    const maxRetries = this.readInt(
+      'JIRA_HTTP_MAX_RETRIES',
+      this.DEFAULT_MAX_RETRIES,
+      0,
+    );
+    const baseDelayMs = this.readInt(
+      'JIRA_HTTP_RETRY_BASE_MS',
+      this.DEFAULT_RETRY_BASE_MS,
+    );
+    const maxRetryAfterMs = this.readInt(
+      'JIRA_HTTP_MAX_RETRY_AFTER_MS',
+      this.DEFAULT_MAX_RETRY_AFTER_MS,
+      0,
+    );
+    const target = url.split('?')[0];
+    const budgetKey = this.budgetKeyOf(url);
+    const config = { headers: options.headers, timeout };
+
+    for (let attempt = 1; ; attempt++) {
+      await this.acquire(budgetKey, target, maxRetryAfterMs);
+      this.callTracker.recordCall();
+      try {
+        const response = await firstValueFrom(
+          method === 'GET'
+            ? this.httpService.get<T>(url, config)
+            : this.httpService.post<T>(url, body, config),
+        );
+        return response.data;
+      } catch (caught) {
+        const error = caught as AxiosError;
+        const status = error.response?.status ?? null;
+        const canRetry = attempt <= maxRetries;
+
+        // 429: respeita o Retry-After (ou o backoff, se o header faltar)
+        if (status === 429) {
+          const retryAfterMs = this.parseRetryAfter(
+            error.response?.headers['retry-after'],
+            this.backoff(baseDelayMs, attempt),
+          );
+          this.budgetOf(budgetKey).blockedUntil = Date.now() + retryAfterMs;
+          if (canRetry && retryAfterMs <= maxRetryAfterMs) {
+            this.logger.warn(
+              `429 em ${method} ${target} (tentativa ${attempt}); aguardando ${retryAfterMs} ms.`,
+            );
+            await this.sleep(retryAfterMs);
+            continue;
+          }
+          throw this.toError(error, target, retryAfterMs);
+        }
+
+        // 5xx, timeout ou rede: repete com backoff se a chamada permitir
+        const transient = status === null || status >= 500;
+        if (transient && options.retry && canRetry) {
+          const delayMs = this.backoff(baseDelayMs, attempt);
+          this.logger.warn(
+            `Falha transitória em ${method} ${target} (tentativa ${attempt}/${maxRetries + 1}): ${error.message}. Nova tentativa em ${delayMs} ms.`,
+          );
+          await this.sleep(delayMs);
+          continue;
+        }
+        throw this.toError(error, target);
+      }
+    }
+  }
+
+  /**
+   * Reserva uma requisição no orçamento do site, aguardando um bloqueio
+   * de 429 em andamento (se for curto o bastante).
+   */
+  private async acquire(
+    key: string,
+    url: string,
+    maxWaitMs: number,
+  ): Promise<void> {
+    const budget = this.budgetOf(key);
+    const blockedMs = budget.blockedUntil - Date.now();
+    if (blockedMs > 0) {
+      if (blockedMs > maxWaitMs) {
+        throw new JiraRateLimitedError(
+          `Limite de requisições do Jira atingido para "${key}"; tente novamente em ${Math.ceil(blockedMs / 1000)} s.`,
+          429,
+          url,
+          blockedMs,
+        );
+      }
+      await this.sleep(blockedMs);
+    }
+
+    const limit = this.readInt(
+      'JIRA_REQUESTS_PER_MINUTE',
+      this.DEFAULT_REQUESTS_PER_MINUTE,
+    );
+    const now = Date.now();
+    budget.sentAt = budget.sentAt.filter(
+      (sentAt) => sentAt > now - this.BUDGET_WINDOW_MS,
+    );
+    if (budget.sentAt.length >= limit) {
+      const retryAfterMs = budget.sentAt[0] + this.BUDGET_WINDOW_MS - now;
+      this.logger.warn(
+        `Orçamento de ${limit} requisições/minuto esgotado para "${key}".`,
+      );
+      throw new JiraRateLimitedError(
+        `Orçamento de ${limit} requisições/minuto ao Jira esgotado para "${key}"; tente novamente em ${Math.ceil(retryAfterMs / 1000)} s.`,
+        null,
+        url,
+        retryAfterMs,
+      );
+    }
+    budget.sentAt.push(now);
+  }
+
+  private budgetOf(key: string): RequestBudget {
+    let budget = this.budgets.get(key);
+    if (!budget) {
+      budget = { sentAt: [], blockedUntil: 0 };
+      this.budgets.set(key, budget);
+    }
+    return budget;
+  }
+
+  /**
+   * cloudId nas chamadas pelo gateway OAuth; host nas demais (Data Center,
+   * API token, endpoints de autenticação).
+   */
+  private budgetKeyOf(url: string): string {
+    const cloudId = /\/ex\/jira\/([^/?]+)/.exec(url)?.[1];
+    if (cloudId) return cloudId;
+    try {
+      return new URL(url).host;
+    } catch {
+      return url;
+    }
+  }
+
+  /**
+   * Converte a falha do axios no erro tipado correspondente ao status.
+   */
+  private toError(
+    error: AxiosError,
+    url: string,
+    retryAfterMs?: number,
+  ): JiraApiError {
+    const status = error.response?.status ?? null;
+    const jiraMessages = this.extractMessages(error.response?.data);
+    const detail = jiraMessages.length
+      ? jiraMessages.join('; ')
+      : error.message;
+
+    switch (status) {
+      case 400:
+        return new JiraBadRequestError(
+          `O Jira recusou a requisição (${url}): ${detail}`,
+          status,
+          url,
+          jiraMessages,
+        );
+      case 401:
+        return new JiraAuthExpiredError(
+          `Autenticação no Jira expirada ou inválida (${url}): ${detail}`,
+          status,
+          url,
+          jiraMessages,
+        );
+      case 403:
+        return new JiraForbiddenError(
+          `Sem permissão no Jira para ${url}: ${detail}`,
+          status,
+          url,
+          jiraMessages,
+        );
+      case 429:
+        return new JiraRateLimitedError(
+          `Limite de requisições do Jira atingido (${url}); tente novamente em ${Math.ceil((retryAfterMs ?? 0) / 1000)} s.`,
+          status,
+          url,
+          retryAfterMs ?? 0,
+          jiraMessages,
+        );
+    }
+    if (status === null || status >= 500) {
+      return new JiraUnavailableError(
+        `Jira indisponível (${url}): ${detail}`,
+        status,
+        url,
+        jiraMessages,
+      );
+    }
+    return new JiraApiError(
+      `Falha ao chamar o Jira (${url}): ${detail}`,
+      status,
+      url,
+      jiraMessages,
+    );
+  }
+
+  /**
+   * Mensagens do corpo de erro: errorMessages/errors (API REST do Jira) ou
+   * error_description (OAuth).
+   */
+  private extractMessages(data: unknown): string[] {
+    if (!data || typeof data !== 'object') return [];
+    const body = data as {
+      errorMessages?: unknown;
+      errors?: unknown;
+      error_description?: unknown;
+      message?: unknown;
+    };
+    const messages: string[] = [];
+    if (Array.isArray(body.errorMessages)) {
+      messages.push(...body.errorMessages.map(String));
+    }
+    if (body.errors && typeof body.errors === 'object') {
+      messages.push(
+        ...Object.entries(body.errors).map(
+          ([field, message]) => `${field}: ${String(message)}`,
+        ),
+      );
+    }
+    if (typeof body.error_description === 'string') {
+      messages.push(body.error_description);
+    }
+    if (typeof body.message === 'string') {
+      messages.push(body.message);
+    }
+    return messages;
+  }
+
+  /**
+   * Retry-After em segundos ou como data HTTP.
+   */
+  private parseRetryAfter(header: unknown, fallbackMs: number): number {
+    const value = typeof header === 'string' ? header.trim() : '';
+    if (/^\d+$/.test(value)) {
+      return Number(value) * 1000;
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? fallbackMs : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Backoff exponencial com jitter: entre 50% e 100% de base * 2^(tentativa-1).
+   */
+  private backoff(baseDelayMs: number, attempt: number): number {
+    return Math.round(
+      baseDelayMs * 2 ** (attempt - 1) * (0.5 + Math.random() / 2),
+    );
+  }
+
+  private readInt(name: string, defaultValue: number, min = 1): number {
+    const raw = this.configService.get<string>(name);
+    const value = Number(raw);
+    return raw !== undefined &&
+      raw !== '' &&
+      Number.isInteger(value) &&
+      value >= min
+      ? value
+      : defaultValue;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,91 @@
+// src/infra/mail/smtp-mailer.service.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createTransport, Transporter } from 'nodemailer';
+import type SMTPTransport from 'nodemailer/lib/smtp-transport';
+
+/**
+ * Mensagem de e-mail com versões HTML e texto puro.
+ */
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Serviço de infraestrutura que envia e-mails via SMTP (nodemailer).
+ * A configuração vem das variáveis SMTP_HOST, SMTP_PORT, SMTP_SECURE,
+ * SMTP_USER, SMTP_PASS e EMAIL_FROM; sem SMTP_HOST o envio fica desativado.
+ *
+ * Para testes locais basta apontar SMTP_HOST/SMTP_PORT para um SMTP catcher
+ * (ex.: MailHog ou Mailpit em localhost:1025).
+ */
+@Injectable()
+export class SmtpMailerService {
+  private readonly logger = new Logger(SmtpMailerService.name);
+  private transporter: Transporter<SMTPTransport.SentMessageInfo> | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Indica se há servidor SMTP configurado.
+   */
+  isEnabled(): boolean {
+    return !!this.configService.get<string>('SMTP_HOST');
+  }
+
+  /**
+   * Envia a mensagem.
+   *
+   * @returns false se o e-mail não foi enviado (SMTP desativado ou sem
+   *          destinatários).
+   */
+  async send(message: MailMessage): Promise<boolean> {
+    if (!this.isEnabled()) {
+      this.logger.warn(
+        `SMTP_HOST não definido; e-mail "${message.subject}" não enviado.`,
+      );
+      return false;
+    }
+    if (message.to.length === 0) {
+      this.logger.warn(
+        `Nenhum destinatário para o e-mail "${message.subject}".`,
+      );
+      return false;
+    }
+
+    const from =
+      this.configService.get<string>('EMAIL_FROM') || 'jira-monitor@localhost';
+    const info = await this.getTransporter().sendMail({
+      from,
+      to: message.to.join(', '),
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+    });
+    this.logger.log(
+      `E-mail "${message.subject}" enviado para ${message.to.length} destinatário(s). messageId=${info.messageId}`,
+    );
+    return true;
+  }
+
+  /**
+   * Cria o transporter na primeira utilização (as variáveis já estão carregadas).
+   */
+  private getTransporter(): Transporter<SMTPTransport.SentMessageInfo> {
+    if (!this.transporter) {
+      const user = this.configService.get<string>('SMTP_USER');
+      const pass = this.configService.get<string>('SMTP_PASS');
+      this.transporter = createTransport({
+        host: this.configService.get<string>('SMTP_HOST'),
+        port: Number(this.configService.get<string>('SMTP_PORT')) || 587,
+        secure: this.configService.get<string>('SMTP_SECURE') === 'true',
+        auth: user ? { user, pass } : undefined,
+      });
+    }
+    return this.transporter;
+  }
+}
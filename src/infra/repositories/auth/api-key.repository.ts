@@ -0,0 +1,55 @@
+// src/infra/repositories/auth/api-key.repository.ts
+
+import { ApiKeyEntity } from '@domain/entities/api-key.entity';
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { FindOptionsWhere, Repository } from 'typeorm';
+
+/**
+ * Repositório responsável pela tabela api_keys.
+ */
+@Injectable()
+export class ApiKeyRepository {
+  private readonly logger = new Logger(ApiKeyRepository.name);
+
+  constructor(
+    @InjectRepository(ApiKeyEntity)
+    private readonly repo: Repository<ApiKeyEntity>,
+  ) {}
+
+  async create(
+    params: Pick<
+      ApiKeyEntity,
+      'name' | 'keyHash' | 'prefix' | 'userId' | 'scopes'
+    >,
+  ): Promise<ApiKeyEntity> {
+    this.logger.log(`create chamado para chave "${params.name}"`);
+    return this.repo.save(this.repo.create(params));
+  }
+
+  /**
+   * Lista as chaves, opcionalmente só as de um usuário.
+   */
+  async findAll(userId?: string): Promise<ApiKeyEntity[]> {
+    const where: FindOptionsWhere<ApiKeyEntity> = userId ? { userId } : {};
+    return this.repo.find({ where, order: { createdAt: 'ASC' } });
+  }
+
+  async findById(id: string): Promise<ApiKeyEntity | null> {
+    return this.repo.findOne({ where: { id } });
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyEntity | null> {
+    return this.repo.findOne({ where: { keyHash } });
+  }
+
+  async revoke(id: string): Promise<void> {
+    this.logger.log(`revoke chamado para id="${id}"`);
+    await this.repo.update({ id }, { revokedAt: new Date() });
+  }
+
+  async touch(id: string): Promise<void> {
+    await this.repo.update({ id }, { lastUsedAt: new Date() });
+  }
+}
@@ -0,0 +1,112 @@
+// src/infra/repositories/jira/issue-snapshot.repository.spec.ts
+
+import { Logger } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+
+import { JiraPollRunEntity } from '@domain/entities/jira-poll-run.entity';
+import { JiraIssueSnapshotEntity } from '@domain/entities/jira-issue-snapshot.entity';
+import { IssueSummaryDto } from '@dtos/jira/issue-summary.dto';
+import { IssueSnapshotRepository } from './issue-snapshot.repository';
+
+function issue(key: string): IssueSummaryDto {
+  return {
+    key,
+    summary: `Issue ${key}`,
+    status: 'Aberto',
+    created: '2026-10-01T00:00:00.000Z',
+    assignee: null,
+    reporter: null,
+    priority: null,
+    timeOpenDays: 1,
+    timeInStatusDays: 1,
+    url: null,
+    slaState: 'ok',
+    slaRule: null,
+  };
+}
+
+describe('IssueSnapshotRepository', () => {
+  let dataSource: DataSource;
+  let snapshotRepo: IssueSnapshotRepository;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      entities: [JiraPollRunEntity, JiraIssueSnapshotEntity],
+      synchronize: true,
+    });
+    await dataSource.initialize();
+    snapshotRepo = new IssueSnapshotRepository(
+      dataSource.getRepository(JiraPollRunEntity),
+    );
+  });
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  async function savePoll(monitorId: string, createdAt: Date, key: string) {
+    const run = await snapshotRepo.saveSnapshot({
+      monitorId,
+      userId: 'user-1',
+      jql: 'project = SUP',
+      total: 1,
+      statusCounts: { Aberto: 1 },
+      truncated: false,
+      issues: [issue(key)],
+    });
+    await dataSource
+      .getRepository(JiraPollRunEntity)
+      .update(run.id, { createdAt });
+    return run;
+  }
+
+  it('retorna o poll mais recente do monitor com as issues', async () => {
+    await savePoll('m1', new Date('2026-10-01T10:00:00Z'), 'SUP-1');
+    await savePoll('m1', new Date('2026-10-01T10:01:00Z'), 'SUP-2');
+
+    const latest = await snapshotRepo.findLatestRun('m1');
+
+    expect(latest?.issues.map((snapshot) => snapshot.issueKey)).toEqual([
+      'SUP-2',
+    ]);
+    await expect(snapshotRepo.findLatestRun('m2')).resolves.toBeNull();
+  });
+
+  it('mantém só os polls mais recentes de cada monitor', async () => {
+    for (let minute = 0; minute < 5; minute++) {
+      await savePoll(
+        'm1',
+        new Date(`2026-10-01T10:0${minute}:00Z`),
+        `SUP-${minute}`,
+      );
+    }
+    await savePoll('m2', new Date('2026-09-01T10:00:00Z'), 'OPS-1');
+
+    await expect(snapshotRepo.pruneRuns('m1', 2)).resolves.toBe(3);
+
+    const runs = await dataSource.getRepository(JiraPollRunEntity).find({
+      relations: { issues: true },
+      order: { createdAt: 'ASC' },
+    });
+    expect(runs.map((run) => [run.monitorId, run.issues[0].issueKey])).toEqual([
+      ['m2', 'OPS-1'],
+      ['m1', 'SUP-3'],
+      ['m1', 'SUP-4'],
+    ]);
+    await expect(
+      dataSource.getRepository(JiraIssueSnapshotEntity).count(),
+    ).resolves.toBe(3);
+  });
+
+  it('não remove nada dentro do limite', async () => {
+    await savePoll('m1', new Date('2026-10-01T10:00:00Z'), 'SUP-1');
+
+    await expect(snapshotRepo.pruneRuns('m1', 2)).resolves.toBe(0);
+  });
+});
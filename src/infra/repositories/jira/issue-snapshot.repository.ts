@@ -0,0 +1,129 @@
+// src/infra/repositories/jira/issue-snapshot.repository.ts
+
+import { JiraPollRunEntity } from '@domain/entities/jira-poll-run.entity';
+import { JiraIssueSnapshotEntity } from '@domain/entities/jira-issue-snapshot.entity';
+import { IssueSummaryDto } from '@dtos/jira/issue-summary.dto';
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { In, Repository } from 'typeorm';
+
+/**
+ * Repositório responsável pelo histórico de polls (tabelas jira_poll_runs e
+ * jira_issue_snapshots). Aqui concentramos:
+ *   - gravação de um poll com todas as suas issues
+ *   - busca do último poll conhecido de um monitor
+ *   - retenção: remoção dos polls mais antigos de cada monitor
+ */
+@Injectable()
+export class IssueSnapshotRepository {
+  private readonly logger = new Logger(IssueSnapshotRepository.name);
+  /**
+   * Quantidade de polls removidos por comando DELETE (limite de parâmetros
+   * do SQLite).
+   */
+  private readonly DELETE_BATCH_SIZE = 500;
+
+  constructor(
+    @InjectRepository(JiraPollRunEntity)
+    private readonly runRepo: Repository<JiraPollRunEntity>,
+  ) {}
+
+  /**
+   * Persiste um poll e uma linha por issue processada, em uma única operação
+   * (o cascade da relação grava as issues junto com o poll).
+   *
+   * @param params.monitorId    Monitor que originou o poll.
+   * @param params.userId       Identificador das credenciais usadas no poll.
+   * @param params.jql          Consulta JQL executada.
+   * @param params.total        Total de issues após filtro.
+   * @param params.statusCounts Contagem por status.
+   * @param params.truncated    Se a busca atingiu o limite de issues.
+   * @param params.issues       Issues resumidas pelo ProcessIssuesUseCase.
+   *
+   * @returns O poll salvo, com as issues.
+   */
+  async saveSnapshot(params: {
+    monitorId: string;
+    userId: string;
+    jql: string;
+    total: number;
+    statusCounts: Record<string, number>;
+    truncated: boolean;
+    issues: IssueSummaryDto[];
+  }): Promise<JiraPollRunEntity> {
+    const { monitorId, userId, jql, total, statusCounts, truncated, issues } =
+      params;
+    this.logger.log(
+      `saveSnapshot chamado para userId="${userId}" com ${issues.length} issues`,
+    );
+
+    const run = this.runRepo.create({
+      monitorId,
+      userId,
+      jql,
+      total,
+      statusCounts,
+      truncated,
+      issues: issues.map((issue) =>
+        this.runRepo.manager.create(JiraIssueSnapshotEntity, {
+          issueKey: issue.key,
+          summary: issue.summary,
+          status: issue.status,
+          assignee: issue.assignee,
+          priority: issue.priority,
+          timeOpenDays: issue.timeOpenDays,
+          url: issue.url,
+        }),
+      ),
+    });
+    const saved = await this.runRepo.save(run);
+    this.logger.log(`Snapshot ${saved.id} persistido para userId="${userId}".`);
+    return saved;
+  }
+
+  /**
+   * Busca o poll mais recente (com as issues) de um monitor.
+   *
+   * @returns O poll encontrado ou null se ainda não houver histórico.
+   */
+  async findLatestRun(monitorId: string): Promise<JiraPollRunEntity | null> {
+    this.logger.log(`findLatestRun chamado para monitorId="${monitorId}"`);
+    return this.runRepo.findOne({
+      where: { monitorId },
+      relations: { issues: true },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Remove os polls de um monitor além dos `keep` mais recentes, junto com
+   * as issues de cada um.
+   *
+   * @returns Quantidade de polls removidos.
+   */
+  async pruneRuns(monitorId: string, keep: number): Promise<number> {
+    const stale = await this.runRepo.find({
+      select: { id: true },
+      where: { monitorId },
+      order: { createdAt: 'DESC' },
+      skip: keep,
+    });
+    const ids = stale.map((run) => run.id);
+    for (let i = 0; i < ids.length; i += this.DELETE_BATCH_SIZE) {
+      const batch = ids.slice(i, i + this.DELETE_BATCH_SIZE);
+      await this.runRepo.manager.transaction(async (manager) => {
+        await manager.delete(JiraIssueSnapshotEntity, {
+          pollRun: { id: In(batch) },
+        });
+        await manager.delete(JiraPollRunEntity, { id: In(batch) });
+      });
+    }
+    if (ids.length > 0) {
+      this.logger.log(
+        `${ids.length} poll(s) antigo(s) removido(s) do monitorId="${monitorId}".`,
+      );
+    }
+    return ids.length;
+  }
+}
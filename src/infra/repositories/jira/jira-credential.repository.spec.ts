@@ -0,0 +1,122 @@
+// src/infra/repositories/jira/jira-credential.repository.spec.ts
+
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+
+import { JiraCredentialEntity } from '@domain/entities/jira-credential.entity';
+import { TokenCipherService } from '@infra/crypto/token-cipher.service';
+import { JiraCredentialRepository } from './jira-credential.repository';
+
+const KEY_1 = `1:${Buffer.alloc(32, 1).toString('base64')}`;
+const KEY_2 = `2:${Buffer.alloc(32, 2).toString('base64')}`;
+
+describe('JiraCredentialRepository', () => {
+  let dataSource: DataSource;
+  let credentialRepo: JiraCredentialRepository;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      entities: [JiraCredentialEntity],
+      synchronize: true,
+    });
+    await dataSource.initialize();
+    credentialRepo = new JiraCredentialRepository(
+      dataSource.getRepository(JiraCredentialEntity),
+      new TokenCipherService(
+        new ConfigService({ TOKEN_ENCRYPTION_KEYS: KEY_1 }),
+      ),
+    );
+  });
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  function saveToken(userId: string): Promise<JiraCredentialEntity> {
+    return credentialRepo.upsertTokenCredentials({
+      userId,
+      authType: 'pat',
+      deployment: 'datacenter',
+      baseUrl: 'https://jira.example.com',
+      email: null,
+      token: `token-${userId}`,
+    });
+  }
+
+  describe('falhas de renovação', () => {
+    it('soma as falhas seguidas e zera na renovação bem-sucedida', async () => {
+      await saveToken('ana');
+
+      await credentialRepo.markRefreshFailed('ana', 'timeout');
+      await credentialRepo.markRefreshFailed('ana', 'timeout de novo');
+      expect(await credentialRepo.findByUserId('ana')).toMatchObject({
+        refreshFailureCount: 2,
+        refreshError: 'timeout de novo',
+        status: 'active',
+      });
+
+      await credentialRepo.markReauthRequired('ana', 'invalid_grant');
+      expect(await credentialRepo.findByUserId('ana')).toMatchObject({
+        refreshFailureCount: 3,
+        status: 'reauth_required',
+      });
+
+      await credentialRepo.updateAccessToken({
+        userId: 'ana',
+        newAccessToken: 'novo',
+        newExpiresAt: new Date(Date.now() + 3600_000),
+      });
+      expect(await credentialRepo.findByUserId('ana')).toMatchObject({
+        refreshFailureCount: 0,
+        refreshError: null,
+        accessToken: 'novo',
+      });
+    });
+
+    it('altera só a credencial do userId informado', async () => {
+      await saveToken('ana');
+      await saveToken('bia');
+
+      await credentialRepo.markRefreshFailed('ana', 'timeout');
+
+      expect(await credentialRepo.findByUserId('bia')).toMatchObject({
+        refreshFailureCount: 0,
+        refreshFailedAt: null,
+      });
+    });
+  });
+
+  describe('findAllWithoutTokens', () => {
+    it('lista sem decifrar, mesmo com token de chave desconhecida', async () => {
+      await saveToken('ana');
+      await saveToken('bia');
+      // Token cifrado com uma chave que não está mais em TOKEN_ENCRYPTION_KEYS
+      const foreign = new TokenCipherService(
+        new ConfigService({ TOKEN_ENCRYPTION_KEYS: KEY_2 }),
+      ).encrypt('outro');
+      await dataSource
+        .getRepository(JiraCredentialEntity)
+        .update({ userId: 'bia' }, { accessToken: foreign });
+
+      await expect(credentialRepo.findAll()).rejects.toThrow();
+      const creds = await credentialRepo.findAllWithoutTokens();
+
+      expect(creds.map((cred) => cred.userId)).toEqual(['ana', 'bia']);
+      expect(creds[0]).toMatchObject({
+        authType: 'pat',
+        deployment: 'datacenter',
+        baseUrl: 'https://jira.example.com',
+        status: 'active',
+      });
+      expect(creds[0].accessToken).toBeUndefined();
+      expect(creds[0].refreshToken).toBeUndefined();
+    });
+  });
+});
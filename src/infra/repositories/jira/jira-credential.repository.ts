@@ -1,10 +1,15 @@
 // src/infra/repositories/jira-credential.repository.ts
 
-import { JiraCredentialEntity } from '@domain/entities/jira-credential.entity';
+import {
+  JiraAuthType,
+  JiraCredentialEntity,
+  JiraDeployment,
+} from '@domain/entities/jira-credential.entity';
 import { Injectable, Logger } from '@nestjs/common'; // ▶️ import Logger
 import { InjectRepository } from '@nestjs/typeorm';
+import { TokenCipherService } from '@infra/crypto/token-cipher.service';
 
-import { Repository, UpdateResult } from 'typeorm';
+import { IsNull, LessThanOrEqual, Repository, UpdateResult } from 'typeorm';
 
 /**
  * Repositório responsável por todas as operações de CRUD
@@ -12,7 +17,12 @@ import { Repository, UpdateResult } from 'typeorm';
  *   - criação ou atualização de credenciais (upsert)
  *   - busca de credenciais por userId
  *   - atualização parcial de tokens (accessToken ou refreshToken)
+ *   - registro de falhas de renovação do token
  *   - remoção de credenciais
+ *
+ * accessToken e refreshToken são cifrados (TokenCipherService) antes de irem
+ * para o banco e decifrados na leitura: quem usa o repositório sempre recebe
+ * os tokens em texto puro.
  */
 @Injectable()
 export class JiraCredentialRepository {
@@ -22,13 +32,13 @@ export class JiraCredentialRepository {
     // Injetamos o repositório TypeORM para a entidade JiraCredentialEntity.
     @InjectRepository(JiraCredentialEntity)
     private readonly repo: Repository<JiraCredentialEntity>,
+    private readonly cipher: TokenCipherService,
   ) {}
 
   /**
    * Cria um novo registro de credenciais ou atualiza o existente para um dado userId.
    *
-   * @param params.userId       Identificador do usuário/instalação (pode ser "default" se
-   *                            seu sistema não tiver múltiplos usuários).
+   * @param params.userId       Identificador do usuário (accountId Atlassian, obtido em GET /me).
    * @param params.cloudId      O cloudId retornado pelo Jira (accessible-resources[0].id).
    * @param params.accessToken  O accessToken (Bearer) atual para chamar APIs do Jira.
    * @param params.refreshToken O refreshToken para renovar o accessToken quando expirar.
@@ -53,15 +63,23 @@ export class JiraCredentialRepository {
         `Credencial existente encontrada para userId="${userId}". Atualizando campos.`,
       ); // ▶️ log
       // 2a) Se já existe, atualiza apenas os campos relacionados a tokens e expiresAt.
+      existing.authType = 'oauth';
+      existing.deployment = 'cloud';
+      existing.baseUrl = null;
+      existing.email = null;
       existing.cloudId = cloudId;
-      existing.accessToken = accessToken;
-      existing.refreshToken = refreshToken;
+      existing.accessToken = this.cipher.encrypt(accessToken);
+      existing.refreshToken = this.cipher.encrypt(refreshToken);
       existing.expiresAt = expiresAt;
+      existing.refreshFailedAt = null;
+      existing.refreshError = null;
+      existing.refreshFailureCount = 0;
+      existing.status = 'active';
       const saved = await this.repo.save(existing);
       this.logger.log(
         `Credenciais atualizadas no banco para userId="${userId}".`,
       ); // ▶️ log de sucesso
-      return saved;
+      return this.decryptTokens(saved);
     }
 
     this.logger.log(
@@ -70,14 +88,60 @@ export class JiraCredentialRepository {
     // 2b) Se não existe, cria um novo registro com todos os dados.
     const newCred = this.repo.create({
       userId,
+      authType: 'oauth',
+      deployment: 'cloud',
       cloudId,
-      accessToken,
-      refreshToken,
+      accessToken: this.cipher.encrypt(accessToken),
+      refreshToken: this.cipher.encrypt(refreshToken),
       expiresAt,
     });
     const savedNew = await this.repo.save(newCred);
     this.logger.log(`Nova credencial persistida para userId="${userId}".`); // ▶️ log de sucesso
-    return savedNew;
+    return this.decryptTokens(savedNew);
+  }
+
+  /**
+   * Cria ou substitui a credencial de um userId por um API token ou PAT
+   * (sem refresh nem expiração; o token fica em accessToken).
+   *
+   * @param params.deployment Jira Cloud ou Data Center (define a versão da API).
+   * @param params.email      E-mail da conta (obrigatório para api_token).
+   */
+  async upsertTokenCredentials(params: {
+    userId: string;
+    authType: Exclude<JiraAuthType, 'oauth'>;
+    deployment: JiraDeployment;
+    baseUrl: string;
+    email: string | null;
+    token: string;
+  }): Promise<JiraCredentialEntity> {
+    const { userId, authType, deployment, baseUrl, email, token } = params;
+    this.logger.log(
+      `upsertTokenCredentials chamado para userId="${userId}" (${authType})`,
+    );
+    const existing = await this.repo.findOne({ where: { userId } });
+    const saved = await this.repo.save(
+      this.repo.create({
+        ...existing,
+        userId,
+        authType,
+        deployment,
+        baseUrl,
+        email,
+        cloudId: '',
+        accessToken: this.cipher.encrypt(token),
+        refreshToken: this.cipher.encrypt(''),
+        expiresAt: null,
+        refreshFailedAt: null,
+        refreshError: null,
+        refreshFailureCount: 0,
+        status: 'active',
+      }),
+    );
+    this.logger.log(
+      `Credencial ${authType} persistida para userId="${userId}".`,
+    );
+    return this.decryptTokens(saved);
   }
 
   /**
@@ -96,7 +160,68 @@ export class JiraCredentialRepository {
         `Nenhuma credencial encontrada para userId="${userId}".`,
       ); // ▶️ log de aviso
     }
-    return result;
+    return result && this.decryptTokens(result);
+  }
+
+  /**
+   * Lista as credenciais de todos os usuários conectados.
+   */
+  async findAll(): Promise<JiraCredentialEntity[]> {
+    this.logger.log('findAll chamado'); // ▶️ log de entrada
+    const creds = await this.repo.find({ order: { createdAt: 'ASC' } });
+    return creds.map((cred) => this.decryptTokens(cred));
+  }
+
+  /**
+   * Lista as credenciais sem os tokens (accessToken e refreshToken ficam
+   * undefined), para relatórios que não chamam o Jira autenticado, como o
+   * /health: nada é decifrado, então uma linha com token ilegível (chave
+   * removida de TOKEN_ENCRYPTION_KEYS, por exemplo) não derruba a consulta.
+   */
+  async findAllWithoutTokens(): Promise<JiraCredentialEntity[]> {
+    this.logger.log('findAllWithoutTokens chamado'); // ▶️ log de entrada
+    return this.repo.find({
+      select: {
+        id: true,
+        userId: true,
+        authType: true,
+        deployment: true,
+        baseUrl: true,
+        email: true,
+        cloudId: true,
+        expiresAt: true,
+        refreshFailedAt: true,
+        refreshError: true,
+        refreshFailureCount: true,
+        lastRefreshedAt: true,
+        status: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Credenciais OAuth ativas cujo token expira até `limit` (ou sem expiração
+   * registrada), da que expira primeiro para a última.
+   */
+  async findOAuthExpiringBefore(limit: Date): Promise<JiraCredentialEntity[]> {
+    this.logger.log(
+      `findOAuthExpiringBefore chamado (limite ${limit.toISOString()})`,
+    );
+    const creds = await this.repo.find({
+      where: [
+        {
+          authType: 'oauth',
+          status: 'active',
+          expiresAt: LessThanOrEqual(limit),
+        },
+        { authType: 'oauth', status: 'active', expiresAt: IsNull() },
+      ],
+      order: { expiresAt: 'ASC' },
+    });
+    return creds.map((cred) => this.decryptTokens(cred));
   }
 
   /**
@@ -121,14 +246,18 @@ export class JiraCredentialRepository {
 
     // Montamos um objeto parcial apenas com as colunas que mudam.
     const updateData: Partial<JiraCredentialEntity> = {
-      accessToken: newAccessToken,
+      accessToken: this.cipher.encrypt(newAccessToken),
       expiresAt: newExpiresAt,
+      refreshFailedAt: null,
+      refreshError: null,
+      refreshFailureCount: 0,
+      lastRefreshedAt: new Date(),
     };
-    this.logger.debug(`Dados para update: ${JSON.stringify(updateData)}`); // ▶️ log debug
+    this.logger.debug(`Novo expiresAt: ${newExpiresAt.toISOString()}`); // ▶️ log debug
 
     // Se veio um novo refreshToken do Jira, atualizamos também.
     if (newRefreshToken) {
-      updateData.refreshToken = newRefreshToken;
+      updateData.refreshToken = this.cipher.encrypt(newRefreshToken);
       this.logger.debug(
         `Novo refreshToken incluso no update para userId="${userId}"`,
       ); // ▶️ log debug
@@ -142,6 +271,82 @@ export class JiraCredentialRepository {
     return result;
   }
 
+  /**
+   * Registra a falha de renovação do accessToken (exibida no /health até a
+   * próxima renovação bem-sucedida).
+   *
+   * @param userId Identificador do usuário/instalação.
+   * @param error  Mensagem de erro da renovação.
+   */
+  async markRefreshFailed(userId: string, error: string): Promise<void> {
+    this.logger.warn(`markRefreshFailed chamado para userId="${userId}"`);
+    await this.recordRefreshFailure(userId, {
+      refreshFailedAt: new Date(),
+      refreshError: error,
+    });
+  }
+
+  /**
+   * Marca a credencial como "reauth_required": o refresh token foi recusado e
+   * só uma nova autorização OAuth (upsertCredentials) a reativa.
+   */
+  async markReauthRequired(userId: string, error: string): Promise<void> {
+    this.logger.warn(`markReauthRequired chamado para userId="${userId}"`);
+    await this.recordRefreshFailure(userId, {
+      status: 'reauth_required',
+      refreshFailedAt: new Date(),
+      refreshError: error,
+    });
+  }
+
+  /**
+   * Altera o site padrão (cloudId) usado pelas consultas que não indicam um site.
+   *
+   * @param userId  Identificador do usuário/instalação.
+   * @param cloudId cloudId de um dos sites ativos da credencial.
+   */
+  async updateCloudId(userId: string, cloudId: string): Promise<void> {
+    this.logger.log(
+      `updateCloudId chamado para userId="${userId}", cloudId="${cloudId}"`,
+    );
+    await this.repo.update({ userId }, { cloudId });
+  }
+
+  /**
+   * (Re)cifra os tokens gravados com a chave ativa.
+   *
+   * @param onlyPlaintext Se true, altera apenas tokens ainda em texto puro
+   *                      (migração no startup); senão, também os cifrados com
+   *                      uma versão de chave antiga (rotação).
+   * @returns Quantidade de credenciais alteradas.
+   */
+  async reencryptTokens(onlyPlaintext: boolean): Promise<number> {
+    this.logger.log(`reencryptTokens chamado (onlyPlaintext=${onlyPlaintext})`);
+    const pending = (value: string) =>
+      onlyPlaintext
+        ? !this.cipher.isEncrypted(value)
+        : this.cipher.needsReencrypt(value);
+
+    let updated = 0;
+    for (const cred of await this.repo.find()) {
+      if (!pending(cred.accessToken) && !pending(cred.refreshToken)) continue;
+      await this.repo.update(
+        { id: cred.id },
+        {
+          accessToken: this.cipher.encrypt(
+            this.cipher.decrypt(cred.accessToken),
+          ),
+          refreshToken: this.cipher.encrypt(
+            this.cipher.decrypt(cred.refreshToken),
+          ),
+        },
+      );
+      updated++;
+    }
+    this.logger.log(`reencryptTokens concluído. Affected: ${updated}`);
+    return updated;
+  }
+
   /**
    * Remove credenciais associadas a um determinado userId.
    * Pode ser usado em um endpoint de logout ou revogação.
@@ -153,4 +358,32 @@ export class JiraCredentialRepository {
     await this.repo.delete({ userId });
     this.logger.log(`Credenciais removidas para userId="${userId}".`); // ▶️ log de sucesso
   }
+
+  /**
+   * Troca, na própria entidade, os tokens cifrados pelos valores em texto puro.
+   */
+  /**
+   * Grava os dados da falha e soma 1 a refreshFailureCount na mesma transação
+   * (increment gera o SQL de cada banco, sem expressão crua).
+   */
+  private async recordRefreshFailure(
+    userId: string,
+    changes: Partial<JiraCredentialEntity>,
+  ): Promise<void> {
+    await this.repo.manager.transaction(async (manager) => {
+      await manager.update(JiraCredentialEntity, { userId }, changes);
+      await manager.increment(
+        JiraCredentialEntity,
+        { userId },
+        'refreshFailureCount',
+        1,
+      );
+    });
+  }
+
+  private decryptTokens(cred: JiraCredentialEntity): JiraCredentialEntity {
+    cred.accessToken = this.cipher.decrypt(cred.accessToken);
+    cred.refreshToken = this.cipher.decrypt(cred.refreshToken);
+    return cred;
+  }
 }
@@ -0,0 +1,103 @@
+// src/infra/repositories/jira/jira-site.repository.ts
+
+import { JiraSiteEntity } from '@domain/entities/jira-site.entity';
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { In, Repository } from 'typeorm';
+
+/**
+ * Repositório responsável pela tabela jira_sites. Aqui concentramos:
+ *   - sincronização dos sites de uma credencial com o accessible-resources
+ *   - busca dos sites de uma credencial
+ *   - seleção dos sites ativos
+ */
+@Injectable()
+export class JiraSiteRepository {
+  private readonly logger = new Logger(JiraSiteRepository.name);
+
+  constructor(
+    @InjectRepository(JiraSiteEntity)
+    private readonly repo: Repository<JiraSiteEntity>,
+  ) {}
+
+  /**
+   * Substitui os sites de uma credencial pelos recebidos do Jira:
+   *  - sites que não vieram mais são removidos;
+   *  - sites já conhecidos mantêm a seleção (active) anterior;
+   *  - se nenhum site ficar ativo, o primeiro da lista é ativado.
+   *
+   * @returns Os sites da credencial após a sincronização.
+   */
+  async replaceSites(
+    credentialId: string,
+    sites: Array<
+      Pick<JiraSiteEntity, 'cloudId' | 'name' | 'url' | 'scopes' | 'avatarUrl'>
+    >,
+  ): Promise<JiraSiteEntity[]> {
+    this.logger.log(
+      `replaceSites chamado para credentialId="${credentialId}" com ${sites.length} site(s)`,
+    );
+    return this.repo.manager.transaction(async (manager) => {
+      const repo = manager.getRepository(JiraSiteEntity);
+      const existing = await repo.find({ where: { credentialId } });
+      const byCloudId = new Map(existing.map((site) => [site.cloudId, site]));
+      const received = new Set(sites.map((site) => site.cloudId));
+
+      const stale = existing.filter((site) => !received.has(site.cloudId));
+      if (stale.length > 0) {
+        await repo.remove(stale);
+      }
+
+      const merged = sites.map((site) =>
+        repo.create({
+          ...byCloudId.get(site.cloudId),
+          ...site,
+          credentialId,
+          active: byCloudId.get(site.cloudId)?.active ?? false,
+        }),
+      );
+      if (merged.length > 0 && !merged.some((site) => site.active)) {
+        merged[0].active = true;
+      }
+      return repo.save(merged);
+    });
+  }
+
+  async findByCredential(credentialId: string): Promise<JiraSiteEntity[]> {
+    return this.repo.find({
+      where: { credentialId },
+      order: { name: 'ASC' },
+    });
+  }
+
+  async findByCloudId(
+    credentialId: string,
+    cloudId: string,
+  ): Promise<JiraSiteEntity | null> {
+    return this.repo.findOne({ where: { credentialId, cloudId } });
+  }
+
+  /**
+   * Marca como ativos exatamente os sites informados da credencial.
+   *
+   * @returns Os sites da credencial após a alteração.
+   */
+  async setActive(
+    credentialId: string,
+    cloudIds: string[],
+  ): Promise<JiraSiteEntity[]> {
+    this.logger.log(
+      `setActive chamado para credentialId="${credentialId}": ${cloudIds.join(', ')}`,
+    );
+    await this.repo.manager.transaction(async (manager) => {
+      await manager.update(JiraSiteEntity, { credentialId }, { active: false });
+      await manager.update(
+        JiraSiteEntity,
+        { credentialId, cloudId: In(cloudIds) },
+        { active: true },
+      );
+    });
+    return this.findByCredential(credentialId);
+  }
+}
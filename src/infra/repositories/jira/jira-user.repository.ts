@@ -0,0 +1,43 @@
+// src/infra/repositories/jira/jira-user.repository.ts
+
+import { JiraUserEntity } from '@domain/entities/jira-user.entity';
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { Repository } from 'typeorm';
+
+/**
+ * Repositório responsável pela tabela jira_users (identidade Atlassian de
+ * cada usuário conectado).
+ */
+@Injectable()
+export class JiraUserRepository {
+  private readonly logger = new Logger(JiraUserRepository.name);
+
+  constructor(
+    @InjectRepository(JiraUserEntity)
+    private readonly repo: Repository<JiraUserEntity>,
+  ) {}
+
+  /**
+   * Cria ou atualiza o usuário pelo accountId, registrando o login.
+   */
+  async upsertUser(
+    params: Pick<
+      JiraUserEntity,
+      'accountId' | 'displayName' | 'email' | 'avatarUrl'
+    >,
+  ): Promise<JiraUserEntity> {
+    this.logger.log(`upsertUser chamado para accountId="${params.accountId}"`);
+    const existing = await this.repo.findOne({
+      where: { accountId: params.accountId },
+    });
+    return this.repo.save(
+      this.repo.create({ ...existing, ...params, lastLoginAt: new Date() }),
+    );
+  }
+
+  async findByAccountId(accountId: string): Promise<JiraUserEntity | null> {
+    return this.repo.findOne({ where: { accountId } });
+  }
+}
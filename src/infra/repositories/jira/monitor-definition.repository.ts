@@ -0,0 +1,87 @@
+// src/infra/repositories/jira/monitor-definition.repository.ts
+
+import { MonitorDefinitionEntity } from '@domain/entities/monitor-definition.entity';
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { Repository } from 'typeorm';
+
+/**
+ * Repositório responsável pelas operações de CRUD na tabela monitor_definitions.
+ */
+@Injectable()
+export class MonitorDefinitionRepository {
+  private readonly logger = new Logger(MonitorDefinitionRepository.name);
+
+  constructor(
+    @InjectRepository(MonitorDefinitionEntity)
+    private readonly repo: Repository<MonitorDefinitionEntity>,
+  ) {}
+
+  async create(
+    params: Omit<MonitorDefinitionEntity, 'id' | 'createdAt' | 'updatedAt'>,
+  ): Promise<MonitorDefinitionEntity> {
+    this.logger.log(`create chamado para monitor "${params.name}"`);
+    return this.repo.save(this.repo.create(params));
+  }
+
+  async findAll(): Promise<MonitorDefinitionEntity[]> {
+    return this.repo.find({ order: { createdAt: 'ASC' } });
+  }
+
+  async findEnabled(): Promise<MonitorDefinitionEntity[]> {
+    return this.repo.find({
+      where: { enabled: true },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async findById(id: string): Promise<MonitorDefinitionEntity | null> {
+    return this.repo.findOne({ where: { id } });
+  }
+
+  async findByUser(userId: string): Promise<MonitorDefinitionEntity[]> {
+    return this.repo.find({
+      where: { userId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async findEnabledByUser(userId: string): Promise<MonitorDefinitionEntity[]> {
+    return this.repo.find({
+      where: { userId, enabled: true },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async findByName(name: string): Promise<MonitorDefinitionEntity | null> {
+    return this.repo.findOne({ where: { name } });
+  }
+
+  /**
+   * Atualiza apenas os campos informados de um monitor.
+   *
+   * @returns O monitor atualizado ou null se não existir.
+   */
+  async update(
+    id: string,
+    changes: Partial<MonitorDefinitionEntity>,
+  ): Promise<MonitorDefinitionEntity | null> {
+    this.logger.log(`update chamado para id="${id}"`);
+    const existing = await this.findById(id);
+    if (!existing) {
+      return null;
+    }
+    Object.assign(existing, changes);
+    return this.repo.save(existing);
+  }
+
+  /**
+   * @returns true se algum registro foi removido.
+   */
+  async delete(id: string): Promise<boolean> {
+    this.logger.log(`delete chamado para id="${id}"`);
+    const result = await this.repo.delete({ id });
+    return (result.affected ?? 0) > 0;
+  }
+}
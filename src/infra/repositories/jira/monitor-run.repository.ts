@@ -0,0 +1,92 @@
+// src/infra/repositories/jira/monitor-run.repository.ts
+
+import {
+  MonitorRunEntity,
+  MonitorRunOutcome,
+  MonitorRunTrigger,
+} from '@domain/entities/monitor-run.entity';
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import {
+  Between,
+  FindOptionsWhere,
+  LessThanOrEqual,
+  MoreThanOrEqual,
+  Repository,
+} from 'typeorm';
+
+/**
+ * Filtros da listagem de execuções (todos opcionais).
+ *
+ * @property from Início mínimo (startedAt >= from).
+ * @property to   Início máximo (startedAt <= to).
+ */
+export interface MonitorRunFilters {
+  monitorId?: string;
+  userId?: string;
+  outcome?: MonitorRunOutcome;
+  trigger?: MonitorRunTrigger;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Repositório responsável pelo log de execuções de monitores (tabela monitor_runs).
+ */
+@Injectable()
+export class MonitorRunRepository {
+  private readonly logger = new Logger(MonitorRunRepository.name);
+
+  constructor(
+    @InjectRepository(MonitorRunEntity)
+    private readonly repo: Repository<MonitorRunEntity>,
+  ) {}
+
+  async create(
+    params: Omit<MonitorRunEntity, 'id'>,
+  ): Promise<MonitorRunEntity> {
+    this.logger.log(
+      `create chamado para monitorId="${params.monitorId}" (${params.outcome})`,
+    );
+    return this.repo.save(this.repo.create(params));
+  }
+
+  /**
+   * Execução mais recente do monitor (de qualquer instância), ou null.
+   */
+  async findLatest(monitorId: string): Promise<MonitorRunEntity | null> {
+    return this.repo.findOne({
+      where: { monitorId },
+      order: { startedAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Página de execuções, da mais recente para a mais antiga.
+   *
+   * @returns As execuções da página e o total que atende aos filtros.
+   */
+  async findPage(
+    filters: MonitorRunFilters,
+    offset: number,
+    limit: number,
+  ): Promise<[MonitorRunEntity[], number]> {
+    const { from, to, ...fields } = filters;
+    const where: FindOptionsWhere<MonitorRunEntity> = { ...fields };
+    if (from && to) {
+      where.startedAt = Between(from, to);
+    } else if (from) {
+      where.startedAt = MoreThanOrEqual(from);
+    } else if (to) {
+      where.startedAt = LessThanOrEqual(to);
+    }
+
+    return this.repo.findAndCount({
+      where,
+      order: { startedAt: 'DESC' },
+      skip: offset,
+      take: limit,
+    });
+  }
+}
@@ -0,0 +1,72 @@
+// src/infra/repositories/jira/sla-rule.repository.ts
+
+import { SlaRuleEntity } from '@domain/entities/sla-rule.entity';
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { Repository } from 'typeorm';
+
+/**
+ * Repositório responsável pelas operações de CRUD na tabela sla_rules.
+ */
+@Injectable()
+export class SlaRuleRepository {
+  private readonly logger = new Logger(SlaRuleRepository.name);
+
+  constructor(
+    @InjectRepository(SlaRuleEntity)
+    private readonly repo: Repository<SlaRuleEntity>,
+  ) {}
+
+  async create(
+    params: Omit<SlaRuleEntity, 'id' | 'createdAt' | 'updatedAt'>,
+  ): Promise<SlaRuleEntity> {
+    this.logger.log(`create chamado para regra "${params.name}"`);
+    return this.repo.save(this.repo.create(params));
+  }
+
+  /**
+   * Lista as regras na ordem de criação (a ordem desempata regras do mesmo estado).
+   */
+  async findAll(): Promise<SlaRuleEntity[]> {
+    return this.repo.find({ order: { createdAt: 'ASC' } });
+  }
+
+  async findEnabled(): Promise<SlaRuleEntity[]> {
+    return this.repo.find({
+      where: { enabled: true },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async findById(id: string): Promise<SlaRuleEntity | null> {
+    return this.repo.findOne({ where: { id } });
+  }
+
+  /**
+   * Atualiza apenas os campos informados de uma regra.
+   *
+   * @returns A regra atualizada ou null se não existir.
+   */
+  async update(
+    id: string,
+    changes: Partial<SlaRuleEntity>,
+  ): Promise<SlaRuleEntity | null> {
+    this.logger.log(`update chamado para id="${id}"`);
+    const existing = await this.findById(id);
+    if (!existing) {
+      return null;
+    }
+    Object.assign(existing, changes);
+    return this.repo.save(existing);
+  }
+
+  /**
+   * @returns true se algum registro foi removido.
+   */
+  async delete(id: string): Promise<boolean> {
+    this.logger.log(`delete chamado para id="${id}"`);
+    const result = await this.repo.delete({ id });
+    return (result.affected ?? 0) > 0;
+  }
+}
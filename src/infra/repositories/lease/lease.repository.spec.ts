@@ -0,0 +1,97 @@
+// src/infra/repositories/lease/lease.repository.spec.ts
+
+import { Logger } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+
+import { LeaseEntity } from '@domain/entities/lease.entity';
+import { LeaseRepository } from './lease.repository';
+
+describe('LeaseRepository', () => {
+  let dataSource: DataSource;
+  let leaseRepo: LeaseRepository;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    dataSource = new DataSource({
+      type: 'sqlite',
+      database: ':memory:',
+      entities: [LeaseEntity],
+      synchronize: true,
+    });
+    await dataSource.initialize();
+    leaseRepo = new LeaseRepository(dataSource.getRepository(LeaseEntity));
+  });
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  function findLease(name: string): Promise<LeaseEntity | null> {
+    return dataSource.getRepository(LeaseEntity).findOneBy({ name });
+  }
+
+  it('cria o lease inexistente', async () => {
+    await expect(leaseRepo.tryAcquire('tarefa', 'a', 60_000)).resolves.toBe(
+      true,
+    );
+
+    const lease = await findLease('tarefa');
+    expect(lease?.owner).toBe('a');
+    expect(lease!.expiresAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('recusa o lease ainda válido de outro dono', async () => {
+    await leaseRepo.tryAcquire('tarefa', 'a', 60_000);
+
+    await expect(leaseRepo.tryAcquire('tarefa', 'b', 60_000)).resolves.toBe(
+      false,
+    );
+    expect((await findLease('tarefa'))?.owner).toBe('a');
+  });
+
+  it('assume o lease vencido', async () => {
+    await dataSource.getRepository(LeaseEntity).insert({
+      name: 'tarefa',
+      owner: 'a',
+      acquiredAt: new Date(Date.now() - 120_000),
+      expiresAt: new Date(Date.now() - 60_000),
+    });
+
+    await expect(leaseRepo.tryAcquire('tarefa', 'b', 60_000)).resolves.toBe(
+      true,
+    );
+    expect((await findLease('tarefa'))?.owner).toBe('b');
+  });
+
+  it('só deixa o dono atual renovar e liberar', async () => {
+    await dataSource.getRepository(LeaseEntity).insert({
+      name: 'tarefa',
+      owner: 'a',
+      acquiredAt: new Date(Date.now() - 120_000),
+      expiresAt: new Date(Date.now() - 60_000),
+    });
+    await leaseRepo.tryAcquire('tarefa', 'b', 60_000);
+
+    // 1) O dono anterior perdeu o lease: não renova nem libera
+    await expect(leaseRepo.renew('tarefa', 'a', 60_000)).resolves.toBe(false);
+    await leaseRepo.release('tarefa', 'a');
+    expect((await findLease('tarefa'))?.owner).toBe('b');
+
+    // 2) O dono atual renova e libera
+    await expect(leaseRepo.renew('tarefa', 'b', 60_000)).resolves.toBe(true);
+    await leaseRepo.release('tarefa', 'b');
+    expect(await findLease('tarefa')).toBeNull();
+  });
+
+  it('permite obter de novo o lease liberado', async () => {
+    await leaseRepo.tryAcquire('tarefa', 'a', 60_000);
+    await leaseRepo.release('tarefa', 'a');
+
+    await expect(leaseRepo.tryAcquire('tarefa', 'b', 60_000)).resolves.toBe(
+      true,
+    );
+  });
+});
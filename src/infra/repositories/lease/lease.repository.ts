@@ -0,0 +1,80 @@
+// src/infra/repositories/lease/lease.repository.ts
+
+import { LeaseEntity } from '@domain/entities/lease.entity';
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { LessThan, Repository } from 'typeorm';
+
+/**
+ * Repositório dos leases (tabela leases). Só usa UPDATE/INSERT/DELETE
+ * condicionais, atômicos em qualquer banco suportado pelo TypeORM: a
+ * disputa é decidida pelo próprio banco (linhas afetadas ou chave primária
+ * duplicada), sem SELECT ... FOR UPDATE.
+ */
+@Injectable()
+export class LeaseRepository {
+  private readonly logger = new Logger(LeaseRepository.name);
+
+  constructor(
+    @InjectRepository(LeaseEntity)
+    private readonly repo: Repository<LeaseEntity>,
+  ) {}
+
+  /**
+   * Tenta obter o lease: assume um lease vencido ou cria o lease inexistente.
+   *
+   * @returns true se o lease foi obtido por `owner`.
+   */
+  async tryAcquire(
+    name: string,
+    owner: string,
+    ttlMs: number,
+  ): Promise<boolean> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlMs);
+
+    // 1) Lease vencido: assume no lugar do dono anterior
+    const result = await this.repo.update(
+      { name, expiresAt: LessThan(now) },
+      { owner, acquiredAt: now, expiresAt },
+    );
+    if (result.affected === 1) {
+      this.logger.debug(`Lease "${name}" vencido assumido por "${owner}".`);
+      return true;
+    }
+
+    // 2) Lease inexistente: cria; com outra instância na frente, a chave
+    //    primária duplicada faz o INSERT falhar
+    try {
+      await this.repo.insert({ name, owner, acquiredAt: now, expiresAt });
+      this.logger.debug(`Lease "${name}" obtido por "${owner}".`);
+      return true;
+    } catch (error) {
+      if (await this.repo.exists({ where: { name } })) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Estende a validade do lease, se ainda pertencer a `owner`.
+   *
+   * @returns false se o lease venceu e foi assumido (ou liberado).
+   */
+  async renew(name: string, owner: string, ttlMs: number): Promise<boolean> {
+    const result = await this.repo.update(
+      { name, owner },
+      { expiresAt: new Date(Date.now() + ttlMs) },
+    );
+    return result.affected === 1;
+  }
+
+  /**
+   * Libera o lease, se ainda pertencer a `owner`.
+   */
+  async release(name: string, owner: string): Promise<void> {
+    await this.repo.delete({ name, owner });
+  }
+}
@@ -0,0 +1,66 @@
+// src/infra/repositories/notifications/chat-channel.repository.ts
+
+import { ChatChannelEntity } from '@domain/entities/chat-channel.entity';
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { Repository } from 'typeorm';
+
+/**
+ * Repositório responsável pelas operações de CRUD na tabela chat_channels.
+ */
+@Injectable()
+export class ChatChannelRepository {
+  private readonly logger = new Logger(ChatChannelRepository.name);
+
+  constructor(
+    @InjectRepository(ChatChannelEntity)
+    private readonly repo: Repository<ChatChannelEntity>,
+  ) {}
+
+  async create(
+    params: Omit<ChatChannelEntity, 'id' | 'createdAt' | 'updatedAt'>,
+  ): Promise<ChatChannelEntity> {
+    this.logger.log(`create chamado para canal "${params.name}"`);
+    return this.repo.save(this.repo.create(params));
+  }
+
+  async findAll(): Promise<ChatChannelEntity[]> {
+    return this.repo.find({ order: { createdAt: 'ASC' } });
+  }
+
+  async findEnabled(): Promise<ChatChannelEntity[]> {
+    return this.repo.find({ where: { enabled: true } });
+  }
+
+  async findById(id: string): Promise<ChatChannelEntity | null> {
+    return this.repo.findOne({ where: { id } });
+  }
+
+  /**
+   * Atualiza apenas os campos informados de um canal.
+   *
+   * @returns O canal atualizado ou null se não existir.
+   */
+  async update(
+    id: string,
+    changes: Partial<ChatChannelEntity>,
+  ): Promise<ChatChannelEntity | null> {
+    this.logger.log(`update chamado para id="${id}"`);
+    const existing = await this.findById(id);
+    if (!existing) {
+      return null;
+    }
+    Object.assign(existing, changes);
+    return this.repo.save(existing);
+  }
+
+  /**
+   * @returns true se algum registro foi removido.
+   */
+  async delete(id: string): Promise<boolean> {
+    this.logger.log(`delete chamado para id="${id}"`);
+    const result = await this.repo.delete({ id });
+    return (result.affected ?? 0) > 0;
+  }
+}
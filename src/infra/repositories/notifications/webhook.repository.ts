@@ -0,0 +1,218 @@
+// src/infra/repositories/notifications/webhook.repository.ts
+
+import { WebhookTargetEntity } from '@domain/entities/webhook-target.entity';
+import {
+  WebhookDeliveryEntity,
+  WebhookDeliveryStatus,
+} from '@domain/entities/webhook-delivery.entity';
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { TokenCipherService } from '@infra/crypto/token-cipher.service';
+
+import { LessThan, Repository } from 'typeorm';
+
+/**
+ * Repositório responsável pelas tabelas webhook_targets e webhook_deliveries.
+ * Aqui concentramos:
+ *   - CRUD de destinos de webhook (segredo HMAC cifrado com TokenCipherService)
+ *   - criação e atualização do log de entregas
+ *   - recuperação das entregas interrompidas por um reinício
+ */
+@Injectable()
+export class WebhookRepository {
+  private readonly logger = new Logger(WebhookRepository.name);
+
+  constructor(
+    @InjectRepository(WebhookTargetEntity)
+    private readonly targetRepo: Repository<WebhookTargetEntity>,
+    @InjectRepository(WebhookDeliveryEntity)
+    private readonly deliveryRepo: Repository<WebhookDeliveryEntity>,
+    private readonly cipher: TokenCipherService,
+  ) {}
+
+  async createTarget(params: {
+    url: string;
+    secret: string | null;
+    eventTypes: string[];
+    enabled: boolean;
+  }): Promise<WebhookTargetEntity> {
+    this.logger.log(`createTarget chamado para url="${params.url}"`);
+    const target = await this.targetRepo.save(
+      this.targetRepo.create({
+        ...params,
+        secret: this.encryptSecret(params.secret),
+      }),
+    );
+    return this.decryptSecret(target);
+  }
+
+  async findAllTargets(): Promise<WebhookTargetEntity[]> {
+    const targets = await this.targetRepo.find({ order: { createdAt: 'ASC' } });
+    return targets.map((target) => this.decryptSecret(target));
+  }
+
+  async findEnabledTargets(): Promise<WebhookTargetEntity[]> {
+    const targets = await this.targetRepo.find({ where: { enabled: true } });
+    return targets.map((target) => this.decryptSecret(target));
+  }
+
+  async findTargetById(id: string): Promise<WebhookTargetEntity | null> {
+    const target = await this.targetRepo.findOne({ where: { id } });
+    return target ? this.decryptSecret(target) : null;
+  }
+
+  /**
+   * Atualiza apenas os campos informados de um destino.
+   *
+   * @returns O destino atualizado ou null se não existir.
+   */
+  async updateTarget(
+    id: string,
+    changes: Partial<
+      Pick<WebhookTargetEntity, 'url' | 'secret' | 'eventTypes' | 'enabled'>
+    >,
+  ): Promise<WebhookTargetEntity | null> {
+    this.logger.log(`updateTarget chamado para id="${id}"`);
+    const existing = await this.findTargetById(id);
+    if (!existing) {
+      return null;
+    }
+    Object.assign(existing, changes);
+    existing.secret = this.encryptSecret(existing.secret);
+    return this.decryptSecret(await this.targetRepo.save(existing));
+  }
+
+  /**
+   * (Re)cifra os segredos HMAC com a chave ativa.
+   *
+   * @param onlyPlaintext Se true, altera apenas segredos ainda em texto puro
+   *                      (migração no startup); senão, também os cifrados com
+   *                      uma versão de chave antiga (rotação).
+   * @returns Quantidade de destinos alterados.
+   */
+  async reencryptSecrets(onlyPlaintext: boolean): Promise<number> {
+    this.logger.log(
+      `reencryptSecrets chamado (onlyPlaintext=${onlyPlaintext})`,
+    );
+    let updated = 0;
+    for (const target of await this.targetRepo.find()) {
+      if (!target.secret) continue;
+      const pending = onlyPlaintext
+        ? !this.cipher.isEncrypted(target.secret)
+        : this.cipher.needsReencrypt(target.secret);
+      if (!pending) continue;
+      await this.targetRepo.update(
+        { id: target.id },
+        { secret: this.cipher.encrypt(this.cipher.decrypt(target.secret)) },
+      );
+      updated++;
+    }
+    this.logger.log(`reencryptSecrets concluído. Affected: ${updated}`);
+    return updated;
+  }
+
+  /**
+   * Remove um destino (e, por cascade, o seu log de entregas).
+   *
+   * @returns true se algum registro foi removido.
+   */
+  async deleteTarget(id: string): Promise<boolean> {
+    this.logger.log(`deleteTarget chamado para id="${id}"`);
+    const result = await this.targetRepo.delete({ id });
+    return (result.affected ?? 0) > 0;
+  }
+
+  async createDelivery(params: {
+    targetId: string;
+    eventName: string;
+    payload: Record<string, any>;
+  }): Promise<WebhookDeliveryEntity> {
+    return this.deliveryRepo.save(this.deliveryRepo.create(params));
+  }
+
+  async saveDelivery(
+    delivery: WebhookDeliveryEntity,
+  ): Promise<WebhookDeliveryEntity> {
+    return this.deliveryRepo.save(delivery);
+  }
+
+  async findDeliveryById(id: string): Promise<WebhookDeliveryEntity | null> {
+    const delivery = await this.deliveryRepo.findOne({
+      where: { id },
+      relations: { target: true },
+    });
+    if (delivery?.target) {
+      this.decryptSecret(delivery.target);
+    }
+    return delivery;
+  }
+
+  /**
+   * Lista as entregas mais recentes de um destino, opcionalmente filtrando por status.
+   */
+  async findDeliveriesByTarget(
+    targetId: string,
+    status?: WebhookDeliveryStatus,
+    limit = 50,
+  ): Promise<WebhookDeliveryEntity[]> {
+    return this.deliveryRepo.find({
+      where: status ? { targetId, status } : { targetId },
+      order: { createdAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Assume as entregas "pending" sem atualização desde `staleBefore` (o
+   * processo que as enviava parou no meio do ciclo de tentativas). Cada
+   * entrega é assumida por um UPDATE condicional, para que só uma instância
+   * a retome.
+   *
+   * @returns As entregas assumidas, com o destino (segredo já decifrado).
+   */
+  async claimStaleDeliveries(
+    staleBefore: Date,
+  ): Promise<WebhookDeliveryEntity[]> {
+    const stale = await this.deliveryRepo.find({
+      where: { status: 'pending', updatedAt: LessThan(staleBefore) },
+      relations: { target: true },
+      order: { createdAt: 'ASC' },
+    });
+    const claimed: WebhookDeliveryEntity[] = [];
+    for (const delivery of stale) {
+      const result = await this.deliveryRepo.update(
+        {
+          id: delivery.id,
+          status: 'pending',
+          updatedAt: LessThan(staleBefore),
+        },
+        { updatedAt: new Date() },
+      );
+      if (result.affected === 1) {
+        this.decryptSecret(delivery.target);
+        claimed.push(delivery);
+      }
+    }
+    this.logger.log(
+      `claimStaleDeliveries concluído. Assumidas: ${claimed.length}`,
+    );
+    return claimed;
+  }
+
+  /**
+   * Cifra o segredo antes de gravar (sem segredo, grava null).
+   */
+  private encryptSecret(secret: string | null): string | null {
+    return secret ? this.cipher.encrypt(secret) : null;
+  }
+
+  /**
+   * Troca, na própria entidade, o segredo cifrado pelo valor em texto puro.
+   */
+  private decryptSecret(target: WebhookTargetEntity): WebhookTargetEntity {
+    if (target.secret) {
+      target.secret = this.cipher.decrypt(target.secret);
+    }
+    return target;
+  }
+}
@@ -62,7 +62,9 @@ async function bootstrap() {
     .setTitle('Jira Monitor API')
     .setDescription('API para monitorar filas do Jira via OAuth 2.0 (3LO)')
     .setVersion('1.0.0')
-    // .addBearerAuth(...)  // Se você for usar autenticação via Bearer dentro do Swagger
+    // Chave de API (x-api-key) exigida pelo ApiAuthGuard; a sessão do OAuth também vale
+    .addApiKey({ type: 'apiKey', in: 'header', name: 'x-api-key' }, 'api-key')
+    .addSecurityRequirements('api-key')
     .build();
 
   // 2.3.2.2) Cria o documento OpenAPI, varrendo todos os controllers anotados
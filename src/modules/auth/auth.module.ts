@@ -1,25 +1,75 @@
 // src/modules/auth/auth.module.ts
 
 import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { HttpModule } from '@nestjs/axios'; // <-- importa o HttpModule aqui
-import { JiraCredentialEntity } from '@domain/entities/jira-credential.entity';
+import { JiraSiteEntity } from '@domain/entities/jira-site.entity';
+import { JiraUserEntity } from '@domain/entities/jira-user.entity';
+import { ApiKeyEntity } from '@domain/entities/api-key.entity';
 import { JiraAuthController } from '@adapters/controllers/auth/jira-auth.controller';
 import { OauthCallbackController } from '@adapters/controllers/auth/oauth-callback.controller';
-import { AuthService } from '@app/services/auth/auth.service';
-import { JiraCredentialRepository } from '@infra/repositories/jira/jira-credential.repository';
+import { JiraSiteController } from '@adapters/controllers/auth/jira-site.controller';
+import { ApiKeyController } from '@adapters/controllers/auth/api-key.controller';
+import { JiraCredentialController } from '@adapters/controllers/auth/jira-credential.controller';
+import { JiraTokenRefreshController } from '@adapters/controllers/auth/jira-token-refresh.controller';
+import { JiraCredentialAdminController } from '@adapters/controllers/auth/jira-credential-admin.controller';
+import { ApiAuthGuard } from '@adapters/guards/api-auth.guard';
+import { JiraSiteService } from '@app/services/auth/jira-site.service';
+import { LogoutService } from '@app/services/auth/logout.service';
+import { ApiKeyService } from '@app/services/auth/api-key.service';
+import { JiraTokenCredentialService } from '@app/services/auth/jira-token-credential.service';
+import { CredentialAdminService } from '@app/services/auth/credential-admin.service';
+import { TokenEncryptionService } from '@app/services/auth/token-encryption.service';
+import { JiraSiteRepository } from '@infra/repositories/jira/jira-site.repository';
+import { JiraUserRepository } from '@infra/repositories/jira/jira-user.repository';
+import { ApiKeyRepository } from '@infra/repositories/auth/api-key.repository';
+import { JiraModule } from '@modules/jira/jira.module';
+import { CredentialsModule } from '@modules/credentials/credentials.module';
 
 @Module({
   imports: [
-    // 1) Garante que HttpService seja fornecido no contexto deste módulo
-    HttpModule,
+    // 1) Registra as entidades para que os Repository<...> existam
+    TypeOrmModule.forFeature([JiraSiteEntity, JiraUserEntity, ApiKeyEntity]),
 
-    // 2) Registra a entidade para que o Repository<JiraCredentialEntity> exista
-    TypeOrmModule.forFeature([JiraCredentialEntity]),
+    // 2) AuthService (callback do OAuth e renovação dos tokens),
+    //    MonitorDefinitionService (logout), JiraAuthStrategyResolver
+    //    (validação das credenciais por token), JiraHttpClient,
+    //    TokenRefreshSweeperService e MonitorDefinitionRepository (monitores
+    //    de cada credencial)
+    JiraModule,
+
+    // 3) TokenCipherService e JiraCredentialRepository
+    CredentialsModule,
+  ],
+  controllers: [
+    JiraAuthController,
+    OauthCallbackController,
+    JiraSiteController,
+    ApiKeyController,
+    JiraCredentialController,
+    JiraTokenRefreshController,
+    JiraCredentialAdminController,
+  ],
+  providers: [
+    JiraSiteService,
+    LogoutService,
+    ApiKeyService,
+    JiraTokenCredentialService,
+    CredentialAdminService,
+    TokenEncryptionService,
+    JiraSiteRepository,
+    JiraUserRepository,
+    ApiKeyRepository,
+
+    // 4) Guard global: toda rota exige sessão ou chave de API, salvo @Public()
+    { provide: APP_GUARD, useClass: ApiAuthGuard },
+  ],
+  exports: [
+    TokenEncryptionService,
+    CredentialsModule,
+    JiraSiteRepository,
+    JiraUserRepository,
   ],
-  controllers: [JiraAuthController, OauthCallbackController],
-  providers: [AuthService, JiraCredentialRepository],
-  exports: [AuthService, JiraCredentialRepository],
 })
 export class AuthModule {}
 
@@ -0,0 +1,22 @@
+// src/modules/credentials/credentials.module.ts
+
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { JiraCredentialEntity } from '@domain/entities/jira-credential.entity';
+import { TokenCipherService } from '@infra/crypto/token-cipher.service';
+import { JiraCredentialRepository } from '@infra/repositories/jira/jira-credential.repository';
+
+/**
+ * Módulo único da cifra de tokens e do repositório de credenciais, para que
+ * Jira, Auth e Notifications (e o script de re-cifragem) compartilhem as
+ * mesmas instâncias.
+ */
+@Module({
+  imports: [TypeOrmModule.forFeature([JiraCredentialEntity])],
+  providers: [
+    TokenCipherService, // Cifra/decifra tokens das credenciais e segredos HMAC
+    JiraCredentialRepository, // Repositório de credenciais
+  ],
+  exports: [TokenCipherService, JiraCredentialRepository],
+})
+export class CredentialsModule {}
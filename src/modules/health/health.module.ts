@@ -0,0 +1,18 @@
+// src/modules/health/health.module.ts
+
+import { Module } from '@nestjs/common';
+import { HealthController } from '@adapters/controllers/health/health.controller';
+import { HealthService } from '@app/services/health/health.service';
+import { JiraModule } from '@modules/jira/jira.module';
+
+@Module({
+  imports: [
+    // Credenciais, monitores, scheduler e cliente HTTP do Jira
+    JiraModule,
+  ],
+  controllers: [HealthController],
+  providers: [
+    HealthService, // Monta o relatório de /health e /ready
+  ],
+})
+export class HealthModule {}
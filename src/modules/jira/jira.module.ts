@@ -1,40 +1,125 @@
 // src/modules/jira/jira.module.ts
 
 import { Module } from '@nestjs/common';
+import { APP_FILTER } from '@nestjs/core';
 import { HttpModule } from '@nestjs/axios';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ScheduleModule } from '@nestjs/schedule';
 import { JiraMonitorController } from '@adapters/controllers/jira/jira-monitor.controller';
+import { JiraSlaRuleController } from '@adapters/controllers/jira/jira-sla-rule.controller';
+import { JiraMonitorDefinitionController } from '@adapters/controllers/jira/jira-monitor-definition.controller';
+import { JiraMonitorRunController } from '@adapters/controllers/jira/jira-monitor-run.controller';
+import { JiraApiExceptionFilter } from '@adapters/filters/jira-api-exception.filter';
 import { AuthService } from '@app/services/auth/auth.service';
+import { TokenRefreshSweeperService } from '@app/services/auth/token-refresh-sweeper.service';
+import { LeaseService } from '@app/services/lease/lease.service';
+import { OAuthStrategy } from '@app/services/auth/strategies/oauth.strategy';
+import { ApiTokenStrategy } from '@app/services/auth/strategies/api-token.strategy';
+import { PatStrategy } from '@app/services/auth/strategies/pat.strategy';
+import { JiraAuthStrategyResolver } from '@app/services/auth/strategies/jira-auth-strategy.resolver';
 import { JiraQueueMonitorService } from '@app/services/queue-monitor/jira-queue-monitor.service';
+import { MonitorDefinitionService } from '@app/services/queue-monitor/monitor-definition.service';
+import { MonitorSchedulerService } from '@app/services/queue-monitor/monitor-scheduler.service';
+import { MonitorRunService } from '@app/services/queue-monitor/monitor-run.service';
 import { ProcessIssuesUseCase } from '@app/usecases/jira/process-issues.usecase';
-import { JiraCredentialEntity } from '@domain/entities/jira-credential.entity';
-import { JiraCredentialRepository } from '@infra/repositories/jira/jira-credential.repository';
+import { DetectIssueChangesUseCase } from '@app/usecases/jira/detect-issue-changes.usecase';
+import { EvaluateSlaUseCase } from '@app/usecases/jira/evaluate-sla.usecase';
+import { SlaRuleService } from '@app/services/sla/sla-rule.service';
+import { JiraSiteEntity } from '@domain/entities/jira-site.entity';
+import { JiraUserEntity } from '@domain/entities/jira-user.entity';
+import { JiraPollRunEntity } from '@domain/entities/jira-poll-run.entity';
+import { JiraIssueSnapshotEntity } from '@domain/entities/jira-issue-snapshot.entity';
+import { SlaRuleEntity } from '@domain/entities/sla-rule.entity';
+import { MonitorDefinitionEntity } from '@domain/entities/monitor-definition.entity';
+import { MonitorRunEntity } from '@domain/entities/monitor-run.entity';
+import { LeaseEntity } from '@domain/entities/lease.entity';
+import { JiraHttpClient } from '@infra/http/jira-http.client';
+import { JiraCallTracker } from '@infra/http/jira-call-tracker';
+import { JiraFixtureStore } from '@infra/fixtures/jira-fixture.store';
+import { JiraSiteRepository } from '@infra/repositories/jira/jira-site.repository';
+import { JiraUserRepository } from '@infra/repositories/jira/jira-user.repository';
+import { IssueSnapshotRepository } from '@infra/repositories/jira/issue-snapshot.repository';
+import { SlaRuleRepository } from '@infra/repositories/jira/sla-rule.repository';
+import { MonitorDefinitionRepository } from '@infra/repositories/jira/monitor-definition.repository';
+import { MonitorRunRepository } from '@infra/repositories/jira/monitor-run.repository';
+import { LeaseRepository } from '@infra/repositories/lease/lease.repository';
+import { CredentialsModule } from '@modules/credentials/credentials.module';
 
 @Module({
   imports: [
     // 1) Garante que HttpService seja disponibilizado
     HttpModule,
 
-    // 2) Registra a entidade para que o repository funcione
-    TypeOrmModule.forFeature([JiraCredentialEntity]),
+    // 2) Registra as entidades para que os repositories funcionem
+    TypeOrmModule.forFeature([
+      JiraSiteEntity,
+      JiraUserEntity,
+      JiraPollRunEntity,
+      JiraIssueSnapshotEntity,
+      SlaRuleEntity,
+      MonitorDefinitionEntity,
+      MonitorRunEntity,
+      LeaseEntity,
+    ]),
 
-    // 3) Habilita o ScheduleModule para que decoradores como @Interval funcionem
+    // 3) Habilita o ScheduleModule (SchedulerRegistry e decoradores como @Cron)
     ScheduleModule.forRoot(),
+
+    // 4) TokenCipherService e JiraCredentialRepository
+    CredentialsModule,
   ],
   controllers: [
     JiraMonitorController, // <-- adiciona o controller aqui
+    JiraSlaRuleController, // CRUD das regras de SLA
+    JiraMonitorDefinitionController, // CRUD dos monitores
+    JiraMonitorRunController, // Log de execuções dos monitores
   ],
   providers: [
-    // 4) Serviços e repositórios
-    JiraCredentialRepository, // Repositório de credenciais
+    // 5) Serviços e repositórios
+    JiraHttpClient, // Chamadas ao Jira com timeout, retry e orçamento por site
+    JiraCallTracker, // Conta as chamadas ao Jira de cada execução de monitor
+    JiraFixtureStore, // Respostas gravadas do Jira (JIRA_DATA_SOURCE)
+    JiraSiteRepository, // Repositório dos sites acessíveis por credencial
+    JiraUserRepository, // Repositório dos usuários Atlassian conectados
+    IssueSnapshotRepository, // Repositório do histórico de polls
+    SlaRuleRepository, // Repositório das regras de SLA
+    MonitorDefinitionRepository, // Repositório dos monitores
+    MonitorRunRepository, // Repositório do log de execuções
+    LeaseRepository, // Repositório dos leases entre instâncias
+    LeaseService, // Travas distribuídas (monitores, varredura e renovação de tokens)
     AuthService, // Serviço de autenticação (refresh, handleCallback)
+    TokenRefreshSweeperService, // Renovação periódica dos tokens OAuth
+    OAuthStrategy, // Autenticação OAuth 3LO (api.atlassian.com + Bearer)
+    ApiTokenStrategy, // Autenticação e-mail + API token (Basic Auth)
+    PatStrategy, // Autenticação por Personal Access Token
+    JiraAuthStrategyResolver, // Escolhe a estratégia pelo authType da credencial
     JiraQueueMonitorService, // Nosso service agendado
+    MonitorDefinitionService, // CRUD dos monitores
+    MonitorSchedulerService, // Jobs por monitor no SchedulerRegistry
+    MonitorRunService, // Grava e lista as execuções dos monitores
     ProcessIssuesUseCase, // UseCase para tratar o JSON de issues
+    DetectIssueChangesUseCase, // UseCase que gera os eventos de mudança entre polls
+    EvaluateSlaUseCase, // UseCase que aplica as regras de SLA às issues
+    SlaRuleService, // CRUD das regras de SLA
+
+    // 6) Converte os erros tipados do JiraHttpClient em respostas HTTP
+    { provide: APP_FILTER, useClass: JiraApiExceptionFilter },
   ],
   exports: [
     // Se outros módulos precisarem usar esse service ou usecase, exporte-os:
     JiraQueueMonitorService,
+    MonitorDefinitionService,
+    JiraAuthStrategyResolver,
+    JiraHttpClient,
+    JiraCallTracker,
+    JiraFixtureStore,
+    CredentialsModule,
+    MonitorDefinitionRepository,
+    MonitorRunRepository,
+    MonitorSchedulerService,
+    AuthService,
+    TokenRefreshSweeperService,
+    LeaseService,
     ProcessIssuesUseCase,
   ],
 })
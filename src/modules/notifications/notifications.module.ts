@@ -0,0 +1,59 @@
+// src/modules/notifications/notifications.module.ts
+
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { JiraWebhookController } from '@adapters/controllers/jira/jira-webhook.controller';
+import { JiraChatChannelController } from '@adapters/controllers/jira/jira-chat-channel.controller';
+import { JiraEmailController } from '@adapters/controllers/jira/jira-email.controller';
+import { WebhookNotificationService } from '@app/services/notifications/webhook-notification.service';
+import { ChatNotificationService } from '@app/services/notifications/chat-notification.service';
+import { ChatMessageFormatter } from '@app/services/notifications/chat-message.formatter';
+import { EmailNotificationService } from '@app/services/notifications/email-notification.service';
+import { EmailTemplateBuilder } from '@app/services/notifications/email-template.builder';
+import { BuildQueueDigestUseCase } from '@app/usecases/jira/build-queue-digest.usecase';
+import { WebhookTargetEntity } from '@domain/entities/webhook-target.entity';
+import { WebhookDeliveryEntity } from '@domain/entities/webhook-delivery.entity';
+import { ChatChannelEntity } from '@domain/entities/chat-channel.entity';
+import { WebhookRepository } from '@infra/repositories/notifications/webhook.repository';
+import { ChatChannelRepository } from '@infra/repositories/notifications/chat-channel.repository';
+import { SmtpMailerService } from '@infra/mail/smtp-mailer.service';
+import { JiraModule } from '@modules/jira/jira.module';
+import { CredentialsModule } from '@modules/credentials/credentials.module';
+
+@Module({
+  imports: [
+    // 1) HttpService para os POSTs de saída
+    HttpModule,
+
+    // 2) Registra as entidades de destinos, log de entregas e canais de chat
+    TypeOrmModule.forFeature([
+      WebhookTargetEntity,
+      WebhookDeliveryEntity,
+      ChatChannelEntity,
+    ]),
+
+    // 3) JiraQueueMonitorService, usado para montar resumos e digests da fila
+    JiraModule,
+
+    // 4) TokenCipherService, que cifra/decifra os segredos HMAC dos webhooks
+    CredentialsModule,
+  ],
+  controllers: [
+    JiraWebhookController,
+    JiraChatChannelController,
+    JiraEmailController,
+  ],
+  providers: [
+    WebhookRepository, // Destinos e log de entregas
+    WebhookNotificationService, // Assina "jira.issue.*" e entrega os webhooks
+    ChatChannelRepository, // Canais de chat (Slack/Teams)
+    ChatMessageFormatter, // Block Kit / Adaptive Card
+    ChatNotificationService, // Assina "jira.issue.*" e envia para os canais
+    SmtpMailerService, // Envio SMTP (nodemailer)
+    EmailTemplateBuilder, // HTML + texto dos alertas e digests
+    BuildQueueDigestUseCase, // Consolida o digest a partir do ProcessIssuesUseCase
+    EmailNotificationService, // Alertas por e-mail e cron do digest
+  ],
+})
+export class NotificationsModule {}